@@ -1,5 +1,11 @@
 import type { TaskRepositoryService, ListTasksFilters } from "@tashks/core/repository";
+import {
+	applyTaskFilters,
+	formatFilterExpressionError,
+	parseFilterExpression,
+} from "@tashks/core/query";
 import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
 import type { ToolDefinition, ToolResult } from "../types.js";
 import { toolError } from "../errors.js";
 
@@ -14,10 +20,16 @@ export interface ListParams {
 	all?: boolean;
 	unassigned?: boolean;
 	parent?: string;
+	where?: string;
 }
 
 async function execute(params: ListParams, repo: TaskRepositoryService): Promise<ToolResult> {
 	try {
+		const where = params.where ? parseFilterExpression(params.where) : undefined;
+		if (params.where && where && Either.isLeft(where)) {
+			return toolError(formatFilterExpressionError(params.where, where.left));
+		}
+
 		const filters: ListTasksFilters = {
 			...(!params.all && !params.status && { status: "active" }),
 			...(params.status && { status: params.status }),
@@ -27,15 +39,13 @@ async function execute(params: ListParams, repo: TaskRepositoryService): Promise
 			...(params.tags?.length && { tags: params.tags }),
 			...(params.unassigned && { unassigned: true }),
 			...(params.parent && { parent: params.parent }),
+			...(where && Either.isRight(where) && { where: where.right }),
 		};
 
 		let tasks = await Effect.runPromise(repo.listTasks(filters));
 
 		if (params.query) {
-			const q = params.query.toLowerCase();
-			tasks = tasks.filter(
-				(t) => t.title.toLowerCase().includes(q) || t.description.toLowerCase().includes(q),
-			);
+			tasks = applyTaskFilters(tasks, { query: params.query, include_templates: true });
 		}
 
 		if (params.limit) tasks = tasks.slice(0, params.limit);
@@ -56,11 +66,15 @@ export const list: ToolDefinition<ListParams> = {
 			priority: { type: "number", description: "Filter by priority (0-4)" },
 			assignee: { type: "string", description: "Filter by assignee" },
 			type: { type: "string", description: "Filter by type" },
-			tags: { type: "array", items: { type: "string" }, description: "Filter by tags (AND)" },
+			tags: { type: "array", items: { type: "string" }, description: "Filter by tags (any match)" },
 			limit: { type: "number", description: "Max results" },
 			all: { type: "boolean", description: "Include done/dropped tasks" },
 			unassigned: { type: "boolean", description: "Only unassigned" },
 			parent: { type: "string", description: "Filter by parent task ID" },
+			where: {
+				type: "string",
+				description: "Filter expression, e.g. 'priority <= 1 and (tag:urgent or due < +3d)'",
+			},
 		},
 		required: [],
 	},
@@ -1,5 +1,5 @@
 import type { TaskRepositoryService, ListTasksFilters } from "@tashks/core/repository";
-import { byPriorityAsc, byUrgencyDesc, byCreatedAsc } from "@tashks/core/query";
+import { sortTasks } from "@tashks/core/query";
 import * as Effect from "effect/Effect";
 import type { ToolDefinition, ToolResult } from "../types.js";
 import { toolError } from "../errors.js";
@@ -17,13 +17,13 @@ async function execute(params: ReadyParams, repo: TaskRepositoryService): Promis
 		const filters: ListTasksFilters = {
 			status: "active",
 			unblocked_only: true,
+			date: new Date().toISOString().slice(0, 10),
 			...(params.assignee && { assignee: params.assignee }),
 			...(params.priority != null && { priority: params.priority }),
 			...(params.type && { type: params.type }),
 			...(params.unassigned && { unassigned: true }),
 		};
-		let tasks = await Effect.runPromise(repo.listTasks(filters));
-		tasks.sort((a, b) => byPriorityAsc(a, b) || byUrgencyDesc(a, b) || byCreatedAsc(a, b));
+		let tasks = sortTasks(await Effect.runPromise(repo.listTasks(filters)), "priority_asc");
 		if (params.limit) tasks = tasks.slice(0, params.limit);
 		return { text: JSON.stringify(tasks, null, 2), data: tasks };
 	} catch (e) {
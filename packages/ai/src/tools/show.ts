@@ -1,3 +1,4 @@
+import { summarizeChildProgress } from "@tashks/core/query";
 import type { TaskRepositoryService } from "@tashks/core/repository";
 import * as Effect from "effect/Effect";
 import type { ToolDefinition, ToolResult } from "../types.js";
@@ -10,7 +11,9 @@ export interface ShowParams {
 async function execute(params: ShowParams, repo: TaskRepositoryService): Promise<ToolResult> {
 	try {
 		const task = await Effect.runPromise(repo.getTask(params.id));
-		return { text: JSON.stringify(task, null, 2), data: task };
+		const tasks = await Effect.runPromise(repo.listTasks());
+		const data = { ...task, progress: summarizeChildProgress(task.id, tasks) };
+		return { text: JSON.stringify(data, null, 2), data };
 	} catch (e) {
 		return toolError(e);
 	}
@@ -18,7 +21,7 @@ async function execute(params: ShowParams, repo: TaskRepositoryService): Promise
 
 export const show: ToolDefinition<ShowParams> = {
 	name: "tashks_show",
-	description: "Show full details of a task including description, dependencies, and comments",
+	description: "Show full details of a task including description, dependencies, comments, and progress of its children",
 	parameters: {
 		type: "object",
 		properties: {
@@ -52,12 +52,15 @@ const makeTask = (
 	close_reason: overrides.close_reason ?? null,
 	description: overrides.description ?? "",
 	comments: overrides.comments ?? [],
+	revision: overrides.revision ?? 0,
+	external_id: overrides.external_id ?? null,
 });
 
 function makeMockRepo(opts: {
 	tasks?: Task[];
 	onCreateTask?: (input: TaskCreateInput) => Task;
 	onUpdateTask?: (id: string, patch: TaskPatch) => Task;
+	onClaimTask?: (id: string, assignee: string) => Task;
 	onCompleteTask?: (id: string) => Task;
 }): TaskRepositoryService {
 	const tasks = opts.tasks ?? [];
@@ -74,6 +77,15 @@ function makeMockRepo(opts: {
 				opts.onUpdateTask?.(id, patch) ??
 					makeTask({ ...tasks.find((t) => t.id === id)!, ...patch } as Task),
 			),
+		claimTask: (id: string, assignee: string) =>
+			Effect.succeed(
+				opts.onClaimTask?.(id, assignee) ??
+					makeTask({
+						...tasks.find((t) => t.id === id)!,
+						assignee,
+						status: "in_progress",
+					}),
+			),
 		completeTask: (id: string) =>
 			Effect.succeed(
 				opts.onCompleteTask?.(id) ??
@@ -165,51 +177,68 @@ describe("tashks_create", () => {
 // ── update ────────────────────────────────────────────────────────────
 
 describe("tashks_update", () => {
-	it("constructs patch with claim logic", async () => {
-		let capturedPatch: TaskPatch | null = null;
+	it("claims through claimTask", async () => {
+		let claimedBy = null as string | null;
+		let updated = false;
 		const tasks = [makeTask({ id: "t1", title: "Task 1" })];
 		const repo = makeMockRepo({
 			tasks,
-			onUpdateTask: (_id, patch) => {
-				capturedPatch = patch;
-				return makeTask({ id: "t1", title: "Task 1", ...patch } as any);
+			onClaimTask: (_id, assignee) => {
+				claimedBy = assignee;
+				return makeTask({ id: "t1", title: "Task 1", assignee, status: "in_progress" });
+			},
+			onUpdateTask: () => {
+				updated = true;
+				return makeTask({ id: "t1", title: "Task 1" });
 			},
 		});
-		await update.execute({ id: "t1", claim: true, assignee: "agent" }, repo);
-		expect(capturedPatch).not.toBeNull();
-		expect((capturedPatch as any).assignee).toBe("agent");
-		expect((capturedPatch as any).status).toBe("in_progress");
+		const result = await update.execute({ id: "t1", claim: true, assignee: "agent" }, repo);
+		expect(claimedBy).toBe("agent");
+		expect(updated).toBe(false);
+		expect((result.data as Task).status).toBe("in_progress");
 	});
 
 	it("does not set status when claim is true even if status is provided", async () => {
 		let capturedPatch: TaskPatch | null = null;
-		const tasks = [makeTask({ id: "t1", title: "Task 1" })];
+		const tasks = [makeTask({ id: "t1", title: "Task 1", revision: 4 })];
 		const repo = makeMockRepo({
 			tasks,
+			onClaimTask: (_id, assignee) =>
+				makeTask({ id: "t1", title: "Task 1", assignee, status: "in_progress", revision: 5 }),
 			onUpdateTask: (_id, patch) => {
 				capturedPatch = patch;
 				return makeTask({ id: "t1", title: "Task 1", ...patch } as any);
 			},
 		});
-		await update.execute({ id: "t1", claim: true, status: "done" }, repo);
-		// claim overrides: status should be "in_progress", not "done"
-		expect((capturedPatch as any).status).toBe("in_progress");
+		await update.execute({ id: "t1", claim: true, status: "done", priority: 1 }, repo);
+		// claim overrides status, and the rest only lands on the claimed revision
+		expect((capturedPatch as any).status).toBeUndefined();
+		expect((capturedPatch as any).priority).toBe(1);
+		expect((capturedPatch as any).revision).toBe(5);
 	});
 
 	it("claim without assignee defaults to agent", async () => {
-		let capturedPatch: TaskPatch | null = null;
+		let claimedBy = null as string | null;
 		const tasks = [makeTask({ id: "t1", title: "Task 1" })];
 		const repo = makeMockRepo({
 			tasks,
-			onUpdateTask: (_id, patch) => {
-				capturedPatch = patch;
-				return makeTask({ id: "t1", title: "Task 1", ...patch } as any);
+			onClaimTask: (_id, assignee) => {
+				claimedBy = assignee;
+				return makeTask({ id: "t1", title: "Task 1", assignee, status: "in_progress" });
 			},
 		});
 		await update.execute({ id: "t1", claim: true }, repo);
-		expect(capturedPatch).not.toBeNull();
-		expect((capturedPatch as any).assignee).toBe("agent");
-		expect((capturedPatch as any).status).toBe("in_progress");
+		expect(claimedBy).toBe("agent");
+	});
+
+	it("reports a lost claim as an error", async () => {
+		const tasks = [makeTask({ id: "t1", title: "Task 1", assignee: "other" })];
+		const repo = {
+			...makeMockRepo({ tasks }),
+			claimTask: () => Effect.fail("Task t1 is already claimed by other"),
+		} as TaskRepositoryService;
+		const result = await update.execute({ id: "t1", claim: true }, repo);
+		expect(result.text).toContain("already claimed by other");
 	});
 });
 
@@ -225,6 +254,19 @@ describe("tashks_show", () => {
 		expect(data.title).toBe("Found it");
 	});
 
+	it("includes a rollup of child progress", async () => {
+		const tasks = [
+			makeTask({ id: "epic", title: "Epic" }),
+			makeTask({ id: "c1", title: "One", parent: "epic", status: "done" }),
+			makeTask({ id: "c2", title: "Two", parent: "epic" }),
+		];
+		const repo = makeMockRepo({ tasks });
+		const result = await show.execute({ id: "epic" }, repo);
+		const data = result.data as { progress: { total: number; done: number } };
+		expect(data.progress.total).toBe(2);
+		expect(data.progress.done).toBe(1);
+	});
+
 	it("returns error for missing task", async () => {
 		const repo = makeMockRepo({ tasks: [] });
 		const result = await show.execute({ id: "missing" }, repo);
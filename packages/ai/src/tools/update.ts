@@ -22,7 +22,6 @@ export interface UpdateParams {
 async function execute(params: UpdateParams, repo: TaskRepositoryService): Promise<ToolResult> {
 	try {
 		const patch: TaskPatch = {
-			...(params.claim && { assignee: params.assignee ?? "agent", status: "in_progress" as const }),
 			...(params.title && { title: params.title }),
 			...(params.status && !params.claim && { status: params.status }),
 			...(params.priority != null && { priority: params.priority }),
@@ -34,7 +33,22 @@ async function execute(params: UpdateParams, repo: TaskRepositoryService): Promi
 			...(params.estimated_minutes != null && { estimated_minutes: params.estimated_minutes }),
 			...(params.close_reason != null && { close_reason: params.close_reason }),
 		};
-		const task = await Effect.runPromise(repo.updateTask(params.id, patch));
+		if (!params.claim) {
+			const task = await Effect.runPromise(repo.updateTask(params.id, patch));
+			return { text: JSON.stringify(task, null, 2), data: task };
+		}
+
+		// Claim first so a losing agent fails before touching anything else,
+		// then apply the rest only if nobody has written since the claim.
+		const claimed = await Effect.runPromise(
+			repo.claimTask(params.id, params.assignee ?? "agent"),
+		);
+		const task =
+			Object.keys(patch).length === 0
+				? claimed
+				: await Effect.runPromise(
+						repo.updateTask(params.id, { ...patch, revision: claimed.revision }),
+					);
 		return { text: JSON.stringify(task, null, 2), data: task };
 	} catch (e) {
 		return toolError(e);
@@ -58,7 +72,7 @@ export const update: ToolDefinition<UpdateParams> = {
 			blocked_by: { type: "array", items: { type: "string" }, description: "Replace blocked_by list" },
 			estimated_minutes: { type: "number", description: "Time estimate in minutes" },
 			close_reason: { type: "string", description: "Reason for closing" },
-			claim: { type: "boolean", description: "Atomically claim (set assignee + in_progress)" },
+			claim: { type: "boolean", description: "Atomically claim (set assignee + in_progress); fails if another assignee holds the task" },
 		},
 		required: ["id"],
 	},
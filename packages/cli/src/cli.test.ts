@@ -1,15 +1,18 @@
 import { describe, expect, it } from "bun:test";
-import { mkdtemp, rm } from "node:fs/promises";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { NodeContext } from "@effect/platform-node";
 import * as Effect from "effect/Effect";
+import * as Exit from "effect/Exit";
+import * as Fiber from "effect/Fiber";
 import * as Option from "effect/Option";
 import {
 	cli,
 	defaultDataDir,
 	formatOutput,
 	makeCli,
+	renderOutput,
 	resolveCreateTaskInput,
 	resolveCreateWorkLogInput,
 	resolveCreateProjectInput,
@@ -118,6 +121,122 @@ describe("cli output formatting", () => {
 			'{\n  "id": "revive-unzen",\n  "done": false\n}',
 		);
 	});
+
+	const outputTasks = [
+		{
+			id: "revive-unzen",
+			title: "Revive Unzen",
+			status: "active",
+			priority: 1,
+			due: "2026-03-01",
+			assignee: null,
+			blocked_by: [],
+		},
+		{
+			id: "water-plants",
+			title: "Water plants",
+			status: "done",
+			priority: null,
+			due: null,
+			assignee: "simon",
+			blocked_by: [],
+		},
+	];
+
+	it("defaults to JSON and keeps only the requested fields of lists", () => {
+		expect(
+			renderOutput(outputTasks, { pretty: false, fields: ["id", "due"] }),
+		).toBe(
+			'[{"id":"revive-unzen","due":"2026-03-01"},{"id":"water-plants","due":null}]',
+		);
+	});
+
+	it("renders task lists as a table with default columns", () => {
+		expect(renderOutput(outputTasks, { pretty: false, output: "table" })).toBe(
+			[
+				"ID            STATUS  PRIORITY  DUE         TITLE",
+				"revive-unzen  active  1         2026-03-01  Revive Unzen",
+				"water-plants  done                          Water plants",
+			].join("\n"),
+		);
+	});
+
+	it("renders the requested fields as table columns", () => {
+		expect(
+			renderOutput(outputTasks, {
+				pretty: false,
+				output: "table",
+				fields: ["title", "assignee"],
+			}),
+		).toBe(
+			["TITLE         ASSIGNEE", "Revive Unzen", "Water plants  simon"].join(
+				"\n",
+			),
+		);
+	});
+
+	it("renders the requested fields of tasks instead of the default columns", () => {
+		const [first, second] = outputTasks;
+		expect(
+			renderOutput([{ ...first, blocked_by: ["water-plants"] }, second], {
+				pretty: false,
+				output: "table",
+				fields: ["id", "title", "status", "blocked_by"],
+			}),
+		).toBe(
+			[
+				"ID            TITLE         STATUS  BLOCKED_BY",
+				"revive-unzen  Revive Unzen  active  water-plants",
+				"water-plants  Water plants  done",
+			].join("\n"),
+		);
+	});
+
+	it("renders one line per task with status symbols in compact mode", () => {
+		expect(
+			renderOutput(outputTasks, { pretty: false, output: "compact" }),
+		).toBe(
+			["[o] P1 revive-unzen Revive Unzen", "[*] water-plants Water plants @simon"].join(
+				"\n",
+			),
+		);
+	});
+
+	it("renders one JSON document per line in ndjson mode", () => {
+		expect(
+			renderOutput(outputTasks, {
+				pretty: true,
+				output: "ndjson",
+				fields: ["id"],
+			}),
+		).toBe('{"id":"revive-unzen"}\n{"id":"water-plants"}');
+	});
+
+	it("renders YAML", () => {
+		expect(
+			renderOutput({ id: "revive-unzen", tags: ["home"] }, {
+				pretty: false,
+				output: "yaml",
+			}),
+		).toBe("id: revive-unzen\ntags:\n  - home");
+	});
+
+	it("renders records as aligned fields with nested lists below", () => {
+		expect(
+			renderOutput(
+				{ completed: outputTasks[1], unblocked: [outputTasks[0]] },
+				{ pretty: false, output: "compact" },
+			),
+		).toBe(
+			[
+				"completed:",
+				"  [*] water-plants Water plants @simon",
+				"",
+				"unblocked:",
+				"  [o] P1 revive-unzen Revive Unzen",
+			].join("\n"),
+		);
+	});
 });
 
 describe("list filter resolution", () => {
@@ -212,6 +331,7 @@ describe("create input resolution", () => {
 			assignee: Option.some("agent-1"),
 			parent: Option.some("parent-task"),
 			description: Option.some("Fix the server"),
+			fromTemplate: Option.some("weekly-review"),
 		});
 
 		expect(input).toEqual({
@@ -240,6 +360,7 @@ describe("create input resolution", () => {
 			assignee: "agent-1",
 			parent: "parent-task",
 			description: "Fix the server",
+			from_template: "weekly-review",
 		});
 	});
 
@@ -267,6 +388,7 @@ describe("create input resolution", () => {
 			assignee: Option.none(),
 			parent: Option.none(),
 			description: Option.none(),
+			fromTemplate: Option.none(),
 		});
 
 		expect(input).toEqual({
@@ -461,6 +583,51 @@ describe("cli parsing", () => {
 		]);
 	});
 
+	it("parses --output and --fields as global options", async () => {
+		const captured: Array<GlobalCliOptions> = [];
+		const program = makeCli((options) =>
+			Effect.sync(() => {
+				captured.push(options);
+			}),
+		);
+
+		await Effect.runPromise(
+			program([
+				"bun",
+				"cli.ts",
+				"--data-dir",
+				"/tmp/tasks-data",
+				"--output",
+				"table",
+				"--fields",
+				"id, title,due",
+			]).pipe(Effect.provide(NodeContext.layer)),
+		);
+
+		expect(captured).toEqual([
+			{
+				dataDir: "/tmp/tasks-data",
+				tasksFile: "/tmp/tasks-data/tasks.yaml",
+				worklogFile: "/tmp/tasks-data/work-log.yaml",
+				pretty: false,
+				output: "table",
+				fields: ["id", "title", "due"],
+			},
+		]);
+	});
+
+	it("rejects an unknown --output format", async () => {
+		const program = makeCli(() => Effect.void);
+
+		const exit = await Effect.runPromiseExit(
+			program(["bun", "cli.ts", "--output", "xml"]).pipe(
+				Effect.provide(NodeContext.layer),
+			),
+		);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+	});
+
 	it("parses `tasks list` with all list filter flags", async () => {
 		const captured: Array<{
 			readonly options: GlobalCliOptions;
@@ -656,6 +823,34 @@ describe("cli parsing", () => {
 		]);
 	});
 
+	it("passes --suggest-estimate through to create", async () => {
+		const captured: Array<boolean | undefined> = [];
+		const program = makeCli(
+			(_options) => Effect.void,
+			(_options, _filters) => Effect.void,
+			(_options, _id) => Effect.void,
+			(_options, _input, suggestEstimate) =>
+				Effect.sync(() => {
+					captured.push(suggestEstimate);
+				}),
+		);
+
+		for (const extra of [["--suggest-estimate"], []]) {
+			await Effect.runPromise(
+				program([
+					"bun",
+					"cli.ts",
+					"create",
+					"--title",
+					"Deploy",
+					...extra,
+				]).pipe(Effect.provide(NodeContext.layer)),
+			);
+		}
+
+		expect(captured).toEqual([true, false]);
+	});
+
 	it("parses `tasks update <id>` with all patch flags", async () => {
 		const captured: Array<{
 			readonly options: GlobalCliOptions;
@@ -2359,4 +2554,1238 @@ describe("cli new subcommands smoke", () => {
 			await rm(dataDir, { recursive: true, force: true });
 		}
 	});
+
+	it("history lists create and update events for a task", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-history-"));
+
+		try {
+			const created = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"History test task",
+			])) as Record<string, unknown>;
+			const id = created.id as string;
+
+			await runDefaultCliJson([
+				"update",
+				"--data-dir",
+				dataDir,
+				"--id",
+				id,
+				"--priority",
+				"1",
+			]);
+
+			const history = (await runDefaultCliJson([
+				"history",
+				"--data-dir",
+				dataDir,
+				"--id",
+				id,
+			])) as Array<Record<string, unknown>>;
+
+			expect(history.map((event) => event.event)).toEqual([
+				"created",
+				"updated",
+			]);
+			expect(history[1]?.changes).toEqual([
+				{ field: "priority", from: null, to: 1 },
+			]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("undo restores a deleted task and redo deletes it again", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-undo-"));
+
+		try {
+			const created = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Undo test task",
+			])) as Record<string, unknown>;
+			const id = created.id as string;
+
+			await runDefaultCliJson(["delete", "--data-dir", dataDir, "--id", id]);
+
+			const undone = (await runDefaultCliJson([
+				"undo",
+				"--data-dir",
+				dataDir,
+			])) as Array<Record<string, unknown>>;
+			expect(undone.map((entry) => entry.operation)).toEqual(["delete"]);
+
+			const restored = (await runDefaultCliJson([
+				"get",
+				"--data-dir",
+				dataDir,
+				"--id",
+				id,
+			])) as Record<string, unknown>;
+			expect(restored).toEqual({
+				...created,
+				revision: (created.revision as number) + 1,
+			});
+
+			const redone = (await runDefaultCliJson([
+				"redo",
+				"--data-dir",
+				dataDir,
+			])) as Array<Record<string, unknown>>;
+			expect(redone.map((entry) => entry.operation)).toEqual(["delete"]);
+
+			const remaining = (await runDefaultCliJson([
+				"list",
+				"--data-dir",
+				dataDir,
+			])) as Array<unknown>;
+			expect(remaining).toEqual([]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("list --where filters by expression and rejects bad syntax", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-where-"));
+
+		try {
+			await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Urgent fix",
+				"--tags",
+				"urgent",
+				"--priority",
+				"1",
+			]);
+			await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Someday idea",
+				"--priority",
+				"3",
+			]);
+
+			const listed = (await runDefaultCliJson([
+				"list",
+				"--data-dir",
+				dataDir,
+				"--where",
+				"priority <= 1 and tag:urgent",
+			])) as Array<Record<string, unknown>>;
+			expect(listed.map((task) => task.title)).toEqual(["Urgent fix"]);
+
+			const exit = await Effect.runPromiseExit(
+				cli([
+					"bun",
+					"cli.ts",
+					"list",
+					"--data-dir",
+					dataDir,
+					"--where",
+					"priority <=",
+				]).pipe(Effect.provide(NodeContext.layer)),
+			);
+			expect(Exit.isFailure(exit)).toBe(true);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("dep add rejects cycles and dep check audits the store", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-dep-check-"));
+
+		try {
+			const first = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"First",
+			])) as Record<string, unknown>;
+			const second = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Second",
+				"--blocked-by",
+				first.id as string,
+			])) as Record<string, unknown>;
+
+			const exit = await Effect.runPromiseExit(
+				cli([
+					"bun",
+					"cli.ts",
+					"dep",
+					"add",
+					"--data-dir",
+					dataDir,
+					"--id",
+					first.id as string,
+					"--depends-on",
+					second.id as string,
+				]).pipe(Effect.provide(NodeContext.layer)),
+			);
+			expect(Exit.isFailure(exit)).toBe(true);
+
+			const issues = (await runDefaultCliJson([
+				"dep",
+				"check",
+				"--data-dir",
+				dataDir,
+			])) as Array<unknown>;
+			expect(issues).toEqual([]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("critical-path reports the longest blocker chain for a project", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-critical-path-"));
+
+		try {
+			const design = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Design",
+				"--project",
+				"launch",
+				"--duration",
+				"120",
+			])) as Record<string, unknown>;
+			const build = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Build",
+				"--project",
+				"launch",
+				"--duration",
+				"240",
+				"--blocked-by",
+				design.id as string,
+			])) as Record<string, unknown>;
+
+			const report = (await runDefaultCliJson([
+				"critical-path",
+				"--data-dir",
+				dataDir,
+				"--project",
+				"launch",
+			])) as Record<string, unknown>;
+
+			expect(report.critical_path).toEqual([design.id, build.id]);
+			expect(report.total_minutes).toBe(360);
+
+			const exit = await Effect.runPromiseExit(
+				cli([
+					"bun",
+					"cli.ts",
+					"critical-path",
+					"--data-dir",
+					dataDir,
+					"--minutes-per-day",
+					"0",
+				]).pipe(Effect.provide(NodeContext.layer)),
+			);
+			expect(Exit.isFailure(exit)).toBe(true);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("graph prints DOT and Mermaid text", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-graph-"));
+
+		try {
+			const blocker = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Blocker",
+			])) as Record<string, unknown>;
+			const blocked = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Blocked",
+				"--blocked-by",
+				blocker.id as string,
+			])) as Record<string, unknown>;
+
+			const dot = await captureStdout(() =>
+				Effect.runPromise(
+					cli(["bun", "cli.ts", "graph", "--data-dir", dataDir]).pipe(
+						Effect.provide(NodeContext.layer),
+					),
+				),
+			);
+			expect(dot.stdout).toContain(`"${blocker.id}" -> "${blocked.id}";`);
+
+			const mermaid = await captureStdout(() =>
+				Effect.runPromise(
+					cli([
+						"bun",
+						"cli.ts",
+						"graph",
+						"--data-dir",
+						dataDir,
+						"--format",
+						"mermaid",
+					]).pipe(Effect.provide(NodeContext.layer)),
+				),
+			);
+			expect(mermaid.stdout.startsWith("flowchart LR\n")).toBe(true);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("tree, show and complete --complete-parent walk the hierarchy", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-tree-"));
+
+		try {
+			const epic = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Epic",
+				"--type",
+				"epic",
+			])) as Record<string, unknown>;
+			const child = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Child",
+				"--parent",
+				epic.id as string,
+				"--duration",
+				"30",
+			])) as Record<string, unknown>;
+
+			const tree = await captureStdout(() =>
+				Effect.runPromise(
+					cli(["bun", "cli.ts", "tree", "--data-dir", dataDir]).pipe(
+						Effect.provide(NodeContext.layer),
+					),
+				),
+			);
+			expect(tree.stdout).toBe(
+				`[ ] Epic (${epic.id})\n└── [ ] Child (${child.id})\n`,
+			);
+
+			const shown = (await runDefaultCliJson([
+				"show",
+				"--data-dir",
+				dataDir,
+				"--id",
+				epic.id as string,
+			])) as Record<string, unknown>;
+			expect(shown.progress).toEqual({
+				total: 1,
+				done: 0,
+				estimated_minutes: 30,
+				actual_minutes: 0,
+			});
+
+			await runDefaultCliJson([
+				"complete",
+				"--data-dir",
+				dataDir,
+				"--id",
+				child.id as string,
+				"--complete-parent",
+			]);
+			const closedEpic = (await runDefaultCliJson([
+				"get",
+				"--data-dir",
+				dataDir,
+				"--id",
+				epic.id as string,
+			])) as Record<string, unknown>;
+			expect(closedEpic.status).toBe("done");
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("watch streams created tasks as JSON lines", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-watch-"));
+
+		try {
+			const { stdout } = await captureStdout(() =>
+				Effect.runPromise(
+					Effect.gen(function* () {
+						const watcher = yield* Effect.fork(
+							cli(["bun", "cli.ts", "watch", "--data-dir", dataDir]),
+						);
+						yield* Effect.sleep("300 millis");
+						yield* cli([
+							"bun",
+							"cli.ts",
+							"create",
+							"--data-dir",
+							dataDir,
+							"--title",
+							"Watched",
+						]);
+						yield* Effect.sleep("500 millis");
+						yield* Fiber.interrupt(watcher);
+					}).pipe(Effect.provide(NodeContext.layer)),
+				),
+			);
+
+			const events = stdout
+				.trim()
+				.split("\n")
+				.map((line) => JSON.parse(line) as Record<string, unknown>)
+				.filter((line) => line.entity === "task");
+			expect(events.map((event) => event.event)).toEqual(["created"]);
+			expect((events[0]?.task as Record<string, unknown>).title).toBe(
+				"Watched",
+			);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("start, pause, resume, current and stop track time on a task", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-timer-"));
+
+		try {
+			const task = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Timed",
+			])) as Record<string, unknown>;
+
+			const started = (await runDefaultCliJson([
+				"start",
+				"--data-dir",
+				dataDir,
+				"--id",
+				task.id as string,
+			])) as Record<string, unknown>;
+			expect((started.entry as Record<string, unknown>).task_id).toBe(task.id);
+
+			const refused = await Effect.runPromiseExit(
+				cli([
+					"bun",
+					"cli.ts",
+					"start",
+					"--data-dir",
+					dataDir,
+					"--id",
+					task.id as string,
+				]).pipe(Effect.provide(NodeContext.layer)),
+			);
+			expect(Exit.isFailure(refused)).toBe(true);
+
+			const paused = (await runDefaultCliJson([
+				"pause",
+				"--data-dir",
+				dataDir,
+			])) as Record<string, unknown>;
+			expect(paused.state).toBe("paused");
+
+			await runDefaultCliJson(["resume", "--data-dir", dataDir]);
+			const current = (await runDefaultCliJson([
+				"current",
+				"--data-dir",
+				dataDir,
+			])) as Record<string, unknown>;
+			expect([current.state, current.task_id]).toEqual(["running", task.id]);
+
+			const stopped = (await runDefaultCliJson([
+				"stop",
+				"--data-dir",
+				dataDir,
+			])) as Record<string, unknown>;
+			expect((stopped.task as Record<string, unknown>).actual_minutes).toBe(
+				stopped.logged_minutes,
+			);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("stats estimates and create --suggest-estimate read completed tasks", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-estimates-"));
+
+		try {
+			await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Unmeasured",
+				"--status",
+				"done",
+				"--duration",
+				"30",
+				"--tags",
+				"deploy",
+			]);
+
+			const stats = (await runDefaultCliJson([
+				"stats",
+				"estimates",
+				"--data-dir",
+				dataDir,
+			])) as Record<string, Record<string, unknown>>;
+			expect(stats.overall.count).toBe(0);
+			expect(stats.by.area).toEqual([]);
+
+			const created = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Deploy again",
+				"--tags",
+				"deploy",
+				"--suggest-estimate",
+			])) as Record<string, unknown>;
+			// The only similar task has no actual time to learn from.
+			expect(created.estimated_minutes).toBeNull();
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("create --suggest-estimate prefers tasks from the same template", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-suggest-"));
+
+		try {
+			const template = (await runDefaultCliJson([
+				"template",
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Release",
+			])) as Record<string, unknown>;
+			const finishAfter = async (args: Array<string>, minutes: number) => {
+				const task = (await runDefaultCliJson([
+					"create",
+					"--data-dir",
+					dataDir,
+					...args,
+				])) as Record<string, unknown>;
+				await runDefaultCliJson([
+					"worklog",
+					"create",
+					"--data-dir",
+					dataDir,
+					"--task-id",
+					task.id as string,
+					"--started-at",
+					new Date(Date.now() - minutes * 60_000).toISOString(),
+				]);
+				await runDefaultCliJson(["stop", "--data-dir", dataDir]);
+				await runDefaultCliJson([
+					"complete",
+					"--data-dir",
+					dataDir,
+					"--id",
+					task.id as string,
+				]);
+			};
+			await finishAfter(
+				["--title", "Release 1", "--from-template", template.id as string],
+				90,
+			);
+			await finishAfter(["--title", "Hotfix", "--tags", "deploy"], 30);
+
+			const suggest = async (args: Array<string>) =>
+				(
+					(await runDefaultCliJson([
+						"create",
+						"--data-dir",
+						dataDir,
+						"--title",
+						"Release 2",
+						"--tags",
+						"deploy",
+						...args,
+						"--suggest-estimate",
+					])) as Record<string, unknown>
+				).estimated_minutes;
+
+			expect(await suggest(["--from-template", template.id as string])).toBe(
+				90,
+			);
+			expect(await suggest([])).toBe(30);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("project stats reports flow metrics as JSON or CSV", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-project-stats-"));
+
+		try {
+			const task = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Ship",
+				"--project",
+				"launch",
+			])) as Record<string, unknown>;
+			await runDefaultCliJson([
+				"complete",
+				"--data-dir",
+				dataDir,
+				"--id",
+				task.id as string,
+			]);
+
+			const stats = (await runDefaultCliJson([
+				"project",
+				"stats",
+				"--data-dir",
+				dataDir,
+				"--id",
+				"launch",
+			])) as Record<string, Record<string, unknown>>;
+			expect(stats.counts).toEqual({ total: 1, done: 1, dropped: 0, open: 0 });
+			expect(stats.lead_time.count).toBe(1);
+
+			const { stdout } = await captureStdout(() =>
+				Effect.runPromise(
+					cli([
+						"bun",
+						"cli.ts",
+						"project",
+						"stats",
+						"--data-dir",
+						dataDir,
+						"--id",
+						"launch",
+						"--format",
+						"csv",
+						"--series",
+						"throughput",
+					]).pipe(Effect.provide(NodeContext.layer)),
+				),
+			);
+			expect(stdout.split("\r\n")[0]).toBe("week,completed");
+
+			const missing = await Effect.runPromiseExit(
+				cli([
+					"bun",
+					"cli.ts",
+					"project",
+					"stats",
+					"--data-dir",
+					dataDir,
+					"--id",
+					"nope",
+				]).pipe(Effect.provide(NodeContext.layer)),
+			);
+			expect(Exit.isFailure(missing)).toBe(true);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("export ics writes due tasks to a calendar file", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-ics-"));
+
+		try {
+			const task = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"File taxes",
+				"--due",
+				"2026-11-15",
+			])) as Record<string, unknown>;
+			await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Someday",
+			]);
+
+			const file = join(dataDir, "tasks.ics");
+			await Effect.runPromise(
+				cli([
+					"bun",
+					"cli.ts",
+					"export",
+					"ics",
+					"--data-dir",
+					dataDir,
+					"--file",
+					file,
+				]).pipe(Effect.provide(NodeContext.layer)),
+			);
+			const ics = await readFile(file, "utf8");
+
+			expect(ics).toContain(`UID:${task.id}@tashks\r\n`);
+			expect(ics).toContain("DUE;VALUE=DATE:20261115\r\n");
+			expect(ics).not.toContain("SUMMARY:Someday");
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("import ics creates tasks once and updates them on re-import", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-import-ics-"));
+
+		try {
+			const file = join(dataDir, "calendar.ics");
+			const calendar = (due: string) =>
+				[
+					"BEGIN:VCALENDAR",
+					"BEGIN:VTODO",
+					"UID:passport@example.com",
+					"SUMMARY:Renew passport",
+					`DUE;VALUE=DATE:${due}`,
+					"CATEGORIES:admin",
+					"END:VTODO",
+					"END:VCALENDAR",
+					"",
+				].join("\r\n");
+			const runImport = () =>
+				runDefaultCliJson([
+					"import",
+					"ics",
+					"--data-dir",
+					dataDir,
+					"--file",
+					file,
+				]) as Promise<Record<string, Array<string>>>;
+
+			await writeFile(file, calendar("20261110"), "utf8");
+			const first = await runImport();
+			expect(first.created).toHaveLength(1);
+
+			await writeFile(file, calendar("20261117"), "utf8");
+			const second = await runImport();
+			expect(second.created).toEqual([]);
+			expect(second.updated).toEqual(first.created);
+
+			const task = (await runDefaultCliJson([
+				"show",
+				"--data-dir",
+				dataDir,
+				"--id",
+				first.created[0],
+			])) as Record<string, unknown>;
+			expect([task.due, task.tags, task.external_id]).toEqual([
+				"2026-11-17",
+				["admin"],
+				"ics:passport@example.com",
+			]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("import taskwarrior links dependencies and export writes them back", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-taskwarrior-"));
+
+		try {
+			const file = join(dataDir, "export.json");
+			await writeFile(
+				file,
+				JSON.stringify([
+					{
+						uuid: "9a1c0c3e-0000-4000-8000-000000000001",
+						description: "Launch",
+						status: "pending",
+						project: "site",
+						depends: ["9a1c0c3e-0000-4000-8000-000000000002"],
+					},
+					{
+						uuid: "9a1c0c3e-0000-4000-8000-000000000002",
+						description: "Review copy",
+						status: "pending",
+					},
+				]),
+				"utf8",
+			);
+
+			const summary = (await runDefaultCliJson([
+				"import",
+				"taskwarrior",
+				"--data-dir",
+				dataDir,
+				"--file",
+				file,
+			])) as Record<string, Array<string>>;
+			expect(summary.created).toHaveLength(2);
+
+			const records = (await runDefaultCliJson([
+				"export",
+				"taskwarrior",
+				"--data-dir",
+				dataDir,
+			])) as Array<Record<string, unknown>>;
+			const launch = records.find((record) => record.description === "Launch");
+			expect(launch).toMatchObject({
+				uuid: "9a1c0c3e-0000-4000-8000-000000000001",
+				project: "site",
+				depends: ["9a1c0c3e-0000-4000-8000-000000000002"],
+				tashks_id: summary.created[0],
+			});
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("export todotxt output imports back without duplicating", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-todotxt-"));
+
+		try {
+			const file = join(dataDir, "todo.txt");
+			await writeFile(
+				file,
+				"(A) 2026-10-01 Pay rent +home @bank due:2026-11-01\n",
+				"utf8",
+			);
+			const first = (await runDefaultCliJson([
+				"import",
+				"todotxt",
+				"--data-dir",
+				dataDir,
+				"--file",
+				file,
+			])) as Record<string, Array<string>>;
+			expect(first.created).toHaveLength(1);
+
+			await Effect.runPromise(
+				cli([
+					"bun",
+					"cli.ts",
+					"export",
+					"todotxt",
+					"--data-dir",
+					dataDir,
+					"--file",
+					file,
+				]).pipe(Effect.provide(NodeContext.layer)),
+			);
+			expect(await readFile(file, "utf8")).toBe(
+				`(A) 2026-10-01 Pay rent +home @bank due:2026-11-01 id:${first.created[0]}\n`,
+			);
+
+			const second = (await runDefaultCliJson([
+				"import",
+				"todotxt",
+				"--data-dir",
+				dataDir,
+				"--file",
+				file,
+			])) as Record<string, Array<string>>;
+			expect(second.unchanged).toEqual(first.created);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("import issues adopts issue numbers for exported tasks", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-issues-"));
+
+		try {
+			const created = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Write docs",
+			])) as { id: string };
+			const [issue] = (await runDefaultCliJson([
+				"export",
+				"issues",
+				"--data-dir",
+				dataDir,
+			])) as Array<Record<string, unknown>>;
+			expect(issue.number).toBeNull();
+
+			const file = join(dataDir, "issues.json");
+			await writeFile(
+				file,
+				JSON.stringify([{ ...issue, number: 7, labels: [{ name: "docs" }] }]),
+				"utf8",
+			);
+			const summary = (await runDefaultCliJson([
+				"import",
+				"issues",
+				"--data-dir",
+				dataDir,
+				"--file",
+				file,
+			])) as Record<string, Array<string>>;
+			expect(summary.updated).toEqual([created.id]);
+
+			const task = (await runDefaultCliJson([
+				"show",
+				"--data-dir",
+				dataDir,
+				"--id",
+				created.id,
+			])) as Record<string, unknown>;
+			expect([task.tags, task.external_id]).toEqual([["docs"], "github:7"]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("import markdown creates child tasks in parent mode", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-markdown-"));
+
+		try {
+			const file = join(dataDir, "plan.md");
+			await writeFile(
+				file,
+				"- [ ] Launch #release\n  - [x] Write notes\n  - [ ] Tag build\n",
+				"utf8",
+			);
+			const runImport = () =>
+				runDefaultCliJson([
+					"import",
+					"markdown",
+					"--data-dir",
+					dataDir,
+					"--file",
+					file,
+					"--project",
+					"site",
+					"--nesting",
+					"parent",
+				]) as Promise<Record<string, Array<string>>>;
+
+			const first = await runImport();
+			expect(first.created).toHaveLength(3);
+			expect((await runImport()).unchanged).toEqual(first.created);
+
+			const show = async (id: string | undefined) =>
+				(await runDefaultCliJson([
+					"show",
+					"--data-dir",
+					dataDir,
+					"--id",
+					id ?? "",
+				])) as Record<string, unknown>;
+			const launch = await show(first.created[0]);
+			const notes = await show(first.created[1]);
+			expect(launch).toMatchObject({
+				title: "Launch",
+				tags: ["release"],
+				projects: ["site"],
+			});
+			expect(notes).toMatchObject({ parent: launch.id, status: "done" });
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("import markdown rejects unknown nesting modes", async () => {
+		const exit = await Effect.runPromiseExit(
+			cli([
+				"bun",
+				"cli.ts",
+				"import",
+				"markdown",
+				"--file",
+				"package.json",
+				"--nesting",
+				"flat",
+			]).pipe(Effect.provide(NodeContext.layer)),
+		);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+	});
+
+	it("export report writes a grouped html page for a project", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-report-"));
+
+		try {
+			for (const [title, project] of [
+				["Ship release", "launch"],
+				["Fix fence", "home"],
+			]) {
+				await runDefaultCliJson([
+					"create",
+					"--data-dir",
+					dataDir,
+					"--title",
+					title,
+					"--project",
+					project,
+				]);
+			}
+
+			const file = join(dataDir, "report.html");
+			await Effect.runPromise(
+				cli([
+					"bun",
+					"cli.ts",
+					"export",
+					"report",
+					"--data-dir",
+					dataDir,
+					"--project",
+					"launch",
+					"--group-by",
+					"status",
+					"--format",
+					"html",
+					"--file",
+					file,
+				]).pipe(Effect.provide(NodeContext.layer)),
+			);
+			const html = await readFile(file, "utf8");
+
+			expect(html).toContain("<h1>tashks: launch</h1>");
+			expect(html).toContain("<h2>active (1)</h2>");
+			expect(html).toContain("<h3>Ship release</h3>");
+			expect(html).not.toContain("Fix fence");
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("export report rejects unknown formats", async () => {
+		const exit = await Effect.runPromiseExit(
+			cli(["bun", "cli.ts", "export", "report", "--format", "pdf"]).pipe(
+				Effect.provide(NodeContext.layer),
+			),
+		);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+	});
+
+	it("report time totals work log entries split at midnight", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-report-"));
+
+		try {
+			const task = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Billable",
+				"--project",
+				"acme",
+			])) as Record<string, unknown>;
+			await runDefaultCliJson([
+				"worklog",
+				"create",
+				"--data-dir",
+				dataDir,
+				"--task-id",
+				task.id as string,
+				"--started-at",
+				"2026-10-05T23:00:00Z",
+				"--ended-at",
+				"2026-10-06T01:30:00Z",
+			]);
+
+			const byDay = (await runDefaultCliJson([
+				"report",
+				"time",
+				"--data-dir",
+				dataDir,
+				"--from",
+				"2026-10-06",
+				"--to",
+				"2026-10-31",
+			])) as Record<string, unknown>;
+			expect(byDay.rows).toEqual([
+				{
+					key: "2026-10-06",
+					label: "2026-10-06",
+					minutes: 90,
+					hours: 1.5,
+					entries: 1,
+					open_entries: 0,
+				},
+			]);
+
+			const { stdout } = await captureStdout(() =>
+				Effect.runPromise(
+					cli([
+						"bun",
+						"cli.ts",
+						"report",
+						"time",
+						"--data-dir",
+						dataDir,
+						"--group-by",
+						"project",
+						"--format",
+						"csv",
+					]).pipe(Effect.provide(NodeContext.layer)),
+				),
+			);
+			expect(stdout).toBe(
+				"project,label,minutes,hours,entries,open_entries\r\nacme,acme,150,2.5,1,0\r\n",
+			);
+
+			const invalid = await Effect.runPromiseExit(
+				cli([
+					"bun",
+					"cli.ts",
+					"report",
+					"time",
+					"--data-dir",
+					dataDir,
+					"--group-by",
+					"client",
+				]).pipe(Effect.provide(NodeContext.layer)),
+			);
+			expect(Exit.isFailure(invalid)).toBe(true);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("tui refuses to run without an interactive terminal", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-tui-"));
+
+		try {
+			const exit = await Effect.runPromiseExit(
+				cli(["bun", "cli.ts", "tui", "--data-dir", dataDir]).pipe(
+					Effect.provide(NodeContext.layer),
+				),
+			);
+			expect(Exit.isFailure(exit)).toBe(true);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("review lists overdue tasks and applies JSON decisions", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-review-"));
+
+		try {
+			const task = (await runDefaultCliJson([
+				"create",
+				"--data-dir",
+				dataDir,
+				"--title",
+				"Renew passport",
+				"--due",
+				"2026-01-05",
+			])) as Record<string, unknown>;
+
+			const items = (await runDefaultCliJson([
+				"review",
+				"--data-dir",
+				dataDir,
+			])) as Array<Record<string, unknown>>;
+			expect(items.map((item) => item.kind)).toEqual(["overdue"]);
+			expect((items[0].task as Record<string, unknown>).id).toBe(task.id);
+
+			const decisionsFile = join(dataDir, "decisions.json");
+			await writeFile(
+				decisionsFile,
+				JSON.stringify([{ id: task.id, action: "defer", until: "2099-01-01" }]),
+			);
+			const results = (await runDefaultCliJson([
+				"review",
+				"--data-dir",
+				dataDir,
+				"--decisions",
+				decisionsFile,
+			])) as Array<Record<string, unknown>>;
+			expect(results[0].task).toMatchObject({
+				defer_until: "2099-01-01",
+				nudge_count: 1,
+			});
+
+			const remaining = (await runDefaultCliJson([
+				"review",
+				"--data-dir",
+				dataDir,
+			])) as Array<unknown>;
+			expect(remaining).toEqual([]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("ready records surfaced tasks and rotates past those shown today", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-cli-surfacing-"));
+
+		try {
+			for (const [title, priority] of [
+				["First", "0"],
+				["Second", "1"],
+			]) {
+				await runDefaultCliJson([
+					"create",
+					"--data-dir",
+					dataDir,
+					"--title",
+					title,
+					"--priority",
+					priority,
+				]);
+			}
+
+			const readyOnce = async () =>
+				(await runDefaultCliJson([
+					"ready",
+					"--data-dir",
+					dataDir,
+					"--limit",
+					"1",
+				])) as Array<Record<string, unknown>>;
+
+			const first = await readyOnce();
+			expect(first).toHaveLength(1);
+			expect(first[0]).toMatchObject({ title: "First", nudge_count: 1 });
+			expect(first[0]?.last_surfaced).toBe(
+				new Date().toISOString().slice(0, 10),
+			);
+
+			const second = await readyOnce();
+			expect(second[0]).toMatchObject({ title: "Second", nudge_count: 1 });
+
+			const third = await readyOnce();
+			expect(third[0]).toMatchObject({ title: "First", nudge_count: 1 });
+
+			// Without --limit nothing is suggested, so nothing is recorded.
+			const all = (await runDefaultCliJson([
+				"ready",
+				"--data-dir",
+				dataDir,
+			])) as Array<Record<string, unknown>>;
+			expect(all.map((task) => [task.title, task.nudge_count])).toEqual([
+				["First", 1],
+				["Second", 1],
+			]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
 });
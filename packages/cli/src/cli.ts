@@ -1,12 +1,20 @@
 #!/usr/bin/env node
-import { join } from "node:path";
+import { readFile, writeFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { createInterface } from "node:readline";
 import * as Command from "@effect/cli/Command";
 import * as Options from "@effect/cli/Options";
-import { NodeContext, NodeRuntime } from "@effect/platform-node";
+import {
+	NodeContext,
+	NodeFileSystem,
+	NodeRuntime,
+} from "@effect/platform-node";
+import { fmtTaskOneLiner } from "@tashks/ai";
 import {
 	TaskRepository,
 	TaskRepositoryLive,
 	promoteSubtask,
+	todayIso,
 	type ListTasksFilters,
 	type ListProjectsFilters,
 	type TaskRepositoryService,
@@ -14,29 +22,124 @@ import {
 import type {
 	ProjectCreateInput as ProjectCreateInputType,
 	ProjectPatch as ProjectPatchType,
+	Task,
 } from "@tashks/core/schema";
 import { ProseqlRepositoryLive } from "@tashks/core/proseql-repository";
+import {
+	currentTimer,
+	pauseTimer,
+	resumeTimer,
+	startTimer,
+	stopTimer,
+} from "@tashks/core/timer";
+import {
+	buildTimesheet,
+	formatTimesheetCsv,
+	formatTimesheetTable,
+	timesheetFormats,
+	timesheetGroupings,
+	type TimesheetFormat,
+	type TimesheetGroupBy,
+} from "@tashks/core/timesheet";
+import { watchSnapshots } from "@tashks/core/watch";
+import {
+	computeEstimateStats,
+	suggestEstimate,
+} from "@tashks/core/estimates";
+import {
+	icsComponentToImportedTask,
+	parseIcsComponents,
+	renderIcsCalendar,
+} from "@tashks/core/ics";
+import { importTasks, type ImportSummary } from "@tashks/core/importer";
+import {
+	issueToImportedTask,
+	parseIssuesDump,
+	toIssues,
+} from "@tashks/core/issues";
+import {
+	markdownNestings,
+	markdownToImportedTasks,
+	type MarkdownNesting,
+} from "@tashks/core/markdown";
+import {
+	computeProjectMetrics,
+	formatProjectMetricsCsv,
+	projectMetricsSeries,
+	type ProjectMetricsSeries,
+} from "@tashks/core/metrics";
+import {
+	buildReport,
+	renderReportHtml,
+	renderReportMarkdown,
+	reportFormats,
+	reportGroupings,
+	type ReportFormat,
+	type ReportGroupBy,
+} from "@tashks/core/report";
+import {
+	applyReviewDecision,
+	buildReview,
+	loadReviewProgress,
+	parseReviewDecisions,
+	recordReviewProgress,
+	type ReviewAction,
+	type ReviewDecision,
+	type ReviewItem,
+} from "@tashks/core/review";
+import {
+	loadSurfacingConfig,
+	needsDecision,
+	rotateSurfaced,
+} from "@tashks/core/surfacing";
+import {
+	formatTaskwarriorExport,
+	parseTaskwarriorExport,
+	taskwarriorToImportedTasks,
+	toTaskwarriorTasks,
+} from "@tashks/core/taskwarrior";
+import { formatTodoTxt, parseTodoTxt } from "@tashks/core/todotxt";
+import {
+	renderTaskGraph,
+	taskGraphFormats,
+	type TaskGraphFormat,
+} from "@tashks/core/graph";
 import {
 	applyPerspectiveToTasks,
+	auditDependencies,
 	buildDependencyChain,
-	byPriorityAsc,
-	byCreatedAsc,
 	byUrgencyDesc,
+	buildTaskTree,
+	computeCriticalPath,
+	formatFilterExpressionError,
+	formatTaskTree,
 	isBlocked,
 	isDeferred,
 	isUnblocked,
 	listAreas,
 	listContexts,
 	loadPerspectiveConfig,
+	matchesFilterExpression,
+	parseFilterExpression,
+	resolveFilterDate,
+	sortTasks,
+	summarizeChildProgress,
+	type FilterExpression,
 } from "@tashks/core/query";
 import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
 import * as Option from "effect/Option";
+import * as Stream from "effect/Stream";
+import YAML from "yaml";
+import { runTui } from "./tui.js";
 
 export interface GlobalCliOptionsInput {
 	readonly dataDir: Option.Option<string>;
 	readonly tasksFile: Option.Option<string>;
 	readonly worklogFile: Option.Option<string>;
 	readonly pretty: boolean;
+	readonly output?: Option.Option<OutputFormat>;
+	readonly fields?: Option.Option<string>;
 }
 
 export interface GlobalCliOptions {
@@ -44,6 +147,10 @@ export interface GlobalCliOptions {
 	readonly tasksFile: string;
 	readonly worklogFile: string;
 	readonly pretty: boolean;
+	/** Defaults to JSON when not given. */
+	readonly output?: OutputFormat;
+	/** Columns kept in list output. */
+	readonly fields?: ReadonlyArray<string>;
 }
 
 export interface ListTasksCliOptionsInput {
@@ -109,6 +216,7 @@ export interface CreateTaskCliOptionsInput {
 	readonly assignee: Option.Option<string>;
 	readonly parent: Option.Option<string>;
 	readonly description: Option.Option<string>;
+	readonly fromTemplate: Option.Option<string>;
 }
 
 export interface UpdateTaskCliOptionsInput {
@@ -191,6 +299,7 @@ export type GetTaskExecute<R, E> = (
 export type CreateTaskExecute<R, E> = (
 	options: GlobalCliOptions,
 	input: TaskCreateInput,
+	suggestEstimate?: boolean,
 ) => Effect.Effect<void, E, R>;
 
 export type UpdateTaskExecute<R, E> = (
@@ -213,6 +322,7 @@ export type CompleteTaskExecute<R, E> = (
 	options: GlobalCliOptions,
 	id: string,
 	reason?: string,
+	completeParent?: boolean,
 ) => Effect.Effect<void, E, R>;
 
 export type RecurrenceCheckExecute<R, E> = (
@@ -289,6 +399,12 @@ export type ProjectSummaryExecute<R, E> = (
 	filters: ListProjectsFilters,
 ) => Effect.Effect<void, E, R>;
 
+export type ProjectStatsExecute<R, E> = (
+	options: GlobalCliOptions,
+	id: string,
+	output: { readonly format: "json" | "csv"; readonly series: ProjectMetricsSeries },
+) => Effect.Effect<void, E, R>;
+
 export type PromoteExecute<R, E> = (
 	options: GlobalCliOptions,
 	id: string,
@@ -413,6 +529,150 @@ export type PrimeExecute<R, E> = (
 	full: boolean,
 ) => Effect.Effect<void, E, R>;
 
+export type HistoryExecute<R, E> = (
+	options: GlobalCliOptions,
+	id: string,
+) => Effect.Effect<void, E, R>;
+
+export type UndoExecute<R, E> = (
+	options: GlobalCliOptions,
+	steps?: number,
+) => Effect.Effect<void, E, R>;
+
+export type RedoExecute<R, E> = (
+	options: GlobalCliOptions,
+	steps?: number,
+) => Effect.Effect<void, E, R>;
+
+export type DepCheckExecute<R, E> = (
+	options: GlobalCliOptions,
+) => Effect.Effect<void, E, R>;
+
+export type CriticalPathExecute<R, E> = (
+	options: GlobalCliOptions,
+	filters: {
+		readonly project?: string;
+		readonly minutesPerDay?: number;
+	},
+) => Effect.Effect<void, E, R>;
+
+export type GraphExecute<R, E> = (
+	options: GlobalCliOptions,
+	format: TaskGraphFormat,
+	filters: { readonly project?: string; readonly root?: string },
+) => Effect.Effect<void, E, R>;
+
+export type ShowTaskExecute<R, E> = (
+	options: GlobalCliOptions,
+	id: string,
+) => Effect.Effect<void, E, R>;
+
+export type TreeExecute<R, E> = (
+	options: GlobalCliOptions,
+	rootId?: string,
+) => Effect.Effect<void, E, R>;
+
+export type WatchExecute<R, E> = (
+	options: GlobalCliOptions,
+	filter?: FilterExpression,
+) => Effect.Effect<void, E, R>;
+
+export type StartTimerExecute<R, E> = (
+	options: GlobalCliOptions,
+	id: string,
+	autoStop: boolean,
+) => Effect.Effect<void, E, R>;
+
+export type TimerExecute<R, E> = (
+	options: GlobalCliOptions,
+) => Effect.Effect<void, E, R>;
+
+export type ReportTimeExecute<R, E> = (
+	options: GlobalCliOptions,
+	report: {
+		readonly groupBy: TimesheetGroupBy;
+		readonly format: TimesheetFormat;
+		readonly from?: string;
+		readonly to?: string;
+	},
+) => Effect.Effect<void, E, R>;
+
+export type StatsEstimatesExecute<R, E> = (
+	options: GlobalCliOptions,
+) => Effect.Effect<void, E, R>;
+
+export type ExportIcsExecute<R, E> = (
+	options: GlobalCliOptions,
+	target: { readonly perspective?: string; readonly file?: string },
+) => Effect.Effect<void, E, R>;
+
+export type ImportIcsExecute<R, E> = (
+	options: GlobalCliOptions,
+	file: string,
+) => Effect.Effect<void, E, R>;
+
+export type ExportTaskwarriorExecute<R, E> = (
+	options: GlobalCliOptions,
+	target: { readonly perspective?: string; readonly file?: string },
+) => Effect.Effect<void, E, R>;
+
+export type ImportTaskwarriorExecute<R, E> = (
+	options: GlobalCliOptions,
+	file: string,
+) => Effect.Effect<void, E, R>;
+
+export type ExportTodoTxtExecute<R, E> = (
+	options: GlobalCliOptions,
+	target: { readonly perspective?: string; readonly file?: string },
+) => Effect.Effect<void, E, R>;
+
+export type ImportTodoTxtExecute<R, E> = (
+	options: GlobalCliOptions,
+	file: string,
+) => Effect.Effect<void, E, R>;
+
+export type ExportIssuesExecute<R, E> = (
+	options: GlobalCliOptions,
+	target: { readonly perspective?: string; readonly file?: string },
+) => Effect.Effect<void, E, R>;
+
+export type ImportIssuesExecute<R, E> = (
+	options: GlobalCliOptions,
+	file: string,
+) => Effect.Effect<void, E, R>;
+
+export type ImportMarkdownExecute<R, E> = (
+	options: GlobalCliOptions,
+	file: string,
+	target: { readonly project?: string; readonly nesting: MarkdownNesting },
+) => Effect.Effect<void, E, R>;
+
+export type ExportReportExecute<R, E> = (
+	options: GlobalCliOptions,
+	target: {
+		readonly perspective?: string;
+		readonly project?: string;
+		readonly groupBy: ReportGroupBy;
+		readonly format: ReportFormat;
+		readonly file?: string;
+	},
+) => Effect.Effect<void, E, R>;
+
+export type TuiExecute<R, E> = (
+	options: GlobalCliOptions,
+	perspective?: string,
+) => Effect.Effect<void, E, R>;
+
+export type ReviewExecute<R, E> = (
+	options: GlobalCliOptions,
+	review: {
+		readonly staleDays?: number;
+		readonly deferWindowDays?: number;
+		readonly decisionsFile?: string;
+		readonly interactive: boolean;
+	},
+) => Effect.Effect<void, E, R>;
+
 export const defaultDataDir = (
 	env: NodeJS.ProcessEnv = process.env,
 ): string => {
@@ -433,11 +693,15 @@ export const resolveGlobalCliOptions = (
 	const worklogFile = Option.getOrElse(options.worklogFile, () =>
 		join(dataDir, "work-log.yaml"),
 	);
+	const output = Option.getOrUndefined(options.output ?? Option.none());
+	const fields = parseFields(options.fields ?? Option.none());
 	return {
 		dataDir,
 		tasksFile,
 		worklogFile,
 		pretty: options.pretty,
+		...(output !== undefined ? { output } : {}),
+		...(fields !== undefined ? { fields } : {}),
 	};
 };
 
@@ -452,6 +716,183 @@ export const formatOutput = (value: unknown, pretty: boolean): string => {
 	return serialized ?? "null";
 };
 
+export type OutputFormat = "json" | "table" | "compact" | "ndjson" | "yaml";
+
+export const outputFormats: ReadonlyArray<OutputFormat> = [
+	"json",
+	"table",
+	"compact",
+	"ndjson",
+	"yaml",
+];
+
+const parseFields = (
+	value: Option.Option<string>,
+): ReadonlyArray<string> | undefined => {
+	const fields = Option.getOrElse(value, () => "")
+		.split(",")
+		.map((field) => field.trim())
+		.filter((field) => field.length > 0);
+	return fields.length > 0 ? fields : undefined;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isTaskRecord = (value: unknown): value is Task =>
+	isRecord(value) &&
+	typeof value.id === "string" &&
+	typeof value.title === "string" &&
+	typeof value.status === "string" &&
+	Array.isArray(value.blocked_by);
+
+/** Keeps only the requested fields of each record in a list. */
+const selectFields = (
+	value: unknown,
+	fields: ReadonlyArray<string> | undefined,
+): unknown =>
+	fields !== undefined && Array.isArray(value)
+		? value.map((item) =>
+				isRecord(item)
+					? Object.fromEntries(fields.map((field) => [field, item[field] ?? null]))
+					: item,
+			)
+		: value;
+
+const formatCell = (value: unknown): string => {
+	if (value === null || value === undefined) {
+		return "";
+	}
+	if (typeof value === "string") {
+		return value.replace(/\s*\r?\n\s*/g, " ");
+	}
+	if (Array.isArray(value) && !value.some((item) => typeof item === "object")) {
+		return value.join(",");
+	}
+	return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+const renderTable = (
+	rows: ReadonlyArray<ReadonlyArray<string>>,
+): string => {
+	const widths = rows.reduce<Array<number>>(
+		(acc, row) => row.map((cell, index) => Math.max(acc[index] ?? 0, cell.length)),
+		[],
+	);
+	return rows
+		.map((row) =>
+			row
+				.map((cell, index) => cell.padEnd(widths[index] ?? 0))
+				.join("  ")
+				.trimEnd(),
+		)
+		.join("\n");
+};
+
+const defaultTaskColumns = ["id", "status", "priority", "due", "title"];
+
+const renderRows = (
+	rows: ReadonlyArray<Record<string, unknown>>,
+	format: "table" | "compact",
+	fields: ReadonlyArray<string> | undefined,
+): string => {
+	if (format === "compact") {
+		const tasks = rows.filter(isTaskRecord);
+		return rows
+			.map((row) =>
+				isTaskRecord(row)
+					? fmtTaskOneLiner(row, tasks)
+					: Object.values(row).map(formatCell).join("  ").trimEnd(),
+			)
+			.join("\n");
+	}
+	if (rows.length === 0) {
+		return "";
+	}
+	const columns =
+		fields ??
+		(rows.every(isTaskRecord)
+			? defaultTaskColumns
+			: [...new Set(rows.flatMap((row) => Object.keys(row)))]);
+	return renderTable([
+		columns.map((column) => column.toUpperCase()),
+		...rows.map((row) => columns.map((column) => formatCell(row[column]))),
+	]);
+};
+
+const isNested = (value: unknown): boolean =>
+	isRecord(value) || (Array.isArray(value) && value.some(isRecord));
+
+const indentBlock = (text: string): string =>
+	text
+		.split("\n")
+		.map((line) => (line.length > 0 ? `  ${line}` : line))
+		.join("\n");
+
+/**
+ * Renders a value as text: lists of records become a table (or one line per
+ * record in compact mode, using the status symbols of `@tashks/ai` for
+ * tasks), a single record becomes `key value` lines with any nested lists
+ * under their own heading, and other lists print one item per line. A table
+ * of tasks shows a few key columns unless `fields` names them.
+ */
+const renderText = (
+	value: unknown,
+	format: "table" | "compact",
+	fields?: ReadonlyArray<string>,
+): string => {
+	if (Array.isArray(value)) {
+		return value.every(isRecord)
+			? renderRows(value, format, fields)
+			: value.map(formatCell).join("\n");
+	}
+	if (!isRecord(value)) {
+		return formatCell(value);
+	}
+	if (format === "compact" && isTaskRecord(value)) {
+		return fmtTaskOneLiner(value);
+	}
+	// Runs of plain fields share one table; nested values break them up.
+	const blocks: Array<string> = [];
+	let pairs: Array<Array<string>> = [];
+	for (const [key, field] of Object.entries(value)) {
+		if (isTaskRecord(value) || !isNested(field)) {
+			pairs.push([key, formatCell(field)]);
+			continue;
+		}
+		blocks.push(renderTable(pairs));
+		pairs = [];
+		blocks.push(`${key}:\n${indentBlock(renderText(field, format))}`);
+	}
+	blocks.push(renderTable(pairs));
+	return blocks.filter((block) => block.length > 0).join("\n\n");
+};
+
+/**
+ * Renders command output in the format chosen with `--output`, defaulting
+ * to JSON. `--fields` narrows list output to the named fields, in order.
+ */
+export const renderOutput = (
+	value: unknown,
+	options: Pick<GlobalCliOptions, "pretty" | "output" | "fields">,
+): string => {
+	const selected = selectFields(value, options.fields);
+	switch (options.output ?? "json") {
+		case "json":
+			return formatOutput(selected, options.pretty);
+		case "ndjson":
+			return Array.isArray(selected)
+				? selected.map((item) => formatOutput(item, false)).join("\n")
+				: formatOutput(selected, false);
+		case "yaml":
+			return YAML.stringify(selected).replace(/\n$/, "");
+		case "table":
+			return renderText(selected, "table", options.fields);
+		case "compact":
+			return renderText(selected, "compact");
+	}
+};
+
 const toUndefined = <A>(value: Option.Option<A>): A | undefined =>
 	Option.match(value, {
 		onNone: () => undefined,
@@ -557,6 +998,7 @@ export const resolveCreateTaskInput = (
 	const assignee = toUndefined(options.assignee);
 	const parent = toUndefined(options.parent);
 	const description = toUndefined(options.description);
+	const fromTemplate = toUndefined(options.fromTemplate);
 
 	return {
 		title: options.title,
@@ -585,6 +1027,7 @@ export const resolveCreateTaskInput = (
 		...(assignee !== undefined ? { assignee } : {}),
 		...(parent !== undefined ? { parent } : {}),
 		...(description !== undefined ? { description } : {}),
+		...(fromTemplate !== undefined ? { from_template: fromTemplate } : {}),
 	};
 };
 
@@ -745,6 +1188,20 @@ export const prettyOption = Options.boolean("pretty").pipe(
 	Options.withDescription("Pretty-print JSON output"),
 );
 
+export const outputOption = Options.choice("output", outputFormats).pipe(
+	Options.withDescription(
+		"Output format: json (default), table, compact, ndjson or yaml",
+	),
+	Options.optional,
+);
+
+export const fieldsOption = Options.text("fields").pipe(
+	Options.withDescription(
+		"Comma-separated fields to show for each item of list output",
+	),
+	Options.optional,
+);
+
 
 export const makeListCommand = <R, E>(execute: ListTasksExecute<R, E>) =>
 	Command.make(
@@ -754,6 +1211,8 @@ export const makeListCommand = <R, E>(execute: ListTasksExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			status: Options.text("status").pipe(
 				Options.withDescription("Filter by task status"),
 				Options.optional,
@@ -836,6 +1295,12 @@ export const makeListCommand = <R, E>(execute: ListTasksExecute<R, E>) =>
 				Options.withDescription("Filter by parent task ID"),
 				Options.optional,
 			),
+			where: Options.text("where").pipe(
+				Options.withDescription(
+					"Filter expression, e.g. 'priority <= 1 and (tag:urgent or due < +3d)'",
+				),
+				Options.optional,
+			),
 		},
 		(options) =>
 			Effect.gen(function* () {
@@ -844,9 +1309,23 @@ export const makeListCommand = <R, E>(execute: ListTasksExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				const filters = resolveListTaskFilters(options);
-				yield* execute(globalOptions, filters);
+				const where = toUndefined(options.where);
+				if (where === undefined) {
+					return yield* execute(globalOptions, filters);
+				}
+
+				const expression = parseFilterExpression(where);
+				if (Either.isLeft(expression)) {
+					return yield* Effect.fail(
+						formatFilterExpressionError(where, expression.left),
+					);
+				}
+
+				yield* execute(globalOptions, { ...filters, where: expression.right });
 			}),
 	).pipe(Command.withDescription("List tasks with optional filters"));
 
@@ -858,6 +1337,8 @@ export const makeGetCommand = <R, E>(execute: GetTaskExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID")),
 		},
 		(options) =>
@@ -867,6 +1348,8 @@ export const makeGetCommand = <R, E>(execute: GetTaskExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id);
 			}),
@@ -880,6 +1363,8 @@ export const makeCreateCommand = <R, E>(execute: CreateTaskExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			title: Options.text("title").pipe(Options.withDescription("Task title")),
 			status: Options.text("status").pipe(
 				Options.withDescription("Initial task status"),
@@ -969,6 +1454,15 @@ export const makeCreateCommand = <R, E>(execute: CreateTaskExecute<R, E>) =>
 				Options.withDescription("Task description"),
 				Options.optional,
 			),
+			fromTemplate: Options.text("from-template").pipe(
+				Options.withDescription("ID of the template this task follows"),
+				Options.optional,
+			),
+			suggestEstimate: Options.boolean("suggest-estimate").pipe(
+				Options.withDescription(
+					"Without --duration, estimate from similar completed tasks (same template, else shared tags)",
+				),
+			),
 		},
 		(options) =>
 			Effect.gen(function* () {
@@ -977,9 +1471,11 @@ export const makeCreateCommand = <R, E>(execute: CreateTaskExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				const input = resolveCreateTaskInput(options);
-				yield* execute(globalOptions, input);
+				yield* execute(globalOptions, input, options.suggestEstimate);
 			}),
 	).pipe(Command.withDescription("Create a task"));
 
@@ -991,6 +1487,8 @@ export const makeUpdateCommand = <R, E>(execute: UpdateTaskExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID")),
 			title: Options.text("title").pipe(
 				Options.withDescription("Updated task title"),
@@ -1087,6 +1585,8 @@ export const makeUpdateCommand = <R, E>(execute: UpdateTaskExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				const patch = resolveUpdateTaskPatch(options);
 				yield* execute(globalOptions, options.id, patch);
@@ -1101,6 +1601,8 @@ export const makeDeleteCommand = <R, E>(execute: DeleteTaskExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID")),
 		},
 		(options) =>
@@ -1110,6 +1612,8 @@ export const makeDeleteCommand = <R, E>(execute: DeleteTaskExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id);
 			}),
@@ -1125,6 +1629,8 @@ export const makeHighlightCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID")),
 		},
 		(options) =>
@@ -1134,6 +1640,8 @@ export const makeHighlightCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id);
 			}),
@@ -1147,11 +1655,18 @@ export const makeCompleteCommand = <R, E>(execute: CompleteTaskExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID")),
 			reason: Options.text("reason").pipe(
 				Options.withDescription("Close reason"),
 				Options.optional,
 			),
+			completeParent: Options.boolean("complete-parent").pipe(
+				Options.withDescription(
+					"Also complete an epic parent once all of its children are closed",
+				),
+			),
 		},
 		(options) =>
 			Effect.gen(function* () {
@@ -1160,8 +1675,15 @@ export const makeCompleteCommand = <R, E>(execute: CompleteTaskExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
-				yield* execute(globalOptions, options.id, toUndefined(options.reason));
+				yield* execute(
+					globalOptions,
+					options.id,
+					toUndefined(options.reason),
+					options.completeParent,
+				);
 			}),
 	).pipe(Command.withDescription("Complete a task by id"));
 
@@ -1175,6 +1697,8 @@ export const makeRecurrenceCheckCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 		},
 		(options) =>
 			Effect.gen(function* () {
@@ -1183,6 +1707,8 @@ export const makeRecurrenceCheckCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions);
 			}),
@@ -1198,6 +1724,8 @@ export const makePerspectiveCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			name: Options.text("name").pipe(Options.withDescription("Perspective name")),
 		},
 		(options) =>
@@ -1207,6 +1735,8 @@ export const makePerspectiveCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.name);
 			}),
@@ -1222,6 +1752,8 @@ export const makePerspectivesCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 		},
 		(options) =>
 			Effect.gen(function* () {
@@ -1230,6 +1762,8 @@ export const makePerspectivesCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions);
 			}),
@@ -1245,6 +1779,8 @@ export const makeWorkLogListCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			date: Options.text("date").pipe(
 				Options.withDescription("Filter entries by date (YYYY-MM-DD)"),
 				Options.optional,
@@ -1257,6 +1793,8 @@ export const makeWorkLogListCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				const filters = resolveListWorkLogFilters(options);
 				yield* execute(globalOptions, filters);
@@ -1273,6 +1811,8 @@ export const makeWorkLogCreateCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			taskId: Options.text("task-id").pipe(
 				Options.withDescription("Task id for the work log entry"),
 			),
@@ -1291,6 +1831,8 @@ export const makeWorkLogCreateCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				const input = resolveCreateWorkLogInput(options);
 				yield* execute(globalOptions, input);
@@ -1307,6 +1849,8 @@ export const makeWorkLogUpdateCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Work log entry ID")),
 			taskId: Options.text("task-id").pipe(
 				Options.withDescription("Updated task id"),
@@ -1328,6 +1872,8 @@ export const makeWorkLogUpdateCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				const patch = resolveUpdateWorkLogPatch(options);
 				yield* execute(globalOptions, options.id, patch);
@@ -1344,6 +1890,8 @@ export const makeWorkLogDeleteCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Work log entry ID")),
 		},
 		(options) =>
@@ -1353,6 +1901,8 @@ export const makeWorkLogDeleteCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id);
 			}),
@@ -1368,6 +1918,8 @@ export const makeMigrateCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			from: Options.text("from").pipe(
 				Options.withDescription(
 					"Path to old data directory (containing tasks/ and work-log/ subdirectories)",
@@ -1381,6 +1933,8 @@ export const makeMigrateCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.from);
 			}),
@@ -1398,6 +1952,8 @@ export const makePromoteCommand = <R, E>(execute: PromoteExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID")),
 			index: Options.integer("index").pipe(
 				Options.withDescription("Subtask index (0-based)"),
@@ -1410,6 +1966,8 @@ export const makePromoteCommand = <R, E>(execute: PromoteExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id, options.index);
 			}),
@@ -1423,6 +1981,8 @@ export const makeAreasCommand = <R, E>(execute: AreasExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 		},
 		(options) =>
 			Effect.gen(function* () {
@@ -1431,6 +1991,8 @@ export const makeAreasCommand = <R, E>(execute: AreasExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions);
 			}),
@@ -1444,6 +2006,8 @@ export const makeContextsCommand = <R, E>(execute: ContextsExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 		},
 		(options) =>
 			Effect.gen(function* () {
@@ -1452,6 +2016,8 @@ export const makeContextsCommand = <R, E>(execute: ContextsExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions);
 			}),
@@ -1467,6 +2033,8 @@ export const makeTemplateListCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 		},
 		(options) =>
 			Effect.gen(function* () {
@@ -1475,6 +2043,8 @@ export const makeTemplateListCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions);
 			}),
@@ -1490,6 +2060,8 @@ export const makeTemplateCreateCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			title: Options.text("title").pipe(Options.withDescription("Template title")),
 			area: Options.text("area").pipe(
 				Options.withDescription("Template area"),
@@ -1531,6 +2103,8 @@ export const makeTemplateCreateCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				const input = resolveCreateTaskInput({
 					...options,
@@ -1547,6 +2121,7 @@ export const makeTemplateCreateCommand = <R, E>(
 					assignee: Option.none(),
 					parent: Option.none(),
 					description: Option.none(),
+					fromTemplate: Option.none(),
 				});
 				yield* execute(globalOptions, { ...input, is_template: true });
 			}),
@@ -1562,6 +2137,8 @@ export const makeTemplateInstantiateCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Template ID")),
 			title: Options.text("title").pipe(
 				Options.withDescription("Override title"),
@@ -1591,6 +2168,8 @@ export const makeTemplateInstantiateCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				const overrides: {
 					title?: string;
@@ -1621,9 +2200,9 @@ export const makeTemplateCommand = <R, E>(
 ) =>
 	Command.make(
 		"template",
-		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption },
-		({ dataDir, tasksFile, worklogFile, pretty }) =>
-			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty })),
+		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption, output: outputOption, fields: fieldsOption },
+		({ dataDir, tasksFile, worklogFile, pretty, output, fields }) =>
+			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty, output, fields })),
 	).pipe(
 		Command.withDescription("Manage task templates"),
 		Command.withSubcommands([
@@ -1641,6 +2220,8 @@ export const makeUnblockCommand = <R, E>(execute: UnblockTaskExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID to complete and unblock dependents")),
 		},
 		(options) =>
@@ -1650,6 +2231,8 @@ export const makeUnblockCommand = <R, E>(execute: UnblockTaskExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id);
 			}),
@@ -1663,6 +2246,8 @@ export const makeChainCommand = <R, E>(execute: ChainExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID")),
 		},
 		(options) =>
@@ -1672,6 +2257,8 @@ export const makeChainCommand = <R, E>(execute: ChainExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id);
 			}),
@@ -1685,6 +2272,8 @@ export const makeNextCommand = <R, E>(execute: NextTaskExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			energy: Options.text("energy").pipe(
 				Options.withDescription("Filter by energy level (low, medium, high)"),
 				Options.optional,
@@ -1697,6 +2286,8 @@ export const makeNextCommand = <R, E>(execute: NextTaskExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				const energy = toUndefined(options.energy);
 				yield* execute(globalOptions, energy);
@@ -1711,6 +2302,8 @@ export const makeDropCommand = <R, E>(execute: DropTaskExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID")),
 		},
 		(options) =>
@@ -1720,6 +2313,8 @@ export const makeDropCommand = <R, E>(execute: DropTaskExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id);
 			}),
@@ -1733,6 +2328,8 @@ export const makeTodayCommand = <R, E>(execute: TodayExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 		},
 		(options) =>
 			Effect.gen(function* () {
@@ -1741,6 +2338,8 @@ export const makeTodayCommand = <R, E>(execute: TodayExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions);
 			}),
@@ -1756,6 +2355,8 @@ export const makeCommentsListCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID")),
 		},
 		(options) =>
@@ -1765,6 +2366,8 @@ export const makeCommentsListCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id);
 			}),
@@ -1780,6 +2383,8 @@ export const makeCommentsAddCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID")),
 			text: Options.text("text").pipe(Options.withDescription("Comment text")),
 			author: Options.text("author").pipe(
@@ -1794,6 +2399,8 @@ export const makeCommentsAddCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id, options.text, toUndefined(options.author));
 			}),
@@ -1806,9 +2413,9 @@ export const makeCommentsCommand = <R, E>(
 ) =>
 	Command.make(
 		"comments",
-		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption },
-		({ dataDir, tasksFile, worklogFile, pretty }) =>
-			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty })),
+		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption, output: outputOption, fields: fieldsOption },
+		({ dataDir, tasksFile, worklogFile, pretty, output, fields }) =>
+			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty, output, fields })),
 	).pipe(
 		Command.withDescription("Manage task comments"),
 		Command.withSubcommands([
@@ -1825,6 +2432,8 @@ export const makeDepAddCommand = <R, E>(execute: DepAddExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID")),
 			dependsOn: Options.text("depends-on").pipe(Options.withDescription("ID of blocking task")),
 		},
@@ -1835,6 +2444,8 @@ export const makeDepAddCommand = <R, E>(execute: DepAddExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id, options.dependsOn);
 			}),
@@ -1848,6 +2459,8 @@ export const makeDepRemoveCommand = <R, E>(execute: DepRemoveExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID")),
 			dependsOn: Options.text("depends-on").pipe(Options.withDescription("ID of blocking task to remove")),
 		},
@@ -1858,6 +2471,8 @@ export const makeDepRemoveCommand = <R, E>(execute: DepRemoveExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id, options.dependsOn);
 			}),
@@ -1871,6 +2486,8 @@ export const makeDepListCommand = <R, E>(execute: DepListExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Task ID")),
 		},
 		(options) =>
@@ -1880,28 +2497,61 @@ export const makeDepListCommand = <R, E>(execute: DepListExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id);
 			}),
 	).pipe(Command.withDescription("List dependencies for a task"));
 
+export const makeDepCheckCommand = <R, E>(execute: DepCheckExecute<R, E>) =>
+	Command.make(
+		"check",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const globalOptions = resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				});
+				yield* execute(globalOptions);
+			}),
+	).pipe(
+		Command.withDescription(
+			"Audit all tasks for dependency cycles, self-blocks and missing or template blockers",
+		),
+	);
+
 export const makeDepCommand = <R, E>(
 	execute: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
 	executeAdd: DepAddExecute<R, E>,
 	executeRemove: DepRemoveExecute<R, E>,
 	executeList: DepListExecute<R, E>,
+	executeCheck: DepCheckExecute<R, E>,
 ) =>
 	Command.make(
 		"dep",
-		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption },
-		({ dataDir, tasksFile, worklogFile, pretty }) =>
-			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty })),
+		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption, output: outputOption, fields: fieldsOption },
+		({ dataDir, tasksFile, worklogFile, pretty, output, fields }) =>
+			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty, output, fields })),
 	).pipe(
 		Command.withDescription("Manage task dependencies"),
 		Command.withSubcommands([
 			makeDepAddCommand(executeAdd),
 			makeDepRemoveCommand(executeRemove),
 			makeDepListCommand(executeList),
+			makeDepCheckCommand(executeCheck),
 		]),
 	);
 
@@ -1913,6 +2563,8 @@ export const makeReadyCommand = <R, E>(execute: ReadyExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			limit: Options.integer("limit").pipe(
 				Options.withDescription("Maximum number of tasks to return"),
 				Options.optional,
@@ -1944,6 +2596,8 @@ export const makeReadyCommand = <R, E>(execute: ReadyExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, {
 					limit: toUndefined(options.limit),
@@ -1964,6 +2618,8 @@ export const makeBlockedCommand = <R, E>(execute: BlockedExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			limit: Options.integer("limit").pipe(
 				Options.withDescription("Maximum number of tasks to return"),
 				Options.optional,
@@ -1976,6 +2632,8 @@ export const makeBlockedCommand = <R, E>(execute: BlockedExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, toUndefined(options.limit));
 			}),
@@ -1989,6 +2647,8 @@ export const makeSearchCommand = <R, E>(execute: SearchExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			query: Options.text("query").pipe(Options.withDescription("Search text")),
 			status: Options.text("status").pipe(
 				Options.withDescription("Filter by status"),
@@ -2006,6 +2666,8 @@ export const makeSearchCommand = <R, E>(execute: SearchExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.query, {
 					status: toUndefined(options.status),
@@ -2022,6 +2684,8 @@ export const makeStatusCommand = <R, E>(execute: StatusExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 		},
 		(options) =>
 			Effect.gen(function* () {
@@ -2030,6 +2694,8 @@ export const makeStatusCommand = <R, E>(execute: StatusExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions);
 			}),
@@ -2043,6 +2709,8 @@ export const makePrimeCommand = <R, E>(execute: PrimeExecute<R, E>) =>
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			full: Options.boolean("full").pipe(
 				Options.withDescription("Include descriptions and dependency trees"),
 			),
@@ -2054,6 +2722,8 @@ export const makePrimeCommand = <R, E>(execute: PrimeExecute<R, E>) =>
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.full);
 			}),
@@ -2069,6 +2739,8 @@ export const makeProjectListCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			status: Options.text("status").pipe(
 				Options.withDescription("Filter by project status"),
 				Options.optional,
@@ -2085,6 +2757,8 @@ export const makeProjectListCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				const filters = resolveListProjectFilters(options);
 				yield* execute(globalOptions, filters);
@@ -2101,6 +2775,8 @@ export const makeProjectGetCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Project ID")),
 		},
 		(options) =>
@@ -2110,6 +2786,8 @@ export const makeProjectGetCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id);
 			}),
@@ -2125,6 +2803,8 @@ export const makeProjectCreateCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			title: Options.text("title").pipe(Options.withDescription("Project title")),
 			status: Options.text("status").pipe(
 				Options.withDescription("Initial project status"),
@@ -2150,6 +2830,8 @@ export const makeProjectCreateCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				const input = resolveCreateProjectInput(options);
 				yield* execute(globalOptions, input);
@@ -2166,6 +2848,8 @@ export const makeProjectUpdateCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Project ID")),
 			title: Options.text("title").pipe(
 				Options.withDescription("Updated project title"),
@@ -2195,6 +2879,8 @@ export const makeProjectUpdateCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				const patch = resolveUpdateProjectPatch(options);
 				yield* execute(globalOptions, options.id, patch);
@@ -2211,6 +2897,8 @@ export const makeProjectDeleteCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Project ID")),
 		},
 		(options) =>
@@ -2220,6 +2908,8 @@ export const makeProjectDeleteCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id);
 			}),
@@ -2235,6 +2925,8 @@ export const makeProjectTasksCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			id: Options.text("id").pipe(Options.withDescription("Project ID")),
 		},
 		(options) =>
@@ -2244,6 +2936,8 @@ export const makeProjectTasksCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				yield* execute(globalOptions, options.id);
 			}),
@@ -2259,6 +2953,8 @@ export const makeProjectSummaryCommand = <R, E>(
 			tasksFile: tasksFileOption,
 			worklogFile: worklogFileOption,
 			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
 			status: Options.text("status").pipe(
 				Options.withDescription("Filter by project status"),
 				Options.optional,
@@ -2275,12 +2971,72 @@ export const makeProjectSummaryCommand = <R, E>(
 					tasksFile: options.tasksFile,
 					worklogFile: options.worklogFile,
 					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
 				});
 				const filters = resolveListProjectFilters(options);
 				yield* execute(globalOptions, filters);
 			}),
 	).pipe(Command.withDescription("Show project summary with task counts"));
 
+export const makeProjectStatsCommand = <R, E>(
+	execute: ProjectStatsExecute<R, E>,
+) =>
+	Command.make(
+		"stats",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			id: Options.text("id").pipe(Options.withDescription("Project ID")),
+			format: Options.text("format").pipe(
+				Options.withDescription("Output format: json (default) or csv"),
+				Options.optional,
+			),
+			series: Options.text("series").pipe(
+				Options.withDescription(
+					"Series to print as CSV: burndown (default), throughput or tasks",
+				),
+				Options.optional,
+			),
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const globalOptions = resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				});
+				const format = toUndefined(options.format) ?? "json";
+				if (format !== "json" && format !== "csv") {
+					return yield* Effect.fail(
+						`Unsupported project stats format: ${format} (expected json or csv)`,
+					);
+				}
+				const series = toUndefined(options.series) ?? "burndown";
+				if (!projectMetricsSeries.includes(series as ProjectMetricsSeries)) {
+					return yield* Effect.fail(
+						`Unsupported series: ${series} (expected ${projectMetricsSeries.join(", ")})`,
+					);
+				}
+
+				yield* execute(globalOptions, options.id, {
+					format,
+					series: series as ProjectMetricsSeries,
+				});
+			}),
+	).pipe(
+		Command.withDescription(
+			"Show throughput, lead time, cycle time and burndown for a project",
+		),
+	);
+
 export const makeProjectCommand = <R, E>(
 	execute: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
 	executeList: ListProjectsExecute<R, E>,
@@ -2290,12 +3046,13 @@ export const makeProjectCommand = <R, E>(
 	executeDelete: DeleteProjectExecute<R, E>,
 	executeTasks: ProjectTasksExecute<R, E>,
 	executeSummary: ProjectSummaryExecute<R, E>,
+	executeStats: ProjectStatsExecute<R, E>,
 ) =>
 	Command.make(
 		"project",
-		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption },
-		({ dataDir, tasksFile, worklogFile, pretty }) =>
-			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty })),
+		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption, output: outputOption, fields: fieldsOption },
+		({ dataDir, tasksFile, worklogFile, pretty, output, fields }) =>
+			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty, output, fields })),
 	).pipe(
 		Command.withDescription("Manage projects"),
 		Command.withSubcommands([
@@ -2306,6 +3063,7 @@ export const makeProjectCommand = <R, E>(
 			makeProjectDeleteCommand(executeDelete),
 			makeProjectTasksCommand(executeTasks),
 			makeProjectSummaryCommand(executeSummary),
+			makeProjectStatsCommand(executeStats),
 		]),
 	);
 
@@ -2318,9 +3076,9 @@ export const makeWorkLogCommand = <R, E>(
 ) =>
 	Command.make(
 		"worklog",
-		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption },
-		({ dataDir, tasksFile, worklogFile, pretty }) =>
-			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty })),
+		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption, output: outputOption, fields: fieldsOption },
+		({ dataDir, tasksFile, worklogFile, pretty, output, fields }) =>
+			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty, output, fields })),
 	).pipe(
 		Command.withDescription("Manage work log entries"),
 		Command.withSubcommands([
@@ -2331,45 +3089,1107 @@ export const makeWorkLogCommand = <R, E>(
 		]),
 	);
 
-export const makeTasksCommand = <R, E>(
-	execute: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
-	executeList: ListTasksExecute<R, E>,
-	executeGet: GetTaskExecute<R, E>,
-	executeCreate: CreateTaskExecute<R, E>,
-	executeUpdate: UpdateTaskExecute<R, E>,
-	executeDelete: DeleteTaskExecute<R, E>,
-	executeHighlight: HighlightTaskExecute<R, E>,
-	executeComplete: CompleteTaskExecute<R, E>,
-	executeRecurrenceCheck: RecurrenceCheckExecute<R, E>,
-	executePerspective: PerspectiveExecute<R, E>,
-	executePerspectives: PerspectivesExecute<R, E>,
-	executeWorkLog: WorkLogExecute<R, E>,
-	executeWorkLogList: ListWorkLogExecute<R, E>,
-	executeWorkLogCreate: CreateWorkLogExecute<R, E>,
-	executeWorkLogUpdate: UpdateWorkLogExecute<R, E>,
-	executeWorkLogDelete: DeleteWorkLogExecute<R, E>,
-	executeMigrate: MigrateExecute<R, E>,
-	executeProject: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
-	executeProjectList: ListProjectsExecute<R, E>,
-	executeProjectGet: GetProjectExecute<R, E>,
-	executeProjectCreate: CreateProjectExecute<R, E>,
-	executeProjectUpdate: UpdateProjectExecute<R, E>,
-	executeProjectDelete: DeleteProjectExecute<R, E>,
-	executeProjectTasks: ProjectTasksExecute<R, E>,
-	executeProjectSummary: ProjectSummaryExecute<R, E>,
-	executePromote: PromoteExecute<R, E>,
-	executeAreas: AreasExecute<R, E>,
-	executeContexts: ContextsExecute<R, E>,
-	executeTemplate: TemplateExecute<R, E>,
-	executeTemplateList: TemplateListExecute<R, E>,
-	executeTemplateCreate: TemplateCreateExecute<R, E>,
-	executeTemplateInstantiate: TemplateInstantiateExecute<R, E>,
-	executeUnblock: UnblockTaskExecute<R, E>,
-	executeChain: ChainExecute<R, E>,
-	executeNext: NextTaskExecute<R, E>,
-	executeDrop: DropTaskExecute<R, E>,
-	executeToday: TodayExecute<R, E>,
-	executeComments: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+export const makeHistoryCommand = <R, E>(execute: HistoryExecute<R, E>) =>
+	Command.make(
+		"history",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			id: Options.text("id").pipe(Options.withDescription("Task ID")),
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const globalOptions = resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				});
+				yield* execute(globalOptions, options.id);
+			}),
+	).pipe(Command.withDescription("Show the change history (audit trail) for a task"));
+
+export const makeUndoCommand = <R, E>(execute: UndoExecute<R, E>) =>
+	Command.make(
+		"undo",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			steps: Options.integer("steps").pipe(
+				Options.withDescription("Number of mutations to undo (default: 1)"),
+				Options.optional,
+			),
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const globalOptions = resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				});
+				yield* execute(globalOptions, toUndefined(options.steps));
+			}),
+	).pipe(Command.withDescription("Revert the most recent task mutations (create, update, complete, delete)"));
+
+export const makeRedoCommand = <R, E>(execute: RedoExecute<R, E>) =>
+	Command.make(
+		"redo",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			steps: Options.integer("steps").pipe(
+				Options.withDescription("Number of mutations to redo (default: 1)"),
+				Options.optional,
+			),
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const globalOptions = resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				});
+				yield* execute(globalOptions, toUndefined(options.steps));
+			}),
+	).pipe(Command.withDescription("Re-apply task mutations that were undone"));
+
+export const makeCriticalPathCommand = <R, E>(
+	execute: CriticalPathExecute<R, E>,
+) =>
+	Command.make(
+		"critical-path",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			project: Options.text("project").pipe(
+				Options.withDescription("Only report tasks in this project"),
+				Options.optional,
+			),
+			minutesPerDay: Options.integer("minutes-per-day").pipe(
+				Options.withDescription(
+					"Minutes of work scheduled per day (default 480)",
+				),
+				Options.optional,
+			),
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const globalOptions = resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				});
+				const minutesPerDay = toUndefined(options.minutesPerDay);
+				if (minutesPerDay !== undefined && minutesPerDay <= 0) {
+					return yield* Effect.fail("--minutes-per-day must be positive");
+				}
+				yield* execute(globalOptions, {
+					project: toUndefined(options.project),
+					minutesPerDay,
+				});
+			}),
+	).pipe(
+		Command.withDescription(
+			"Project finish dates over blocked_by chains and flag unreachable due dates",
+		),
+	);
+
+export const makeGraphCommand = <R, E>(execute: GraphExecute<R, E>) =>
+	Command.make(
+		"graph",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			format: Options.text("format").pipe(
+				Options.withDescription("Output format: dot (default) or mermaid"),
+				Options.optional,
+			),
+			project: Options.text("project").pipe(
+				Options.withDescription("Only include tasks in this project"),
+				Options.optional,
+			),
+			root: Options.text("root").pipe(
+				Options.withDescription(
+					"Only include tasks connected to this task ID",
+				),
+				Options.optional,
+			),
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const globalOptions = resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				});
+				const format = toUndefined(options.format) ?? "dot";
+				if (!taskGraphFormats.includes(format as TaskGraphFormat)) {
+					return yield* Effect.fail(
+						`Unsupported graph format: ${format} (expected ${taskGraphFormats.join(" or ")})`,
+					);
+				}
+
+				yield* execute(globalOptions, format as TaskGraphFormat, {
+					project: toUndefined(options.project),
+					root: toUndefined(options.root),
+				});
+			}),
+	).pipe(
+		Command.withDescription(
+			"Render blocked_by, parent and related edges as Graphviz DOT or Mermaid",
+		),
+	);
+
+export const makeShowCommand = <R, E>(execute: ShowTaskExecute<R, E>) =>
+	Command.make(
+		"show",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			id: Options.text("id").pipe(Options.withDescription("Task ID")),
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const globalOptions = resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				});
+				yield* execute(globalOptions, options.id);
+			}),
+	).pipe(
+		Command.withDescription("Get a task by id with a rollup of its children"),
+	);
+
+export const makeTreeCommand = <R, E>(execute: TreeExecute<R, E>) =>
+	Command.make(
+		"tree",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			id: Options.text("id").pipe(
+				Options.withDescription("Only print the subtree under this task ID"),
+				Options.optional,
+			),
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const globalOptions = resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				});
+				yield* execute(globalOptions, toUndefined(options.id));
+			}),
+	).pipe(Command.withDescription("Print the parent/child task hierarchy"));
+
+export const makeWatchCommand = <R, E>(execute: WatchExecute<R, E>) =>
+	Command.make(
+		"watch",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			filter: Options.text("filter").pipe(
+				Options.withDescription(
+					"Only report tasks matching this filter expression",
+				),
+				Options.optional,
+			),
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const globalOptions = resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				});
+				const filter = toUndefined(options.filter);
+				if (filter === undefined) {
+					return yield* execute(globalOptions);
+				}
+
+				const expression = parseFilterExpression(filter);
+				if (Either.isLeft(expression)) {
+					return yield* Effect.fail(
+						formatFilterExpressionError(filter, expression.left),
+					);
+				}
+
+				yield* execute(globalOptions, expression.right);
+			}),
+	).pipe(
+		Command.withDescription(
+			"Stream task and work log changes as JSON lines until interrupted",
+		),
+	);
+
+export const makeStartCommand = <R, E>(execute: StartTimerExecute<R, E>) =>
+	Command.make(
+		"start",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			id: Options.text("id").pipe(Options.withDescription("Task ID")),
+			autoStop: Options.boolean("auto-stop").pipe(
+				Options.withDescription(
+					"Stop the timer already running or paused instead of refusing",
+				),
+			),
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const globalOptions = resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				});
+				yield* execute(globalOptions, options.id, options.autoStop);
+			}),
+	).pipe(Command.withDescription("Start a timer on a task"));
+
+const makeTimerCommand = <R, E>(
+	name: string,
+	description: string,
+	execute: TimerExecute<R, E>,
+) =>
+	Command.make(
+		name,
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const globalOptions = resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				});
+				yield* execute(globalOptions);
+			}),
+	).pipe(Command.withDescription(description));
+
+export const makeStopCommand = <R, E>(execute: TimerExecute<R, E>) =>
+	makeTimerCommand(
+		"stop",
+		"Stop the running timer and add its time to the task's actual minutes",
+		execute,
+	);
+
+export const makePauseCommand = <R, E>(execute: TimerExecute<R, E>) =>
+	makeTimerCommand("pause", "Pause the running timer", execute);
+
+export const makeResumeCommand = <R, E>(execute: TimerExecute<R, E>) =>
+	makeTimerCommand("resume", "Resume the paused timer", execute);
+
+export const makeCurrentCommand = <R, E>(execute: TimerExecute<R, E>) =>
+	makeTimerCommand("current", "Show the running or paused timer", execute);
+
+const resolveReportDate = (
+	flag: string,
+	value: string | undefined,
+): Effect.Effect<string | undefined, string> => {
+	if (value === undefined) {
+		return Effect.succeed(undefined);
+	}
+	const resolved = resolveFilterDate(value, todayIso());
+	return resolved === null
+		? Effect.fail(
+				`Invalid --${flag} date: ${value} (expected YYYY-MM-DD, today or ±Nd)`,
+			)
+		: Effect.succeed(resolved);
+};
+
+export const makeReportTimeCommand = <R, E>(
+	execute: ReportTimeExecute<R, E>,
+) =>
+	Command.make(
+		"time",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			from: Options.text("from").pipe(
+				Options.withDescription(
+					"First day to include (YYYY-MM-DD, today or ±Nd, UTC)",
+				),
+				Options.optional,
+			),
+			to: Options.text("to").pipe(
+				Options.withDescription(
+					"Last day to include (YYYY-MM-DD, today or ±Nd, UTC)",
+				),
+				Options.optional,
+			),
+			groupBy: Options.text("group-by").pipe(
+				Options.withDescription(
+					"Group totals by project, area, tag, task or day (default: day)",
+				),
+				Options.optional,
+			),
+			format: Options.text("format").pipe(
+				Options.withDescription("Output format: json (default), csv or table"),
+				Options.optional,
+			),
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const globalOptions = resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				});
+				const groupBy = toUndefined(options.groupBy) ?? "day";
+				if (!timesheetGroupings.includes(groupBy as TimesheetGroupBy)) {
+					return yield* Effect.fail(
+						`Unsupported --group-by: ${groupBy} (expected ${timesheetGroupings.join(", ")})`,
+					);
+				}
+				const format = toUndefined(options.format) ?? "json";
+				if (!timesheetFormats.includes(format as TimesheetFormat)) {
+					return yield* Effect.fail(
+						`Unsupported report format: ${format} (expected ${timesheetFormats.join(", ")})`,
+					);
+				}
+				const from = yield* resolveReportDate("from", toUndefined(options.from));
+				const to = yield* resolveReportDate("to", toUndefined(options.to));
+				if (from !== undefined && to !== undefined && from > to) {
+					return yield* Effect.fail(`--from ${from} is after --to ${to}`);
+				}
+
+				yield* execute(globalOptions, {
+					groupBy: groupBy as TimesheetGroupBy,
+					format: format as TimesheetFormat,
+					from,
+					to,
+				});
+			}),
+	).pipe(
+		Command.withDescription(
+			"Total logged time per project, area, tag, task or day",
+		),
+	);
+
+export const makeReportCommand = <R, E>(
+	execute: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeTime: ReportTimeExecute<R, E>,
+) =>
+	Command.make(
+		"report",
+		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption, output: outputOption, fields: fieldsOption },
+		({ dataDir, tasksFile, worklogFile, pretty, output, fields }) =>
+			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty, output, fields })),
+	).pipe(
+		Command.withDescription("Summarize logged work"),
+		Command.withSubcommands([makeReportTimeCommand(executeTime)]),
+	);
+
+export const makeStatsEstimatesCommand = <R, E>(
+	execute: StatsEstimatesExecute<R, E>,
+) =>
+	Command.make(
+		"estimates",
+		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption, output: outputOption, fields: fieldsOption },
+		({ dataDir, tasksFile, worklogFile, pretty, output, fields }) =>
+			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty, output, fields })),
+	).pipe(
+		Command.withDescription(
+			"Compare estimated and actual minutes by area, type, energy, assignee and month",
+		),
+	);
+
+export const makeStatsCommand = <R, E>(
+	execute: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeEstimates: StatsEstimatesExecute<R, E>,
+) =>
+	Command.make(
+		"stats",
+		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption, output: outputOption, fields: fieldsOption },
+		({ dataDir, tasksFile, worklogFile, pretty, output, fields }) =>
+			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty, output, fields })),
+	).pipe(
+		Command.withDescription("Analyze task history"),
+		Command.withSubcommands([makeStatsEstimatesCommand(executeEstimates)]),
+	);
+
+const exportFileOption = Options.file("file").pipe(
+	Options.withDescription("Write to this file instead of stdout"),
+	Options.optional,
+);
+
+export const makeExportIcsCommand = <R, E>(execute: ExportIcsExecute<R, E>) =>
+	Command.make(
+		"ics",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			perspective: Options.text("perspective").pipe(
+				Options.withDescription("Only export tasks matching this perspective"),
+				Options.optional,
+			),
+			file: exportFileOption,
+		},
+		(options) =>
+			execute(
+				resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				}),
+				{
+					perspective: toUndefined(options.perspective),
+					file: toUndefined(options.file),
+				},
+			),
+	).pipe(
+		Command.withDescription(
+			"Write due dates, deferrals and clock recurrences as an iCalendar file",
+		),
+	);
+
+export const makeExportTaskwarriorCommand = <R, E>(
+	execute: ExportTaskwarriorExecute<R, E>,
+) =>
+	Command.make(
+		"taskwarrior",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			perspective: Options.text("perspective").pipe(
+				Options.withDescription("Only export tasks matching this perspective"),
+				Options.optional,
+			),
+			file: exportFileOption,
+		},
+		(options) =>
+			execute(
+				resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				}),
+				{
+					perspective: toUndefined(options.perspective),
+					file: toUndefined(options.file),
+				},
+			),
+	).pipe(
+		Command.withDescription(
+			"Write tasks as `task export` JSON for `task import`",
+		),
+	);
+
+export const makeExportTodoTxtCommand = <R, E>(
+	execute: ExportTodoTxtExecute<R, E>,
+) =>
+	Command.make(
+		"todotxt",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			perspective: Options.text("perspective").pipe(
+				Options.withDescription("Only export tasks matching this perspective"),
+				Options.optional,
+			),
+			file: exportFileOption,
+		},
+		(options) =>
+			execute(
+				resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				}),
+				{
+					perspective: toUndefined(options.perspective),
+					file: toUndefined(options.file),
+				},
+			),
+	).pipe(Command.withDescription("Write tasks as a todo.txt file"));
+
+export const makeExportIssuesCommand = <R, E>(
+	execute: ExportIssuesExecute<R, E>,
+) =>
+	Command.make(
+		"issues",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			perspective: Options.text("perspective").pipe(
+				Options.withDescription("Only export tasks matching this perspective"),
+				Options.optional,
+			),
+			file: exportFileOption,
+		},
+		(options) =>
+			execute(
+				resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				}),
+				{
+					perspective: toUndefined(options.perspective),
+					file: toUndefined(options.file),
+				},
+			),
+	).pipe(
+		Command.withDescription(
+			"Write tasks as issues in the `gh issue list --json` shape",
+		),
+	);
+
+export const makeExportReportCommand = <R, E>(
+	execute: ExportReportExecute<R, E>,
+) =>
+	Command.make(
+		"report",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			perspective: Options.text("perspective").pipe(
+				Options.withDescription("Only report tasks matching this perspective"),
+				Options.optional,
+			),
+			project: Options.text("project").pipe(
+				Options.withDescription("Only report tasks in this project"),
+				Options.optional,
+			),
+			groupBy: Options.text("group-by").pipe(
+				Options.withDescription(
+					"Group sections by project (default), area or status",
+				),
+				Options.optional,
+			),
+			format: Options.text("format").pipe(
+				Options.withDescription("Output format: md (default) or html"),
+				Options.optional,
+			),
+			file: exportFileOption,
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const groupBy = toUndefined(options.groupBy) ?? "project";
+				if (!reportGroupings.includes(groupBy as ReportGroupBy)) {
+					return yield* Effect.fail(
+						`Unsupported --group-by: ${groupBy} (expected ${reportGroupings.join(", ")})`,
+					);
+				}
+				const format = toUndefined(options.format) ?? "md";
+				if (!reportFormats.includes(format as ReportFormat)) {
+					return yield* Effect.fail(
+						`Unsupported report format: ${format} (expected ${reportFormats.join(", ")})`,
+					);
+				}
+
+				yield* execute(
+					resolveGlobalCliOptions({
+						dataDir: options.dataDir,
+						tasksFile: options.tasksFile,
+						worklogFile: options.worklogFile,
+						pretty: options.pretty,
+						output: options.output,
+						fields: options.fields,
+					}),
+					{
+						perspective: toUndefined(options.perspective),
+						project: toUndefined(options.project),
+						groupBy: groupBy as ReportGroupBy,
+						format: format as ReportFormat,
+						file: toUndefined(options.file),
+					},
+				);
+			}),
+	).pipe(
+		Command.withDescription(
+			"Write tasks as a Markdown or HTML report grouped into sections",
+		),
+	);
+
+export const makeExportCommand = <R, E>(
+	execute: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeIcs: ExportIcsExecute<R, E>,
+	executeTaskwarrior: ExportTaskwarriorExecute<R, E>,
+	executeTodoTxt: ExportTodoTxtExecute<R, E>,
+	executeIssues: ExportIssuesExecute<R, E>,
+	executeReport: ExportReportExecute<R, E>,
+) =>
+	Command.make(
+		"export",
+		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption, output: outputOption, fields: fieldsOption },
+		({ dataDir, tasksFile, worklogFile, pretty, output, fields }) =>
+			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty, output, fields })),
+	).pipe(
+		Command.withDescription("Export tasks to other formats"),
+		Command.withSubcommands([
+			makeExportIcsCommand(executeIcs),
+			makeExportTaskwarriorCommand(executeTaskwarrior),
+			makeExportTodoTxtCommand(executeTodoTxt),
+			makeExportIssuesCommand(executeIssues),
+			makeExportReportCommand(executeReport),
+		]),
+	);
+
+const importFileOption = Options.file("file", { exists: "yes" }).pipe(
+	Options.withDescription("File to import"),
+);
+
+export const makeImportIcsCommand = <R, E>(execute: ImportIcsExecute<R, E>) =>
+	Command.make(
+		"ics",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			file: importFileOption,
+		},
+		(options) =>
+			execute(
+				resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				}),
+				options.file,
+			),
+	).pipe(
+		Command.withDescription(
+			"Create or update tasks from the VTODOs and VEVENTs of an iCalendar file",
+		),
+	);
+
+export const makeImportTaskwarriorCommand = <R, E>(
+	execute: ImportTaskwarriorExecute<R, E>,
+) =>
+	Command.make(
+		"taskwarrior",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			file: importFileOption,
+		},
+		(options) =>
+			execute(
+				resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				}),
+				options.file,
+			),
+	).pipe(
+		Command.withDescription(
+			"Create or update tasks from `task export` JSON",
+		),
+	);
+
+export const makeImportTodoTxtCommand = <R, E>(
+	execute: ImportTodoTxtExecute<R, E>,
+) =>
+	Command.make(
+		"todotxt",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			file: importFileOption,
+		},
+		(options) =>
+			execute(
+				resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				}),
+				options.file,
+			),
+	).pipe(
+		Command.withDescription("Create or update tasks from a todo.txt file"),
+	);
+
+export const makeImportIssuesCommand = <R, E>(
+	execute: ImportIssuesExecute<R, E>,
+) =>
+	Command.make(
+		"issues",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			file: importFileOption,
+		},
+		(options) =>
+			execute(
+				resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				}),
+				options.file,
+			),
+	).pipe(
+		Command.withDescription(
+			"Create or update tasks from a `gh issue list --json` dump",
+		),
+	);
+
+export const makeImportMarkdownCommand = <R, E>(
+	execute: ImportMarkdownExecute<R, E>,
+) =>
+	Command.make(
+		"markdown",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			file: importFileOption,
+			project: Options.text("project").pipe(
+				Options.withDescription("Put every imported task in this project"),
+				Options.optional,
+			),
+			nesting: Options.text("nesting").pipe(
+				Options.withDescription(
+					"Store nested items as subtasks (default) or as child tasks with parent",
+				),
+				Options.optional,
+			),
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const nesting = toUndefined(options.nesting) ?? "subtasks";
+				if (!markdownNestings.includes(nesting as MarkdownNesting)) {
+					return yield* Effect.fail(
+						`Unsupported --nesting: ${nesting} (expected ${markdownNestings.join(", ")})`,
+					);
+				}
+
+				yield* execute(
+					resolveGlobalCliOptions({
+						dataDir: options.dataDir,
+						tasksFile: options.tasksFile,
+						worklogFile: options.worklogFile,
+						pretty: options.pretty,
+						output: options.output,
+						fields: options.fields,
+					}),
+					options.file,
+					{
+						project: toUndefined(options.project),
+						nesting: nesting as MarkdownNesting,
+					},
+				);
+			}),
+	).pipe(
+		Command.withDescription(
+			"Create or update tasks from a nested markdown checklist",
+		),
+	);
+
+export const makeImportCommand = <R, E>(
+	execute: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeIcs: ImportIcsExecute<R, E>,
+	executeTaskwarrior: ImportTaskwarriorExecute<R, E>,
+	executeTodoTxt: ImportTodoTxtExecute<R, E>,
+	executeIssues: ImportIssuesExecute<R, E>,
+	executeMarkdown: ImportMarkdownExecute<R, E>,
+) =>
+	Command.make(
+		"import",
+		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption, output: outputOption, fields: fieldsOption },
+		({ dataDir, tasksFile, worklogFile, pretty, output, fields }) =>
+			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty, output, fields })),
+	).pipe(
+		Command.withDescription("Import tasks from other formats"),
+		Command.withSubcommands([
+			makeImportIcsCommand(executeIcs),
+			makeImportTaskwarriorCommand(executeTaskwarrior),
+			makeImportTodoTxtCommand(executeTodoTxt),
+			makeImportIssuesCommand(executeIssues),
+			makeImportMarkdownCommand(executeMarkdown),
+		]),
+	);
+
+export const makeTuiCommand = <R, E>(execute: TuiExecute<R, E>) =>
+	Command.make(
+		"tui",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			perspective: Options.text("perspective").pipe(
+				Options.withDescription("Perspective to open first"),
+				Options.optional,
+			),
+		},
+		(options) =>
+			execute(
+				resolveGlobalCliOptions({
+					dataDir: options.dataDir,
+					tasksFile: options.tasksFile,
+					worklogFile: options.worklogFile,
+					pretty: options.pretty,
+					output: options.output,
+					fields: options.fields,
+				}),
+				toUndefined(options.perspective),
+			),
+	).pipe(
+		Command.withDescription(
+			"Browse and triage tasks in a full-screen terminal UI",
+		),
+	);
+
+export const makeReviewCommand = <R, E>(execute: ReviewExecute<R, E>) =>
+	Command.make(
+		"review",
+		{
+			dataDir: dataDirOption,
+			tasksFile: tasksFileOption,
+			worklogFile: worklogFileOption,
+			pretty: prettyOption,
+			output: outputOption,
+			fields: fieldsOption,
+			staleDays: Options.integer("stale-days").pipe(
+				Options.withDescription(
+					"Treat active tasks untouched for more than N days as stale (default 14)",
+				),
+				Options.optional,
+			),
+			within: Options.integer("within").pipe(
+				Options.withDescription(
+					"Include deferred tasks coming due within N days (default 7)",
+				),
+				Options.optional,
+			),
+			decisions: Options.file("decisions", { exists: "yes" }).pipe(
+				Options.withDescription(
+					"Apply a JSON array of {id, action, until?, minutes?} decisions",
+				),
+				Options.optional,
+			),
+			interactive: Options.boolean("interactive").pipe(
+				Options.withDescription("Step through the review one item at a time"),
+			),
+		},
+		(options) =>
+			Effect.gen(function* () {
+				const staleDays = toUndefined(options.staleDays);
+				const within = toUndefined(options.within);
+				if (
+					(staleDays !== undefined && staleDays < 0) ||
+					(within !== undefined && within < 0)
+				) {
+					return yield* Effect.fail(
+						"--stale-days and --within cannot be negative",
+					);
+				}
+				const decisionsFile = toUndefined(options.decisions);
+				if (decisionsFile !== undefined && options.interactive) {
+					return yield* Effect.fail(
+						"Use either --decisions or --interactive, not both",
+					);
+				}
+
+				yield* execute(
+					resolveGlobalCliOptions({
+						dataDir: options.dataDir,
+						tasksFile: options.tasksFile,
+						worklogFile: options.worklogFile,
+						pretty: options.pretty,
+						output: options.output,
+						fields: options.fields,
+					}),
+					{
+						staleDays,
+						deferWindowDays: within,
+						decisionsFile,
+						interactive: options.interactive,
+					},
+				);
+			}),
+	).pipe(
+		Command.withDescription(
+			"Review overdue, stale and soon-due deferred tasks and stalled projects",
+		),
+	);
+
+export const makeTasksCommand = <R, E>(
+	execute: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeList: ListTasksExecute<R, E>,
+	executeGet: GetTaskExecute<R, E>,
+	executeCreate: CreateTaskExecute<R, E>,
+	executeUpdate: UpdateTaskExecute<R, E>,
+	executeDelete: DeleteTaskExecute<R, E>,
+	executeHighlight: HighlightTaskExecute<R, E>,
+	executeComplete: CompleteTaskExecute<R, E>,
+	executeRecurrenceCheck: RecurrenceCheckExecute<R, E>,
+	executePerspective: PerspectiveExecute<R, E>,
+	executePerspectives: PerspectivesExecute<R, E>,
+	executeWorkLog: WorkLogExecute<R, E>,
+	executeWorkLogList: ListWorkLogExecute<R, E>,
+	executeWorkLogCreate: CreateWorkLogExecute<R, E>,
+	executeWorkLogUpdate: UpdateWorkLogExecute<R, E>,
+	executeWorkLogDelete: DeleteWorkLogExecute<R, E>,
+	executeMigrate: MigrateExecute<R, E>,
+	executeProject: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeProjectList: ListProjectsExecute<R, E>,
+	executeProjectGet: GetProjectExecute<R, E>,
+	executeProjectCreate: CreateProjectExecute<R, E>,
+	executeProjectUpdate: UpdateProjectExecute<R, E>,
+	executeProjectDelete: DeleteProjectExecute<R, E>,
+	executeProjectTasks: ProjectTasksExecute<R, E>,
+	executeProjectSummary: ProjectSummaryExecute<R, E>,
+	executePromote: PromoteExecute<R, E>,
+	executeAreas: AreasExecute<R, E>,
+	executeContexts: ContextsExecute<R, E>,
+	executeTemplate: TemplateExecute<R, E>,
+	executeTemplateList: TemplateListExecute<R, E>,
+	executeTemplateCreate: TemplateCreateExecute<R, E>,
+	executeTemplateInstantiate: TemplateInstantiateExecute<R, E>,
+	executeUnblock: UnblockTaskExecute<R, E>,
+	executeChain: ChainExecute<R, E>,
+	executeNext: NextTaskExecute<R, E>,
+	executeDrop: DropTaskExecute<R, E>,
+	executeToday: TodayExecute<R, E>,
+	executeComments: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
 	executeCommentsList: CommentsListExecute<R, E>,
 	executeCommentsAdd: CommentsAddExecute<R, E>,
 	executeDep: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
@@ -2381,12 +4201,45 @@ export const makeTasksCommand = <R, E>(
 	executeSearch: SearchExecute<R, E>,
 	executeStatus: StatusExecute<R, E>,
 	executePrime: PrimeExecute<R, E>,
+	executeHistory: HistoryExecute<R, E>,
+	executeUndo: UndoExecute<R, E>,
+	executeRedo: RedoExecute<R, E>,
+	executeDepCheck: DepCheckExecute<R, E>,
+	executeCriticalPath: CriticalPathExecute<R, E>,
+	executeGraph: GraphExecute<R, E>,
+	executeShow: ShowTaskExecute<R, E>,
+	executeTree: TreeExecute<R, E>,
+	executeWatch: WatchExecute<R, E>,
+	executeStart: StartTimerExecute<R, E>,
+	executeStop: TimerExecute<R, E>,
+	executePause: TimerExecute<R, E>,
+	executeResume: TimerExecute<R, E>,
+	executeCurrent: TimerExecute<R, E>,
+	executeReport: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeReportTime: ReportTimeExecute<R, E>,
+	executeStats: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeStatsEstimates: StatsEstimatesExecute<R, E>,
+	executeProjectStats: ProjectStatsExecute<R, E>,
+	executeExport: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeExportIcs: ExportIcsExecute<R, E>,
+	executeImport: (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeImportIcs: ImportIcsExecute<R, E>,
+	executeExportTaskwarrior: ExportTaskwarriorExecute<R, E>,
+	executeImportTaskwarrior: ImportTaskwarriorExecute<R, E>,
+	executeExportTodoTxt: ExportTodoTxtExecute<R, E>,
+	executeImportTodoTxt: ImportTodoTxtExecute<R, E>,
+	executeExportIssues: ExportIssuesExecute<R, E>,
+	executeImportIssues: ImportIssuesExecute<R, E>,
+	executeImportMarkdown: ImportMarkdownExecute<R, E>,
+	executeExportReport: ExportReportExecute<R, E>,
+	executeTui: TuiExecute<R, E>,
+	executeReview: ReviewExecute<R, E>,
 ) =>
 	Command.make(
 		"tasks",
-		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption },
-		({ dataDir, tasksFile, worklogFile, pretty }) =>
-			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty })),
+		{ dataDir: dataDirOption, tasksFile: tasksFileOption, worklogFile: worklogFileOption, pretty: prettyOption, output: outputOption, fields: fieldsOption },
+		({ dataDir, tasksFile, worklogFile, pretty, output, fields }) =>
+			execute(resolveGlobalCliOptions({ dataDir, tasksFile, worklogFile, pretty, output, fields })),
 	).pipe(
 		Command.withDescription(
 			"Manage tasks and work-log entries via proseql (YAML, JSON, TOML, prose, and more).",
@@ -2419,6 +4272,7 @@ export const makeTasksCommand = <R, E>(
 				executeProjectDelete,
 				executeProjectTasks,
 				executeProjectSummary,
+				executeProjectStats,
 			),
 			makePromoteCommand(executePromote),
 			makeAreasCommand(executeAreas),
@@ -2435,1081 +4289,2074 @@ export const makeTasksCommand = <R, E>(
 			makeDropCommand(executeDrop),
 			makeTodayCommand(executeToday),
 			makeCommentsCommand(executeComments, executeCommentsList, executeCommentsAdd),
-			makeDepCommand(executeDep, executeDepAdd, executeDepRemove, executeDepList),
+			makeDepCommand(
+				executeDep,
+				executeDepAdd,
+				executeDepRemove,
+				executeDepList,
+				executeDepCheck,
+			),
 			makeReadyCommand(executeReady),
 			makeBlockedCommand(executeBlocked),
 			makeSearchCommand(executeSearch),
 			makeStatusCommand(executeStatus),
 			makePrimeCommand(executePrime),
+			makeHistoryCommand(executeHistory),
+			makeUndoCommand(executeUndo),
+			makeRedoCommand(executeRedo),
+			makeCriticalPathCommand(executeCriticalPath),
+			makeGraphCommand(executeGraph),
+			makeShowCommand(executeShow),
+			makeTreeCommand(executeTree),
+			makeWatchCommand(executeWatch),
+			makeStartCommand(executeStart),
+			makeStopCommand(executeStop),
+			makePauseCommand(executePause),
+			makeResumeCommand(executeResume),
+			makeCurrentCommand(executeCurrent),
+			makeReportCommand(executeReport, executeReportTime),
+			makeStatsCommand(executeStats, executeStatsEstimates),
+			makeExportCommand(
+				executeExport,
+				executeExportIcs,
+				executeExportTaskwarrior,
+				executeExportTodoTxt,
+				executeExportIssues,
+				executeExportReport,
+			),
+			makeImportCommand(
+				executeImport,
+				executeImportIcs,
+				executeImportTaskwarrior,
+				executeImportTodoTxt,
+				executeImportIssues,
+				executeImportMarkdown,
+			),
+			makeTuiCommand(executeTui),
+			makeReviewCommand(executeReview),
 		]),
 	);
 
-const noopExecute = (_options: GlobalCliOptions): Effect.Effect<void> =>
-	Effect.void;
+const noopExecute = (_options: GlobalCliOptions): Effect.Effect<void> =>
+	Effect.void;
+
+const noopListExecute = (
+	_options: GlobalCliOptions,
+	_filters: ListTasksFilters,
+): Effect.Effect<void> => Effect.void;
+
+const noopGetExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopCreateExecute = (
+	_options: GlobalCliOptions,
+	_input: TaskCreateInput,
+	_suggestEstimate?: boolean,
+): Effect.Effect<void> => Effect.void;
+
+const noopUpdateExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+	_patch: TaskPatchInput,
+): Effect.Effect<void> => Effect.void;
+
+const noopDeleteExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopHighlightExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopCompleteExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+	_reason?: string,
+	_completeParent?: boolean,
+): Effect.Effect<void> => Effect.void;
+
+const noopRecurrenceCheckExecute = (
+	_options: GlobalCliOptions,
+): Effect.Effect<void> => Effect.void;
+
+const noopPerspectiveExecute = (
+	_options: GlobalCliOptions,
+	_name: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopPerspectivesExecute = (
+	_options: GlobalCliOptions,
+): Effect.Effect<void> => Effect.void;
+
+const noopWorkLogExecute = (_options: GlobalCliOptions): Effect.Effect<void> =>
+	Effect.void;
+
+const noopWorkLogListExecute = (
+	_options: GlobalCliOptions,
+	_filters: ListWorkLogFilters,
+): Effect.Effect<void> => Effect.void;
+
+const noopWorkLogCreateExecute = (
+	_options: GlobalCliOptions,
+	_input: WorkLogCreateInput,
+): Effect.Effect<void> => Effect.void;
+
+const noopWorkLogUpdateExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+	_patch: WorkLogPatchInput,
+): Effect.Effect<void> => Effect.void;
+
+const noopWorkLogDeleteExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopMigrateExecute = (
+	_options: GlobalCliOptions,
+	_fromDir: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopProjectExecute = (_options: GlobalCliOptions): Effect.Effect<void> =>
+	Effect.void;
+
+const noopProjectListExecute = (
+	_options: GlobalCliOptions,
+	_filters: ListProjectsFilters,
+): Effect.Effect<void> => Effect.void;
+
+const noopProjectGetExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopProjectCreateExecute = (
+	_options: GlobalCliOptions,
+	_input: ProjectCreateInputType,
+): Effect.Effect<void> => Effect.void;
+
+const noopProjectUpdateExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+	_patch: ProjectPatchType,
+): Effect.Effect<void> => Effect.void;
+
+const noopProjectDeleteExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopProjectTasksExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopProjectSummaryExecute = (
+	_options: GlobalCliOptions,
+	_filters: ListProjectsFilters,
+): Effect.Effect<void> => Effect.void;
+
+const noopPromoteExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+	_index: number,
+): Effect.Effect<void> => Effect.void;
+
+const noopAreasExecute = (
+	_options: GlobalCliOptions,
+): Effect.Effect<void> => Effect.void;
+
+const noopContextsExecute = (
+	_options: GlobalCliOptions,
+): Effect.Effect<void> => Effect.void;
+
+const noopTemplateExecute = (
+	_options: GlobalCliOptions,
+): Effect.Effect<void> => Effect.void;
+
+const noopTemplateListExecute = (
+	_options: GlobalCliOptions,
+): Effect.Effect<void> => Effect.void;
+
+const noopTemplateCreateExecute = (
+	_options: GlobalCliOptions,
+	_input: TaskCreateInput,
+): Effect.Effect<void> => Effect.void;
+
+const noopTemplateInstantiateExecute = (
+	_options: GlobalCliOptions,
+	_templateId: string,
+	_overrides: {
+		readonly title?: string;
+		readonly due?: string;
+		readonly defer_until?: string;
+		readonly status?: string;
+		readonly projects?: ReadonlyArray<string>;
+	},
+): Effect.Effect<void> => Effect.void;
+
+const noopUnblockExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopChainExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopNextExecute = (
+	_options: GlobalCliOptions,
+	_energy?: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopDropExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopTodayExecute = (
+	_options: GlobalCliOptions,
+): Effect.Effect<void> => Effect.void;
+
+const noopCommentsListExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopCommentsAddExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+	_text: string,
+	_author?: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopDepAddExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+	_dependsOn: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopDepRemoveExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+	_dependsOn: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopDepListExecute = (
+	_options: GlobalCliOptions,
+	_id: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopReadyExecute = (
+	_options: GlobalCliOptions,
+	_filters: {
+		readonly limit?: number;
+		readonly assignee?: string;
+		readonly priority?: number;
+		readonly type?: string;
+		readonly unassigned?: boolean;
+		readonly sort?: string;
+	},
+): Effect.Effect<void> => Effect.void;
+
+const noopBlockedExecute = (
+	_options: GlobalCliOptions,
+	_limit?: number,
+): Effect.Effect<void> => Effect.void;
 
-const noopListExecute = (
+const noopSearchExecute = (
 	_options: GlobalCliOptions,
-	_filters: ListTasksFilters,
+	_query: string,
+	_filters: { readonly status?: string; readonly limit?: number },
 ): Effect.Effect<void> => Effect.void;
 
-const noopGetExecute = (
+const noopStatusExecute = (
 	_options: GlobalCliOptions,
-	_id: string,
 ): Effect.Effect<void> => Effect.void;
 
-const noopCreateExecute = (
+const noopPrimeExecute = (
 	_options: GlobalCliOptions,
-	_input: TaskCreateInput,
+	_full: boolean,
 ): Effect.Effect<void> => Effect.void;
 
-const noopUpdateExecute = (
+const noopHistoryExecute = (
 	_options: GlobalCliOptions,
 	_id: string,
-	_patch: TaskPatchInput,
 ): Effect.Effect<void> => Effect.void;
 
-const noopDeleteExecute = (
+const noopUndoExecute = (
+	_options: GlobalCliOptions,
+	_steps?: number,
+): Effect.Effect<void> => Effect.void;
+
+const noopRedoExecute = (
+	_options: GlobalCliOptions,
+	_steps?: number,
+): Effect.Effect<void> => Effect.void;
+
+const noopDepCheckExecute = (
+	_options: GlobalCliOptions,
+): Effect.Effect<void> => Effect.void;
+
+const noopCriticalPathExecute = (
+	_options: GlobalCliOptions,
+	_filters: { readonly project?: string; readonly minutesPerDay?: number },
+): Effect.Effect<void> => Effect.void;
+
+const noopGraphExecute = (
+	_options: GlobalCliOptions,
+	_format: TaskGraphFormat,
+	_filters: { readonly project?: string; readonly root?: string },
+): Effect.Effect<void> => Effect.void;
+
+const noopShowExecute = (
 	_options: GlobalCliOptions,
 	_id: string,
 ): Effect.Effect<void> => Effect.void;
 
-const noopHighlightExecute = (
+const noopTreeExecute = (
+	_options: GlobalCliOptions,
+	_rootId?: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopWatchExecute = (
+	_options: GlobalCliOptions,
+	_filter?: FilterExpression,
+): Effect.Effect<void> => Effect.void;
+
+const noopStartTimerExecute = (
 	_options: GlobalCliOptions,
 	_id: string,
+	_autoStop: boolean,
 ): Effect.Effect<void> => Effect.void;
 
-const noopCompleteExecute = (
+const noopTimerExecute = (_options: GlobalCliOptions): Effect.Effect<void> =>
+	Effect.void;
+
+const noopReportTimeExecute = (
+	_options: GlobalCliOptions,
+	_report: {
+		readonly groupBy: TimesheetGroupBy;
+		readonly format: TimesheetFormat;
+		readonly from?: string;
+		readonly to?: string;
+	},
+): Effect.Effect<void> => Effect.void;
+
+const noopProjectStatsExecute = (
 	_options: GlobalCliOptions,
 	_id: string,
-	_reason?: string,
+	_output: {
+		readonly format: "json" | "csv";
+		readonly series: ProjectMetricsSeries;
+	},
 ): Effect.Effect<void> => Effect.void;
 
-const noopRecurrenceCheckExecute = (
+const noopExportIcsExecute = (
 	_options: GlobalCliOptions,
+	_target: { readonly perspective?: string; readonly file?: string },
 ): Effect.Effect<void> => Effect.void;
 
-const noopPerspectiveExecute = (
+const noopImportIcsExecute = (
 	_options: GlobalCliOptions,
-	_name: string,
+	_file: string,
 ): Effect.Effect<void> => Effect.void;
 
-const noopPerspectivesExecute = (
+const noopExportTaskwarriorExecute = (
 	_options: GlobalCliOptions,
+	_target: { readonly perspective?: string; readonly file?: string },
 ): Effect.Effect<void> => Effect.void;
 
-const noopWorkLogExecute = (_options: GlobalCliOptions): Effect.Effect<void> =>
-	Effect.void;
+const noopImportTaskwarriorExecute = (
+	_options: GlobalCliOptions,
+	_file: string,
+): Effect.Effect<void> => Effect.void;
 
-const noopWorkLogListExecute = (
+const noopExportTodoTxtExecute = (
 	_options: GlobalCliOptions,
-	_filters: ListWorkLogFilters,
+	_target: { readonly perspective?: string; readonly file?: string },
 ): Effect.Effect<void> => Effect.void;
 
-const noopWorkLogCreateExecute = (
+const noopImportTodoTxtExecute = (
 	_options: GlobalCliOptions,
-	_input: WorkLogCreateInput,
+	_file: string,
 ): Effect.Effect<void> => Effect.void;
 
-const noopWorkLogUpdateExecute = (
+const noopExportIssuesExecute = (
 	_options: GlobalCliOptions,
-	_id: string,
-	_patch: WorkLogPatchInput,
+	_target: { readonly perspective?: string; readonly file?: string },
 ): Effect.Effect<void> => Effect.void;
 
-const noopWorkLogDeleteExecute = (
+const noopImportIssuesExecute = (
 	_options: GlobalCliOptions,
-	_id: string,
+	_file: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopImportMarkdownExecute = (
+	_options: GlobalCliOptions,
+	_file: string,
+	_target: { readonly project?: string; readonly nesting: MarkdownNesting },
+): Effect.Effect<void> => Effect.void;
+
+const noopExportReportExecute = (
+	_options: GlobalCliOptions,
+	_target: {
+		readonly perspective?: string;
+		readonly project?: string;
+		readonly groupBy: ReportGroupBy;
+		readonly format: ReportFormat;
+		readonly file?: string;
+	},
+): Effect.Effect<void> => Effect.void;
+
+const noopTuiExecute = (
+	_options: GlobalCliOptions,
+	_perspective?: string,
+): Effect.Effect<void> => Effect.void;
+
+const noopReviewExecute = (
+	_options: GlobalCliOptions,
+	_review: {
+		readonly staleDays?: number;
+		readonly deferWindowDays?: number;
+		readonly decisionsFile?: string;
+		readonly interactive: boolean;
+	},
 ): Effect.Effect<void> => Effect.void;
 
-const noopMigrateExecute = (
-	_options: GlobalCliOptions,
-	_fromDir: string,
-): Effect.Effect<void> => Effect.void;
+const defaultListExecute: ListTasksExecute<never, string> = (
+	options,
+	filters,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const tasks = yield* repository.listTasks(filters);
+
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(tasks, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
+
+const defaultGetExecute: GetTaskExecute<never, string> = (options, id) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const task = yield* repository.getTask(id);
+
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(task, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
+
+const defaultCreateExecute: CreateTaskExecute<never, string> = (
+	options,
+	input,
+	suggest = false,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		let resolvedInput = input;
+		if (suggest && input.estimated_minutes === undefined) {
+			const suggestion = suggestEstimate(
+				{ tags: input.tags, from_template: input.from_template },
+				yield* repository.listTasks(),
+			);
+			yield* Effect.sync(() => {
+				process.stderr.write(
+					suggestion === null
+						? "No similar completed tasks to suggest an estimate from\n"
+						: `Suggested estimate: ${suggestion.minutes} minutes from ${suggestion.sample_size} similar task(s)\n`,
+				);
+			});
+			if (suggestion !== null) {
+				resolvedInput = { ...input, estimated_minutes: suggestion.minutes };
+			}
+		}
+		const task = yield* repository.createTask(resolvedInput);
+
+		for (const projectId of task.projects) {
+			const projectExists = yield* Effect.catchAll(
+				Effect.map(repository.getProject(projectId), () => true),
+				() => Effect.succeed(false),
+			);
+			if (!projectExists) {
+				yield* Effect.sync(() => {
+					process.stderr.write(
+						`Warning: project "${projectId}" does not exist as a registered project\n`,
+					);
+				});
+			}
+		}
+
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(task, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
+
+const defaultUpdateExecute: UpdateTaskExecute<never, string> = (
+	options,
+	id,
+	patch,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const task = yield* repository.updateTask(id, patch);
+
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(task, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
+
+const defaultDeleteExecute: DeleteTaskExecute<never, string> = (options, id) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const result = yield* repository.deleteTask(id);
+
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(result, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
+
+const defaultHighlightExecute: HighlightTaskExecute<never, string> = (
+	options,
+	id,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const task = yield* repository.setDailyHighlight(id);
+
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(task, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
+
+const defaultCompleteExecute: CompleteTaskExecute<never, string> = (
+	options,
+	id,
+	reason,
+	completeParent,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		if (reason !== undefined) {
+			yield* repository.updateTask(id, { close_reason: reason });
+		}
+		const task = yield* repository.completeTask(id, { completeParent });
+
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(task, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
+
+const defaultRecurrenceCheckExecute: RecurrenceCheckExecute<never, string> = (
+	options,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const result = yield* repository.processDueRecurrences(new Date());
+
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(result, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
+
+const defaultPerspectiveExecute: PerspectiveExecute<never, string> = (
+	options,
+	name,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const tasks = yield* repository.listTasks();
+		const config = yield* loadPerspectiveConfig(options.dataDir);
+		const perspective = config[name];
+
+		if (perspective === undefined) {
+			return yield* Effect.fail(`Perspective not found: ${name}`);
+		}
+
+		const projected = applyPerspectiveToTasks(tasks, perspective);
+
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(projected, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
+
+const defaultPerspectivesExecute: PerspectivesExecute<never, string> = (
+	options,
+) =>
+	Effect.gen(function* () {
+		const config = yield* loadPerspectiveConfig(options.dataDir);
+		const names = Object.keys(config).sort((a, b) => a.localeCompare(b));
+
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(names, options)}\n`);
+		});
+	});
+
+const defaultWorkLogListExecute: ListWorkLogExecute<never, string> = (
+	options,
+	filters,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const entries = yield* repository.listWorkLog(filters);
+
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(entries, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
+
+const defaultWorkLogCreateExecute: CreateWorkLogExecute<never, string> = (
+	options,
+	input,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const entry = yield* repository.createWorkLogEntry(input);
+
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(entry, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const noopProjectExecute = (_options: GlobalCliOptions): Effect.Effect<void> =>
-	Effect.void;
+const defaultWorkLogUpdateExecute: UpdateWorkLogExecute<never, string> = (
+	options,
+	id,
+	patch,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const entry = yield* repository.updateWorkLogEntry(id, patch);
 
-const noopProjectListExecute = (
-	_options: GlobalCliOptions,
-	_filters: ListProjectsFilters,
-): Effect.Effect<void> => Effect.void;
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(entry, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const noopProjectGetExecute = (
-	_options: GlobalCliOptions,
-	_id: string,
-): Effect.Effect<void> => Effect.void;
+const defaultWorkLogDeleteExecute: DeleteWorkLogExecute<never, string> = (
+	options,
+	id,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const result = yield* repository.deleteWorkLogEntry(id);
 
-const noopProjectCreateExecute = (
-	_options: GlobalCliOptions,
-	_input: ProjectCreateInputType,
-): Effect.Effect<void> => Effect.void;
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(result, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const noopProjectUpdateExecute = (
-	_options: GlobalCliOptions,
-	_id: string,
-	_patch: ProjectPatchType,
-): Effect.Effect<void> => Effect.void;
+const defaultProjectListExecute: ListProjectsExecute<never, string> = (
+	options,
+	filters,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const projects = yield* repository.listProjects(filters);
 
-const noopProjectDeleteExecute = (
-	_options: GlobalCliOptions,
-	_id: string,
-): Effect.Effect<void> => Effect.void;
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(projects, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const noopProjectTasksExecute = (
-	_options: GlobalCliOptions,
-	_id: string,
-): Effect.Effect<void> => Effect.void;
+const defaultProjectGetExecute: GetProjectExecute<never, string> = (
+	options,
+	id,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const project = yield* repository.getProject(id);
 
-const noopProjectSummaryExecute = (
-	_options: GlobalCliOptions,
-	_filters: ListProjectsFilters,
-): Effect.Effect<void> => Effect.void;
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(project, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const noopPromoteExecute = (
-	_options: GlobalCliOptions,
-	_id: string,
-	_index: number,
-): Effect.Effect<void> => Effect.void;
+const defaultProjectCreateExecute: CreateProjectExecute<never, string> = (
+	options,
+	input,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const project = yield* repository.createProject(input);
 
-const noopAreasExecute = (
-	_options: GlobalCliOptions,
-): Effect.Effect<void> => Effect.void;
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(project, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const noopContextsExecute = (
-	_options: GlobalCliOptions,
-): Effect.Effect<void> => Effect.void;
+const defaultProjectUpdateExecute: UpdateProjectExecute<never, string> = (
+	options,
+	id,
+	patch,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const project = yield* repository.updateProject(id, patch);
 
-const noopTemplateExecute = (
-	_options: GlobalCliOptions,
-): Effect.Effect<void> => Effect.void;
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(project, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const noopTemplateListExecute = (
-	_options: GlobalCliOptions,
-): Effect.Effect<void> => Effect.void;
+const defaultProjectDeleteExecute: DeleteProjectExecute<never, string> = (
+	options,
+	id,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
 
-const noopTemplateCreateExecute = (
-	_options: GlobalCliOptions,
-	_input: TaskCreateInput,
-): Effect.Effect<void> => Effect.void;
+		const referencingTasks = yield* repository.listTasks({ project: id });
+		if (referencingTasks.length > 0) {
+			yield* Effect.sync(() => {
+				process.stderr.write(
+					`Warning: ${referencingTasks.length} task(s) still reference project "${id}"\n`,
+				);
+			});
+		}
 
-const noopTemplateInstantiateExecute = (
-	_options: GlobalCliOptions,
-	_templateId: string,
-	_overrides: {
-		readonly title?: string;
-		readonly due?: string;
-		readonly defer_until?: string;
-		readonly status?: string;
-		readonly projects?: ReadonlyArray<string>;
-	},
-): Effect.Effect<void> => Effect.void;
+		const result = yield* repository.deleteProject(id);
 
-const noopUnblockExecute = (
-	_options: GlobalCliOptions,
-	_id: string,
-): Effect.Effect<void> => Effect.void;
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(result, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const noopChainExecute = (
-	_options: GlobalCliOptions,
-	_id: string,
-): Effect.Effect<void> => Effect.void;
+const defaultProjectTasksExecute: ProjectTasksExecute<never, string> = (
+	options,
+	id,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const tasks = yield* repository.listTasks({ project: id });
 
-const noopNextExecute = (
-	_options: GlobalCliOptions,
-	_energy?: string,
-): Effect.Effect<void> => Effect.void;
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(tasks, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const noopDropExecute = (
-	_options: GlobalCliOptions,
-	_id: string,
-): Effect.Effect<void> => Effect.void;
+const defaultProjectSummaryExecute: ProjectSummaryExecute<never, string> = (
+	options,
+	filters,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const projects = yield* repository.listProjects(filters);
+		const tasks = yield* repository.listTasks();
 
-const noopTodayExecute = (
-	_options: GlobalCliOptions,
-): Effect.Effect<void> => Effect.void;
+		const summary = projects.map((project) => {
+			const projectTasks = tasks.filter((t) => t.projects.includes(project.id));
+			const statusCounts: Record<string, number> = {};
+			for (const t of projectTasks) {
+				statusCounts[t.status] = (statusCounts[t.status] ?? 0) + 1;
+			}
+			return {
+				id: project.id,
+				title: project.title,
+				status: project.status,
+				area: project.area,
+				task_count: projectTasks.length,
+				task_status_counts: statusCounts,
+			};
+		});
 
-const noopCommentsListExecute = (
-	_options: GlobalCliOptions,
-	_id: string,
-): Effect.Effect<void> => Effect.void;
+		const unregisteredProjects = new Set<string>();
+		for (const task of tasks) {
+			for (const projectId of task.projects) {
+				if (!projects.some((p) => p.id === projectId)) {
+					unregisteredProjects.add(projectId);
+				}
+			}
+		}
 
-const noopCommentsAddExecute = (
-	_options: GlobalCliOptions,
-	_id: string,
-	_text: string,
-	_author?: string,
-): Effect.Effect<void> => Effect.void;
+		const result = {
+			projects: summary,
+			...(unregisteredProjects.size > 0
+				? { unregistered: Array.from(unregisteredProjects).sort() }
+				: {}),
+		};
 
-const noopDepAddExecute = (
-	_options: GlobalCliOptions,
-	_id: string,
-	_dependsOn: string,
-): Effect.Effect<void> => Effect.void;
+		if (unregisteredProjects.size > 0) {
+			process.stderr.write(
+				`Warning: ${unregisteredProjects.size} unregistered project(s) found in tasks: ${Array.from(unregisteredProjects).sort().join(", ")}\n`,
+			);
+		}
 
-const noopDepRemoveExecute = (
-	_options: GlobalCliOptions,
-	_id: string,
-	_dependsOn: string,
-): Effect.Effect<void> => Effect.void;
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(result, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const noopDepListExecute = (
-	_options: GlobalCliOptions,
-	_id: string,
-): Effect.Effect<void> => Effect.void;
+const defaultMigrateExecute: MigrateExecute<never, string> = (
+	options,
+	fromDir,
+) =>
+	Effect.gen(function* () {
+		const oldLayer = TaskRepositoryLive({ dataDir: fromDir });
+		const newLayer = makeRepositoryLayer(options);
 
-const noopReadyExecute = (
-	_options: GlobalCliOptions,
-	_filters: {
-		readonly limit?: number;
-		readonly assignee?: string;
-		readonly priority?: number;
-		readonly type?: string;
-		readonly unassigned?: boolean;
-		readonly sort?: string;
-	},
-): Effect.Effect<void> => Effect.void;
+		const oldRepo = yield* Effect.provide(
+			TaskRepository,
+			oldLayer,
+		);
+		const newRepo = yield* Effect.provide(
+			TaskRepository,
+			newLayer,
+		);
 
-const noopBlockedExecute = (
-	_options: GlobalCliOptions,
-	_limit?: number,
-): Effect.Effect<void> => Effect.void;
+		const tasks = yield* oldRepo.listTasks();
+		const workLog = yield* oldRepo.listWorkLog();
 
-const noopSearchExecute = (
-	_options: GlobalCliOptions,
-	_query: string,
-	_filters: { readonly status?: string; readonly limit?: number },
-): Effect.Effect<void> => Effect.void;
+		let taskCount = 0;
+		for (const task of tasks) {
+			yield* newRepo.importTask(task);
+			taskCount++;
+		}
 
-const noopStatusExecute = (
-	_options: GlobalCliOptions,
-): Effect.Effect<void> => Effect.void;
+		let workLogCount = 0;
+		for (const entry of workLog) {
+			yield* newRepo.importWorkLogEntry(entry);
+			workLogCount++;
+		}
 
-const noopPrimeExecute = (
-	_options: GlobalCliOptions,
-	_full: boolean,
-): Effect.Effect<void> => Effect.void;
+		yield* Effect.sync(() => {
+			process.stdout.write(
+				`${renderOutput({ migrated: { tasks: taskCount, workLogEntries: workLogCount } }, options)}\n`,
+			);
+		});
+	});
 
-const defaultListExecute: ListTasksExecute<never, string> = (
+const defaultPromoteExecute: PromoteExecute<never, string> = (
 	options,
-	filters,
+	id,
+	index,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const tasks = yield* repository.listTasks(filters);
+		const newTask = yield* promoteSubtask(repository, id, index);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(tasks, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(newTask, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultGetExecute: GetTaskExecute<never, string> = (options, id) =>
+const defaultAreasExecute: AreasExecute<never, string> = (options) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const task = yield* repository.getTask(id);
+		const tasks = yield* repository.listTasks();
+		const projects = yield* repository.listProjects();
+		const areas = listAreas(tasks, projects);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(task, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(areas, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultCreateExecute: CreateTaskExecute<never, string> = (
-	options,
-	input,
-) =>
+const defaultContextsExecute: ContextsExecute<never, string> = (options) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const task = yield* repository.createTask(input);
-
-		for (const projectId of task.projects) {
-			const projectExists = yield* Effect.catchAll(
-				Effect.map(repository.getProject(projectId), () => true),
-				() => Effect.succeed(false),
-			);
-			if (!projectExists) {
-				yield* Effect.sync(() => {
-					process.stderr.write(
-						`Warning: project "${projectId}" does not exist as a registered project\n`,
-					);
-				});
-			}
-		}
+		const tasks = yield* repository.listTasks();
+		const contexts = listContexts(tasks);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(task, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(contexts, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultUpdateExecute: UpdateTaskExecute<never, string> = (
+const defaultTemplateListExecute: TemplateListExecute<never, string> = (
 	options,
-	id,
-	patch,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const task = yield* repository.updateTask(id, patch);
+		const tasks = yield* repository.listTasks({ include_templates: true });
+		const templates = tasks.filter((t) => t.is_template === true);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(task, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(templates, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultDeleteExecute: DeleteTaskExecute<never, string> = (options, id) =>
+const defaultTemplateCreateExecute: TemplateCreateExecute<never, string> = (
+	options,
+	input,
+) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const result = yield* repository.deleteTask(id);
+		const task = yield* repository.createTask(input);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(result, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(task, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultHighlightExecute: HighlightTaskExecute<never, string> = (
-	options,
-	id,
-) =>
+const defaultTemplateInstantiateExecute: TemplateInstantiateExecute<
+	never,
+	string
+> = (options, templateId, overrides) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const task = yield* repository.setDailyHighlight(id);
+		const task = yield* repository.instantiateTemplate(templateId, overrides);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(task, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(task, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultCompleteExecute: CompleteTaskExecute<never, string> = (
+const defaultUnblockExecute: UnblockTaskExecute<never, string> = (
 	options,
 	id,
-	reason,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		if (reason !== undefined) {
-			yield* repository.updateTask(id, { close_reason: reason });
-		}
-		const task = yield* repository.completeTask(id);
+		const completed = yield* repository.completeTask(id);
+		const allTasks = yield* repository.listTasks();
+		const unblocked = allTasks.filter(
+			(t) => t.blocked_by.includes(id) && isUnblocked(t, allTasks),
+		);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(task, options.pretty)}\n`);
+			process.stdout.write(
+				`${renderOutput({ completed, unblocked }, options)}\n`,
+			);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultRecurrenceCheckExecute: RecurrenceCheckExecute<never, string> = (
-	options,
-) =>
+const defaultChainExecute: ChainExecute<never, string> = (options, id) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const result = yield* repository.processDueRecurrences(new Date());
+		const allTasks = yield* repository.listTasks();
+		const chain = buildDependencyChain(id, allTasks);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(result, options.pretty)}\n`);
+			process.stdout.write(
+				`${renderOutput(chain, options)}\n`,
+			);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultPerspectiveExecute: PerspectiveExecute<never, string> = (
-	options,
-	name,
-) =>
+/**
+ * Records that the tasks were shown and warns about any suggested as often as
+ * their area's `surfacing.yaml` limit allows. Returns the tasks as stored.
+ */
+const surfaceTasks = (
+	repository: TaskRepositoryService,
+	options: GlobalCliOptions,
+	tasks: ReadonlyArray<Task>,
+	today: string,
+): Effect.Effect<Array<Task>, string> =>
 	Effect.gen(function* () {
-		const repository = yield* TaskRepository;
-		const tasks = yield* repository.listTasks();
-		const config = yield* loadPerspectiveConfig(options.dataDir);
-		const perspective = config[name];
-
-		if (perspective === undefined) {
-			return yield* Effect.fail(`Perspective not found: ${name}`);
-		}
-
-		const projected = applyPerspectiveToTasks(tasks, perspective);
+		const config = yield* loadSurfacingConfig(options.dataDir);
+		const surfaced = yield* repository.markSurfaced(
+			tasks.map((task) => task.id),
+			today,
+		);
+		const flagged = new Map(
+			surfaced.filter(needsDecision(config)).map((task) => [task.id, task]),
+		);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(projected, options.pretty)}\n`);
+			for (const task of flagged.values()) {
+				process.stderr.write(
+					`Warning: "${task.title}" (${task.id}) has been suggested ${task.nudge_count} times. Drop or defer it?\n`,
+				);
+			}
 		});
-	}).pipe(Effect.provide(makeRepositoryLayer(options)));
+		return surfaced;
+	});
 
-const defaultPerspectivesExecute: PerspectivesExecute<never, string> = (
+const defaultNextExecute: NextTaskExecute<never, string> = (
 	options,
+	energy,
 ) =>
 	Effect.gen(function* () {
-		const config = yield* loadPerspectiveConfig(options.dataDir);
-		const names = Object.keys(config).sort((a, b) => a.localeCompare(b));
+		const repository = yield* TaskRepository;
+		const allTasks = yield* repository.listTasks({ status: "active" });
+		const today = new Date().toISOString().slice(0, 10);
+		const deferredPredicate = isDeferred(today);
+
+		const candidates = allTasks.filter(
+			(t) =>
+				isUnblocked(t, allTasks) &&
+				!deferredPredicate(t) &&
+				(energy === undefined || t.energy === energy),
+		);
+
+		candidates.sort(byUrgencyDesc);
+		const [next = null] = yield* surfaceTasks(
+			repository,
+			options,
+			rotateSurfaced(candidates).slice(0, 1),
+			today,
+		);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(names, options.pretty)}\n`);
+			process.stdout.write(
+				`${renderOutput(next, options)}\n`,
+			);
 		});
-	});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultWorkLogListExecute: ListWorkLogExecute<never, string> = (
-	options,
-	filters,
-) =>
+const defaultDropExecute: DropTaskExecute<never, string> = (options, id) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const entries = yield* repository.listWorkLog(filters);
+		const task = yield* repository.updateTask(id, { status: "dropped" });
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(entries, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(task, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultWorkLogCreateExecute: CreateWorkLogExecute<never, string> = (
-	options,
-	input,
-) =>
+const defaultTodayExecute: TodayExecute<never, string> = (options) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const entry = yield* repository.createWorkLogEntry(input);
+		const highlight = yield* repository.getDailyHighlight();
+		const allTasks = yield* repository.listTasks({ status: "active" });
+		const today = new Date().toISOString().slice(0, 10);
+
+		const dueTasks = allTasks.filter(
+			(t) => t.due !== null && t.due <= today,
+		);
+		const undeferredTasks = allTasks.filter(
+			(t) => t.defer_until !== null && t.defer_until <= today,
+		);
+		const highlighted = highlight !== null ? [highlight] : [];
+		const shown = yield* surfaceTasks(
+			repository,
+			options,
+			[...highlighted, ...dueTasks, ...undeferredTasks],
+			today,
+		);
+		const highlightTask = highlight !== null ? (shown[0] ?? null) : null;
+		const due = shown.slice(
+			highlighted.length,
+			highlighted.length + dueTasks.length,
+		);
+		const undeferred = shown.slice(highlighted.length + dueTasks.length);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(entry, options.pretty)}\n`);
+			process.stdout.write(
+				`${renderOutput({ highlight: highlightTask, due, undeferred }, options)}\n`,
+			);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultWorkLogUpdateExecute: UpdateWorkLogExecute<never, string> = (
+const defaultCommentsListExecute: CommentsListExecute<never, string> = (
 	options,
 	id,
-	patch,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const entry = yield* repository.updateWorkLogEntry(id, patch);
+		const task = yield* repository.getTask(id);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(entry, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(task.comments, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultWorkLogDeleteExecute: DeleteWorkLogExecute<never, string> = (
+const defaultCommentsAddExecute: CommentsAddExecute<never, string> = (
 	options,
 	id,
+	text,
+	author,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const result = yield* repository.deleteWorkLogEntry(id);
+		const task = yield* repository.getTask(id);
+		const newComment = {
+			text,
+			author: author ?? "",
+			created: new Date().toISOString().slice(0, 10),
+		};
+		const updated = yield* repository.updateTask(id, {
+			comments: [...task.comments, newComment],
+		});
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(result, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(updated.comments, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultProjectListExecute: ListProjectsExecute<never, string> = (
+const defaultDepAddExecute: DepAddExecute<never, string> = (
 	options,
-	filters,
+	id,
+	dependsOn,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const projects = yield* repository.listProjects(filters);
+		const task = yield* repository.getTask(id);
+		if (!task.blocked_by.includes(dependsOn)) {
+			yield* repository.updateTask(id, {
+				blocked_by: [...task.blocked_by, dependsOn],
+			});
+		}
+		const updated = yield* repository.getTask(id);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(projects, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(updated.blocked_by, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultProjectGetExecute: GetProjectExecute<never, string> = (
+const defaultDepRemoveExecute: DepRemoveExecute<never, string> = (
 	options,
 	id,
+	dependsOn,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const project = yield* repository.getProject(id);
+		const task = yield* repository.getTask(id);
+		const updated = yield* repository.updateTask(id, {
+			blocked_by: task.blocked_by.filter((dep) => dep !== dependsOn),
+		});
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(project, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(updated.blocked_by, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultProjectCreateExecute: CreateProjectExecute<never, string> = (
+const defaultDepListExecute: DepListExecute<never, string> = (
 	options,
-	input,
+	id,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const project = yield* repository.createProject(input);
+		const task = yield* repository.getTask(id);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(project, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(task.blocked_by, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultProjectUpdateExecute: UpdateProjectExecute<never, string> = (
-	options,
-	id,
-	patch,
+const readySortKeys: Readonly<Record<string, string>> = {
+	priority: "priority_asc",
+	urgency: "urgency_desc",
+	created: "created_asc",
+};
+
+const defaultReadyExecute: ReadyExecute<never, string> = (
+	options,
+	filters,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const project = yield* repository.updateProject(id, patch);
+		const today = new Date().toISOString().slice(0, 10);
+		const candidates = yield* repository.listTasks({
+			status: "active",
+			unblocked_only: true,
+			date: today,
+			...(filters.assignee !== undefined ? { assignee: filters.assignee } : {}),
+			...(filters.priority !== undefined ? { priority: filters.priority } : {}),
+			...(filters.type !== undefined ? { type: filters.type } : {}),
+			...(filters.unassigned === true ? { unassigned: true } : {}),
+		});
+
+		const sorted = sortTasks(
+			candidates,
+			readySortKeys[filters.sort ?? "priority"] ?? "priority_asc",
+		);
+		// Only a limited list suggests particular tasks; the full list is a
+		// listing and records nothing.
+		const ready =
+			filters.limit === undefined
+				? sorted
+				: yield* surfaceTasks(
+						repository,
+						options,
+						rotateSurfaced(sorted).slice(0, filters.limit),
+						today,
+					);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(project, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(ready, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultProjectDeleteExecute: DeleteProjectExecute<never, string> = (
+const defaultBlockedExecute: BlockedExecute<never, string> = (
 	options,
-	id,
+	limit,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-
-		const referencingTasks = yield* repository.listTasks({ project: id });
-		if (referencingTasks.length > 0) {
-			yield* Effect.sync(() => {
-				process.stderr.write(
-					`Warning: ${referencingTasks.length} task(s) still reference project "${id}"\n`,
-				);
-			});
+		const allTasks = yield* repository.listTasks();
+		let blockedTasks = allTasks.filter(
+			(t) => t.status !== "done" && t.status !== "dropped" && isBlocked(t, allTasks),
+		);
+		if (limit !== undefined) {
+			blockedTasks = blockedTasks.slice(0, limit);
 		}
 
-		const result = yield* repository.deleteProject(id);
-
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(result, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(blockedTasks, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultProjectTasksExecute: ProjectTasksExecute<never, string> = (
+const defaultSearchExecute: SearchExecute<never, string> = (
 	options,
-	id,
+	query,
+	filters,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const tasks = yield* repository.listTasks({ project: id });
+		const matches = yield* repository.listTasks({
+			query,
+			...(filters.status !== undefined ? { status: filters.status } : {}),
+		});
+		const results =
+			filters.limit !== undefined ? matches.slice(0, filters.limit) : matches;
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(tasks, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(results, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultProjectSummaryExecute: ProjectSummaryExecute<never, string> = (
-	options,
-	filters,
-) =>
+const defaultStatusExecute: StatusExecute<never, string> = (options) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const projects = yield* repository.listProjects(filters);
-		const tasks = yield* repository.listTasks();
+		const allTasks = yield* repository.listTasks();
+		const today = new Date().toISOString().slice(0, 10);
+		const deferredPredicate = isDeferred(today);
 
-		const summary = projects.map((project) => {
-			const projectTasks = tasks.filter((t) => t.projects.includes(project.id));
-			const statusCounts: Record<string, number> = {};
-			for (const t of projectTasks) {
-				statusCounts[t.status] = (statusCounts[t.status] ?? 0) + 1;
-			}
-			return {
-				id: project.id,
-				title: project.title,
-				status: project.status,
-				area: project.area,
-				task_count: projectTasks.length,
-				task_status_counts: statusCounts,
-			};
-		});
+		const byStatus: Record<string, number> = {};
+		const byType: Record<string, number> = {};
+		let readyCount = 0;
+		let blockedCount = 0;
+		let inProgressCount = 0;
 
-		const unregisteredProjects = new Set<string>();
-		for (const task of tasks) {
-			for (const projectId of task.projects) {
-				if (!projects.some((p) => p.id === projectId)) {
-					unregisteredProjects.add(projectId);
-				}
+		for (const task of allTasks) {
+			byStatus[task.status] = (byStatus[task.status] ?? 0) + 1;
+			byType[task.type] = (byType[task.type] ?? 0) + 1;
+
+			if (task.status === "in_progress") {
+				inProgressCount++;
+			}
+			if (
+				task.status !== "done" &&
+				task.status !== "dropped" &&
+				isBlocked(task, allTasks)
+			) {
+				blockedCount++;
+			}
+			if (
+				task.status === "active" &&
+				isUnblocked(task, allTasks) &&
+				!deferredPredicate(task)
+			) {
+				readyCount++;
 			}
 		}
 
 		const result = {
-			projects: summary,
-			...(unregisteredProjects.size > 0
-				? { unregistered: Array.from(unregisteredProjects).sort() }
-				: {}),
+			total: allTasks.length,
+			by_status: byStatus,
+			by_type: byType,
+			ready: readyCount,
+			blocked: blockedCount,
+			in_progress: inProgressCount,
 		};
 
-		if (unregisteredProjects.size > 0) {
-			process.stderr.write(
-				`Warning: ${unregisteredProjects.size} unregistered project(s) found in tasks: ${Array.from(unregisteredProjects).sort().join(", ")}\n`,
-			);
-		}
-
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(result, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(result, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultMigrateExecute: MigrateExecute<never, string> = (
-	options,
-	fromDir,
-) =>
+const defaultPrimeExecute: PrimeExecute<never, string> = (options, full) =>
 	Effect.gen(function* () {
-		const oldLayer = TaskRepositoryLive({ dataDir: fromDir });
-		const newLayer = makeRepositoryLayer(options);
-
-		const oldRepo = yield* Effect.provide(
-			TaskRepository,
-			oldLayer,
-		);
-		const newRepo = yield* Effect.provide(
-			TaskRepository,
-			newLayer,
-		);
-
-		const tasks = yield* oldRepo.listTasks();
-		const workLog = yield* oldRepo.listWorkLog();
+		const repository = yield* TaskRepository;
+		const allTasks = yield* repository.listTasks();
+		const today = new Date().toISOString().slice(0, 10);
+		const deferredPredicate = isDeferred(today);
 
-		let taskCount = 0;
-		for (const task of tasks) {
-			yield* newRepo.importTask(task);
-			taskCount++;
+		const groups: Record<string, typeof allTasks> = {};
+		for (const task of allTasks) {
+			const key = task.status;
+			if (groups[key] === undefined) groups[key] = [];
+			groups[key].push(task);
 		}
 
-		let workLogCount = 0;
-		for (const entry of workLog) {
-			yield* newRepo.importWorkLogEntry(entry);
-			workLogCount++;
+		const lines: string[] = [];
+		lines.push("# Task Board\n");
+		lines.push(`Generated: ${today}\n`);
+
+		for (const [status, tasks] of Object.entries(groups).sort(([a], [b]) => a.localeCompare(b))) {
+			lines.push(`## ${status} (${tasks.length})\n`);
+			for (const task of tasks) {
+				const flags: string[] = [];
+				if (isBlocked(task, allTasks)) flags.push("BLOCKED");
+				if (deferredPredicate(task)) flags.push("DEFERRED");
+				if (task.priority !== null) flags.push(`P${task.priority}`);
+				if (task.assignee !== null) flags.push(`@${task.assignee}`);
+				const flagStr = flags.length > 0 ? ` [${flags.join(", ")}]` : "";
+				lines.push(`- **${task.title}** (${task.id})${flagStr}`);
+				if (full && task.description.length > 0) {
+					lines.push(`  ${task.description}`);
+				}
+				if (full && task.blocked_by.length > 0) {
+					lines.push(`  Blocked by: ${task.blocked_by.join(", ")}`);
+				}
+			}
+			lines.push("");
 		}
 
 		yield* Effect.sync(() => {
-			process.stdout.write(
-				`${formatOutput({ migrated: { tasks: taskCount, workLogEntries: workLogCount } }, options.pretty)}\n`,
-			);
+			process.stdout.write(`${lines.join("\n")}\n`);
 		});
-	});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultPromoteExecute: PromoteExecute<never, string> = (
-	options,
-	id,
-	index,
-) =>
+const defaultHistoryExecute: HistoryExecute<never, string> = (options, id) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const newTask = yield* promoteSubtask(repository, id, index);
+		const history = yield* repository.getTaskHistory(id);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(newTask, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(history, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultAreasExecute: AreasExecute<never, string> = (options) =>
+const defaultUndoExecute: UndoExecute<never, string> = (options, steps) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const tasks = yield* repository.listTasks();
-		const projects = yield* repository.listProjects();
-		const areas = listAreas(tasks, projects);
+		const entries = yield* repository.undo(steps);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(areas, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(entries, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultContextsExecute: ContextsExecute<never, string> = (options) =>
+const defaultRedoExecute: RedoExecute<never, string> = (options, steps) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const tasks = yield* repository.listTasks();
-		const contexts = listContexts(tasks);
+		const entries = yield* repository.redo(steps);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(contexts, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(entries, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultTemplateListExecute: TemplateListExecute<never, string> = (
-	options,
-) =>
+const defaultDepCheckExecute: DepCheckExecute<never, string> = (options) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
 		const tasks = yield* repository.listTasks({ include_templates: true });
-		const templates = tasks.filter((t) => t.is_template === true);
+		const issues = auditDependencies(tasks);
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(templates, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(issues, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultTemplateCreateExecute: TemplateCreateExecute<never, string> = (
+const defaultCriticalPathExecute: CriticalPathExecute<never, string> = (
 	options,
-	input,
+	filters,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const task = yield* repository.createTask(input);
+		const tasks = yield* repository.listTasks();
+		const report = yield* computeCriticalPath(tasks, {
+			project: filters.project,
+			minutesPerDay: filters.minutesPerDay,
+		});
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(task, options.pretty)}\n`);
+			process.stdout.write(`${renderOutput(report, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultTemplateInstantiateExecute: TemplateInstantiateExecute<
-	never,
-	string
-> = (options, templateId, overrides) =>
+const defaultGraphExecute: GraphExecute<never, string> = (
+	options,
+	format,
+	filters,
+) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const task = yield* repository.instantiateTemplate(templateId, overrides);
+		const tasks = yield* repository.listTasks();
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(task, options.pretty)}\n`);
+			process.stdout.write(renderTaskGraph(tasks, format, filters));
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultUnblockExecute: UnblockTaskExecute<never, string> = (
-	options,
-	id,
-) =>
+const defaultShowExecute: ShowTaskExecute<never, string> = (options, id) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const completed = yield* repository.completeTask(id);
-		const allTasks = yield* repository.listTasks();
-		const unblocked = allTasks.filter(
-			(t) => t.blocked_by.includes(id) && isUnblocked(t, allTasks),
-		);
+		const task = yield* repository.getTask(id);
+		const tasks = yield* repository.listTasks({ include_templates: true });
 
 		yield* Effect.sync(() => {
 			process.stdout.write(
-				`${formatOutput({ completed, unblocked }, options.pretty)}\n`,
+				`${renderOutput(
+					{ ...task, progress: summarizeChildProgress(task.id, tasks) },
+					options,
+				)}\n`,
 			);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultChainExecute: ChainExecute<never, string> = (options, id) =>
+const defaultTreeExecute: TreeExecute<never, string> = (options, rootId) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const allTasks = yield* repository.listTasks();
-		const chain = buildDependencyChain(id, allTasks);
+		if (rootId !== undefined) {
+			yield* repository.getTask(rootId);
+		}
+		const tasks = yield* repository.listTasks();
 
 		yield* Effect.sync(() => {
-			process.stdout.write(
-				`${formatOutput(chain, options.pretty)}\n`,
-			);
+			process.stdout.write(formatTaskTree(buildTaskTree(tasks, rootId)));
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultNextExecute: NextTaskExecute<never, string> = (
+const defaultWatchExecute: WatchExecute<never, string> = (options, filter) =>
+	watchSnapshots({
+		files: [options.tasksFile, options.worklogFile],
+		// A fresh layer per snapshot so each one re-reads the files.
+		snapshot: Effect.gen(function* () {
+			const repository = yield* TaskRepository;
+			return {
+				tasks: yield* repository.listTasks({ include_templates: true }),
+				workLog: yield* repository.listWorkLog(),
+			};
+		}).pipe(Effect.provide(makeRepositoryLayer(options))),
+		filter:
+			filter === undefined
+				? undefined
+				: (task) => matchesFilterExpression(filter, todayIso())(task),
+	}).pipe(
+		// One event per line regardless of --pretty.
+		Stream.runForEach((event) =>
+			Effect.sync(() => {
+				process.stdout.write(`${JSON.stringify(event)}\n`);
+			}),
+		),
+		Effect.mapError((error) =>
+			typeof error === "string"
+				? error
+				: `Failed to watch task files: ${error.message}`,
+		),
+		Effect.provide(NodeFileSystem.layer),
+	);
+
+const defaultStartTimerExecute: StartTimerExecute<never, string> = (
 	options,
-	energy,
+	id,
+	autoStop,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const allTasks = yield* repository.listTasks({ status: "active" });
-		const today = new Date().toISOString().slice(0, 10);
-		const deferredPredicate = isDeferred(today);
+		const result = yield* startTimer(repository, options.dataDir, id, {
+			autoStop,
+		});
 
-		const candidates = allTasks.filter(
-			(t) =>
-				isUnblocked(t, allTasks) &&
-				!deferredPredicate(t) &&
-				(energy === undefined || t.energy === energy),
-		);
+		yield* Effect.sync(() => {
+			process.stdout.write(`${renderOutput(result, options)}\n`);
+		});
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-		candidates.sort(byUrgencyDesc);
-		const next = candidates.length > 0 ? candidates[0] : null;
+const makeDefaultTimerExecute =
+	(
+		run: (
+			repository: TaskRepositoryService,
+			dataDir: string,
+		) => Effect.Effect<unknown, string>,
+	): TimerExecute<never, string> =>
+	(options) =>
+		Effect.gen(function* () {
+			const repository = yield* TaskRepository;
+			const result = yield* run(repository, options.dataDir);
+
+			yield* Effect.sync(() => {
+				process.stdout.write(`${renderOutput(result, options)}\n`);
+			});
+		}).pipe(Effect.provide(makeRepositoryLayer(options)));
+
+const defaultStopTimerExecute = makeDefaultTimerExecute((repository, dataDir) =>
+	stopTimer(repository, dataDir),
+);
+
+const defaultPauseTimerExecute = makeDefaultTimerExecute(
+	(repository, dataDir) => pauseTimer(repository, dataDir),
+);
+
+const defaultResumeTimerExecute = makeDefaultTimerExecute(
+	(repository, dataDir) => resumeTimer(repository, dataDir),
+);
+
+const defaultCurrentTimerExecute = makeDefaultTimerExecute(
+	(repository, dataDir) => currentTimer(repository, dataDir),
+);
+
+const defaultReportTimeExecute: ReportTimeExecute<never, string> = (
+	options,
+	report,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const tasks = yield* repository.listTasks({ include_templates: true });
+		const entries = yield* repository.listWorkLog();
+		const timesheet = buildTimesheet(entries, tasks, {
+			groupBy: report.groupBy,
+			from: report.from,
+			to: report.to,
+		});
 
 		yield* Effect.sync(() => {
 			process.stdout.write(
-				`${formatOutput(next, options.pretty)}\n`,
+				report.format === "csv"
+					? formatTimesheetCsv(timesheet)
+					: report.format === "table"
+						? formatTimesheetTable(timesheet)
+						: `${renderOutput(timesheet, options)}\n`,
 			);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultDropExecute: DropTaskExecute<never, string> = (options, id) =>
+const defaultStatsEstimatesExecute: StatsEstimatesExecute<never, string> = (
+	options,
+) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const task = yield* repository.updateTask(id, { status: "dropped" });
+		const tasks = yield* repository.listTasks();
 
 		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(task, options.pretty)}\n`);
+			process.stdout.write(
+				`${renderOutput(computeEstimateStats(tasks), options)}\n`,
+			);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultTodayExecute: TodayExecute<never, string> = (options) =>
+const defaultProjectStatsExecute: ProjectStatsExecute<never, string> = (
+	options,
+	id,
+	output,
+) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const highlight = yield* repository.getDailyHighlight();
-		const allTasks = yield* repository.listTasks({ status: "active" });
-		const today = new Date().toISOString().slice(0, 10);
-
-		const due = allTasks.filter(
-			(t) => t.due !== null && t.due <= today,
+		const project = yield* Effect.catchAll(repository.getProject(id), () =>
+			Effect.succeed(null),
 		);
-		const undeferred = allTasks.filter(
-			(t) => t.defer_until !== null && t.defer_until <= today,
+		const tasks = (yield* repository.listTasks({ project: id })).filter(
+			(task) => !task.is_template,
+		);
+		if (project === null && tasks.length === 0) {
+			return yield* Effect.fail(`Project not found: ${id}`);
+		}
+
+		const workLog = yield* repository.listWorkLog();
+		const taskIds = new Set(tasks.map((task) => task.id));
+		const history = (yield* repository.listHistory()).filter((event) =>
+			taskIds.has(event.task_id),
 		);
+		const metrics = computeProjectMetrics(id, tasks, {
+			start: project?.created,
+			today: todayIso(),
+			workLog,
+			history,
+		});
 
 		yield* Effect.sync(() => {
 			process.stdout.write(
-				`${formatOutput({ highlight, due, undeferred }, options.pretty)}\n`,
+				output.format === "csv"
+					? formatProjectMetricsCsv(metrics, output.series)
+					: `${renderOutput(metrics, options)}\n`,
 			);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultCommentsListExecute: CommentsListExecute<never, string> = (
+const selectPerspectiveTasks = (
+	dataDir: string,
+	tasks: ReadonlyArray<Task>,
+	name: string | undefined,
+): Effect.Effect<ReadonlyArray<Task>, string> =>
+	name === undefined
+		? Effect.succeed(tasks)
+		: Effect.gen(function* () {
+				const config = yield* loadPerspectiveConfig(dataDir);
+				const perspective = config[name];
+				if (perspective === undefined) {
+					return yield* Effect.fail(`Perspective not found: ${name}`);
+				}
+				return applyPerspectiveToTasks(tasks, perspective);
+			});
+
+const writeExport = (
+	content: string,
+	file: string | undefined,
+): Effect.Effect<void, string> =>
+	file === undefined
+		? Effect.sync(() => {
+				process.stdout.write(content);
+			})
+		: Effect.tryPromise({
+				try: () => writeFile(file, content, "utf8"),
+				catch: (error) =>
+					`Failed to write ${file}: ${error instanceof Error ? error.message : String(error)}`,
+			});
+
+const defaultExportIcsExecute: ExportIcsExecute<never, string> = (
 	options,
-	id,
+	target,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const task = yield* repository.getTask(id);
+		const tasks = yield* selectPerspectiveTasks(
+			options.dataDir,
+			yield* repository.listTasks(),
+			target.perspective,
+		);
 
-		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(task.comments, options.pretty)}\n`);
-		});
+		yield* writeExport(
+			renderIcsCalendar(tasks, {
+				name:
+					target.perspective === undefined
+						? "tashks"
+						: `tashks: ${target.perspective}`,
+			}),
+			target.file,
+		);
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultCommentsAddExecute: CommentsAddExecute<never, string> = (
+const readImportFile = (file: string): Effect.Effect<string, string> =>
+	Effect.tryPromise({
+		try: () => readFile(file, "utf8"),
+		catch: (error) =>
+			`Failed to read ${file}: ${error instanceof Error ? error.message : String(error)}`,
+	});
+
+const writeImportSummary = (
+	options: GlobalCliOptions,
+	summary: ImportSummary,
+	skipped: number,
+): Effect.Effect<void> =>
+	Effect.sync(() => {
+		const report = {
+			created: summary.created.map((task) => task.id),
+			updated: summary.updated.map((task) => task.id),
+			unchanged: summary.unchanged.map((task) => task.id),
+			skipped,
+		};
+		process.stdout.write(`${renderOutput(report, options)}\n`);
+	});
+
+const defaultImportIcsExecute: ImportIcsExecute<never, string> = (
 	options,
-	id,
-	text,
-	author,
+	file,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const task = yield* repository.getTask(id);
-		const newComment = {
-			text,
-			author: author ?? "",
-			created: new Date().toISOString().slice(0, 10),
-		};
-		const updated = yield* repository.updateTask(id, {
-			comments: [...task.comments, newComment],
+		const components = parseIcsComponents(yield* readImportFile(file));
+		const items = components.flatMap((component) => {
+			const item = icsComponentToImportedTask(component);
+			return item === null ? [] : [item];
 		});
+		const summary = yield* importTasks(repository, items);
 
-		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(updated.comments, options.pretty)}\n`);
-		});
+		yield* writeImportSummary(
+			options,
+			summary,
+			components.length - items.length,
+		);
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultDepAddExecute: DepAddExecute<never, string> = (
-	options,
-	id,
-	dependsOn,
-) =>
+const defaultExportTaskwarriorExecute: ExportTaskwarriorExecute<
+	never,
+	string
+> = (options, target) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const task = yield* repository.getTask(id);
-		if (!task.blocked_by.includes(dependsOn)) {
-			yield* repository.updateTask(id, {
-				blocked_by: [...task.blocked_by, dependsOn],
-			});
-		}
-		const updated = yield* repository.getTask(id);
+		const all = yield* repository.listTasks();
+		const tasks = yield* selectPerspectiveTasks(
+			options.dataDir,
+			all,
+			target.perspective,
+		);
 
-		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(updated.blocked_by, options.pretty)}\n`);
-		});
+		yield* writeExport(
+			formatTaskwarriorExport(toTaskwarriorTasks(tasks, all)),
+			target.file,
+		);
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultDepRemoveExecute: DepRemoveExecute<never, string> = (
+const defaultImportTaskwarriorExecute: ImportTaskwarriorExecute<
+	never,
+	string
+> = (options, file) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const records = yield* parseTaskwarriorExport(yield* readImportFile(file));
+		const items = taskwarriorToImportedTasks(records);
+		const summary = yield* importTasks(repository, items);
+
+		yield* writeImportSummary(options, summary, records.length - items.length);
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
+
+const defaultExportTodoTxtExecute: ExportTodoTxtExecute<never, string> = (
 	options,
-	id,
-	dependsOn,
+	target,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const task = yield* repository.getTask(id);
-		const updated = yield* repository.updateTask(id, {
-			blocked_by: task.blocked_by.filter((dep) => dep !== dependsOn),
-		});
+		const tasks = yield* selectPerspectiveTasks(
+			options.dataDir,
+			yield* repository.listTasks(),
+			target.perspective,
+		);
 
-		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(updated.blocked_by, options.pretty)}\n`);
-		});
+		yield* writeExport(formatTodoTxt(tasks), target.file);
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultDepListExecute: DepListExecute<never, string> = (
+const defaultImportTodoTxtExecute: ImportTodoTxtExecute<never, string> = (
 	options,
-	id,
+	file,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const task = yield* repository.getTask(id);
+		const lines = (yield* readImportFile(file))
+			.split(/\r?\n/)
+			.filter((line) => line.trim().length > 0);
+		const items = parseTodoTxt(lines.join("\n"));
+		const summary = yield* importTasks(repository, items);
 
-		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(task.blocked_by, options.pretty)}\n`);
-		});
+		yield* writeImportSummary(options, summary, lines.length - items.length);
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultReadyExecute: ReadyExecute<never, string> = (
+const defaultExportIssuesExecute: ExportIssuesExecute<never, string> = (
 	options,
-	filters,
+	target,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const allTasks = yield* repository.listTasks({ status: "active" });
-		const today = new Date().toISOString().slice(0, 10);
-		const deferredPredicate = isDeferred(today);
+		const tasks = yield* selectPerspectiveTasks(
+			options.dataDir,
+			yield* repository.listTasks(),
+			target.perspective,
+		);
 
-		let candidates = allTasks.filter(
-			(t) =>
-				isUnblocked(t, allTasks) &&
-				!deferredPredicate(t) &&
-				(filters.assignee === undefined || t.assignee === filters.assignee) &&
-				(filters.priority === undefined || t.priority === filters.priority) &&
-				(filters.type === undefined || t.type === filters.type) &&
-				(filters.unassigned !== true || t.assignee === null),
+		yield* writeExport(
+			`${formatOutput(toIssues(tasks), options.pretty)}\n`,
+			target.file,
 		);
+	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-		const sortFn = filters.sort ?? "priority";
-		candidates.sort((a, b) => {
-			if (sortFn === "urgency") {
-				const byUrg = byUrgencyDesc(a, b);
-				if (byUrg !== 0) return byUrg;
-			} else if (sortFn === "created") {
-				const byCr = byCreatedAsc(a, b);
-				if (byCr !== 0) return byCr;
-			} else {
-				const byPri = byPriorityAsc(a, b);
-				if (byPri !== 0) return byPri;
-				const byUrg = byUrgencyDesc(a, b);
-				if (byUrg !== 0) return byUrg;
-			}
-			return byCreatedAsc(a, b);
+const defaultImportIssuesExecute: ImportIssuesExecute<never, string> = (
+	options,
+	file,
+) =>
+	Effect.gen(function* () {
+		const repository = yield* TaskRepository;
+		const issues = yield* parseIssuesDump(yield* readImportFile(file));
+		const items = issues.flatMap((issue) => {
+			const item = issueToImportedTask(issue);
+			return item === null ? [] : [item];
 		});
+		const summary = yield* importTasks(repository, items);
 
-		if (filters.limit !== undefined) {
-			candidates = candidates.slice(0, filters.limit);
-		}
-
-		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(candidates, options.pretty)}\n`);
-		});
+		yield* writeImportSummary(options, summary, issues.length - items.length);
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultBlockedExecute: BlockedExecute<never, string> = (
+const defaultImportMarkdownExecute: ImportMarkdownExecute<never, string> = (
 	options,
-	limit,
+	file,
+	target,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const allTasks = yield* repository.listTasks();
-		let blockedTasks = allTasks.filter(
-			(t) => t.status !== "done" && t.status !== "dropped" && isBlocked(t, allTasks),
-		);
-		if (limit !== undefined) {
-			blockedTasks = blockedTasks.slice(0, limit);
-		}
-
-		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(blockedTasks, options.pretty)}\n`);
+		const items = markdownToImportedTasks(yield* readImportFile(file), {
+			nesting: target.nesting,
+			source: basename(file),
+			...(target.project !== undefined ? { project: target.project } : {}),
 		});
+		const summary = yield* importTasks(repository, items);
+
+		yield* writeImportSummary(options, summary, 0);
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultSearchExecute: SearchExecute<never, string> = (
+const defaultExportReportExecute: ExportReportExecute<never, string> = (
 	options,
-	query,
-	filters,
+	target,
 ) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const allTasks = yield* repository.listTasks();
-		const lowerQuery = query.toLowerCase();
-
-		let results = allTasks.filter((t) => {
-			if (
-				filters.status !== undefined &&
-				t.status !== filters.status
-			) {
-				return false;
-			}
-			return (
-				t.title.toLowerCase().includes(lowerQuery) ||
-				t.description.toLowerCase().includes(lowerQuery)
-			);
+		const all = yield* repository.listTasks();
+		const selected = yield* selectPerspectiveTasks(
+			options.dataDir,
+			all,
+			target.perspective,
+		);
+		const projects = yield* repository.listProjects();
+		const tasks =
+			target.project === undefined
+				? selected
+				: selected.filter((task) =>
+						task.projects.includes(target.project as string),
+					);
+		const projectTitle =
+			target.project === undefined
+				? undefined
+				: (projects.find((project) => project.id === target.project)
+						?.title ?? target.project);
+		const scope = [target.perspective, projectTitle].filter(
+			(part) => part !== undefined,
+		);
+		const report = buildReport(tasks, {
+			title: `tashks: ${scope.length > 0 ? scope.join(" · ") : "all tasks"}`,
+			groupBy: target.groupBy,
+			allTasks: all,
+			projects,
 		});
 
-		if (filters.limit !== undefined) {
-			results = results.slice(0, filters.limit);
-		}
-
-		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(results, options.pretty)}\n`);
-		});
+		yield* writeExport(
+			target.format === "html"
+				? renderReportHtml(report)
+				: renderReportMarkdown(report),
+			target.file,
+		);
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
-const defaultStatusExecute: StatusExecute<never, string> = (options) =>
-	Effect.gen(function* () {
-		const repository = yield* TaskRepository;
-		const allTasks = yield* repository.listTasks();
-		const today = new Date().toISOString().slice(0, 10);
-		const deferredPredicate = isDeferred(today);
+const defaultTuiExecute: TuiExecute<never, string> = (
+	options,
+	perspective,
+) => {
+	// A fresh layer per call so each load sees changes made elsewhere.
+	const withRepository = <A>(
+		run: (repository: TaskRepositoryService) => Effect.Effect<A, string>,
+	): Effect.Effect<A, string> =>
+		Effect.flatMap(TaskRepository, run).pipe(
+			Effect.provide(makeRepositoryLayer(options)),
+		);
 
-		const byStatus: Record<string, number> = {};
-		const byType: Record<string, number> = {};
-		let readyCount = 0;
-		let blockedCount = 0;
-		let inProgressCount = 0;
+	return runTui(
+		{
+			load: withRepository((repository) =>
+				Effect.gen(function* () {
+					const highlight = yield* repository.getDailyHighlight();
+					return {
+						tasks: yield* repository.listTasks(),
+						perspectives: yield* loadPerspectiveConfig(options.dataDir),
+						highlightId: highlight?.id ?? null,
+						today: todayIso(),
+					};
+				}),
+			),
+			perform: (action) =>
+				withRepository((repository) => {
+					switch (action.type) {
+						case "complete":
+							return repository
+								.completeTask(action.id)
+								.pipe(Effect.map((task) => `Completed ${task.title}`));
+						case "drop":
+							return repository
+								.updateTask(action.id, {
+									status: "dropped",
+									revision: action.revision,
+								})
+								.pipe(Effect.map((task) => `Dropped ${task.title}`));
+						case "defer":
+							return repository
+								.updateTask(action.id, {
+									defer_until: action.until,
+									revision: action.revision,
+								})
+								.pipe(
+									Effect.map(
+										(task) => `Deferred ${task.title} until ${action.until}`,
+									),
+								);
+						case "highlight":
+							return repository
+								.setDailyHighlight(action.id)
+								.pipe(Effect.map((task) => `Highlighted ${task.title}`));
+						case "start":
+							return Effect.gen(function* () {
+								const { stopped } = yield* startTimer(
+									repository,
+									options.dataDir,
+									action.id,
+									{ autoStop: true },
+								);
+								const task = yield* repository.getTask(action.id);
+								return stopped === null
+									? `Started timer on ${task.title}`
+									: `Started timer on ${task.title}, stopped ${stopped.task.title}`;
+							});
+						case "edit":
+							return repository
+								.updateTask(action.id, {
+									title: action.title,
+									revision: action.revision,
+								})
+								.pipe(Effect.map((task) => `Renamed to ${task.title}`));
+					}
+				}),
+		},
+		perspective,
+	);
+};
 
-		for (const task of allTasks) {
-			byStatus[task.status] = (byStatus[task.status] ?? 0) + 1;
-			byType[task.type] = (byType[task.type] ?? 0) + 1;
+const reviewChoices: Record<string, ReviewAction | "skip" | "quit"> = {
+	k: "keep",
+	keep: "keep",
+	d: "defer",
+	defer: "defer",
+	x: "drop",
+	drop: "drop",
+	e: "estimate",
+	estimate: "estimate",
+	s: "skip",
+	skip: "skip",
+	q: "quit",
+	quit: "quit",
+};
 
-			if (task.status === "in_progress") {
-				inProgressCount++;
-			}
-			if (
-				task.status !== "done" &&
-				task.status !== "dropped" &&
-				isBlocked(task, allTasks)
-			) {
-				blockedCount++;
-			}
-			if (
-				task.status === "active" &&
-				isUnblocked(task, allTasks) &&
-				!deferredPredicate(task)
-			) {
-				readyCount++;
-			}
-		}
+/**
+ * Prompts for one line of input. Lines are read through an iterator so input
+ * piped in ahead of the prompts is buffered rather than lost; the end of
+ * input resolves to null, which ends the review.
+ */
+const askLine = (
+	lines: AsyncIterator<string>,
+	prompt: string,
+): Effect.Effect<string | null> =>
+	Effect.promise(async () => {
+		process.stdout.write(prompt);
+		const next = await lines.next();
+		return next.done === true ? null : next.value.trim();
+	});
 
-		const result = {
-			total: allTasks.length,
-			by_status: byStatus,
-			by_type: byType,
-			ready: readyCount,
-			blocked: blockedCount,
-			in_progress: inProgressCount,
-		};
+/**
+ * Asks for a decision on each item in turn and applies it straight away, so
+ * quitting part-way keeps what was decided. A decision that fails (say, an
+ * unreadable date) is reported and the item asked again.
+ */
+const runInteractiveReview = (
+	repository: TaskRepositoryService,
+	dataDir: string,
+	items: ReadonlyArray<ReviewItem>,
+	allTasks: ReadonlyArray<Task>,
+	today: string,
+): Effect.Effect<void, string> =>
+	Effect.scoped(
+		Effect.gen(function* () {
+			const readline = yield* Effect.acquireRelease(
+				Effect.sync(() =>
+					createInterface({ input: process.stdin, output: process.stdout }),
+				),
+				(readline) => Effect.sync(() => readline.close()),
+			);
+			const lines = readline[Symbol.asyncIterator]();
+			const write = (text: string) =>
+				Effect.sync(() => {
+					process.stdout.write(text);
+				});
+			let reviewed = 0;
+
+			for (const [index, item] of items.entries()) {
+				const isProject = item.kind === "project";
+				yield* write(
+					`\n[${index + 1}/${items.length}] ${item.kind} · ${item.reason}\n  ${
+						"task" in item
+							? fmtTaskOneLiner(item.task, allTasks)
+							: `${item.project.id} ${item.project.title}`
+					}\n`,
+				);
 
-		yield* Effect.sync(() => {
-			process.stdout.write(`${formatOutput(result, options.pretty)}\n`);
-		});
-	}).pipe(Effect.provide(makeRepositoryLayer(options)));
+				while (true) {
+					const answer = yield* askLine(
+						lines,
+						isProject
+							? "keep, drop, skip or quit? [k/x/s/q] "
+							: "keep, defer, drop, re-estimate, skip or quit? [k/d/x/e/s/q] ",
+					);
+					const choice =
+						answer === null ? "quit" : reviewChoices[answer.toLowerCase()];
+					if (choice === "quit") {
+						yield* write(`\nReviewed ${reviewed} of ${items.length} items\n`);
+						return;
+					}
+					if (choice === "skip") {
+						break;
+					}
+					if (choice === undefined) {
+						continue;
+					}
+
+					const value =
+						choice === "defer"
+							? yield* askLine(lines, "Defer until (YYYY-MM-DD, today, +Nd): ")
+							: choice === "estimate"
+								? yield* askLine(lines, "Estimate in minutes: ")
+								: "";
+					const id = "task" in item ? item.task.id : item.project.id;
+					const decision: ReviewDecision =
+						choice === "defer"
+							? { id, action: choice, until: value ?? "" }
+							: choice === "estimate"
+								? {
+										id,
+										action: choice,
+										// Number("") is 0; a blank answer leaves the minutes out
+										// so the decision is rejected and asked again.
+										...(value === null || value.trim() === ""
+											? {}
+											: { minutes: Number(value) }),
+									}
+								: { id, action: choice };
+					const applied = yield* Effect.either(
+						applyReviewDecision(repository, decision, today),
+					);
+					if (Either.isLeft(applied)) {
+						yield* write(`${applied.left}\n`);
+						continue;
+					}
+					yield* recordReviewProgress(dataDir, today, [id]);
+					reviewed++;
+					break;
+				}
+			}
 
-const defaultPrimeExecute: PrimeExecute<never, string> = (options, full) =>
+			yield* write(`\nReviewed ${reviewed} of ${items.length} items\n`);
+		}),
+	);
+
+const defaultReviewExecute: ReviewExecute<never, string> = (options, review) =>
 	Effect.gen(function* () {
 		const repository = yield* TaskRepository;
-		const allTasks = yield* repository.listTasks();
-		const today = new Date().toISOString().slice(0, 10);
-		const deferredPredicate = isDeferred(today);
+		const today = todayIso();
 
-		const groups: Record<string, typeof allTasks> = {};
-		for (const task of allTasks) {
-			const key = task.status;
-			if (groups[key] === undefined) groups[key] = [];
-			groups[key].push(task);
+		if (review.decisionsFile !== undefined) {
+			const decisions = yield* parseReviewDecisions(
+				yield* readImportFile(review.decisionsFile),
+			);
+			const results = yield* Effect.forEach(decisions, (decision) =>
+				Effect.tap(applyReviewDecision(repository, decision, today), () =>
+					recordReviewProgress(options.dataDir, today, [decision.id]),
+				),
+			);
+			yield* Effect.sync(() => {
+				process.stdout.write(`${renderOutput(results, options)}\n`);
+			});
+			return;
 		}
 
-		const lines: string[] = [];
-		lines.push("# Task Board\n");
-		lines.push(`Generated: ${today}\n`);
+		const tasks = yield* repository.listTasks();
+		const items = buildReview(tasks, yield* repository.listProjects(), {
+			today,
+			staleDays: review.staleDays,
+			deferWindowDays: review.deferWindowDays,
+			reviewed: yield* loadReviewProgress(options.dataDir, today),
+		});
 
-		for (const [status, tasks] of Object.entries(groups).sort(([a], [b]) => a.localeCompare(b))) {
-			lines.push(`## ${status} (${tasks.length})\n`);
-			for (const task of tasks) {
-				const flags: string[] = [];
-				if (isBlocked(task, allTasks)) flags.push("BLOCKED");
-				if (deferredPredicate(task)) flags.push("DEFERRED");
-				if (task.priority !== null) flags.push(`P${task.priority}`);
-				if (task.assignee !== null) flags.push(`@${task.assignee}`);
-				const flagStr = flags.length > 0 ? ` [${flags.join(", ")}]` : "";
-				lines.push(`- **${task.title}** (${task.id})${flagStr}`);
-				if (full && task.description.length > 0) {
-					lines.push(`  ${task.description}`);
-				}
-				if (full && task.blocked_by.length > 0) {
-					lines.push(`  Blocked by: ${task.blocked_by.join(", ")}`);
-				}
-			}
-			lines.push("");
+		if (review.interactive) {
+			return yield* runInteractiveReview(
+				repository,
+				options.dataDir,
+				items,
+				tasks,
+				today,
+			);
 		}
-
 		yield* Effect.sync(() => {
-			process.stdout.write(`${lines.join("\n")}\n`);
+			process.stdout.write(`${renderOutput(items, options)}\n`);
 		});
 	}).pipe(Effect.provide(makeRepositoryLayer(options)));
 
@@ -3636,6 +6483,39 @@ export const makeCli = <R, E>(
 	executeSearch: SearchExecute<R, E> = noopSearchExecute as SearchExecute<R, E>,
 	executeStatus: StatusExecute<R, E> = noopStatusExecute as StatusExecute<R, E>,
 	executePrime: PrimeExecute<R, E> = noopPrimeExecute as PrimeExecute<R, E>,
+	executeHistory: HistoryExecute<R, E> = noopHistoryExecute as HistoryExecute<R, E>,
+	executeUndo: UndoExecute<R, E> = noopUndoExecute as UndoExecute<R, E>,
+	executeRedo: RedoExecute<R, E> = noopRedoExecute as RedoExecute<R, E>,
+	executeDepCheck: DepCheckExecute<R, E> = noopDepCheckExecute as DepCheckExecute<R, E>,
+	executeCriticalPath: CriticalPathExecute<R, E> = noopCriticalPathExecute as CriticalPathExecute<R, E>,
+	executeGraph: GraphExecute<R, E> = noopGraphExecute as GraphExecute<R, E>,
+	executeShow: ShowTaskExecute<R, E> = noopShowExecute as ShowTaskExecute<R, E>,
+	executeTree: TreeExecute<R, E> = noopTreeExecute as TreeExecute<R, E>,
+	executeWatch: WatchExecute<R, E> = noopWatchExecute as WatchExecute<R, E>,
+	executeStart: StartTimerExecute<R, E> = noopStartTimerExecute as StartTimerExecute<R, E>,
+	executeStop: TimerExecute<R, E> = noopTimerExecute as TimerExecute<R, E>,
+	executePause: TimerExecute<R, E> = noopTimerExecute as TimerExecute<R, E>,
+	executeResume: TimerExecute<R, E> = noopTimerExecute as TimerExecute<R, E>,
+	executeCurrent: TimerExecute<R, E> = noopTimerExecute as TimerExecute<R, E>,
+	executeReport: (options: GlobalCliOptions) => Effect.Effect<void, E, R> = noopExecute as (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeReportTime: ReportTimeExecute<R, E> = noopReportTimeExecute as ReportTimeExecute<R, E>,
+	executeStats: (options: GlobalCliOptions) => Effect.Effect<void, E, R> = noopExecute as (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeStatsEstimates: StatsEstimatesExecute<R, E> = noopExecute as StatsEstimatesExecute<R, E>,
+	executeProjectStats: ProjectStatsExecute<R, E> = noopProjectStatsExecute as ProjectStatsExecute<R, E>,
+	executeExport: (options: GlobalCliOptions) => Effect.Effect<void, E, R> = noopExecute as (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeExportIcs: ExportIcsExecute<R, E> = noopExportIcsExecute as ExportIcsExecute<R, E>,
+	executeImport: (options: GlobalCliOptions) => Effect.Effect<void, E, R> = noopExecute as (options: GlobalCliOptions) => Effect.Effect<void, E, R>,
+	executeImportIcs: ImportIcsExecute<R, E> = noopImportIcsExecute as ImportIcsExecute<R, E>,
+	executeExportTaskwarrior: ExportTaskwarriorExecute<R, E> = noopExportTaskwarriorExecute as ExportTaskwarriorExecute<R, E>,
+	executeImportTaskwarrior: ImportTaskwarriorExecute<R, E> = noopImportTaskwarriorExecute as ImportTaskwarriorExecute<R, E>,
+	executeExportTodoTxt: ExportTodoTxtExecute<R, E> = noopExportTodoTxtExecute as ExportTodoTxtExecute<R, E>,
+	executeImportTodoTxt: ImportTodoTxtExecute<R, E> = noopImportTodoTxtExecute as ImportTodoTxtExecute<R, E>,
+	executeExportIssues: ExportIssuesExecute<R, E> = noopExportIssuesExecute as ExportIssuesExecute<R, E>,
+	executeImportIssues: ImportIssuesExecute<R, E> = noopImportIssuesExecute as ImportIssuesExecute<R, E>,
+	executeImportMarkdown: ImportMarkdownExecute<R, E> = noopImportMarkdownExecute as ImportMarkdownExecute<R, E>,
+	executeExportReport: ExportReportExecute<R, E> = noopExportReportExecute as ExportReportExecute<R, E>,
+	executeTui: TuiExecute<R, E> = noopTuiExecute as TuiExecute<R, E>,
+	executeReview: ReviewExecute<R, E> = noopReviewExecute as ReviewExecute<R, E>,
 ) =>
 	Command.run(
 		makeTasksCommand(
@@ -3688,6 +6568,39 @@ export const makeCli = <R, E>(
 			executeSearch,
 			executeStatus,
 			executePrime,
+			executeHistory,
+			executeUndo,
+			executeRedo,
+			executeDepCheck,
+			executeCriticalPath,
+			executeGraph,
+			executeShow,
+			executeTree,
+			executeWatch,
+			executeStart,
+			executeStop,
+			executePause,
+			executeResume,
+			executeCurrent,
+			executeReport,
+			executeReportTime,
+			executeStats,
+			executeStatsEstimates,
+			executeProjectStats,
+			executeExport,
+			executeExportIcs,
+			executeImport,
+			executeImportIcs,
+			executeExportTaskwarrior,
+			executeImportTaskwarrior,
+			executeExportTodoTxt,
+			executeImportTodoTxt,
+			executeExportIssues,
+			executeImportIssues,
+			executeImportMarkdown,
+			executeExportReport,
+			executeTui,
+			executeReview,
 		),
 		{
 			name: "Tashks CLI",
@@ -3745,6 +6658,39 @@ export const cli = makeCli(
 	defaultSearchExecute,
 	defaultStatusExecute,
 	defaultPrimeExecute,
+	defaultHistoryExecute,
+	defaultUndoExecute,
+	defaultRedoExecute,
+	defaultDepCheckExecute,
+	defaultCriticalPathExecute,
+	defaultGraphExecute,
+	defaultShowExecute,
+	defaultTreeExecute,
+	defaultWatchExecute,
+	defaultStartTimerExecute,
+	defaultStopTimerExecute,
+	defaultPauseTimerExecute,
+	defaultResumeTimerExecute,
+	defaultCurrentTimerExecute,
+	noopExecute,
+	defaultReportTimeExecute,
+	noopExecute,
+	defaultStatsEstimatesExecute,
+	defaultProjectStatsExecute,
+	noopExecute,
+	defaultExportIcsExecute,
+	noopExecute,
+	defaultImportIcsExecute,
+	defaultExportTaskwarriorExecute,
+	defaultImportTaskwarriorExecute,
+	defaultExportTodoTxtExecute,
+	defaultImportTodoTxtExecute,
+	defaultExportIssuesExecute,
+	defaultImportIssuesExecute,
+	defaultImportMarkdownExecute,
+	defaultExportReportExecute,
+	defaultTuiExecute,
+	defaultReviewExecute,
 );
 
 export const runCli = (argv: ReadonlyArray<string> = process.argv) => cli(argv);
@@ -0,0 +1,207 @@
+import { describe, expect, it } from "bun:test";
+import { makeTask } from "../../core/src/test-fixtures.js";
+import {
+	createTuiState,
+	parseTuiKeys,
+	reduceTui,
+	renderTui,
+	selectedTuiTask,
+	visibleTuiTasks,
+	withTuiData,
+	type TuiData,
+	type TuiKey,
+	type TuiState,
+} from "./tui.js";
+
+const data: TuiData = {
+	tasks: [
+		makeTask({ id: "write-docs", title: "Write docs", priority: 1 }),
+		makeTask({
+			id: "fix-bug",
+			title: "Fix bug",
+			area: "code",
+			revision: 3,
+			subtasks: [
+				{ text: "Reproduce", done: true },
+				{ text: "Patch", done: false },
+			],
+			comments: [
+				{ text: "Seen on staging", author: "sam", created: "2026-10-02" },
+			],
+		}),
+		makeTask({ id: "later", title: "Later", defer_until: "2026-11-01" }),
+		makeTask({ id: "shipped", title: "Shipped", status: "done" }),
+	],
+	perspectives: {
+		code: { filters: { area: "code" } },
+	},
+	highlightId: "fix-bug",
+	today: "2026-10-19",
+};
+
+const char = (value: string): TuiKey => ({ name: "char", char: value });
+
+const press = (
+	state: TuiState,
+	...keys: ReadonlyArray<TuiKey>
+): ReturnType<typeof reduceTui> =>
+	keys.reduce<ReturnType<typeof reduceTui>>(
+		(result, key) => reduceTui(result.state, key),
+		{ state },
+	);
+
+const stripAnsi = (line: string): string =>
+	line.replace(
+		new RegExp(`${String.fromCharCode(27)}\\[[\\d;?]*[A-Za-z]`, "g"),
+		"",
+	);
+
+describe("parseTuiKeys", () => {
+	it("splits characters, control keys and escape sequences", () => {
+		expect(parseTuiKeys("j\x1b[Bq\r\x7f\x03")).toEqual([
+			char("j"),
+			{ name: "down" },
+			char("q"),
+			{ name: "enter" },
+			{ name: "backspace" },
+			{ name: "interrupt" },
+		]);
+	});
+
+	it("reads a lone escape and drops unknown sequences", () => {
+		expect(parseTuiKeys("\x1b[15~\x1b")).toEqual([{ name: "escape" }]);
+	});
+});
+
+describe("reduceTui", () => {
+	it("shows open, undeferred tasks in the default view", () => {
+		expect(
+			visibleTuiTasks(createTuiState(data)).map((task) => task.id),
+		).toEqual(["write-docs", "fix-bug"]);
+	});
+
+	it("moves the selection within the list", () => {
+		const state = createTuiState(data);
+		expect(press(state, char("j")).state.selected).toBe(1);
+		expect(press(state, char("j"), char("j"), char("j")).state.selected).toBe(
+			1,
+		);
+		expect(press(state, char("G"), { name: "up" }).state.selected).toBe(0);
+	});
+
+	it("cycles through perspectives", () => {
+		const state = createTuiState(data);
+		const code = press(state, { name: "tab" }).state;
+		expect(code.view).toBe("code");
+		expect(visibleTuiTasks(code).map((task) => task.id)).toEqual(["fix-bug"]);
+		expect(press(code, char("]")).state.view).toBeNull();
+		expect(press(state, { name: "left" }).state.view).toBe("code");
+	});
+
+	it("returns actions for the selected task", () => {
+		const state = press(createTuiState(data), char("j")).state;
+		expect(press(state, char("c")).action).toEqual({
+			type: "complete",
+			id: "fix-bug",
+		});
+		expect(press(state, char("x")).action).toEqual({
+			type: "drop",
+			id: "fix-bug",
+			revision: 3,
+		});
+		expect(press(state, char("h")).action).toEqual({
+			type: "highlight",
+			id: "fix-bug",
+		});
+		expect(press(state, char("s")).action).toEqual({
+			type: "start",
+			id: "fix-bug",
+		});
+		expect(press(state, char("q")).action).toEqual({ type: "quit" });
+	});
+
+	it("prompts for a defer date and resolves relative dates", () => {
+		const prompted = press(createTuiState(data), char("d")).state;
+		expect(prompted.prompt).toEqual({ kind: "defer", value: "" });
+
+		const invalid = press(prompted, char("x"), { name: "enter" }).state;
+		expect(invalid.prompt).not.toBeNull();
+		expect(invalid.message).toBe("Not a date: x");
+
+		const result = press(
+			invalid,
+			{ name: "backspace" },
+			char("+"),
+			char("3"),
+			char("d"),
+			{ name: "enter" },
+		);
+		expect(result.state.prompt).toBeNull();
+		expect(result.action).toEqual({
+			type: "defer",
+			id: "write-docs",
+			revision: 0,
+			until: "2026-10-22",
+		});
+	});
+
+	it("edits the title starting from the current one", () => {
+		const prompted = press(createTuiState(data), char("e")).state;
+		expect(prompted.prompt).toEqual({ kind: "edit", value: "Write docs" });
+
+		expect(press(prompted, char("!"), { name: "enter" }).action).toEqual({
+			type: "edit",
+			id: "write-docs",
+			revision: 0,
+			title: "Write docs!",
+		});
+		expect(press(prompted, { name: "escape" }).state.prompt).toBeNull();
+	});
+
+	it("reports when no task is selected", () => {
+		const empty = createTuiState({ ...data, tasks: [] });
+		const result = press(empty, char("c"));
+		expect(result.action).toBeUndefined();
+		expect(result.state.message).toBe("No task selected");
+	});
+
+	it("keeps the selected task selected after a reload", () => {
+		const state = press(createTuiState(data), char("j")).state;
+		const reloaded = withTuiData(state, {
+			...data,
+			tasks: [makeTask({ id: "new", title: "New" }), ...data.tasks],
+		});
+		expect(selectedTuiTask(reloaded)?.id).toBe("fix-bug");
+
+		const completed = withTuiData(state, {
+			...data,
+			tasks: data.tasks.map((task) =>
+				task.id === "fix-bug" ? { ...task, status: "done" } : task,
+			),
+		});
+		expect(selectedTuiTask(completed)?.id).toBe("write-docs");
+	});
+});
+
+describe("renderTui", () => {
+	it("draws the switcher, task list, details and footer", () => {
+		const state = press(createTuiState(data), char("j")).state;
+		const lines = renderTui(state, { columns: 80, rows: 14 }).map(stripAnsi);
+
+		expect(lines).toHaveLength(14);
+		expect(lines[0]).toBe("tashks  all   code ");
+		expect(lines[2]).toContain("[o] P1 write-docs Write docs");
+		expect(lines[3]).toContain("★ [o] fix-bug Fix bug");
+		expect(lines[2]).toContain("│ Fix bug");
+		expect(lines[3]).toContain("│ fix-bug · active · highlight");
+		expect(lines.join("\n")).toContain("[x] Reproduce");
+		expect(lines.join("\n")).toContain("sam (2026-10-02): Seen on staging");
+		expect(lines[13]).toStartWith("c complete · x drop");
+	});
+
+	it("shows the open prompt in the footer", () => {
+		const state = press(createTuiState(data), char("d"), char("+")).state;
+		const lines = renderTui(state, { columns: 80, rows: 8 }).map(stripAnsi);
+		expect(lines[7]).toBe("Defer until (YYYY-MM-DD, today, +Nd): +▏");
+	});
+});
@@ -0,0 +1,671 @@
+import { fmtPriority, fmtTaskOneLiner } from "@tashks/ai";
+import {
+	applyPerspectiveToTasks,
+	isDeferred,
+	resolveRelativeDate,
+	type PerspectiveConfig,
+} from "@tashks/core/query";
+import type { Task } from "@tashks/core/schema";
+import * as Effect from "effect/Effect";
+import * as Queue from "effect/Queue";
+
+/** Everything the TUI shows, reloaded after each change. */
+export interface TuiData {
+	readonly tasks: ReadonlyArray<Task>;
+	readonly perspectives: PerspectiveConfig;
+	readonly highlightId: string | null;
+	readonly today: string;
+}
+
+export interface TuiPrompt {
+	readonly kind: "defer" | "edit";
+	readonly value: string;
+}
+
+export interface TuiState {
+	readonly data: TuiData;
+	/** The selected perspective; null shows every open task. */
+	readonly view: string | null;
+	readonly selected: number;
+	readonly prompt: TuiPrompt | null;
+	readonly help: boolean;
+	readonly message: string | null;
+}
+
+export type TuiAction =
+	| { readonly type: "complete"; readonly id: string }
+	| { readonly type: "drop"; readonly id: string; readonly revision: number }
+	| {
+			readonly type: "defer";
+			readonly id: string;
+			readonly revision: number;
+			readonly until: string;
+	  }
+	| { readonly type: "highlight"; readonly id: string }
+	| { readonly type: "start"; readonly id: string }
+	| {
+			readonly type: "edit";
+			readonly id: string;
+			readonly revision: number;
+			readonly title: string;
+	  }
+	| { readonly type: "reload" }
+	| { readonly type: "quit" };
+
+/** The actions that change tasks, carried out by the session. */
+export type TuiTaskAction = Exclude<
+	TuiAction,
+	{ readonly type: "reload" } | { readonly type: "quit" }
+>;
+
+export type TuiKey =
+	| { readonly name: "char"; readonly char: string }
+	| {
+			readonly name:
+				| "up"
+				| "down"
+				| "left"
+				| "right"
+				| "pageup"
+				| "pagedown"
+				| "home"
+				| "end"
+				| "tab"
+				| "backtab"
+				| "enter"
+				| "escape"
+				| "backspace"
+				| "interrupt"
+				| "resize";
+	  };
+
+export interface TuiSize {
+	readonly columns: number;
+	readonly rows: number;
+}
+
+const escapeSequences: ReadonlyArray<readonly [string, TuiKey]> = [
+	["\x1b[A", { name: "up" }],
+	["\x1b[B", { name: "down" }],
+	["\x1b[C", { name: "right" }],
+	["\x1b[D", { name: "left" }],
+	["\x1bOA", { name: "up" }],
+	["\x1bOB", { name: "down" }],
+	["\x1bOC", { name: "right" }],
+	["\x1bOD", { name: "left" }],
+	["\x1b[5~", { name: "pageup" }],
+	["\x1b[6~", { name: "pagedown" }],
+	["\x1b[H", { name: "home" }],
+	["\x1b[F", { name: "end" }],
+	["\x1b[1~", { name: "home" }],
+	["\x1b[4~", { name: "end" }],
+	["\x1b[Z", { name: "backtab" }],
+];
+
+/**
+ * Splits raw terminal input into keys. One chunk can hold several keys when
+ * typing fast or pasting; unknown escape sequences are dropped.
+ */
+export const parseTuiKeys = (input: string): Array<TuiKey> => {
+	const keys: Array<TuiKey> = [];
+	let index = 0;
+	while (index < input.length) {
+		const rest = input.slice(index);
+		const sequence = escapeSequences.find(([prefix]) =>
+			rest.startsWith(prefix),
+		);
+		if (sequence !== undefined) {
+			keys.push(sequence[1]);
+			index += sequence[0].length;
+			continue;
+		}
+		const unknown = rest.startsWith("\x1b[")
+			? /^[\d;]*[~A-Za-z]/.exec(rest.slice(2))
+			: null;
+		if (unknown !== null) {
+			index += 2 + unknown[0].length;
+			continue;
+		}
+		const char = String.fromCodePoint(rest.codePointAt(0) ?? 0);
+		index += char.length;
+		switch (char) {
+			case "\x1b":
+				keys.push({ name: "escape" });
+				break;
+			case "\r":
+			case "\n":
+				keys.push({ name: "enter" });
+				break;
+			case "\t":
+				keys.push({ name: "tab" });
+				break;
+			case "\x7f":
+			case "\b":
+				keys.push({ name: "backspace" });
+				break;
+			case "\x03":
+			case "\x04":
+				keys.push({ name: "interrupt" });
+				break;
+			default:
+				if (char >= " ") {
+					keys.push({ name: "char", char });
+				}
+		}
+	}
+	return keys;
+};
+
+/** The views in switcher order: all open tasks, then perspectives by name. */
+export const tuiViews = (data: TuiData): Array<string | null> => [
+	null,
+	...Object.keys(data.perspectives).sort((a, b) => a.localeCompare(b)),
+];
+
+/**
+ * Tasks shown in the current view. The default view holds open tasks that
+ * are not deferred past today; a perspective view applies its filters,
+ * sort and limit.
+ */
+export const visibleTuiTasks = (state: TuiState): Array<Task> => {
+	const { data, view } = state;
+	const perspective = view === null ? undefined : data.perspectives[view];
+	return perspective === undefined
+		? data.tasks.filter(
+				(task) =>
+					task.status !== "done" &&
+					task.status !== "dropped" &&
+					!isDeferred(data.today)(task),
+			)
+		: applyPerspectiveToTasks(data.tasks, perspective, data.today);
+};
+
+export const selectedTuiTask = (state: TuiState): Task | undefined =>
+	visibleTuiTasks(state)[state.selected];
+
+const clampSelection = (state: TuiState): TuiState => {
+	const count = visibleTuiTasks(state).length;
+	return {
+		...state,
+		selected: Math.max(0, Math.min(state.selected, count - 1)),
+	};
+};
+
+export const createTuiState = (
+	data: TuiData,
+	view: string | null = null,
+): TuiState => ({
+	data,
+	view,
+	selected: 0,
+	prompt: null,
+	help: false,
+	message: null,
+});
+
+/** Swaps in reloaded data, keeping the same task selected when it is still shown. */
+export const withTuiData = (state: TuiState, data: TuiData): TuiState => {
+	const selectedId = selectedTuiTask(state)?.id;
+	const view =
+		state.view !== null && data.perspectives[state.view] === undefined
+			? null
+			: state.view;
+	const next = { ...state, data, view };
+	const index = visibleTuiTasks(next).findIndex(
+		(task) => task.id === selectedId,
+	);
+	return clampSelection(index === -1 ? next : { ...next, selected: index });
+};
+
+const switchView = (state: TuiState, step: number): TuiState => {
+	const views = tuiViews(state.data);
+	const index = views.indexOf(state.view);
+	const view = views[(index + step + views.length) % views.length] ?? null;
+	return { ...state, view, selected: 0 };
+};
+
+const moveSelection = (state: TuiState, step: number): TuiState =>
+	clampSelection({ ...state, selected: state.selected + step });
+
+const pageSize = 10;
+
+const reducePrompt = (
+	state: TuiState,
+	prompt: TuiPrompt,
+	key: TuiKey,
+): { readonly state: TuiState; readonly action?: TuiAction } => {
+	switch (key.name) {
+		case "char":
+			return {
+				state: {
+					...state,
+					prompt: { ...prompt, value: prompt.value + key.char },
+					message: null,
+				},
+			};
+		case "backspace":
+			return {
+				state: {
+					...state,
+					prompt: { ...prompt, value: prompt.value.slice(0, -1) },
+					message: null,
+				},
+			};
+		case "escape":
+			return { state: { ...state, prompt: null, message: null } };
+		case "interrupt":
+			return { state, action: { type: "quit" } };
+		case "enter":
+			break;
+		default:
+			return { state };
+	}
+
+	const task = selectedTuiTask(state);
+	if (task === undefined) {
+		return { state: { ...state, prompt: null } };
+	}
+	if (prompt.kind === "edit") {
+		const title = prompt.value.trim();
+		if (title.length === 0) {
+			return { state: { ...state, message: "Title cannot be empty" } };
+		}
+		return {
+			state: { ...state, prompt: null },
+			action: { type: "edit", id: task.id, revision: task.revision, title },
+		};
+	}
+	const until = resolveRelativeDate(prompt.value, state.data.today);
+	if (until === null) {
+		return {
+			state: { ...state, message: `Not a date: ${prompt.value.trim()}` },
+		};
+	}
+	return {
+		state: { ...state, prompt: null },
+		action: { type: "defer", id: task.id, revision: task.revision, until },
+	};
+};
+
+/**
+ * Applies one key to the state. Keys that change tasks return the action for
+ * the session to carry out; the state is then refreshed with `withTuiData`.
+ */
+export const reduceTui = (
+	state: TuiState,
+	key: TuiKey,
+): { readonly state: TuiState; readonly action?: TuiAction } => {
+	if (state.prompt !== null) {
+		return reducePrompt(state, state.prompt, key);
+	}
+	if (key.name === "interrupt") {
+		return { state, action: { type: "quit" } };
+	}
+	if (state.help) {
+		return key.name === "char" && key.char === "q"
+			? { state, action: { type: "quit" } }
+			: { state: { ...state, help: false } };
+	}
+
+	const cleared = { ...state, message: null };
+	switch (key.name) {
+		case "up":
+			return { state: moveSelection(cleared, -1) };
+		case "down":
+			return { state: moveSelection(cleared, 1) };
+		case "pageup":
+			return { state: moveSelection(cleared, -pageSize) };
+		case "pagedown":
+			return { state: moveSelection(cleared, pageSize) };
+		case "home":
+			return { state: moveSelection(cleared, -state.selected) };
+		case "end":
+			return { state: moveSelection(cleared, Number.MAX_SAFE_INTEGER) };
+		case "right":
+		case "tab":
+			return { state: switchView(cleared, 1) };
+		case "left":
+		case "backtab":
+			return { state: switchView(cleared, -1) };
+		case "char":
+			break;
+		default:
+			return { state };
+	}
+
+	switch (key.char) {
+		case "k":
+			return { state: moveSelection(cleared, -1) };
+		case "j":
+			return { state: moveSelection(cleared, 1) };
+		case "g":
+			return { state: moveSelection(cleared, -state.selected) };
+		case "G":
+			return { state: moveSelection(cleared, Number.MAX_SAFE_INTEGER) };
+		case "]":
+			return { state: switchView(cleared, 1) };
+		case "[":
+			return { state: switchView(cleared, -1) };
+		case "?":
+			return { state: { ...cleared, help: true } };
+		case "q":
+			return { state, action: { type: "quit" } };
+		case "r":
+			return { state: cleared, action: { type: "reload" } };
+	}
+
+	const task = selectedTuiTask(state);
+	if (task === undefined) {
+		return /^[cxdhse]$/.test(key.char)
+			? { state: { ...cleared, message: "No task selected" } }
+			: { state };
+	}
+	const { id, revision } = task;
+	switch (key.char) {
+		case "c":
+			return { state: cleared, action: { type: "complete", id } };
+		case "x":
+			return { state: cleared, action: { type: "drop", id, revision } };
+		case "h":
+			return { state: cleared, action: { type: "highlight", id } };
+		case "s":
+			return { state: cleared, action: { type: "start", id } };
+		case "d":
+			return {
+				state: { ...cleared, prompt: { kind: "defer", value: "" } },
+			};
+		case "e":
+			return {
+				state: { ...cleared, prompt: { kind: "edit", value: task.title } },
+			};
+		default:
+			return { state };
+	}
+};
+
+const style = {
+	bold: (text: string) => `\x1b[1m${text}\x1b[22m`,
+	dim: (text: string) => `\x1b[2m${text}\x1b[22m`,
+	inverse: (text: string) => `\x1b[7m${text}\x1b[27m`,
+};
+
+/** Truncates or pads text to exactly `width` columns. */
+const fit = (text: string, width: number): string => {
+	if (width <= 0) {
+		return "";
+	}
+	const chars = Array.from(text.replace(/\s*\r?\n\s*/g, " "));
+	return chars.length > width
+		? `${chars.slice(0, width - 1).join("")}…`
+		: chars.join("") + " ".repeat(width - chars.length);
+};
+
+const wrap = (text: string, width: number): Array<string> =>
+	text.split(/\r?\n/).flatMap((paragraph) => {
+		const lines: Array<string> = [];
+		let line = "";
+		for (const word of paragraph.split(/\s+/).filter((w) => w.length > 0)) {
+			if (line.length > 0 && line.length + 1 + word.length > width) {
+				lines.push(line);
+				line = word;
+			} else {
+				line = line.length > 0 ? `${line} ${word}` : word;
+			}
+		}
+		lines.push(line);
+		return lines;
+	});
+
+const viewLabel = (view: string | null): string => view ?? "all";
+
+interface DetailLine {
+	readonly text: string;
+	readonly bold?: boolean;
+}
+
+const detailLines = (
+	task: Task,
+	data: TuiData,
+	width: number,
+): Array<DetailLine> => {
+	const facts = [
+		task.id,
+		task.status,
+		fmtPriority(task.priority),
+		task.due !== null ? `due ${task.due}` : "",
+		task.defer_until !== null ? `deferred until ${task.defer_until}` : "",
+		task.id === data.highlightId ? "highlight" : "",
+	].filter((fact) => fact.length > 0);
+	const labels = [
+		task.projects.length > 0 ? `projects ${task.projects.join(", ")}` : "",
+		task.tags.length > 0 ? `tags ${task.tags.join(", ")}` : "",
+		task.context.length > 0 ? `@${task.context}` : "",
+		task.assignee !== null ? `assignee ${task.assignee}` : "",
+	].filter((label) => label.length > 0);
+	const titles = new Map(data.tasks.map((other) => [other.id, other.title]));
+	const section = (heading: string, lines: Array<string>): Array<DetailLine> =>
+		lines.length > 0
+			? [
+					{ text: "" },
+					{ text: heading, bold: true },
+					...lines.map((text) => ({ text })),
+				]
+			: [];
+
+	return [
+		...wrap(task.title, width).map((text) => ({ text, bold: true })),
+		...wrap(facts.join(" · "), width).map((text) => ({ text })),
+		...(labels.length > 0
+			? wrap(labels.join(" · "), width).map((text) => ({ text }))
+			: []),
+		...(task.description.trim().length > 0
+			? [
+					{ text: "" },
+					...wrap(task.description.trim(), width).map((text) => ({ text })),
+				]
+			: []),
+		...section(
+			"Subtasks",
+			task.subtasks.flatMap((subtask) =>
+				wrap(`[${subtask.done ? "x" : " "}] ${subtask.text}`, width),
+			),
+		),
+		...section(
+			"Blocked by",
+			task.blocked_by.flatMap((id) =>
+				wrap(`${id} ${titles.get(id) ?? "(missing)"}`, width),
+			),
+		),
+		...section(
+			"Comments",
+			task.comments.flatMap((comment) =>
+				wrap(
+					`${comment.author.length > 0 ? `${comment.author} ` : ""}(${comment.created}): ${comment.text}`,
+					width,
+				),
+			),
+		),
+	];
+};
+
+const helpLines = [
+	"j/k or ↑/↓    move        g/G   first/last",
+	"←/→ or tab    switch perspective",
+	"c  complete   x  drop     d  defer",
+	"h  highlight  s  start timer  e  edit title",
+	"r  reload     ?  help     q  quit",
+];
+
+const footerHints =
+	"c complete · x drop · d defer · h highlight · s start · e edit · ? help · q quit";
+
+/**
+ * Draws the whole screen: a perspective switcher, the task list next to the
+ * selected task's details, and a footer holding hotkeys, the last message
+ * or the open prompt. Returns exactly `size.rows` lines.
+ */
+export const renderTui = (state: TuiState, size: TuiSize): Array<string> => {
+	const columns = Math.max(20, size.columns);
+	const bodyRows = Math.max(1, size.rows - 4);
+	const tasks = visibleTuiTasks(state);
+	const listWidth = Math.max(20, Math.floor(columns * 0.45));
+	const detailWidth = Math.max(0, columns - listWidth - 3);
+
+	// Tabs that do not fit on the line are left out.
+	let headerWidth = "tashks".length;
+	const tabs = tuiViews(state.data).flatMap((view) => {
+		const label = ` ${viewLabel(view)} `;
+		headerWidth += label.length + 1;
+		if (headerWidth > columns) {
+			return [];
+		}
+		return [view === state.view ? style.inverse(label) : label];
+	});
+	const header = [style.bold("tashks"), ...tabs].join(" ");
+
+	const offset = Math.max(
+		0,
+		Math.min(state.selected - bodyRows + 1, tasks.length - bodyRows),
+	);
+	const listRows = Array.from({ length: bodyRows }, (_, row) => {
+		const task = tasks[offset + row];
+		if (task === undefined) {
+			return row === 0 && tasks.length === 0
+				? style.dim(fit("No tasks in this view", listWidth))
+				: fit("", listWidth);
+		}
+		const marker = task.id === state.data.highlightId ? "★ " : "  ";
+		const line = fit(
+			`${marker}${fmtTaskOneLiner(task, state.data.tasks)}`,
+			listWidth,
+		);
+		return offset + row === state.selected ? style.inverse(line) : line;
+	});
+
+	const selected = tasks[state.selected];
+	const details: ReadonlyArray<DetailLine> = state.help
+		? helpLines.map((text) => ({ text }))
+		: selected === undefined
+			? []
+			: detailLines(selected, state.data, detailWidth);
+	const detailRows = Array.from({ length: bodyRows }, (_, row) => {
+		const line = details[row];
+		if (line === undefined) {
+			return "";
+		}
+		const text = fit(line.text, detailWidth).trimEnd();
+		return line.bold === true ? style.bold(text) : text;
+	});
+
+	const footer =
+		state.prompt !== null
+			? fit(
+					`${state.message !== null ? `${state.message} · ` : ""}${state.prompt.kind === "defer" ? "Defer until (YYYY-MM-DD, today, +Nd)" : "Title"}: ${state.prompt.value}▏`,
+					columns,
+				).trimEnd()
+			: state.message !== null
+				? fit(state.message, columns).trimEnd()
+				: style.dim(fit(footerHints, columns).trimEnd());
+	const rule = "─".repeat(columns);
+
+	return [
+		header,
+		style.dim(rule),
+		...listRows.map((line, row) =>
+			`${line} ${style.dim("│")} ${detailRows[row]}`.trimEnd(),
+		),
+		style.dim(rule),
+		footer,
+	];
+};
+
+/** Reads and changes tasks on behalf of the TUI. */
+export interface TuiSession {
+	readonly load: Effect.Effect<TuiData, string>;
+	/** Carries out an action and describes the result for the footer. */
+	readonly perform: (action: TuiTaskAction) => Effect.Effect<string, string>;
+}
+
+const enterScreen = "\x1b[?1049h\x1b[?25l";
+const leaveScreen = "\x1b[?25h\x1b[?1049l";
+
+/**
+ * Runs the TUI on the process terminal until the user quits. Keys are queued
+ * as they arrive so none are lost while an action runs; a failed action is
+ * shown in the footer instead of ending the session.
+ */
+export const runTui = (
+	session: TuiSession,
+	view?: string,
+): Effect.Effect<void, string> =>
+	Effect.scoped(
+		Effect.gen(function* () {
+			const stdin = process.stdin;
+			const stdout = process.stdout;
+			if (!stdin.isTTY || !stdout.isTTY) {
+				return yield* Effect.fail("tashks tui needs an interactive terminal");
+			}
+
+			const data = yield* session.load;
+			if (view !== undefined && data.perspectives[view] === undefined) {
+				return yield* Effect.fail(`Perspective not found: ${view}`);
+			}
+			let state = createTuiState(data, view ?? null);
+
+			const keys = yield* Queue.unbounded<TuiKey>();
+			const onData = (chunk: string | Buffer) => {
+				for (const key of parseTuiKeys(chunk.toString())) {
+					Queue.unsafeOffer(keys, key);
+				}
+			};
+			const onResize = () => {
+				Queue.unsafeOffer(keys, { name: "resize" });
+			};
+			yield* Effect.acquireRelease(
+				Effect.sync(() => {
+					stdin.setRawMode(true);
+					stdin.on("data", onData);
+					stdin.resume();
+					stdout.on("resize", onResize);
+					stdout.write(enterScreen);
+				}),
+				() =>
+					Effect.sync(() => {
+						stdout.write(leaveScreen);
+						stdout.off("resize", onResize);
+						stdin.off("data", onData);
+						stdin.setRawMode(false);
+						stdin.pause();
+					}),
+			);
+
+			while (true) {
+				const lines = renderTui(state, {
+					columns: stdout.columns,
+					rows: stdout.rows,
+				});
+				stdout.write(
+					`\x1b[H${lines.map((line) => `${line}\x1b[K`).join("\r\n")}\x1b[J`,
+				);
+
+				const { state: next, action } = reduceTui(
+					state,
+					yield* Queue.take(keys),
+				);
+				state = next;
+				if (action === undefined) {
+					continue;
+				}
+				if (action.type === "quit") {
+					return;
+				}
+				const message =
+					action.type === "reload"
+						? "Reloaded"
+						: yield* session
+								.perform(action)
+								.pipe(Effect.catchAll((error) => Effect.succeed(error)));
+				state = { ...withTuiData(state, yield* session.load), message };
+			}
+		}),
+	);
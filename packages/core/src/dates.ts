@@ -0,0 +1,6 @@
+/** Adds whole days to a `YYYY-MM-DD` date, in UTC so DST never shifts it. */
+export const addDays = (date: string, days: number): string => {
+	const next = new Date(`${date}T00:00:00.000Z`);
+	next.setUTCDate(next.getUTCDate() + days);
+	return next.toISOString().slice(0, 10);
+};
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "bun:test";
+import type { Task } from "./schema.js";
+import { computeEstimateStats, suggestEstimate } from "./estimates.js";
+
+const makeTask = (overrides: Partial<Task> & Pick<Task, "id">): Task => ({
+	title: overrides.id,
+	description: "",
+	status: "done",
+	area: "work",
+	projects: [],
+	tags: [],
+	created: "2026-08-01",
+	updated: "2026-08-01",
+	urgency: "medium",
+	energy: "medium",
+	due: null,
+	context: "",
+	subtasks: [],
+	blocked_by: [],
+	estimated_minutes: null,
+	actual_minutes: null,
+	completed_at: null,
+	last_surfaced: null,
+	defer_until: null,
+	nudge_count: 0,
+	recurrence: null,
+	recurrence_trigger: "clock",
+	recurrence_strategy: "replace",
+	recurrence_last_generated: null,
+	related: [],
+	is_template: false,
+	from_template: null,
+	priority: null,
+	type: "task",
+	assignee: null,
+	parent: null,
+	close_reason: null,
+	comments: [],
+	revision: 0,
+	external_id: null,
+	...overrides,
+});
+
+const tasks = [
+	makeTask({
+		id: "a",
+		estimated_minutes: 60,
+		actual_minutes: 90,
+		assignee: "ana",
+		completed_at: "2026-08-10T10:00:00.000Z",
+	}),
+	makeTask({
+		id: "b",
+		estimated_minutes: 30,
+		actual_minutes: 30,
+		type: "bug",
+		completed_at: "2026-09-02T10:00:00.000Z",
+	}),
+	makeTask({
+		id: "c",
+		area: "personal",
+		energy: "low",
+		estimated_minutes: 120,
+		actual_minutes: 60,
+		assignee: "ana",
+		completed_at: "2026-09-20T10:00:00.000Z",
+	}),
+	// Not counted: still open, missing an actual, or a template.
+	makeTask({ id: "d", status: "active", estimated_minutes: 10, actual_minutes: 50 }),
+	makeTask({ id: "e", estimated_minutes: 10 }),
+	makeTask({ id: "f", is_template: true, estimated_minutes: 5, actual_minutes: 5 }),
+];
+
+describe("computeEstimateStats", () => {
+	it("summarizes completed tasks with both estimate and actual", () => {
+		expect(computeEstimateStats(tasks).overall).toEqual({
+			key: "all",
+			count: 3,
+			estimated_minutes: 210,
+			actual_minutes: 180,
+			ratio: 0.86,
+			median_ratio: 1,
+			mean_error: 0.33,
+		});
+	});
+
+	it("groups by area, type, energy and assignee", () => {
+		const stats = computeEstimateStats(tasks);
+
+		expect(stats.by.area.map((group) => [group.key, group.ratio])).toEqual([
+			["work", 1.33],
+			["personal", 0.5],
+		]);
+		expect(stats.by.type.map((group) => group.key)).toEqual(["task", "bug"]);
+		expect(stats.by.energy.map((group) => group.key)).toEqual(["medium", "low"]);
+		expect(
+			stats.by.assignee.map((group) => [group.key, group.count]),
+		).toEqual([
+			["ana", 2],
+			["(unassigned)", 1],
+		]);
+	});
+
+	it("trends by completion month", () => {
+		expect(
+			computeEstimateStats(tasks).trend.map((month) => [
+				month.key,
+				month.count,
+				month.median_ratio,
+			]),
+		).toEqual([
+			["2026-08", 1, 1.5],
+			["2026-09", 2, 0.75],
+		]);
+	});
+});
+
+describe("suggestEstimate", () => {
+	const history = [
+		makeTask({ id: "t1", tags: ["deploy"], actual_minutes: 20, from_template: "tpl" }),
+		makeTask({ id: "t2", tags: ["deploy"], actual_minutes: 40, from_template: "tpl" }),
+		makeTask({ id: "t3", tags: ["deploy", "infra"], actual_minutes: 90 }),
+		makeTask({ id: "t4", tags: ["infra"], actual_minutes: 200, status: "active" }),
+	];
+
+	it("prefers tasks from the same template", () => {
+		expect(
+			suggestEstimate({ tags: ["infra"], from_template: "tpl" }, history),
+		).toEqual({
+			minutes: 30,
+			basis: "template",
+			sample_size: 2,
+			task_ids: ["t1", "t2"],
+		});
+	});
+
+	it("falls back to shared tags and returns null without a match", () => {
+		expect(suggestEstimate({ tags: ["deploy"] }, history)).toEqual({
+			minutes: 40,
+			basis: "tags",
+			sample_size: 3,
+			task_ids: ["t1", "t2", "t3"],
+		});
+		expect(suggestEstimate({ tags: ["cooking"] }, history)).toBeNull();
+		expect(suggestEstimate({}, history)).toBeNull();
+	});
+});
@@ -0,0 +1,216 @@
+import { roundTo2 } from "./format.js";
+import type { Task } from "./schema.js";
+
+export type EstimateDimension = "area" | "type" | "energy" | "assignee";
+
+export const estimateDimensions: ReadonlyArray<EstimateDimension> = [
+	"area",
+	"type",
+	"energy",
+	"assignee",
+];
+
+/** A completed task with both an estimate and a recorded actual. */
+export interface EstimateSample {
+	readonly task: Task;
+	readonly estimated_minutes: number;
+	readonly actual_minutes: number;
+	/** `actual / estimated`: above 1 means the work ran over. */
+	readonly ratio: number;
+}
+
+export interface EstimateAccuracy {
+	readonly key: string;
+	readonly count: number;
+	readonly estimated_minutes: number;
+	readonly actual_minutes: number;
+	/** Total actual over total estimated, so long tasks weigh more. */
+	readonly ratio: number;
+	/** Median per-task ratio, less sensitive to a single wild miss. */
+	readonly median_ratio: number;
+	/** Mean of `|actual - estimated| / estimated` per task. */
+	readonly mean_error: number;
+}
+
+export interface EstimateStats {
+	readonly overall: EstimateAccuracy;
+	readonly by: Readonly<Record<EstimateDimension, ReadonlyArray<EstimateAccuracy>>>;
+	/** One entry per month of `completed_at`, oldest first. */
+	readonly trend: ReadonlyArray<EstimateAccuracy>;
+}
+
+const median = (values: ReadonlyArray<number>): number => {
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	return sorted.length % 2 === 1
+		? sorted[middle]
+		: (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const collectEstimateSamples = (
+	tasks: ReadonlyArray<Task>,
+): Array<EstimateSample> =>
+	tasks.flatMap((task) =>
+		!task.is_template &&
+		task.status === "done" &&
+		task.estimated_minutes !== null &&
+		task.estimated_minutes > 0 &&
+		task.actual_minutes !== null &&
+		task.actual_minutes > 0
+			? [
+					{
+						task,
+						estimated_minutes: task.estimated_minutes,
+						actual_minutes: task.actual_minutes,
+						ratio: task.actual_minutes / task.estimated_minutes,
+					},
+				]
+			: [],
+	);
+
+const summarizeSamples = (
+	key: string,
+	samples: ReadonlyArray<EstimateSample>,
+): EstimateAccuracy => {
+	const estimated = samples.reduce((sum, s) => sum + s.estimated_minutes, 0);
+	const actual = samples.reduce((sum, s) => sum + s.actual_minutes, 0);
+	return {
+		key,
+		count: samples.length,
+		estimated_minutes: estimated,
+		actual_minutes: actual,
+		ratio: samples.length === 0 ? 0 : roundTo2(actual / estimated),
+		median_ratio:
+			samples.length === 0 ? 0 : roundTo2(median(samples.map((s) => s.ratio))),
+		mean_error:
+			samples.length === 0
+				? 0
+				: roundTo2(
+						samples.reduce((sum, s) => sum + Math.abs(s.ratio - 1), 0) /
+							samples.length,
+					),
+	};
+};
+
+const groupSamples = (
+	samples: ReadonlyArray<EstimateSample>,
+	keyOf: (sample: EstimateSample) => string | null,
+): Array<EstimateAccuracy> => {
+	const groups = new Map<string, Array<EstimateSample>>();
+	for (const sample of samples) {
+		const key = keyOf(sample);
+		if (key !== null) {
+			groups.set(key, [...(groups.get(key) ?? []), sample]);
+		}
+	}
+	return Array.from(groups, ([key, grouped]) =>
+		summarizeSamples(key, grouped),
+	);
+};
+
+const dimensionKey = (
+	dimension: EstimateDimension,
+	task: Task,
+): string => {
+	switch (dimension) {
+		case "area":
+			return task.area;
+		case "type":
+			return task.type;
+		case "energy":
+			return task.energy;
+		case "assignee":
+			return task.assignee ?? "(unassigned)";
+	}
+};
+
+/**
+ * Compares `estimated_minutes` with `actual_minutes` across completed tasks.
+ * Groups are ordered by sample count; the trend skips tasks with no
+ * `completed_at`.
+ */
+export const computeEstimateStats = (
+	tasks: ReadonlyArray<Task>,
+): EstimateStats => {
+	const samples = collectEstimateSamples(tasks);
+	const byCount = (a: EstimateAccuracy, b: EstimateAccuracy) =>
+		b.count - a.count || a.key.localeCompare(b.key);
+
+	return {
+		overall: summarizeSamples("all", samples),
+		by: Object.fromEntries(
+			estimateDimensions.map((dimension) => [
+				dimension,
+				groupSamples(samples, (s) => dimensionKey(dimension, s.task)).sort(
+					byCount,
+				),
+			]),
+		) as Record<EstimateDimension, Array<EstimateAccuracy>>,
+		trend: groupSamples(samples, (s) =>
+			s.task.completed_at === null ? null : s.task.completed_at.slice(0, 7),
+		).sort((a, b) => a.key.localeCompare(b.key)),
+	};
+};
+
+export interface EstimateSuggestion {
+	readonly minutes: number;
+	readonly basis: "template" | "tags";
+	readonly sample_size: number;
+	readonly task_ids: ReadonlyArray<string>;
+}
+
+/**
+ * Suggests an estimate from the median actual time of similar completed
+ * tasks: those instantiated from the same template when there are any,
+ * otherwise those sharing at least one tag. Returns null without a match.
+ */
+export const suggestEstimate = (
+	candidate: {
+		readonly tags?: ReadonlyArray<string>;
+		readonly from_template?: string | null;
+	},
+	tasks: ReadonlyArray<Task>,
+): EstimateSuggestion | null => {
+	const completed = tasks.filter(
+		(task) =>
+			!task.is_template &&
+			task.status === "done" &&
+			task.actual_minutes !== null &&
+			task.actual_minutes > 0,
+	);
+
+	const suggestFrom = (
+		basis: EstimateSuggestion["basis"],
+		similar: ReadonlyArray<Task>,
+	): EstimateSuggestion | null =>
+		similar.length === 0
+			? null
+			: {
+					minutes: Math.round(
+						median(similar.map((task) => task.actual_minutes as number)),
+					),
+					basis,
+					sample_size: similar.length,
+					task_ids: similar.map((task) => task.id),
+				};
+
+	const templateId = candidate.from_template ?? null;
+	const fromTemplate =
+		templateId === null
+			? null
+			: suggestFrom(
+					"template",
+					completed.filter((task) => task.from_template === templateId),
+				);
+	if (fromTemplate !== null) {
+		return fromTemplate;
+	}
+
+	const tags = new Set(candidate.tags ?? []);
+	return tags.size === 0
+		? null
+		: suggestFrom(
+				"tags",
+				completed.filter((task) => task.tags.some((tag) => tags.has(tag))),
+			);
+};
@@ -0,0 +1,212 @@
+import { describe, expect, it } from "bun:test";
+import * as Either from "effect/Either";
+import * as Schema from "effect/Schema";
+import type { Task } from "./schema.js";
+import {
+	evaluateFilterExpression,
+	FilterExpressionFromString,
+	formatFilterExpression,
+	formatFilterExpressionError,
+	parseFilterExpression,
+	resolveFilterDate,
+	type FilterExpression,
+} from "./expression.js";
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+	id: "task-1",
+	title: "Task",
+	description: "",
+	status: "active",
+	area: "personal",
+	projects: [],
+	tags: [],
+	created: "2026-02-20",
+	updated: "2026-02-20",
+	urgency: "medium",
+	energy: "medium",
+	due: null,
+	context: "",
+	subtasks: [],
+	blocked_by: [],
+	estimated_minutes: null,
+	actual_minutes: null,
+	completed_at: null,
+	last_surfaced: null,
+	defer_until: null,
+	nudge_count: 0,
+	recurrence: null,
+	recurrence_trigger: "clock",
+	recurrence_strategy: "replace",
+	recurrence_last_generated: null,
+	related: [],
+	is_template: false,
+	from_template: null,
+	priority: null,
+	type: "task",
+	assignee: null,
+	parent: null,
+	close_reason: null,
+	comments: [],
+	revision: 0,
+	external_id: null,
+	...overrides,
+});
+
+const parse = (source: string): FilterExpression => {
+	const result = parseFilterExpression(source);
+	if (Either.isLeft(result)) {
+		throw new Error(formatFilterExpressionError(source, result.left));
+	}
+	return result.right;
+};
+
+const parseError = (source: string) => {
+	const result = parseFilterExpression(source);
+	if (Either.isRight(result)) {
+		throw new Error(`Expected ${source} to fail`);
+	}
+	return result.left;
+};
+
+const matches = (source: string, task: Task, today = "2026-02-25") =>
+	evaluateFilterExpression(parse(source), task, today);
+
+describe("filter expression parser", () => {
+	it("parses precedence as not > and > or", () => {
+		expect(parse("priority <= 1 and tag:urgent or not assignee:bob")).toEqual({
+			kind: "or",
+			left: {
+				kind: "and",
+				left: { kind: "compare", field: "priority", operator: "<=", value: "1" },
+				right: { kind: "match", field: "tags", value: "urgent" },
+			},
+			right: {
+				kind: "not",
+				operand: { kind: "match", field: "assignee", value: "bob" },
+			},
+		});
+	});
+
+	it("groups with parentheses and accepts quoted values and null", () => {
+		expect(parse('(title = "Ship it" or due = null) and project:home')).toEqual({
+			kind: "and",
+			left: {
+				kind: "or",
+				left: { kind: "compare", field: "title", operator: "=", value: "Ship it" },
+				right: { kind: "compare", field: "due", operator: "=", value: null },
+			},
+			right: { kind: "match", field: "projects", value: "home" },
+		});
+	});
+
+	it("reports the column of unknown fields", () => {
+		expect(parseError("status = active and colour = red")).toEqual({
+			message: 'Unknown field "colour"',
+			column: 21,
+		});
+	});
+
+	it("reports missing values, bad literals and unbalanced parentheses", () => {
+		expect(parseError("priority <= ")).toEqual({
+			message: 'Expected a value after "<=", got end of expression',
+			column: 13,
+		});
+		expect(parseError("priority < high").column).toBe(12);
+		expect(parseError("due < soon").message).toContain("Expected a date");
+		expect(parseError("status < active").message).toBe(
+			'Operator "<" is not supported for status',
+		);
+		expect(parseError("(tag:a or tag:b").message).toBe(
+			'Expected ")" to close "(" at column 1, got end of expression',
+		);
+		expect(parseError("tag:a tag:b")).toEqual({
+			message: 'Unexpected "tag"; expected "and", "or" or end of expression',
+			column: 7,
+		});
+		expect(parseError('title = "open').message).toBe("Unterminated string");
+	});
+
+	it("formats errors with a caret under the column", () => {
+		const source = "priority <= x";
+		expect(formatFilterExpressionError(source, parseError(source))).toBe(
+			[
+				'Invalid filter expression at column 13: Expected a number for priority, got "x"',
+				"  priority <= x",
+				"              ^",
+			].join("\n"),
+		);
+	});
+
+	it("prints expressions back to equivalent source", () => {
+		const source =
+			'priority <= 1 and (tag:urgent or due < +3d) and not assignee:"bob smith"';
+		const printed = formatFilterExpression(parse(source));
+		expect(printed).toBe(
+			'priority <= 1 and (tags:urgent or due < +3d) and not assignee:"bob smith"',
+		);
+		expect(parse(printed)).toEqual(parse(source));
+	});
+
+	it("decodes from a string through the schema", () => {
+		const decode = Schema.decodeUnknownEither(FilterExpressionFromString);
+		expect(Either.isRight(decode("tag:urgent"))).toBe(true);
+		expect(Either.isLeft(decode("tag:"))).toBe(true);
+	});
+});
+
+describe("filter expression evaluation", () => {
+	it("evaluates the documented example", () => {
+		const source =
+			"priority <= 1 and (tag:urgent or due < +3d) and not assignee:bob";
+
+		expect(matches(source, makeTask({ priority: 1, tags: ["urgent"] }))).toBe(
+			true,
+		);
+		expect(matches(source, makeTask({ priority: 0, due: "2026-02-27" }))).toBe(
+			true,
+		);
+		expect(matches(source, makeTask({ priority: 0, due: "2026-03-10" }))).toBe(
+			false,
+		);
+		expect(
+			matches(
+				source,
+				makeTask({ priority: 1, tags: ["urgent"], assignee: "bob" }),
+			),
+		).toBe(false);
+		expect(matches(source, makeTask({ priority: null, tags: ["urgent"] }))).toBe(
+			false,
+		);
+	});
+
+	it("treats nulls as unordered but comparable with null", () => {
+		expect(matches("due = null", makeTask())).toBe(true);
+		expect(matches("due != null", makeTask())).toBe(false);
+		expect(matches("assignee != bob", makeTask())).toBe(true);
+		expect(matches("estimated_minutes > 0", makeTask())).toBe(false);
+	});
+
+	it("compares timestamps by date and supports past offsets", () => {
+		const task = makeTask({ completed_at: "2026-02-20T15:30:00.000Z" });
+		expect(matches("completed_at >= -7d", task)).toBe(true);
+		expect(matches("completed_at = 2026-02-20", task)).toBe(true);
+		expect(matches("completed_at > today", task)).toBe(false);
+	});
+
+	it("supports list membership and booleans", () => {
+		const task = makeTask({ blocked_by: ["a"], is_template: true });
+		expect(matches("blocked_by:a", task)).toBe(true);
+		expect(matches("blocked_by != a", task)).toBe(false);
+		expect(matches("is_template = true", task)).toBe(true);
+	});
+});
+
+describe("resolveFilterDate", () => {
+	it("resolves absolute, today and relative offsets", () => {
+		expect(resolveFilterDate("2026-03-01", "2026-02-25")).toBe("2026-03-01");
+		expect(resolveFilterDate("today", "2026-02-25")).toBe("2026-02-25");
+		expect(resolveFilterDate("+4d", "2026-02-25")).toBe("2026-03-01");
+		expect(resolveFilterDate("-25d", "2026-02-25")).toBe("2026-01-31");
+		expect(resolveFilterDate("2026-02-30", "2026-02-25")).toBeNull();
+	});
+});
@@ -0,0 +1,571 @@
+import * as Either from "effect/Either";
+import * as ParseResult from "effect/ParseResult";
+import * as Schema from "effect/Schema";
+import { addDays } from "./dates.js";
+import type { Task } from "./schema.js";
+
+export type FilterComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+export type FilterExpression =
+	| {
+			readonly kind: "and";
+			readonly left: FilterExpression;
+			readonly right: FilterExpression;
+	  }
+	| {
+			readonly kind: "or";
+			readonly left: FilterExpression;
+			readonly right: FilterExpression;
+	  }
+	| { readonly kind: "not"; readonly operand: FilterExpression }
+	| {
+			readonly kind: "compare";
+			readonly field: string;
+			readonly operator: FilterComparisonOperator;
+			/** `null` for an unquoted `null` literal. */
+			readonly value: string | null;
+	  }
+	| {
+			readonly kind: "match";
+			readonly field: string;
+			readonly value: string | null;
+	  };
+
+export interface FilterExpressionError {
+	readonly message: string;
+	/** 1-based column in the source expression. */
+	readonly column: number;
+}
+
+type FieldKind = "string" | "number" | "date" | "list" | "boolean";
+
+const fieldKinds: Readonly<Record<string, FieldKind>> = {
+	id: "string",
+	title: "string",
+	description: "string",
+	status: "string",
+	area: "string",
+	urgency: "string",
+	energy: "string",
+	context: "string",
+	type: "string",
+	assignee: "string",
+	parent: "string",
+	recurrence: "string",
+	from_template: "string",
+	close_reason: "string",
+	external_id: "string",
+	priority: "number",
+	estimated_minutes: "number",
+	actual_minutes: "number",
+	nudge_count: "number",
+	due: "date",
+	defer_until: "date",
+	created: "date",
+	updated: "date",
+	completed_at: "date",
+	last_surfaced: "date",
+	tags: "list",
+	projects: "list",
+	blocked_by: "list",
+	related: "list",
+	is_template: "boolean",
+};
+
+const fieldAliases: Readonly<Record<string, string>> = {
+	tag: "tags",
+	project: "projects",
+};
+
+const keywords: ReadonlySet<string> = new Set(["and", "or", "not"]);
+const operators: ReadonlyArray<string> = ["<=", ">=", "!=", "=", "<", ">", ":"];
+const operatorList = "=, !=, <, <=, >, >= or :";
+const wordBoundary = /[\s()<>=!:"']/;
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}$/;
+const relativeDaysPattern = /^([+-])(\d+)d$/;
+
+type Token =
+	| { readonly type: "word"; readonly text: string; readonly column: number }
+	| { readonly type: "string"; readonly text: string; readonly column: number }
+	| {
+			readonly type: "operator";
+			readonly text: string;
+			readonly column: number;
+	  }
+	| {
+			readonly type: "paren";
+			readonly text: "(" | ")";
+			readonly column: number;
+	  }
+	| { readonly type: "end"; readonly text: ""; readonly column: number };
+
+class FilterSyntaxError extends Error {
+	constructor(
+		message: string,
+		readonly column: number,
+	) {
+		super(message);
+	}
+}
+
+const tokenize = (source: string): Array<Token> => {
+	const tokens: Array<Token> = [];
+	let index = 0;
+
+	while (index < source.length) {
+		const char = source[index];
+		const column = index + 1;
+
+		if (/\s/.test(char)) {
+			index += 1;
+			continue;
+		}
+
+		if (char === "(" || char === ")") {
+			tokens.push({ type: "paren", text: char, column });
+			index += 1;
+			continue;
+		}
+
+		const operator = operators.find((candidate) =>
+			source.startsWith(candidate, index),
+		);
+		if (operator !== undefined) {
+			tokens.push({ type: "operator", text: operator, column });
+			index += operator.length;
+			continue;
+		}
+
+		if (char === "!") {
+			throw new FilterSyntaxError(`Unexpected "!"; did you mean "!="?`, column);
+		}
+
+		if (char === '"' || char === "'") {
+			let text = "";
+			let cursor = index + 1;
+			while (cursor < source.length && source[cursor] !== char) {
+				if (source[cursor] === "\\" && cursor + 1 < source.length) {
+					cursor += 1;
+				}
+				text += source[cursor];
+				cursor += 1;
+			}
+			if (cursor >= source.length) {
+				throw new FilterSyntaxError("Unterminated string", column);
+			}
+			tokens.push({ type: "string", text, column });
+			index = cursor + 1;
+			continue;
+		}
+
+		let cursor = index;
+		while (cursor < source.length && !wordBoundary.test(source[cursor])) {
+			cursor += 1;
+		}
+		tokens.push({ type: "word", text: source.slice(index, cursor), column });
+		index = cursor;
+	}
+
+	tokens.push({ type: "end", text: "", column: source.length + 1 });
+	return tokens;
+};
+
+const isKeyword = (token: Token, keyword: string): boolean =>
+	token.type === "word" && token.text.toLowerCase() === keyword;
+
+const describeToken = (token: Token): string =>
+	token.type === "end" ? "end of expression" : `"${token.text}"`;
+
+const validateValue = (
+	field: string,
+	kind: FieldKind,
+	operator: string,
+	token: Token,
+): void => {
+	const value = token.text;
+	const isNull = token.type === "word" && value === "null";
+	const ordered = operator !== "=" && operator !== "!=" && operator !== ":";
+
+	if (ordered && kind !== "number" && kind !== "date") {
+		throw new FilterSyntaxError(
+			`Operator "${operator}" is not supported for ${field}`,
+			token.column,
+		);
+	}
+
+	if (isNull) {
+		if (ordered || kind === "list" || kind === "boolean") {
+			throw new FilterSyntaxError(
+				`null cannot be used with "${operator}" on ${field}`,
+				token.column,
+			);
+		}
+		return;
+	}
+
+	if (kind === "number" && !Number.isFinite(Number(value))) {
+		throw new FilterSyntaxError(
+			`Expected a number for ${field}, got "${value}"`,
+			token.column,
+		);
+	}
+
+	if (kind === "date" && resolveFilterDate(value, "2000-01-01") === null) {
+		throw new FilterSyntaxError(
+			`Expected a date (YYYY-MM-DD, today, +Nd or -Nd) for ${field}, got "${value}"`,
+			token.column,
+		);
+	}
+
+	if (kind === "boolean" && value !== "true" && value !== "false") {
+		throw new FilterSyntaxError(
+			`Expected true or false for ${field}, got "${value}"`,
+			token.column,
+		);
+	}
+};
+
+const parseTokens = (tokens: ReadonlyArray<Token>): FilterExpression => {
+	let position = 0;
+	const peek = (): Token => tokens[position];
+	const next = (): Token => {
+		const token = tokens[position];
+		position += 1;
+		return token;
+	};
+
+	const parseOr = (): FilterExpression => {
+		let left = parseAnd();
+		while (isKeyword(peek(), "or")) {
+			next();
+			left = { kind: "or", left, right: parseAnd() };
+		}
+		return left;
+	};
+
+	const parseAnd = (): FilterExpression => {
+		let left = parseNot();
+		while (isKeyword(peek(), "and")) {
+			next();
+			left = { kind: "and", left, right: parseNot() };
+		}
+		return left;
+	};
+
+	const parseNot = (): FilterExpression => {
+		if (isKeyword(peek(), "not")) {
+			next();
+			return { kind: "not", operand: parseNot() };
+		}
+		return parsePrimary();
+	};
+
+	const parsePrimary = (): FilterExpression => {
+		const token = next();
+
+		if (token.type === "paren" && token.text === "(") {
+			const inner = parseOr();
+			const closing = next();
+			if (closing.type !== "paren" || closing.text !== ")") {
+				throw new FilterSyntaxError(
+					`Expected ")" to close "(" at column ${token.column}, got ${describeToken(closing)}`,
+					closing.column,
+				);
+			}
+			return inner;
+		}
+
+		if (token.type !== "word" || keywords.has(token.text.toLowerCase())) {
+			throw new FilterSyntaxError(
+				`Expected a field name, got ${describeToken(token)}`,
+				token.column,
+			);
+		}
+
+		const field = fieldAliases[token.text] ?? token.text;
+		const kind = fieldKinds[field];
+		if (kind === undefined) {
+			throw new FilterSyntaxError(
+				`Unknown field "${token.text}"`,
+				token.column,
+			);
+		}
+
+		const operator = next();
+		if (operator.type !== "operator") {
+			throw new FilterSyntaxError(
+				`Expected an operator (${operatorList}) after ${token.text}, got ${describeToken(operator)}`,
+				operator.column,
+			);
+		}
+
+		const value = next();
+		if (
+			value.type !== "string" &&
+			(value.type !== "word" || keywords.has(value.text.toLowerCase()))
+		) {
+			throw new FilterSyntaxError(
+				`Expected a value after "${operator.text}", got ${describeToken(value)}`,
+				value.column,
+			);
+		}
+
+		validateValue(field, kind, operator.text, value);
+		const literal =
+			value.type === "word" && value.text === "null" ? null : value.text;
+
+		return operator.text === ":"
+			? { kind: "match", field, value: literal }
+			: {
+					kind: "compare",
+					field,
+					operator: operator.text as FilterComparisonOperator,
+					value: literal,
+				};
+	};
+
+	const expression = parseOr();
+	const trailing = peek();
+	if (trailing.type !== "end") {
+		throw new FilterSyntaxError(
+			`Unexpected ${describeToken(trailing)}; expected "and", "or" or end of expression`,
+			trailing.column,
+		);
+	}
+	return expression;
+};
+
+/**
+ * Parses a filter expression such as
+ * `priority <= 1 and (tag:urgent or due < +3d) and not assignee:bob`.
+ */
+export const parseFilterExpression = (
+	source: string,
+): Either.Either<FilterExpression, FilterExpressionError> => {
+	try {
+		return Either.right(parseTokens(tokenize(source)));
+	} catch (error) {
+		if (error instanceof FilterSyntaxError) {
+			return Either.left({ message: error.message, column: error.column });
+		}
+		throw error;
+	}
+};
+
+/** Renders a parse error with a caret under the offending column. */
+export const formatFilterExpressionError = (
+	source: string,
+	error: FilterExpressionError,
+): string =>
+	[
+		`Invalid filter expression at column ${error.column}: ${error.message}`,
+		`  ${source}`,
+		`  ${" ".repeat(Math.max(error.column - 1, 0))}^`,
+	].join("\n");
+
+const quoteValue = (value: string | null): string =>
+	value === null
+		? "null"
+		: value.length > 0 &&
+				value !== "null" &&
+				!wordBoundary.test(value) &&
+				!keywords.has(value.toLowerCase())
+			? value
+			: JSON.stringify(value);
+
+const precedence = (expression: FilterExpression): number =>
+	expression.kind === "or" ? 0 : expression.kind === "and" ? 1 : 2;
+
+/** Prints an expression back to source form; the result parses to the same AST. */
+export const formatFilterExpression = (
+	expression: FilterExpression,
+): string => {
+	const wrap = (child: FilterExpression, minimum: number): string =>
+		precedence(child) < minimum
+			? `(${formatFilterExpression(child)})`
+			: formatFilterExpression(child);
+
+	switch (expression.kind) {
+		case "or":
+			return `${wrap(expression.left, 0)} or ${wrap(expression.right, 1)}`;
+		case "and":
+			return `${wrap(expression.left, 1)} and ${wrap(expression.right, 2)}`;
+		case "not":
+			return `not ${wrap(expression.operand, 2)}`;
+		case "match":
+			return `${expression.field}:${quoteValue(expression.value)}`;
+		case "compare":
+			return `${expression.field} ${expression.operator} ${quoteValue(expression.value)}`;
+	}
+};
+
+/**
+ * Resolves an absolute or relative date literal. Unlike perspective filters,
+ * expressions also accept past offsets such as `-7d`.
+ */
+export const resolveFilterDate = (
+	value: string,
+	today: string,
+): string | null => {
+	if (value === "today") {
+		return today;
+	}
+
+	const relativeMatch = relativeDaysPattern.exec(value);
+	if (relativeMatch !== null) {
+		const days = Number.parseInt(relativeMatch[2], 10);
+		return addDays(today, relativeMatch[1] === "-" ? -days : days);
+	}
+
+	if (!isoDatePattern.test(value)) {
+		return null;
+	}
+
+	const parsed = new Date(`${value}T00:00:00.000Z`);
+	return !Number.isNaN(parsed.getTime()) &&
+		parsed.toISOString().slice(0, 10) === value
+		? value
+		: null;
+};
+
+const compareOrdered = (
+	actual: number | string,
+	operator: FilterComparisonOperator,
+	expected: number | string,
+): boolean => {
+	switch (operator) {
+		case "=":
+			return actual === expected;
+		case "!=":
+			return actual !== expected;
+		case "<":
+			return actual < expected;
+		case "<=":
+			return actual <= expected;
+		case ">":
+			return actual > expected;
+		case ">=":
+			return actual >= expected;
+	}
+};
+
+const evaluateComparison = (
+	task: Task,
+	field: string,
+	operator: FilterComparisonOperator,
+	value: string | null,
+	today: string,
+): boolean => {
+	const kind = fieldKinds[field];
+	const raw = (task as unknown as Record<string, unknown>)[field] ?? null;
+
+	if (kind === "list") {
+		const includes = Array.isArray(raw) && raw.includes(value);
+		return operator === "!=" ? !includes : includes;
+	}
+
+	if (value === null) {
+		return operator === "!=" ? raw !== null : raw === null;
+	}
+
+	if (raw === null) {
+		// A missing value never satisfies an ordering, but is "not equal" to
+		// anything concrete.
+		return operator === "!=";
+	}
+
+	switch (kind) {
+		case "number":
+			return compareOrdered(Number(raw), operator, Number(value));
+		case "date": {
+			const expected = resolveFilterDate(value, today);
+			return (
+				expected !== null &&
+				compareOrdered(String(raw).slice(0, 10), operator, expected)
+			);
+		}
+		default:
+			return compareOrdered(String(raw), operator, value);
+	}
+};
+
+export const evaluateFilterExpression = (
+	expression: FilterExpression,
+	task: Task,
+	today: string,
+): boolean => {
+	switch (expression.kind) {
+		case "and":
+			return (
+				evaluateFilterExpression(expression.left, task, today) &&
+				evaluateFilterExpression(expression.right, task, today)
+			);
+		case "or":
+			return (
+				evaluateFilterExpression(expression.left, task, today) ||
+				evaluateFilterExpression(expression.right, task, today)
+			);
+		case "not":
+			return !evaluateFilterExpression(expression.operand, task, today);
+		case "match":
+			return evaluateComparison(
+				task,
+				expression.field,
+				"=",
+				expression.value,
+				today,
+			);
+		case "compare":
+			return evaluateComparison(
+				task,
+				expression.field,
+				expression.operator,
+				expression.value,
+				today,
+			);
+	}
+};
+
+export const matchesFilterExpression =
+	(expression: FilterExpression, today: string) =>
+	(task: Task): boolean =>
+		evaluateFilterExpression(expression, task, today);
+
+const expressionKinds: ReadonlySet<unknown> = new Set([
+	"and",
+	"or",
+	"not",
+	"compare",
+	"match",
+]);
+
+const FilterExpressionAst = Schema.declare(
+	(input: unknown): input is FilterExpression =>
+		input !== null &&
+		typeof input === "object" &&
+		expressionKinds.has((input as { kind?: unknown }).kind),
+	{ identifier: "FilterExpression" },
+);
+
+/** Decodes an expression string into its AST, e.g. for perspective `where:` filters. */
+export const FilterExpressionFromString = Schema.transformOrFail(
+	Schema.String,
+	FilterExpressionAst,
+	{
+		strict: true,
+		decode: (source, _options, ast) =>
+			Either.match(parseFilterExpression(source), {
+				onLeft: (error) =>
+					ParseResult.fail(
+						new ParseResult.Type(
+							ast,
+							source,
+							formatFilterExpressionError(source, error),
+						),
+					),
+				onRight: (expression) => ParseResult.succeed(expression),
+			}),
+		encode: (expression) =>
+			ParseResult.succeed(formatFilterExpression(expression)),
+	},
+);
@@ -0,0 +1,8 @@
+export const roundTo2 = (value: number): number =>
+	Math.round(value * 100) / 100;
+
+/** Quotes a CSV cell when it needs it; null and undefined become empty. */
+export const csvCell = (value: unknown): string => {
+	const text = value === null || value === undefined ? "" : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "bun:test";
+import type { Task } from "./schema.js";
+import { buildTaskGraph, renderTaskGraph } from "./graph.js";
+
+const makeTask = (
+	overrides: Partial<Task> & Pick<Task, "id" | "title">,
+): Task => ({
+	status: "active",
+	area: "personal",
+	projects: [],
+	tags: [],
+	created: "2026-02-25",
+	updated: "2026-02-25",
+	urgency: "medium",
+	energy: "medium",
+	due: null,
+	context: "",
+	subtasks: [],
+	blocked_by: [],
+	estimated_minutes: null,
+	actual_minutes: null,
+	completed_at: null,
+	last_surfaced: null,
+	defer_until: null,
+	nudge_count: 0,
+	recurrence: null,
+	recurrence_trigger: "clock",
+	recurrence_strategy: "replace",
+	recurrence_last_generated: null,
+	related: [],
+	is_template: false,
+	from_template: null,
+	priority: null,
+	type: "task",
+	assignee: null,
+	parent: null,
+	close_reason: null,
+	description: "",
+	comments: [],
+	revision: 0,
+	external_id: null,
+	...overrides,
+});
+
+const tasks: Array<Task> = [
+	makeTask({ id: "epic", title: "Epic", projects: ["launch"] }),
+	makeTask({
+		id: "design",
+		title: "Design",
+		status: "done",
+		parent: "epic",
+		projects: ["launch"],
+	}),
+	makeTask({
+		id: "build",
+		title: 'Build "v2"',
+		parent: "epic",
+		blocked_by: ["design", "infra"],
+		related: ["docs"],
+		projects: ["launch"],
+	}),
+	makeTask({ id: "infra", title: "Infra", projects: ["launch"] }),
+	makeTask({
+		id: "docs",
+		title: "Docs",
+		related: ["build"],
+		projects: ["launch"],
+	}),
+	makeTask({ id: "other", title: "Other" }),
+];
+
+describe("buildTaskGraph", () => {
+	it("collects blocked_by, parent and deduplicated related edges", () => {
+		const graph = buildTaskGraph(tasks, { project: "launch" });
+
+		expect(graph.tasks.map((task) => task.id)).toEqual([
+			"epic",
+			"design",
+			"build",
+			"infra",
+			"docs",
+		]);
+		expect(graph.edges).toEqual([
+			{ from: "epic", to: "design", kind: "parent" },
+			{ from: "design", to: "build", kind: "blocks" },
+			{ from: "infra", to: "build", kind: "blocks" },
+			{ from: "epic", to: "build", kind: "parent" },
+			{ from: "build", to: "docs", kind: "related" },
+		]);
+	});
+
+	it("keeps only tasks connected to the root", () => {
+		const graph = buildTaskGraph(
+			[
+				...tasks,
+				makeTask({ id: "lonely", title: "Lonely", blocked_by: ["other"] }),
+			],
+			{ root: "lonely" },
+		);
+
+		expect(graph.tasks.map((task) => task.id)).toEqual(["other", "lonely"]);
+		expect(graph.edges).toEqual([
+			{ from: "other", to: "lonely", kind: "blocks" },
+		]);
+	});
+});
+
+describe("renderTaskGraph", () => {
+	it("renders DOT with escaped labels and status styles", () => {
+		const dot = renderTaskGraph(tasks, "dot", { root: "infra" });
+
+		expect(dot.startsWith("digraph tashks {\n")).toBe(true);
+		expect(dot).toContain(
+			'"build" [label="Build \\"v2\\"\\nbuild", style="rounded,bold", color="#c92a2a"];',
+		);
+		expect(dot).toContain(
+			'"design" [label="Design\\ndesign", style="rounded,filled", fillcolor="#d3f9d8"',
+		);
+		expect(dot).toContain('"infra" -> "build";');
+		expect(dot).toContain(
+			'"epic" -> "build" [style=dashed, arrowhead=empty, label="parent"];',
+		);
+		expect(dot).toContain(
+			'"build" -> "docs" [style=dotted, dir=none, label="related"];',
+		);
+		expect(dot).not.toContain('"other"');
+	});
+
+	it("renders Mermaid with positional node ids and class styles", () => {
+		const mermaid = renderTaskGraph(tasks, "mermaid", { project: "launch" });
+
+		expect(mermaid.split("\n").slice(0, 4)).toEqual([
+			"flowchart LR",
+			'  t0["Epic<br/><small>epic</small>"]',
+			'  t1["Design<br/><small>design</small>"]',
+			'  t2["Build #quot;v2#quot;<br/><small>build</small>"]',
+		]);
+		expect(mermaid).toContain("  t1 --> t2");
+		expect(mermaid).toContain("  t0 -.->|parent| t2");
+		expect(mermaid).toContain("  t2 -.-|related| t4");
+		expect(mermaid).toContain("  class t1 done");
+		expect(mermaid).toContain("  class t2 blocked");
+	});
+});
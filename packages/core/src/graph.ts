@@ -0,0 +1,220 @@
+import { isBlocked } from "./query.js";
+import type { Task } from "./schema.js";
+
+export type TaskGraphFormat = "dot" | "mermaid";
+
+export const taskGraphFormats: ReadonlyArray<TaskGraphFormat> = [
+	"dot",
+	"mermaid",
+];
+
+export type TaskGraphEdgeKind = "blocks" | "parent" | "related";
+
+export interface TaskGraphEdge {
+	readonly from: string;
+	readonly to: string;
+	readonly kind: TaskGraphEdgeKind;
+}
+
+export interface TaskGraph {
+	readonly tasks: ReadonlyArray<Task>;
+	readonly edges: ReadonlyArray<TaskGraphEdge>;
+}
+
+export interface TaskGraphOptions {
+	readonly project?: string;
+	/** Keep only tasks connected to this task through any edge. */
+	readonly root?: string;
+}
+
+type NodeStyle =
+	| "active"
+	| "blocked"
+	| "in_progress"
+	| "done"
+	| "dropped"
+	| "backlog"
+	| "deferred";
+
+const nodeStyle = (task: Task, allTasks: Array<Task>): NodeStyle => {
+	switch (task.status) {
+		case "done":
+		case "dropped":
+		case "in_progress":
+		case "backlog":
+		case "deferred":
+			return task.status;
+		default:
+			return isBlocked(task, allTasks) ? "blocked" : "active";
+	}
+};
+
+const dotStyles: Readonly<Record<NodeStyle, string>> = {
+	active: 'style="rounded"',
+	blocked: 'style="rounded,bold", color="#c92a2a"',
+	in_progress: 'style="rounded,filled", fillcolor="#fff3bf"',
+	done: 'style="rounded,filled", fillcolor="#d3f9d8", fontcolor="#2b8a3e"',
+	dropped: 'style="rounded,dashed", color="#868e96", fontcolor="#868e96"',
+	backlog: 'style="rounded,filled", fillcolor="#e7f5ff"',
+	deferred: 'style="rounded,filled", fillcolor="#f3f0ff"',
+};
+
+const mermaidStyles: Readonly<Record<NodeStyle, string>> = {
+	active: "fill:#ffffff,stroke:#495057",
+	blocked: "fill:#ffffff,stroke:#c92a2a,stroke-width:2px",
+	in_progress: "fill:#fff3bf,stroke:#e67700",
+	done: "fill:#d3f9d8,stroke:#2b8a3e,color:#2b8a3e",
+	dropped: "fill:#f1f3f5,stroke:#868e96,color:#868e96,stroke-dasharray:4",
+	backlog: "fill:#e7f5ff,stroke:#1971c2",
+	deferred: "fill:#f3f0ff,stroke:#6741d9",
+};
+
+/**
+ * Collects the tasks and `blocked_by`, `parent` and `related` edges to draw.
+ * Edges are only kept when both ends are in the selection, and each related
+ * pair is drawn once.
+ */
+export const buildTaskGraph = (
+	allTasks: ReadonlyArray<Task>,
+	options: TaskGraphOptions = {},
+): TaskGraph => {
+	const inProject =
+		options.project === undefined
+			? Array.from(allTasks)
+			: allTasks.filter((task) =>
+					task.projects.includes(options.project as string),
+				);
+	const candidateIds = new Set(inProject.map((task) => task.id));
+
+	const edges: Array<TaskGraphEdge> = [];
+	const relatedPairs = new Set<string>();
+	for (const task of inProject) {
+		for (const blockerId of task.blocked_by) {
+			if (candidateIds.has(blockerId)) {
+				edges.push({ from: blockerId, to: task.id, kind: "blocks" });
+			}
+		}
+		if (task.parent !== null && candidateIds.has(task.parent)) {
+			edges.push({ from: task.parent, to: task.id, kind: "parent" });
+		}
+		for (const relatedId of task.related) {
+			const pair = [task.id, relatedId].sort().join("\n");
+			if (candidateIds.has(relatedId) && !relatedPairs.has(pair)) {
+				relatedPairs.add(pair);
+				edges.push({ from: task.id, to: relatedId, kind: "related" });
+			}
+		}
+	}
+
+	if (options.root === undefined) {
+		return { tasks: inProject, edges };
+	}
+
+	const neighbours = new Map<string, Array<string>>();
+	for (const edge of edges) {
+		neighbours.set(edge.from, [...(neighbours.get(edge.from) ?? []), edge.to]);
+		neighbours.set(edge.to, [...(neighbours.get(edge.to) ?? []), edge.from]);
+	}
+
+	const reachable = new Set<string>();
+	const pending = candidateIds.has(options.root) ? [options.root] : [];
+	while (pending.length > 0) {
+		const id = pending.pop() as string;
+		if (reachable.has(id)) {
+			continue;
+		}
+		reachable.add(id);
+		pending.push(...(neighbours.get(id) ?? []));
+	}
+
+	return {
+		tasks: inProject.filter((task) => reachable.has(task.id)),
+		edges: edges.filter(
+			(edge) => reachable.has(edge.from) && reachable.has(edge.to),
+		),
+	};
+};
+
+const escapeDot = (value: string): string =>
+	value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+
+const escapeMermaid = (value: string): string => value.replace(/"/g, "#quot;");
+
+const renderDot = (graph: TaskGraph, allTasks: Array<Task>): string => {
+	const lines = [
+		"digraph tashks {",
+		"  rankdir=LR;",
+		'  node [shape=box, fontname="Helvetica"];',
+	];
+
+	for (const task of graph.tasks) {
+		lines.push(
+			`  "${escapeDot(task.id)}" [label="${escapeDot(task.title)}\\n${escapeDot(task.id)}", ${dotStyles[nodeStyle(task, allTasks)]}];`,
+		);
+	}
+
+	for (const edge of graph.edges) {
+		const attributes =
+			edge.kind === "blocks"
+				? ""
+				: edge.kind === "parent"
+					? ' [style=dashed, arrowhead=empty, label="parent"]'
+					: ' [style=dotted, dir=none, label="related"]';
+		lines.push(
+			`  "${escapeDot(edge.from)}" -> "${escapeDot(edge.to)}"${attributes};`,
+		);
+	}
+
+	lines.push("}");
+	return `${lines.join("\n")}\n`;
+};
+
+const renderMermaid = (graph: TaskGraph, allTasks: Array<Task>): string => {
+	// Task ids may contain characters Mermaid treats as syntax, so nodes get
+	// positional ids and keep the task id in their label.
+	const nodeIds = new Map(
+		graph.tasks.map((task, index) => [task.id, `t${index}`]),
+	);
+	const lines = ["flowchart LR"];
+	const byStyle = new Map<NodeStyle, Array<string>>();
+
+	for (const task of graph.tasks) {
+		const nodeId = nodeIds.get(task.id) as string;
+		lines.push(
+			`  ${nodeId}["${escapeMermaid(task.title)}<br/><small>${escapeMermaid(task.id)}</small>"]`,
+		);
+		const style = nodeStyle(task, allTasks);
+		byStyle.set(style, [...(byStyle.get(style) ?? []), nodeId]);
+	}
+
+	for (const edge of graph.edges) {
+		const from = nodeIds.get(edge.from);
+		const to = nodeIds.get(edge.to);
+		const connector =
+			edge.kind === "blocks"
+				? "-->"
+				: edge.kind === "parent"
+					? "-.->|parent|"
+					: "-.-|related|";
+		lines.push(`  ${from} ${connector} ${to}`);
+	}
+
+	for (const [style, ids] of byStyle) {
+		lines.push(`  classDef ${style} ${mermaidStyles[style]}`);
+		lines.push(`  class ${ids.join(",")} ${style}`);
+	}
+
+	return `${lines.join("\n")}\n`;
+};
+
+export const renderTaskGraph = (
+	allTasks: ReadonlyArray<Task>,
+	format: TaskGraphFormat,
+	options: TaskGraphOptions = {},
+): string => {
+	const graph = buildTaskGraph(allTasks, options);
+	const taskList = Array.from(allTasks);
+	return format === "dot"
+		? renderDot(graph, taskList)
+		: renderMermaid(graph, taskList);
+};
@@ -0,0 +1,171 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import * as Either from "effect/Either";
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import {
+	TaskHistoryEvent as TaskHistoryEventSchema,
+	type Task,
+	type TaskFieldChange,
+	type TaskHistoryEvent,
+	type TaskHistoryEventKind,
+	type WorkLogEntry,
+} from "./schema.js";
+
+const decodeTaskHistoryEventEither = Schema.decodeUnknownEither(
+	TaskHistoryEventSchema,
+);
+
+const toErrorMessage = (error: unknown): string =>
+	error instanceof Error ? error.message : String(error);
+
+// `updated` and `revision` change on every write, so they are carried by the
+// event itself instead of being repeated in every diff.
+const untrackedFields: ReadonlySet<string> = new Set(["updated", "revision"]);
+
+export const historyFilePath = (dataDir: string): string =>
+	join(dataDir, "history.jsonl");
+
+export const defaultHistoryActor = (
+	env: NodeJS.ProcessEnv = process.env,
+): string | null => {
+	const actor = env.TASHKS_ACTOR ?? env.USER;
+	return actor !== undefined && actor.length > 0 ? actor : null;
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+	JSON.stringify(a) === JSON.stringify(b);
+
+export const diffTaskFields = (
+	before: Task | WorkLogEntry | null,
+	after: Task | WorkLogEntry | null,
+): Array<TaskFieldChange> => {
+	const beforeRecord = (before ?? {}) as Record<string, unknown>;
+	const afterRecord = (after ?? {}) as Record<string, unknown>;
+	const fields = new Set([
+		...Object.keys(beforeRecord),
+		...Object.keys(afterRecord),
+	]);
+
+	const changes: Array<TaskFieldChange> = [];
+	for (const field of fields) {
+		if (untrackedFields.has(field)) {
+			continue;
+		}
+
+		const from = beforeRecord[field] ?? null;
+		const to = afterRecord[field] ?? null;
+		if (!isSameValue(from, to)) {
+			changes.push({ field, from, to });
+		}
+	}
+
+	return changes;
+};
+
+export interface HistoryEventOptions {
+	readonly actor: string | null;
+	readonly at?: string;
+	readonly sourceId?: string;
+}
+
+export const buildHistoryEvent = (
+	event: TaskHistoryEventKind,
+	before: Task | null,
+	after: Task | null,
+	options: HistoryEventOptions,
+): TaskHistoryEvent => ({
+	task_id: after?.id ?? before?.id ?? "",
+	event,
+	at: options.at ?? new Date().toISOString(),
+	actor: options.actor,
+	source_id: options.sourceId ?? null,
+	changes: event === "deleted" ? [] : diffTaskFields(before, after),
+});
+
+export const appendHistoryEvents = (
+	dataDir: string,
+	events: ReadonlyArray<TaskHistoryEvent>,
+): Effect.Effect<void, string> =>
+	Effect.tryPromise({
+		try: async () => {
+			// Updates that ended up changing nothing are not worth a log line.
+			const meaningful = events.filter(
+				(event) => event.event !== "updated" || event.changes.length > 0,
+			);
+			if (meaningful.length === 0) {
+				return;
+			}
+
+			await mkdir(dataDir, { recursive: true });
+			await appendFile(
+				historyFilePath(dataDir),
+				meaningful.map((event) => `${JSON.stringify(event)}\n`).join(""),
+				"utf8",
+			);
+		},
+		catch: (error) =>
+			`TaskRepository failed to append task history: ${toErrorMessage(error)}`,
+	});
+
+const parseJsonLine = (line: string): unknown => {
+	try {
+		return JSON.parse(line);
+	} catch {
+		return undefined;
+	}
+};
+
+export const readHistoryEvents = (
+	dataDir: string,
+): Effect.Effect<Array<TaskHistoryEvent>, string> =>
+	Effect.tryPromise({
+		try: async () => {
+			const path = historyFilePath(dataDir);
+			const source = await readFile(path, "utf8").catch((error: unknown) => {
+				if (
+					error !== null &&
+					typeof error === "object" &&
+					"code" in error &&
+					error.code === "ENOENT"
+				) {
+					return "";
+				}
+				throw error;
+			});
+
+			const events: Array<TaskHistoryEvent> = [];
+			const lines = source.split("\n");
+
+			for (const [index, line] of lines.entries()) {
+				if (line.trim().length === 0) {
+					continue;
+				}
+
+				// A line that is not JSON at all is left by an append cut short,
+				// e.g. by a crash, and is skipped so the rest stays readable.
+				const record = parseJsonLine(line);
+				if (record === undefined) {
+					continue;
+				}
+				const result = decodeTaskHistoryEventEither(record);
+				if (Either.isLeft(result)) {
+					throw new Error(`Invalid history record in ${path}:${index + 1}`);
+				}
+
+				events.push(result.right);
+			}
+
+			return events;
+		},
+		catch: (error) =>
+			`TaskRepository failed to read task history: ${toErrorMessage(error)}`,
+	});
+
+export const readTaskHistory = (
+	dataDir: string,
+	taskId: string,
+): Effect.Effect<Array<TaskHistoryEvent>, string> =>
+	Effect.map(readHistoryEvents(dataDir), (events) =>
+		events.filter((event) => event.task_id === taskId),
+	);
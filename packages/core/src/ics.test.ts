@@ -0,0 +1,260 @@
+import { describe, expect, it } from "bun:test";
+import {
+	extractRrule,
+	icsComponentToImportedTask,
+	parseIcsComponents,
+	renderIcsCalendar,
+} from "./ics.js";
+import { makeTask } from "./test-fixtures.js";
+
+const now = new Date("2026-10-19T08:30:00.000Z");
+
+const components = (ics: string): Array<Array<string>> =>
+	ics
+		.replace(/\r\n /g, "")
+		.split("\r\n")
+		.reduce<Array<Array<string>>>((all, line) => {
+			if (line === "BEGIN:VTODO" || line === "BEGIN:VEVENT") {
+				all.push([line]);
+			} else if (all.length > 0 && !all[all.length - 1].at(-1)?.startsWith("END:")) {
+				all[all.length - 1].push(line);
+			}
+			return all;
+		}, []);
+
+describe("renderIcsCalendar", () => {
+	it("renders due tasks as VTODOs with escaped text", () => {
+		const ics = renderIcsCalendar(
+			[
+				makeTask({
+					id: "t1",
+					title: "Pay rent; landlord, again",
+					description: "Line one\nLine two",
+					due: "2026-11-01",
+					tags: ["home", "money"],
+					priority: 0,
+				}),
+			],
+			{ now, name: "Work" },
+		);
+
+		expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+		expect(ics).toContain("X-WR-CALNAME:Work\r\n");
+		expect(components(ics)).toEqual([
+			[
+				"BEGIN:VTODO",
+				"UID:t1@tashks",
+				"DTSTAMP:20261019T083000Z",
+				"SUMMARY:Pay rent\\; landlord\\, again",
+				"DESCRIPTION:Line one\\nLine two",
+				"CATEGORIES:home,money",
+				"PRIORITY:1",
+				"DUE;VALUE=DATE:20261101",
+				"STATUS:NEEDS-ACTION",
+				"END:VTODO",
+			],
+		]);
+	});
+
+	it("renders deferred-only tasks as all-day events and skips undated ones", () => {
+		const ics = renderIcsCalendar(
+			[
+				makeTask({ id: "later", defer_until: "2026-10-25" }),
+				makeTask({ id: "gone", defer_until: "2026-10-25", status: "done" }),
+				makeTask({ id: "undated" }),
+				makeTask({ id: "tpl", due: "2026-10-25", is_template: true }),
+			],
+			{ now },
+		);
+
+		expect(components(ics)).toEqual([
+			[
+				"BEGIN:VEVENT",
+				"UID:later@tashks",
+				"DTSTAMP:20261019T083000Z",
+				"SUMMARY:later",
+				"DTSTART;VALUE=DATE:20261025",
+				"DTEND;VALUE=DATE:20261026",
+				"TRANSP:TRANSPARENT",
+				"END:VEVENT",
+			],
+		]);
+	});
+
+	it("emits RRULEs for clock recurrences only", () => {
+		const ics = renderIcsCalendar(
+			[
+				makeTask({
+					id: "weekly",
+					due: "2026-10-20",
+					recurrence: "RRULE:FREQ=WEEKLY;BYDAY=TU",
+				}),
+				makeTask({
+					id: "window",
+					due: "2026-10-20",
+					defer_until: "2026-10-18",
+					recurrence: "FREQ=MONTHLY",
+					status: "done",
+					completed_at: "2026-10-17T12:00:00.000Z",
+				}),
+				makeTask({
+					id: "after-done",
+					due: "2026-10-20",
+					recurrence: "FREQ=DAILY",
+					recurrence_trigger: "completion",
+				}),
+			],
+			{ now },
+		);
+		const [weekly, window, afterDone] = components(ics);
+
+		expect(weekly.slice(4)).toEqual([
+			"DTSTART;VALUE=DATE:20261020",
+			"DURATION:P1D",
+			"STATUS:NEEDS-ACTION",
+			"RRULE:FREQ=WEEKLY;BYDAY=TU",
+			"END:VTODO",
+		]);
+		expect(window.slice(4)).toEqual([
+			"DTSTART;VALUE=DATE:20261018",
+			"DUE;VALUE=DATE:20261020",
+			"STATUS:COMPLETED",
+			"COMPLETED:20261017T120000Z",
+			"RRULE:FREQ=MONTHLY",
+			"END:VTODO",
+		]);
+		expect(afterDone).not.toContain("RRULE:FREQ=DAILY");
+	});
+
+	it("folds long lines at 75 octets without splitting characters", () => {
+		const ics = renderIcsCalendar(
+			[makeTask({ id: "long", title: "é".repeat(60), due: "2026-10-20" })],
+			{ now },
+		);
+		const lines = ics.split("\r\n");
+
+		for (const line of lines) {
+			expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+		}
+		expect(components(ics)[0]).toContain(`SUMMARY:${"é".repeat(60)}`);
+	});
+});
+
+describe("extractRrule", () => {
+	it("accepts bare rules, prefixed rules and DTSTART lines", () => {
+		expect(extractRrule("FREQ=DAILY")).toBe("FREQ=DAILY");
+		expect(extractRrule("DTSTART:20260101T000000Z\nRRULE:FREQ=WEEKLY")).toBe(
+			"FREQ=WEEKLY",
+		);
+		expect(extractRrule("DTSTART:20260101T000000Z")).toBeNull();
+	});
+});
+
+describe("ICS import", () => {
+	const source = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		"BEGIN:VTODO",
+		"UID:abc-123@example.com",
+		"SUMMARY:Renew passport\\, urgently",
+		"DESCRIPTION:Bring photos\\nand the old one",
+		"DTSTART;VALUE=DATE:20261101",
+		"DUE;TZID=Europe/Berlin:20261110T170000",
+		"RRULE:FREQ=YEARLY",
+		"CATEGORIES:admin,travel",
+		"CATEGORIES:admin",
+		"PRIORITY:1",
+		"BEGIN:VALARM",
+		"ACTION:DISPLAY",
+		"DESCRIPTION:Reminder",
+		"END:VALARM",
+		"END:VTODO",
+		"BEGIN:VEVENT",
+		"UID:t1@tashks",
+		"SUMMARY:Team offsite with a title long enough to be folded acro",
+		" ss two lines",
+		"DTSTART;VALUE=DATE:20261205",
+		"STATUS:COMPLETED",
+		"COMPLETED:20261206T093000Z",
+		"END:VEVENT",
+		"BEGIN:VTODO",
+		"UID:no-summary",
+		"END:VTODO",
+		"END:VCALENDAR",
+		"",
+	].join("\r\n");
+
+	it("parses components, unfolding lines and skipping nested alarms", () => {
+		const components = parseIcsComponents(source);
+
+		expect(components.map((component) => component.type)).toEqual([
+			"VTODO",
+			"VEVENT",
+			"VTODO",
+		]);
+		expect(components[0].properties.get("DESCRIPTION")).toEqual([
+			{ params: {}, value: "Bring photos\\nand the old one" },
+		]);
+		expect(components[0].properties.get("DUE")?.[0].params).toEqual({
+			TZID: "Europe/Berlin",
+		});
+		expect(components[1].properties.get("SUMMARY")?.[0].value).toBe(
+			"Team offsite with a title long enough to be folded across two lines",
+		);
+	});
+
+	it("maps components onto task input with an ics external id", () => {
+		const [todo, event, untitled] = parseIcsComponents(source).map(
+			icsComponentToImportedTask,
+		);
+
+		expect(todo).toEqual({
+			input: {
+				title: "Renew passport, urgently",
+				description: "Bring photos\nand the old one",
+				due: "2026-11-10",
+				defer_until: "2026-11-01",
+				recurrence: "FREQ=YEARLY",
+				recurrence_trigger: "clock",
+				tags: ["admin", "travel"],
+				priority: 0,
+				external_id: "ics:abc-123@example.com",
+			},
+		});
+		expect(event).toEqual({
+			id: "t1",
+			input: {
+				title: "Team offsite with a title long enough to be folded across two lines",
+				due: "2026-12-05",
+				status: "done",
+				completed_at: "2026-12-06T09:30:00.000Z",
+				external_id: "ics:t1@tashks",
+			},
+		});
+		expect(untitled).toBeNull();
+	});
+
+	it("round-trips exported tasks back to their ids", () => {
+		const exported = renderIcsCalendar(
+			[
+				makeTask({ id: "t1", title: "Ship", due: "2026-10-20", priority: 2 }),
+				makeTask({
+					id: "t2",
+					title: "Imported",
+					due: "2026-10-21",
+					external_id: "ics:remote-uid",
+				}),
+			],
+			{ now },
+		);
+		const imported = parseIcsComponents(exported).map(
+			icsComponentToImportedTask,
+		);
+
+		expect(imported.map((item) => [item?.id, item?.input.external_id])).toEqual([
+			["t1", "ics:t1@tashks"],
+			[undefined, "ics:remote-uid"],
+		]);
+		expect(imported[0]?.input.priority).toBe(2);
+	});
+});
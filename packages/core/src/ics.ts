@@ -0,0 +1,421 @@
+import type { ImportedTask } from "./importer.js";
+import type { Task, TaskCreateInput } from "./schema.js";
+
+export interface IcsExportOptions {
+	/** Shown as the calendar name by clients that read `X-WR-CALNAME`. */
+	readonly name?: string;
+	readonly now?: Date;
+}
+
+export const icsExternalIdPrefix = "ics:";
+
+const tashksUidSuffix = "@tashks";
+
+const icsDate = (date: string): string => date.replace(/-/g, "");
+
+const icsDateTime = (timestamp: string | Date): string =>
+	new Date(timestamp)
+		.toISOString()
+		.replace(/[-:]/g, "")
+		.replace(/\.\d{3}/, "");
+
+const nextDay = (date: string): string =>
+	new Date(Date.parse(`${date}T00:00:00.000Z`) + 24 * 60 * 60 * 1000)
+		.toISOString()
+		.slice(0, 10);
+
+export const escapeIcsText = (value: string): string =>
+	value
+		.replace(/\\/g, "\\\\")
+		.replace(/;/g, "\\;")
+		.replace(/,/g, "\\,")
+		.replace(/\r?\n/g, "\\n");
+
+const encoder = new TextEncoder();
+
+/**
+ * Folds a content line at 75 octets as RFC 5545 requires, never splitting a
+ * multi-byte character.
+ */
+const foldLine = (line: string): string => {
+	const parts: Array<string> = [];
+	let current = "";
+	let currentBytes = 0;
+	for (const char of line) {
+		const bytes = encoder.encode(char).length;
+		// Continuation lines start with a space, which counts towards the limit.
+		const limit = parts.length === 0 ? 75 : 74;
+		if (currentBytes + bytes > limit) {
+			parts.push(current);
+			current = "";
+			currentBytes = 0;
+		}
+		current += char;
+		currentBytes += bytes;
+	}
+	parts.push(current);
+	return parts.join("\r\n ");
+};
+
+/**
+ * Pulls the RRULE value out of a stored recurrence, which may be a bare
+ * `FREQ=...` rule or carry an `RRULE:` prefix and a `DTSTART` line.
+ */
+export const extractRrule = (recurrence: string): string | null => {
+	for (const line of recurrence.split(/\r?\n/)) {
+		const trimmed = line.trim();
+		if (trimmed.toUpperCase().startsWith("RRULE:")) {
+			return trimmed.slice("RRULE:".length);
+		}
+		if (!trimmed.includes(":") && /FREQ=/i.test(trimmed)) {
+			return trimmed;
+		}
+	}
+	return null;
+};
+
+const todoStatus = (status: Task["status"]): string => {
+	switch (status) {
+		case "in_progress":
+			return "IN-PROCESS";
+		case "done":
+			return "COMPLETED";
+		case "dropped":
+			return "CANCELLED";
+		default:
+			return "NEEDS-ACTION";
+	}
+};
+
+/** tashks priority 0 is the highest; iCalendar uses 1 (highest) to 9. */
+export const toIcsPriority = (priority: number | null): number | null =>
+	priority === null ? null : Math.min(9, Math.max(1, priority + 1));
+
+/** Tasks imported from a calendar keep their original UID on the way out. */
+const icsUid = (task: Task): string =>
+	task.external_id?.startsWith(icsExternalIdPrefix) === true
+		? task.external_id.slice(icsExternalIdPrefix.length)
+		: `${task.id}${tashksUidSuffix}`;
+
+const renderTask = (task: Task, stamp: string): Array<string> => {
+	const rrule =
+		task.recurrence !== null && task.recurrence_trigger === "clock"
+			? extractRrule(task.recurrence)
+			: null;
+	const priority = toIcsPriority(task.priority);
+	const common = [
+		`UID:${escapeIcsText(icsUid(task))}`,
+		`DTSTAMP:${stamp}`,
+		`SUMMARY:${escapeIcsText(task.title)}`,
+		...(task.description.length > 0
+			? [`DESCRIPTION:${escapeIcsText(task.description)}`]
+			: []),
+		...(task.tags.length > 0
+			? [`CATEGORIES:${task.tags.map(escapeIcsText).join(",")}`]
+			: []),
+		...(priority !== null ? [`PRIORITY:${priority}`] : []),
+	];
+
+	// A task that is only deferred shows up as an all-day event on the day it
+	// becomes available again; finished work has nothing left to show.
+	if (task.due === null && task.defer_until !== null) {
+		if (task.status === "done" || task.status === "dropped") {
+			return [];
+		}
+		return [
+			"BEGIN:VEVENT",
+			...common,
+			`DTSTART;VALUE=DATE:${icsDate(task.defer_until)}`,
+			`DTEND;VALUE=DATE:${icsDate(nextDay(task.defer_until))}`,
+			"TRANSP:TRANSPARENT",
+			...(rrule !== null ? [`RRULE:${rrule}`] : []),
+			"END:VEVENT",
+		];
+	}
+
+	if (task.due === null && rrule === null) {
+		return [];
+	}
+
+	// A recurring to-do needs DTSTART to anchor the rule, and DUE must fall
+	// after it, so without an earlier deferral the due day becomes the start
+	// and lasts one day.
+	const start =
+		task.defer_until !== null && task.due !== null && task.defer_until < task.due
+			? task.defer_until
+			: null;
+	const timing =
+		start !== null
+			? [
+					`DTSTART;VALUE=DATE:${icsDate(start)}`,
+					`DUE;VALUE=DATE:${icsDate(task.due as string)}`,
+				]
+			: rrule !== null
+				? [
+						`DTSTART;VALUE=DATE:${icsDate(task.due ?? task.created)}`,
+						"DURATION:P1D",
+					]
+				: [`DUE;VALUE=DATE:${icsDate(task.due as string)}`];
+
+	return [
+		"BEGIN:VTODO",
+		...common,
+		...timing,
+		`STATUS:${todoStatus(task.status)}`,
+		...(task.status === "done" && task.completed_at !== null
+			? [`COMPLETED:${icsDateTime(task.completed_at)}`]
+			: []),
+		...(rrule !== null ? [`RRULE:${rrule}`] : []),
+		"END:VTODO",
+	];
+};
+
+/**
+ * Renders tasks as an iCalendar file. Tasks with a `due` date become VTODOs,
+ * tasks that are only deferred become all-day VEVENTs on their
+ * `defer_until` date, and clock-recurring tasks carry their RRULE. Templates
+ * and tasks with no dates or clock recurrence are left out.
+ */
+export const renderIcsCalendar = (
+	tasks: ReadonlyArray<Task>,
+	options: IcsExportOptions = {},
+): string => {
+	const stamp = icsDateTime(options.now ?? new Date());
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		"PRODID:-//tashks//tashks//EN",
+		"CALSCALE:GREGORIAN",
+		...(options.name !== undefined
+			? [`X-WR-CALNAME:${escapeIcsText(options.name)}`]
+			: []),
+		...tasks
+			.filter((task) => !task.is_template)
+			.flatMap((task) => renderTask(task, stamp)),
+		"END:VCALENDAR",
+	];
+	return `${lines.map(foldLine).join("\r\n")}\r\n`;
+};
+
+export interface IcsProperty {
+	readonly params: Readonly<Record<string, string>>;
+	readonly value: string;
+}
+
+export interface IcsComponent {
+	readonly type: "VTODO" | "VEVENT";
+	readonly properties: ReadonlyMap<string, ReadonlyArray<IcsProperty>>;
+}
+
+export const unescapeIcsText = (value: string): string =>
+	value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+		char === "n" || char === "N" ? "\n" : char,
+	);
+
+// Splits on a delimiter unless it is escaped with a backslash.
+const splitUnescaped = (value: string, delimiter: string): Array<string> => {
+	const parts: Array<string> = [];
+	let current = "";
+	for (let index = 0; index < value.length; index++) {
+		const char = value[index];
+		if (char === "\\" && index + 1 < value.length) {
+			current += char + value[index + 1];
+			index++;
+		} else if (char === delimiter) {
+			parts.push(current);
+			current = "";
+		} else {
+			current += char;
+		}
+	}
+	parts.push(current);
+	return parts;
+};
+
+const parseContentLine = (
+	line: string,
+): { readonly name: string; readonly property: IcsProperty } | null => {
+	// The value starts at the first colon outside a quoted parameter value.
+	let quoted = false;
+	let colon = -1;
+	for (let index = 0; index < line.length; index++) {
+		if (line[index] === '"') {
+			quoted = !quoted;
+		} else if (line[index] === ":" && !quoted) {
+			colon = index;
+			break;
+		}
+	}
+	if (colon === -1) {
+		return null;
+	}
+
+	const [name, ...rawParams] = line.slice(0, colon).split(";");
+	const params: Record<string, string> = {};
+	for (const param of rawParams) {
+		const equals = param.indexOf("=");
+		if (equals !== -1) {
+			params[param.slice(0, equals).toUpperCase()] = param
+				.slice(equals + 1)
+				.replace(/^"|"$/g, "");
+		}
+	}
+	return {
+		name: name.toUpperCase(),
+		property: { params, value: line.slice(colon + 1) },
+	};
+};
+
+/**
+ * Reads the VTODO and VEVENT components of an iCalendar file, unfolding
+ * continuation lines. Nested components such as VALARM are skipped.
+ */
+export const parseIcsComponents = (source: string): Array<IcsComponent> => {
+	const lines = source.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+	const components: Array<IcsComponent> = [];
+	let current: {
+		type: IcsComponent["type"];
+		properties: Map<string, Array<IcsProperty>>;
+	} | null = null;
+	let nested = 0;
+
+	for (const line of lines) {
+		const parsed = parseContentLine(line);
+		if (parsed === null) {
+			continue;
+		}
+		const { name, property } = parsed;
+		const value = property.value.toUpperCase();
+
+		if (current === null) {
+			if (name === "BEGIN" && (value === "VTODO" || value === "VEVENT")) {
+				current = { type: value, properties: new Map() };
+				nested = 0;
+			}
+		} else if (name === "BEGIN") {
+			nested++;
+		} else if (name === "END" && nested > 0) {
+			nested--;
+		} else if (name === "END" && value === current.type) {
+			components.push(current);
+			current = null;
+		} else if (nested === 0) {
+			current.properties.set(name, [
+				...(current.properties.get(name) ?? []),
+				property,
+			]);
+		}
+	}
+
+	return components;
+};
+
+/**
+ * Converts a DATE or DATE-TIME value to `YYYY-MM-DD`. UTC times keep their
+ * UTC date; floating and TZID times keep their local date.
+ */
+const parseIcsDate = (property: IcsProperty | undefined): string | null => {
+	const match = property?.value.match(
+		/^(\d{4})(\d{2})(\d{2})(?:T\d{6}Z?)?$/,
+	);
+	return match === null || match === undefined
+		? null
+		: `${match[1]}-${match[2]}-${match[3]}`;
+};
+
+const parseIcsDateTime = (property: IcsProperty | undefined): string | null => {
+	const match = property?.value.match(
+		/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/,
+	);
+	if (match === null || match === undefined) {
+		return null;
+	}
+	const [, year, month, day, hour = "00", minute = "00", second = "00"] = match;
+	return `${year}-${month}-${day}T${hour}:${minute}:${second}.000Z`;
+};
+
+const taskStatusFromIcs = (status: string | undefined): string | undefined => {
+	switch (status?.toUpperCase()) {
+		case "COMPLETED":
+			return "done";
+		case "CANCELLED":
+			return "dropped";
+		case "IN-PROCESS":
+			return "in_progress";
+		case "NEEDS-ACTION":
+			return "active";
+		default:
+			return undefined;
+	}
+};
+
+/** The inverse of {@link toIcsPriority}; 0 means "undefined" in iCalendar. */
+export const fromIcsPriority = (value: string | undefined): number | null => {
+	const priority = value === undefined ? Number.NaN : Number.parseInt(value, 10);
+	return Number.isInteger(priority) && priority >= 1 && priority <= 9
+		? priority - 1
+		: null;
+};
+
+/**
+ * Maps a VTODO or VEVENT onto task fields. VTODOs take `DUE` as the due date
+ * and an earlier `DTSTART` as `defer_until`; VEVENTs are due on their start
+ * date. The UID becomes an `ics:` external id so the same file can be
+ * imported again; a UID tashks itself exported also names the task it came
+ * from. Returns null for components without a SUMMARY.
+ */
+export const icsComponentToImportedTask = (
+	component: IcsComponent,
+): ImportedTask | null => {
+	const first = (name: string) => component.properties.get(name)?.[0];
+	const summary = first("SUMMARY");
+	if (summary === undefined || summary.value.trim().length === 0) {
+		return null;
+	}
+
+	const start = parseIcsDate(first("DTSTART"));
+	const due =
+		component.type === "VTODO" ? parseIcsDate(first("DUE")) : start;
+	const deferUntil =
+		component.type === "VTODO" && start !== null && due !== null && start < due
+			? start
+			: null;
+	const rrule = first("RRULE")?.value ?? null;
+	const tags = (component.properties.get("CATEGORIES") ?? [])
+		.flatMap((property) => splitUnescaped(property.value, ","))
+		.map((tag) => unescapeIcsText(tag).trim())
+		.filter((tag) => tag.length > 0);
+	const description = first("DESCRIPTION");
+	const status = taskStatusFromIcs(first("STATUS")?.value);
+	const completedAt = parseIcsDateTime(first("COMPLETED"));
+	const uid = first("UID")?.value;
+
+	const input: TaskCreateInput = {
+		title: unescapeIcsText(summary.value),
+		...(description !== undefined
+			? { description: unescapeIcsText(description.value) }
+			: {}),
+		...(due !== null ? { due } : {}),
+		...(deferUntil !== null ? { defer_until: deferUntil } : {}),
+		...(rrule !== null
+			? { recurrence: rrule, recurrence_trigger: "clock" as const }
+			: {}),
+		...(tags.length > 0 ? { tags: [...new Set(tags)] } : {}),
+		...(first("PRIORITY") !== undefined
+			? { priority: fromIcsPriority(first("PRIORITY")?.value) }
+			: {}),
+		...(status !== undefined ? { status } : {}),
+		...(status === "done" && completedAt !== null
+			? { completed_at: completedAt }
+			: {}),
+		...(uid !== undefined
+			? { external_id: `${icsExternalIdPrefix}${unescapeIcsText(uid)}` }
+			: {}),
+	};
+
+	const ownId =
+		uid?.endsWith(tashksUidSuffix) === true
+			? uid.slice(0, -tashksUidSuffix.length)
+			: undefined;
+	return ownId === undefined ? { input } : { input, id: ownId };
+};
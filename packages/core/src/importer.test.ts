@@ -0,0 +1,276 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import * as Effect from "effect/Effect";
+import { importTasks } from "./importer.js";
+import {
+	TaskRepository,
+	TaskRepositoryLive,
+	type TaskRepositoryService,
+} from "./repository.js";
+import { parseTodoTxt } from "./todotxt.js";
+
+const withRepository = async <A>(
+	run: (repository: TaskRepositoryService) => Effect.Effect<A, string>,
+): Promise<A> => {
+	const dataDir = await mkdtemp(join(tmpdir(), "tasks-import-"));
+	try {
+		return await Effect.runPromise(
+			Effect.gen(function* () {
+				const repository = yield* TaskRepository;
+				return yield* run(repository);
+			}).pipe(Effect.provide(TaskRepositoryLive({ dataDir }))),
+		);
+	} finally {
+		await rm(dataDir, { recursive: true, force: true });
+	}
+};
+
+describe("importTasks", () => {
+	it("creates, then updates or leaves tasks matched by external id", async () => {
+		const result = await withRepository((repository) =>
+			Effect.gen(function* () {
+				const first = yield* importTasks(repository, [
+					{ input: { title: "Renew passport", external_id: "ics:a" } },
+					{ input: { title: "Book flights", external_id: "ics:b" } },
+				]);
+				const second = yield* importTasks(repository, [
+					{
+						input: {
+							title: "Renew passport",
+							due: "2026-11-10",
+							external_id: "ics:a",
+						},
+					},
+					{ input: { title: "Book flights", external_id: "ics:b" } },
+				]);
+				const tasks = yield* repository.listTasks();
+				return { first, second, tasks };
+			}),
+		);
+
+		expect(result.first.created.map((task) => task.external_id)).toEqual([
+			"ics:a",
+			"ics:b",
+		]);
+		expect(result.second.created).toEqual([]);
+		expect(result.second.updated.map((task) => [task.title, task.due])).toEqual([
+			["Renew passport", "2026-11-10"],
+		]);
+		expect(result.second.unchanged.map((task) => task.title)).toEqual([
+			"Book flights",
+		]);
+		expect(result.tasks).toHaveLength(2);
+	});
+
+	it("merges a record into the task named by its id hint", async () => {
+		const result = await withRepository((repository) =>
+			Effect.gen(function* () {
+				const task = yield* repository.createTask({ title: "Ship" });
+				const summary = yield* importTasks(repository, [
+					{
+						id: task.id,
+						input: {
+							title: "Ship it",
+							external_id: `ics:${task.id}@tashks`,
+						},
+					},
+				]);
+				return { task, summary, tasks: yield* repository.listTasks() };
+			}),
+		);
+
+		expect(result.summary.updated).toHaveLength(1);
+		expect(result.tasks).toHaveLength(1);
+		expect(result.tasks[0]).toMatchObject({
+			id: result.task.id,
+			title: "Ship it",
+			external_id: null,
+		});
+	});
+
+	it("links an unlinked task to the record when the record asks", async () => {
+		const result = await withRepository((repository) =>
+			Effect.gen(function* () {
+				const task = yield* repository.createTask({ title: "Ship" });
+				const linked = yield* repository.createTask({
+					title: "Plan",
+					external_id: "ics:plan@example.com",
+				});
+				yield* importTasks(repository, [
+					{
+						id: task.id,
+						input: { title: "Ship it", external_id: "github:12" },
+						link: true,
+					},
+					{
+						id: linked.id,
+						input: { title: "Plan it", external_id: "github:13" },
+						link: true,
+					},
+				]);
+				return yield* repository.listTasks();
+			}),
+		);
+
+		expect(
+			result.map((task) => [task.title, task.external_id]).sort(),
+		).toEqual([
+			["Plan it", "ics:plan@example.com"],
+			["Ship it", "github:12"],
+		]);
+	});
+
+	it("keeps repeated todo.txt titles apart and follows renamed id: lines", async () => {
+		const result = await withRepository((repository) =>
+			Effect.gen(function* () {
+				const task = yield* repository.createTask({ title: "Call mom" });
+				const first = yield* importTasks(
+					repository,
+					parseTodoTxt(`Call mom id:${task.id}\nCall mom\nCall mom\n`),
+				);
+				const second = yield* importTasks(
+					repository,
+					parseTodoTxt(`Call dad id:${task.id}\nCall mom\nCall mom\n`),
+				);
+				return {
+					first,
+					second,
+					task: yield* repository.getTask(task.id),
+					tasks: yield* repository.listTasks(),
+				};
+			}),
+		);
+
+		expect(result.first.created).toHaveLength(2);
+		expect(result.second.created).toEqual([]);
+		expect(result.second.updated.map((task) => task.id)).toEqual([
+			result.task.id,
+		]);
+		expect(result.task.title).toBe("Call dad");
+		expect(result.tasks).toHaveLength(3);
+	});
+
+	it("links blockers once every record is in", async () => {
+		const result = await withRepository((repository) =>
+			Effect.gen(function* () {
+				const existing = yield* repository.createTask({ title: "Budget" });
+				const items = [
+					{
+						input: { title: "Launch", external_id: "tw:1" },
+						blocked_by: ["tw:2", existing.id, "tw:missing", "tw:1"],
+					},
+					{ input: { title: "Review", external_id: "tw:2" } },
+				];
+				const first = yield* importTasks(repository, items);
+				const second = yield* importTasks(repository, items);
+				return { existing, first, second };
+			}),
+		);
+
+		const [launch, review] = result.first.created;
+		expect(launch.blocked_by).toEqual([review.id, result.existing.id]);
+		expect(result.second.unchanged.map((task) => task.id)).toEqual([
+			launch.id,
+			review.id,
+		]);
+	});
+
+	it("links parents and clears links the record no longer has", async () => {
+		const result = await withRepository((repository) =>
+			Effect.gen(function* () {
+				yield* importTasks(repository, [
+					{
+						input: { title: "Child", external_id: "md:child" },
+						parent: "md:epic",
+					},
+					{ input: { title: "Epic", external_id: "md:epic" } },
+				]);
+				const linked = yield* repository.listTasks();
+				const summary = yield* importTasks(repository, [
+					{
+						input: { title: "Child", external_id: "md:child" },
+						parent: "md:gone",
+					},
+				]);
+				return { linked, summary };
+			}),
+		);
+
+		expect(
+			result.linked.find((task) => task.title === "Child")?.parent,
+		).toBe(result.linked.find((task) => task.title === "Epic")?.id);
+		expect(result.summary.updated.map((task) => task.parent)).toEqual([null]);
+	});
+
+	it("completes or reopens only when done disagrees with the task", async () => {
+		const result = await withRepository((repository) =>
+			Effect.gen(function* () {
+				const first = yield* importTasks(repository, [
+					{ input: { title: "Draft", external_id: "md:draft" }, done: false },
+					{ input: { title: "Ship", external_id: "md:ship" }, done: true },
+				]);
+				const [draft] = first.created;
+				yield* repository.updateTask(draft.id, {
+					status: "in_progress",
+					revision: draft.revision,
+				});
+				const second = yield* importTasks(repository, [
+					{ input: { title: "Draft", external_id: "md:draft" }, done: false },
+					{ input: { title: "Ship", external_id: "md:ship" }, done: false },
+				]);
+				const third = yield* importTasks(repository, [
+					{ input: { title: "Draft", external_id: "md:draft" }, done: true },
+				]);
+				const history = yield* repository.getTaskHistory(draft.id);
+				return { first, second, third, history };
+			}),
+		);
+
+		expect(
+			result.first.created.map((task) => [task.status, task.completed_at]),
+		).toEqual([
+			["active", null],
+			["done", expect.any(String)],
+		]);
+		expect(result.second.unchanged.map((task) => task.status)).toEqual([
+			"in_progress",
+		]);
+		expect(
+			result.second.updated.map((task) => [task.status, task.completed_at]),
+		).toEqual([["active", null]]);
+		expect(result.third.updated.map((task) => task.status)).toEqual(["done"]);
+		expect(result.history.map((entry) => entry.event)).toEqual([
+			"created",
+			"updated",
+			"completed",
+		]);
+	});
+
+	it("generates the next occurrence when a recurring task is checked off", async () => {
+		const result = await withRepository((repository) =>
+			Effect.gen(function* () {
+				yield* importTasks(repository, [
+					{
+						input: {
+							title: "Water plants",
+							external_id: "md:water",
+							recurrence: "FREQ=WEEKLY",
+							recurrence_trigger: "completion",
+						},
+					},
+				]);
+				yield* importTasks(repository, [
+					{
+						input: { title: "Water plants", external_id: "md:water" },
+						done: true,
+					},
+				]);
+				return yield* repository.listTasks({ status: "active" });
+			}),
+		);
+
+		expect(result.map((task) => task.title)).toEqual(["Water plants"]);
+	});
+});
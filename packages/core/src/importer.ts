@@ -0,0 +1,180 @@
+import * as Effect from "effect/Effect";
+import type { TaskRepositoryService } from "./repository.js";
+import type { Task, TaskCreateInput, TaskPatch } from "./schema.js";
+
+/** A task read from another tool, ready to create or merge. */
+export interface ImportedTask {
+	readonly input: TaskCreateInput;
+	/**
+	 * A tashks task id the record claims to be, e.g. from a file tashks
+	 * exported earlier. Used when no task carries the record's `external_id`.
+	 */
+	readonly id?: string;
+	/**
+	 * Whether a task matched through `id` and carrying no `external_id` takes
+	 * the record's, e.g. to learn the issue number it was filed under.
+	 */
+	readonly link?: boolean;
+	/**
+	 * Whether the record is checked off. Acts only when it disagrees with the
+	 * task's status: the task is completed, or a done task is reopened.
+	 */
+	readonly done?: boolean;
+	/**
+	 * Blockers named by `external_id` or task id. They are resolved once every
+	 * record is in, so a record may depend on one later in the same import;
+	 * references that match no task are dropped.
+	 */
+	readonly blocked_by?: ReadonlyArray<string>;
+	/** The parent task, named and resolved the same way as `blocked_by`. */
+	readonly parent?: string;
+}
+
+export interface ImportSummary {
+	readonly created: ReadonlyArray<Task>;
+	readonly updated: ReadonlyArray<Task>;
+	readonly unchanged: ReadonlyArray<Task>;
+}
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+	JSON.stringify(a) === JSON.stringify(b);
+
+/** Reopens a done task the record unchecks; checking off is a completion. */
+const reopenPatch = (item: ImportedTask, task: Task): TaskPatch =>
+	item.done === false && task.status === "done"
+		? { status: "active", completed_at: null }
+		: {};
+
+/** The fields of `input` that differ from `task`, as a patch. */
+export const diffImportedTask = (
+	task: Task,
+	input: TaskCreateInput | TaskPatch,
+): TaskPatch =>
+	Object.fromEntries(
+		Object.entries(input).filter(
+			([field, value]) =>
+				value !== undefined &&
+				!sameValue(task[field as keyof Task], value),
+		),
+	) as TaskPatch;
+
+/**
+ * Creates or updates tasks so re-running an import converges instead of
+ * duplicating. A record matches the task with the same `external_id`, or
+ * failing that the task named by its `id` hint; only fields the record
+ * provides are overwritten.
+ */
+export const importTasks = (
+	repository: TaskRepositoryService,
+	items: ReadonlyArray<ImportedTask>,
+): Effect.Effect<ImportSummary, string> =>
+	Effect.gen(function* () {
+		const existing = yield* repository.listTasks({ include_templates: true });
+		const byExternalId = new Map(
+			existing.flatMap((task) =>
+				task.external_id === null ? [] : [[task.external_id, task] as const],
+			),
+		);
+		const byId = new Map(existing.map((task) => [task.id, task]));
+
+		const results: Array<{
+			kind: keyof ImportSummary;
+			id: string;
+			item: ImportedTask;
+		}> = [];
+		const remember = (task: Task) => {
+			byId.set(task.id, task);
+			if (task.external_id !== null) {
+				byExternalId.set(task.external_id, task);
+			}
+		};
+
+		for (const item of items) {
+			const externalId = item.input.external_id ?? null;
+			const match =
+				(externalId === null ? undefined : byExternalId.get(externalId)) ??
+				(item.id === undefined ? undefined : byId.get(item.id));
+
+			if (match === undefined) {
+				const created = yield* repository.createTask(item.input);
+				const task =
+					item.done === true
+						? yield* repository.completeTask(created.id)
+						: created;
+				remember(task);
+				results.push({ kind: "created", id: task.id, item });
+				continue;
+			}
+
+			// A task matched through its id hint is one of ours coming back, so
+			// it keeps its identity instead of adopting the record's external id
+			// unless the record asks to link an unlinked task.
+			const { external_id: _externalId, ...fields } = item.input;
+			const patch = diffImportedTask(match, {
+				...(item.link === true && match.external_id === null
+					? item.input
+					: fields),
+				...reopenPatch(item, match),
+			});
+			const completes = item.done === true && match.status !== "done";
+			if (Object.keys(patch).length === 0 && !completes) {
+				results.push({ kind: "unchanged", id: match.id, item });
+				continue;
+			}
+			let task = match;
+			if (Object.keys(patch).length > 0) {
+				task = yield* repository.updateTask(match.id, {
+					...patch,
+					revision: match.revision,
+				});
+			}
+			if (completes) {
+				task = yield* repository.completeTask(task.id);
+			}
+			remember(task);
+			results.push({ kind: "updated", id: task.id, item });
+		}
+
+		for (const result of results) {
+			const { blocked_by: blockers, parent } = result.item;
+			if (blockers === undefined && parent === undefined) {
+				continue;
+			}
+			const current = byId.get(result.id) as Task;
+			const resolve = (reference: string): ReadonlyArray<string> => {
+				const task = byExternalId.get(reference) ?? byId.get(reference);
+				return task === undefined || task.id === current.id ? [] : [task.id];
+			};
+			const links: TaskPatch = {
+				...(blockers !== undefined
+					? { blocked_by: [...new Set(blockers.flatMap(resolve))] }
+					: {}),
+				...(parent !== undefined
+					? { parent: resolve(parent)[0] ?? null }
+					: {}),
+			};
+			const patch = diffImportedTask(current, links);
+			if (Object.keys(patch).length === 0) {
+				continue;
+			}
+			remember(
+				yield* repository.updateTask(current.id, {
+					...patch,
+					revision: current.revision,
+				}),
+			);
+			if (result.kind === "unchanged") {
+				result.kind = "updated";
+			}
+		}
+
+		const tasksOf = (kind: keyof ImportSummary) =>
+			results
+				.filter((result) => result.kind === kind)
+				.map((result) => byId.get(result.id) as Task);
+		return {
+			created: tasksOf("created"),
+			updated: tasksOf("updated"),
+			unchanged: tasksOf("unchanged"),
+		};
+	});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "bun:test";
+import * as Effect from "effect/Effect";
+import { issueToImportedTask, parseIssuesDump, toIssues } from "./issues.js";
+import { makeTask } from "./test-fixtures.js";
+
+const dump = JSON.stringify([
+	{
+		number: 42,
+		title: "Crash on empty config",
+		body: "Steps:\r\n1. Delete config",
+		labels: [{ id: "LA_1", name: "bug", color: "d73a4a" }],
+		assignees: [{ id: "U_1", login: "ana", name: "Ana" }],
+		state: "OPEN",
+		milestone: { number: 3, title: "v1.2", dueOn: null },
+		comments: [
+			{
+				author: { login: "bob" },
+				body: "Reproduced on macOS",
+				createdAt: "2026-10-02T09:15:00Z",
+			},
+		],
+		createdAt: "2026-10-01T08:00:00Z",
+		url: "https://github.com/acme/app/issues/42",
+	},
+	{
+		number: 43,
+		title: "Drop IE support",
+		state: "CLOSED",
+		stateReason: "NOT_PLANNED",
+		closedAt: "2026-10-05T10:00:00Z",
+	},
+	{ number: 44, title: "  " },
+]);
+
+describe("issue import", () => {
+	it("maps gh issue fields onto task input", async () => {
+		const issues = await Effect.runPromise(parseIssuesDump(dump));
+		const [crash, ie, untitled] = issues.map(issueToImportedTask);
+
+		expect(crash).toEqual({
+			input: {
+				title: "Crash on empty config",
+				description: "Steps:\n1. Delete config",
+				tags: ["bug"],
+				assignee: "ana",
+				projects: ["v1.2"],
+				comments: [
+					{ text: "Reproduced on macOS", author: "bob", created: "2026-10-02" },
+				],
+				status: "active",
+				created: "2026-10-01",
+				external_id: "github:42",
+			},
+		});
+		expect(ie?.input).toEqual({
+			title: "Drop IE support",
+			status: "dropped",
+			external_id: "github:43",
+		});
+		expect(untitled).toBeNull();
+	});
+
+	it("rejects dumps that are not issue arrays", async () => {
+		for (const source of ["not json", '{"number":1}', '[{"title":1}]']) {
+			expect(
+				await Effect.runPromise(Effect.flip(parseIssuesDump(source))),
+			).toContain("Invalid issues dump");
+		}
+	});
+});
+
+describe("issue export", () => {
+	const tasks = [
+		makeTask({
+			id: "crash",
+			title: "Crash on empty config",
+			description: "Steps",
+			tags: ["bug"],
+			assignee: "ana",
+			projects: ["v1.2", "backend"],
+			comments: [{ text: "Seen", author: "bob", created: "2026-10-02" }],
+			external_id: "github:42",
+		}),
+		makeTask({
+			id: "docs",
+			title: "Write docs",
+			status: "done",
+			completed_at: "2026-10-05T10:00:00.000Z",
+		}),
+		makeTask({ id: "tpl", is_template: true }),
+	];
+
+	it("renders the gh issue list shape with numbers and task markers", () => {
+		expect(toIssues(tasks)).toEqual([
+			{
+				number: 42,
+				title: "Crash on empty config",
+				body: "Steps\n\n<!-- tashks:crash -->",
+				labels: [{ name: "bug" }],
+				assignees: [{ login: "ana" }],
+				state: "OPEN",
+				stateReason: null,
+				milestone: { title: "v1.2" },
+				comments: [
+					{
+						author: { login: "bob" },
+						body: "Seen",
+						createdAt: "2026-10-02T00:00:00Z",
+					},
+				],
+				createdAt: "2026-10-01T00:00:00Z",
+				closedAt: null,
+			},
+			{
+				number: null,
+				title: "Write docs",
+				body: "<!-- tashks:docs -->",
+				labels: [],
+				assignees: [],
+				state: "CLOSED",
+				stateReason: "COMPLETED",
+				milestone: null,
+				comments: [],
+				createdAt: "2026-10-01T00:00:00Z",
+				closedAt: "2026-10-05T10:00:00Z",
+			},
+		]);
+	});
+
+	it("round-trips exported issues back to their tasks", () => {
+		const [crash, docs] = toIssues(tasks).map(issueToImportedTask);
+
+		expect(crash?.id).toBe("crash");
+		expect(crash?.link).toBe(true);
+		expect(crash?.input).toMatchObject({
+			description: "Steps",
+			comments: tasks[0].comments,
+			external_id: "github:42",
+		});
+		expect(docs?.id).toBe("docs");
+		expect(docs?.input).toMatchObject({
+			description: "",
+			status: "done",
+			completed_at: "2026-10-05T10:00:00.000Z",
+		});
+		expect(docs?.input.external_id).toBeUndefined();
+	});
+});
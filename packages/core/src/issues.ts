@@ -0,0 +1,216 @@
+import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
+import * as Schema from "effect/Schema";
+import type { ImportedTask } from "./importer.js";
+import type { Comment, Task, TaskCreateInput } from "./schema.js";
+
+export const IssueComment = Schema.Struct({
+	author: Schema.optionalWith(
+		Schema.NullOr(Schema.Struct({ login: Schema.String })),
+		{ exact: true },
+	),
+	body: Schema.String,
+	createdAt: Schema.optionalWith(Schema.String, { exact: true }),
+});
+export type IssueComment = Schema.Schema.Type<typeof IssueComment>;
+
+/**
+ * One issue as `gh issue list --json ...` prints it. Every field is optional
+ * because the dump only holds the fields that were asked for; fields tashks
+ * does not map are ignored on decode.
+ */
+export const Issue = Schema.Struct({
+	number: Schema.optionalWith(Schema.NullOr(Schema.Number), { exact: true }),
+	title: Schema.optionalWith(Schema.String, { exact: true }),
+	body: Schema.optionalWith(Schema.String, { exact: true }),
+	labels: Schema.optionalWith(
+		Schema.Array(Schema.Struct({ name: Schema.String })),
+		{ exact: true },
+	),
+	assignees: Schema.optionalWith(
+		Schema.Array(Schema.Struct({ login: Schema.String })),
+		{ exact: true },
+	),
+	state: Schema.optionalWith(Schema.String, { exact: true }),
+	stateReason: Schema.optionalWith(Schema.NullOr(Schema.String), {
+		exact: true,
+	}),
+	milestone: Schema.optionalWith(
+		Schema.NullOr(Schema.Struct({ title: Schema.String })),
+		{ exact: true },
+	),
+	comments: Schema.optionalWith(Schema.Array(IssueComment), { exact: true }),
+	createdAt: Schema.optionalWith(Schema.String, { exact: true }),
+	closedAt: Schema.optionalWith(Schema.NullOr(Schema.String), {
+		exact: true,
+	}),
+});
+export type Issue = Schema.Schema.Type<typeof Issue>;
+
+const decodeIssuesEither = Schema.decodeUnknownEither(Schema.Array(Issue));
+
+export const issueExternalIdPrefix = "github:";
+
+/** Exports tag the issue body with the task id so it can be matched back. */
+const taskMarker = (id: string): string => `<!-- tashks:${id} -->`;
+const taskMarkerPattern = /\s*<!-- tashks:(\S+) -->\s*$/;
+
+const toErrorMessage = (error: unknown): string =>
+	error instanceof Error ? error.message : String(error);
+
+/** Reads a JSON array written by `gh issue list --json`. */
+export const parseIssuesDump = (
+	source: string,
+): Effect.Effect<ReadonlyArray<Issue>, string> =>
+	Effect.gen(function* () {
+		const records = yield* Effect.try({
+			try: (): unknown => JSON.parse(source),
+			catch: (error) => `Invalid issues dump: ${toErrorMessage(error)}`,
+		});
+		const result = decodeIssuesEither(records);
+		if (Either.isLeft(result)) {
+			return yield* Effect.fail(
+				"Invalid issues dump: expected the JSON array `gh issue list --json` prints",
+			);
+		}
+		return result.right;
+	});
+
+const issueNumber = (task: Task): number | null => {
+	if (task.external_id?.startsWith(issueExternalIdPrefix) !== true) {
+		return null;
+	}
+	const number = Number(task.external_id.slice(issueExternalIdPrefix.length));
+	return Number.isInteger(number) ? number : null;
+};
+
+const taskStatusFromIssue = (issue: Issue): string | undefined => {
+	switch (issue.state?.toUpperCase()) {
+		case "OPEN":
+			return "active";
+		case "CLOSED":
+			return issue.stateReason?.toUpperCase() === "NOT_PLANNED"
+				? "dropped"
+				: "done";
+		default:
+			return undefined;
+	}
+};
+
+/**
+ * Maps an issue onto task input: labels become tags, the first assignee the
+ * assignee, the milestone the project and CLOSED issues `done` (or `dropped`
+ * when closed as not planned). The issue number becomes a `github:` external
+ * id, and a task marker left in the body by an export names the task it came
+ * from, which then links to the issue. Returns null for issues without a
+ * title.
+ */
+export const issueToImportedTask = (issue: Issue): ImportedTask | null => {
+	if (issue.title === undefined || issue.title.trim().length === 0) {
+		return null;
+	}
+
+	const marker = issue.body?.match(taskMarkerPattern);
+	const description =
+		issue.body === undefined
+			? undefined
+			: issue.body.replace(taskMarkerPattern, "").replace(/\r\n/g, "\n");
+	const status = taskStatusFromIssue(issue);
+	const closedAt =
+		issue.closedAt === undefined ||
+		issue.closedAt === null ||
+		Number.isNaN(Date.parse(issue.closedAt))
+			? null
+			: new Date(issue.closedAt).toISOString();
+
+	const input: TaskCreateInput = {
+		title: issue.title,
+		...(description !== undefined ? { description } : {}),
+		...(issue.labels !== undefined
+			? { tags: [...new Set(issue.labels.map((label) => label.name))] }
+			: {}),
+		...(issue.assignees !== undefined
+			? { assignee: issue.assignees[0]?.login ?? null }
+			: {}),
+		...(issue.milestone !== undefined
+			? {
+					projects:
+						issue.milestone === null ? [] : [issue.milestone.title],
+				}
+			: {}),
+		...(issue.comments !== undefined
+			? {
+					comments: issue.comments.map(
+						(comment): Comment => ({
+							text: comment.body,
+							author: comment.author?.login ?? "",
+							created: (
+								comment.createdAt ?? new Date().toISOString()
+							).slice(0, 10),
+						}),
+					),
+				}
+			: {}),
+		...(status !== undefined ? { status } : {}),
+		...(issue.createdAt !== undefined
+			? { created: issue.createdAt.slice(0, 10) }
+			: {}),
+		...(status === "done" && closedAt !== null
+			? { completed_at: closedAt }
+			: {}),
+		...(issue.number !== undefined && issue.number !== null
+			? { external_id: `${issueExternalIdPrefix}${issue.number}` }
+			: {}),
+	};
+
+	return marker === null || marker === undefined
+		? { input }
+		: { input, id: marker[1], link: true };
+};
+
+const toIssueTimestamp = (value: string): string =>
+	new Date(value.length === 10 ? `${value}T00:00:00.000Z` : value)
+		.toISOString()
+		.replace(/\.\d{3}Z$/, "Z");
+
+/**
+ * Converts tasks to the `gh issue list --json` shape. Tasks that came from an
+ * issue keep its number; the rest have a null number, marking issues still to
+ * be created. The body ends with a marker naming the task, which GitHub keeps
+ * hidden, so a later dump of the same issues finds its way back. Only the
+ * first project becomes the milestone, and templates are skipped.
+ */
+export const toIssues = (tasks: ReadonlyArray<Task>): Array<Issue> =>
+	tasks
+		.filter((task) => !task.is_template)
+		.map((task): Issue => {
+			const closed = task.status === "done" || task.status === "dropped";
+			return {
+				number: issueNumber(task),
+				title: task.title,
+				body:
+					task.description.length > 0
+						? `${task.description}\n\n${taskMarker(task.id)}`
+						: taskMarker(task.id),
+				labels: task.tags.map((name) => ({ name })),
+				assignees: task.assignee === null ? [] : [{ login: task.assignee }],
+				state: closed ? "CLOSED" : "OPEN",
+				stateReason: closed
+					? task.status === "dropped"
+						? "NOT_PLANNED"
+						: "COMPLETED"
+					: null,
+				milestone:
+					task.projects.length > 0 ? { title: task.projects[0] } : null,
+				comments: task.comments.map((comment) => ({
+					author: comment.author.length > 0 ? { login: comment.author } : null,
+					body: comment.text,
+					createdAt: toIssueTimestamp(comment.created),
+				})),
+				createdAt: toIssueTimestamp(task.created),
+				closedAt:
+					closed && task.completed_at !== null
+						? toIssueTimestamp(task.completed_at)
+						: null,
+			};
+		});
@@ -0,0 +1,276 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import * as Either from "effect/Either";
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import YAML from "yaml";
+import {
+	JournalEntry as JournalEntrySchema,
+	type JournalEntry,
+	type JournalTaskChange,
+	type Task,
+} from "./schema.js";
+import { appendHistoryEvents, buildHistoryEvent } from "./history.js";
+
+const decodeJournalEither = Schema.decodeUnknownEither(
+	Schema.Array(JournalEntrySchema),
+);
+
+const toErrorMessage = (error: unknown): string =>
+	error instanceof Error ? error.message : String(error);
+
+export const maxJournalEntries = 100;
+
+export const journalFilePath = (dataDir: string): string =>
+	join(dataDir, "journal.yaml");
+
+/**
+ * The minimal storage access the journal needs to put a task back the way it
+ * was. Each repository implementation supplies its own.
+ */
+export interface JournalTaskStore {
+	readonly read: (id: string) => Effect.Effect<Task | null, string>;
+	readonly write: (task: Task) => Effect.Effect<void, string>;
+	readonly remove: (id: string) => Effect.Effect<void, string>;
+}
+
+export const readJournal = (
+	dataDir: string,
+): Effect.Effect<Array<JournalEntry>, string> =>
+	Effect.tryPromise({
+		try: async () => {
+			const path = journalFilePath(dataDir);
+			const source = await readFile(path, "utf8").catch((error: unknown) => {
+				if (
+					error !== null &&
+					typeof error === "object" &&
+					"code" in error &&
+					error.code === "ENOENT"
+				) {
+					return null;
+				}
+				throw error;
+			});
+
+			if (source === null || source.trim().length === 0) {
+				return [];
+			}
+
+			const result = decodeJournalEither(YAML.parse(source));
+			if (Either.isLeft(result)) {
+				throw new Error(`Invalid journal in ${path}`);
+			}
+
+			return [...result.right];
+		},
+		catch: (error) =>
+			`TaskRepository failed to read undo journal: ${toErrorMessage(error)}`,
+	});
+
+const writeJournal = (
+	dataDir: string,
+	entries: ReadonlyArray<JournalEntry>,
+): Effect.Effect<void, string> =>
+	Effect.tryPromise({
+		try: async () => {
+			await mkdir(dataDir, { recursive: true });
+			await writeFile(journalFilePath(dataDir), YAML.stringify(entries), "utf8");
+		},
+		catch: (error) =>
+			`TaskRepository failed to write undo journal: ${toErrorMessage(error)}`,
+	});
+
+/**
+ * Records a mutation. Anything previously undone can no longer be redone once
+ * a new change lands, matching the usual editor semantics.
+ */
+export const appendJournalEntry = (
+	dataDir: string,
+	operation: string,
+	changes: ReadonlyArray<JournalTaskChange>,
+): Effect.Effect<void, string> =>
+	Effect.gen(function* () {
+		const entries = yield* readJournal(dataDir);
+		const kept = entries.filter((entry) => !entry.undone);
+		kept.push({
+			operation,
+			at: new Date().toISOString(),
+			changes: [...changes],
+			undone: false,
+		});
+		yield* writeJournal(dataDir, kept.slice(-maxJournalEntries));
+	});
+
+// Key order differs between freshly decoded records and ones read back from
+// storage, so compare a canonical form instead of the raw JSON.
+const canonicalize = (value: unknown): unknown => {
+	if (Array.isArray(value)) {
+		return value.map(canonicalize);
+	}
+	if (value !== null && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value as Record<string, unknown>)
+				.sort(([a], [b]) => a.localeCompare(b))
+				.map(([key, nested]) => [key, canonicalize(nested)]),
+		);
+	}
+	return value;
+};
+
+// Surfacing bookkeeping is written without a journal entry, so it neither
+// blocks an undo nor gets rolled back by one. The revision only ever moves
+// forward: a restore is a new write, so a client still holding the revision
+// from before the undone change cannot overwrite the restored task.
+const unjournaledFields = [
+	"last_surfaced",
+	"nudge_count",
+	"revision",
+] as const;
+
+const journaledFields = (task: Task | null): unknown => {
+	if (task === null) {
+		return null;
+	}
+	const fields: Record<string, unknown> = { ...task };
+	for (const field of unjournaledFields) {
+		delete fields[field];
+	}
+	return fields;
+};
+
+const isSameTask = (a: Task | null, b: Task | null): boolean =>
+	JSON.stringify(canonicalize(journaledFields(a))) ===
+	JSON.stringify(canonicalize(journaledFields(b)));
+
+const withUnjournaledFields = (target: Task, current: Task | null): Task =>
+	current === null
+		? { ...target, revision: target.revision + 1 }
+		: {
+				...target,
+				last_surfaced: current.last_surfaced,
+				nudge_count: current.nudge_count,
+				revision: current.revision + 1,
+			};
+
+const restoreChanges = (
+	dataDir: string,
+	entry: JournalEntry,
+	direction: "undo" | "redo",
+	store: JournalTaskStore,
+	actor: string | null,
+): Effect.Effect<void, string> =>
+	Effect.gen(function* () {
+		const changes =
+			direction === "undo" ? [...entry.changes].reverse() : entry.changes;
+
+		const stored = new Map<string, Task | null>();
+		for (const change of changes) {
+			const expected = direction === "undo" ? change.after : change.before;
+			const current = yield* store.read(change.id);
+			if (!isSameTask(current, expected)) {
+				return yield* Effect.fail(
+					`Cannot ${direction} ${entry.operation} of ${change.id}: the task has changed since`,
+				);
+			}
+			stored.set(change.id, current);
+		}
+
+		// A write that fails part-way puts back the tasks already written, so
+		// the entry is either applied whole or not at all and can be retried.
+		const written: Array<string> = [];
+		for (const change of changes) {
+			const target = direction === "undo" ? change.before : change.after;
+			const result = yield* Effect.either(
+				target === null
+					? store.remove(change.id)
+					: store.write(
+							withUnjournaledFields(target, stored.get(change.id) ?? null),
+						),
+			);
+			if (Either.isRight(result)) {
+				written.push(change.id);
+				continue;
+			}
+			for (const id of written.reverse()) {
+				const previous = stored.get(id) ?? null;
+				const restored = yield* Effect.either(
+					previous === null ? store.remove(id) : store.write(previous),
+				);
+				if (Either.isLeft(restored)) {
+					return yield* Effect.fail(
+						`${result.left}; rolling back also failed: ${restored.left}`,
+					);
+				}
+			}
+			return yield* Effect.fail(result.left);
+		}
+
+		yield* appendHistoryEvents(
+			dataDir,
+			changes.map((change) =>
+				buildHistoryEvent(
+					direction === "undo" ? "undone" : "redone",
+					direction === "undo" ? change.after : change.before,
+					direction === "undo" ? change.before : change.after,
+					{ actor },
+				),
+			),
+		);
+	});
+
+const stepJournal = (
+	dataDir: string,
+	direction: "undo" | "redo",
+	steps: number,
+	store: JournalTaskStore,
+	actor: string | null,
+): Effect.Effect<Array<JournalEntry>, string> =>
+	Effect.gen(function* () {
+		if (!Number.isInteger(steps) || steps < 1) {
+			return yield* Effect.fail(`Invalid ${direction} steps: ${steps}`);
+		}
+
+		const entries = yield* readJournal(dataDir);
+		// Undone entries always form a suffix: undo walks backwards from the
+		// last live entry, redo walks forwards from the first undone one.
+		const candidates =
+			direction === "undo"
+				? entries
+						.map((entry, index) => ({ entry, index }))
+						.filter(({ entry }) => !entry.undone)
+						.reverse()
+				: entries
+						.map((entry, index) => ({ entry, index }))
+						.filter(({ entry }) => entry.undone);
+
+		if (candidates.length === 0) {
+			return yield* Effect.fail(`Nothing to ${direction}`);
+		}
+
+		const applied: Array<JournalEntry> = [];
+		for (const { entry, index } of candidates.slice(0, steps)) {
+			yield* restoreChanges(dataDir, entry, direction, store, actor);
+			const updated = { ...entry, undone: direction === "undo" };
+			entries[index] = updated;
+			applied.push(updated);
+			yield* writeJournal(dataDir, entries);
+		}
+
+		return applied;
+	});
+
+export const undoJournal = (
+	dataDir: string,
+	steps: number,
+	store: JournalTaskStore,
+	actor: string | null,
+): Effect.Effect<Array<JournalEntry>, string> =>
+	stepJournal(dataDir, "undo", steps, store, actor);
+
+export const redoJournal = (
+	dataDir: string,
+	steps: number,
+	store: JournalTaskStore,
+	actor: string | null,
+): Effect.Effect<Array<JournalEntry>, string> =>
+	stepJournal(dataDir, "redo", steps, store, actor);
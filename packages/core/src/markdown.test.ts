@@ -0,0 +1,92 @@
+import { describe, expect, it } from "bun:test";
+import { markdownToImportedTasks } from "./markdown.js";
+
+const plan = [
+	"# Launch plan",
+	"",
+	"- [ ] Write announcement #marketing @desk !p1 due:2026-11-01",
+	"  - [x] Draft outline",
+	"  - [ ] Get review #legal",
+	"    * [ ] Book slot with legal",
+	"Some notes that are not list items.",
+	"- A plain bullet, not a task",
+	"```markdown",
+	"- [ ] Example inside a code block",
+	"```",
+	"- [x] Pick date",
+	"1. [ ] Order swag #marketing #marketing",
+	"",
+].join("\n");
+
+describe("markdownToImportedTasks", () => {
+	it("turns top-level items into tasks with nested subtasks", () => {
+		expect(
+			markdownToImportedTasks(plan, { project: "launch", source: "plan.md" }),
+		).toEqual([
+			{
+				input: {
+					title: "Write announcement",
+					tags: ["marketing"],
+					context: "desk",
+					priority: 1,
+					due: "2026-11-01",
+					projects: ["launch"],
+					subtasks: [
+						{ text: "Draft outline", done: true },
+						{ text: "Get review #legal", done: false },
+						{ text: "Book slot with legal", done: false },
+					],
+					external_id: "markdown:plan.md#Write announcement",
+				},
+				done: false,
+			},
+			{
+				input: {
+					title: "Pick date",
+					projects: ["launch"],
+					subtasks: [],
+					external_id: "markdown:plan.md#Pick date",
+				},
+				done: true,
+			},
+			{
+				input: {
+					title: "Order swag",
+					tags: ["marketing"],
+					projects: ["launch"],
+					subtasks: [],
+					external_id: "markdown:plan.md#Order swag",
+				},
+				done: false,
+			},
+		]);
+	});
+
+	it("links nested items to their parent item in parent mode", () => {
+		const items = markdownToImportedTasks(plan, { nesting: "parent" });
+
+		expect(
+			items.map((item) => [item.input.title, item.done, item.parent]),
+		).toEqual([
+			["Write announcement", false, undefined],
+			["Draft outline", true, "markdown:#Write announcement"],
+			["Get review", false, "markdown:#Write announcement"],
+			[
+				"Book slot with legal",
+				false,
+				"markdown:#Write announcement > Get review",
+			],
+			["Pick date", true, undefined],
+			["Order swag", false, undefined],
+		]);
+		expect(items[2].input.tags).toEqual(["legal"]);
+		expect(items[0].input.subtasks).toBeUndefined();
+	});
+
+	it("keeps the text of token-only items as their title", () => {
+		expect(markdownToImportedTasks("- [ ] #someday")[0].input).toMatchObject({
+			title: "#someday",
+			tags: ["someday"],
+		});
+	});
+});
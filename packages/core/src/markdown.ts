@@ -0,0 +1,175 @@
+import type { ImportedTask } from "./importer.js";
+import type { Subtask, TaskCreateInput } from "./schema.js";
+
+/** How nested checklist items are stored. */
+export type MarkdownNesting = "subtasks" | "parent";
+
+export const markdownNestings: ReadonlyArray<MarkdownNesting> = [
+	"subtasks",
+	"parent",
+];
+
+export interface MarkdownImportOptions {
+	readonly nesting?: MarkdownNesting;
+	/** Set as the project of every imported task. */
+	readonly project?: string;
+	/** Names the file in external ids, so different plans never collide. */
+	readonly source?: string;
+}
+
+export const markdownExternalIdPrefix = "markdown:";
+
+interface ChecklistItem {
+	readonly text: string;
+	readonly done: boolean;
+	readonly children: Array<ChecklistItem>;
+}
+
+const listItemPattern = /^(\s*)(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*\S)\s*$/;
+const fencePattern = /^\s*(`{3,}|~{3,})/;
+
+/**
+ * Reads the checklist items of a markdown document as a tree, nesting items
+ * by indentation. Headings, paragraphs, plain bullets and anything inside a
+ * fenced code block are ignored.
+ */
+const parseChecklist = (source: string): Array<ChecklistItem> => {
+	const roots: Array<ChecklistItem> = [];
+	const stack: Array<{ indent: number; item: ChecklistItem }> = [];
+	let fence: string | null = null;
+
+	for (const line of source.split(/\r?\n/)) {
+		const fenceMatch = fencePattern.exec(line);
+		if (fenceMatch !== null) {
+			const marker = fenceMatch[1];
+			if (fence === null) {
+				fence = marker;
+			} else if (marker[0] === fence[0] && marker.length >= fence.length) {
+				fence = null;
+			}
+			continue;
+		}
+		if (fence !== null) {
+			continue;
+		}
+		const match = listItemPattern.exec(line.replace(/\t/g, "    "));
+		if (match === null) {
+			continue;
+		}
+		const indent = match[1].length;
+		const item: ChecklistItem = {
+			text: match[3],
+			done: match[2] === "x" || match[2] === "X",
+			children: [],
+		};
+		while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+			stack.pop();
+		}
+		const parent = stack[stack.length - 1];
+		if (parent === undefined) {
+			roots.push(item);
+		} else {
+			parent.item.children.push(item);
+		}
+		stack.push({ indent, item });
+	}
+
+	return roots;
+};
+
+/**
+ * Pulls the inline `#tag`, `@context`, `!p1` and `due:YYYY-MM-DD` tokens out
+ * of an item; the first `@context` wins and the rest of the text is the
+ * title. An item made only of tokens keeps its full text as the title.
+ */
+const parseItemText = (
+	text: string,
+): Pick<TaskCreateInput, "title" | "tags" | "context" | "priority" | "due"> => {
+	const words: Array<string> = [];
+	const tags: Array<string> = [];
+	let context: string | undefined;
+	let priority: number | undefined;
+	let due: string | undefined;
+
+	for (const word of text.split(/\s+/)) {
+		const tag = /^#([A-Za-z][\w/-]*)$/.exec(word);
+		const contextMatch = /^@([\w/-]+)$/.exec(word);
+		const priorityMatch = /^!p(\d+)$/i.exec(word);
+		const dueMatch = /^due:(\d{4}-\d{2}-\d{2})$/.exec(word);
+		if (tag !== null) {
+			tags.push(tag[1]);
+		} else if (contextMatch !== null && context === undefined) {
+			context = contextMatch[1];
+		} else if (priorityMatch !== null) {
+			priority = Number.parseInt(priorityMatch[1], 10);
+		} else if (dueMatch !== null) {
+			due = dueMatch[1];
+		} else {
+			words.push(word);
+		}
+	}
+
+	return {
+		title: words.length > 0 ? words.join(" ") : text,
+		...(tags.length > 0 ? { tags: [...new Set(tags)] } : {}),
+		...(context !== undefined ? { context } : {}),
+		...(priority !== undefined ? { priority } : {}),
+		...(due !== undefined ? { due } : {}),
+	};
+};
+
+const flattenSubtasks = (items: ReadonlyArray<ChecklistItem>): Array<Subtask> =>
+	items.flatMap((item) => [
+		{ text: item.text, done: item.done },
+		...flattenSubtasks(item.children),
+	]);
+
+/**
+ * Turns a markdown checklist into task input. Top-level items become tasks;
+ * nested items become their `subtasks` (flattened, as written) or, with
+ * `nesting: "parent"`, tasks of their own whose `parent` is the enclosing
+ * item. `[x]` marks an item done, and `[ ]` reopens a task that was done but
+ * leaves any other status alone. Each task's external id is built from the
+ * source name and the titles leading to it, so importing an edited plan
+ * updates the tasks it created.
+ */
+export const markdownToImportedTasks = (
+	source: string,
+	options: MarkdownImportOptions = {},
+): Array<ImportedTask> => {
+	const nesting = options.nesting ?? "subtasks";
+	const prefix = `${markdownExternalIdPrefix}${options.source ?? ""}#`;
+
+	const toTasks = (
+		items: ReadonlyArray<ChecklistItem>,
+		path: ReadonlyArray<string>,
+		parent: string | undefined,
+	): Array<ImportedTask> =>
+		items.flatMap((item) => {
+			const fields = parseItemText(item.text);
+			const itemPath = [...path, fields.title];
+			const externalId = `${prefix}${itemPath.join(" > ")}`;
+			const input: TaskCreateInput = {
+				...fields,
+				...(options.project !== undefined
+					? { projects: [options.project] }
+					: {}),
+				...(nesting === "subtasks"
+					? { subtasks: flattenSubtasks(item.children) }
+					: {}),
+				external_id: externalId,
+			};
+			return [
+				{
+					input,
+					done: item.done,
+					...(parent !== undefined ? { parent } : {}),
+				},
+				...(nesting === "parent"
+					? toTasks(item.children, itemPath, externalId)
+					: []),
+			];
+		});
+
+	return toTasks(parseChecklist(source), [], undefined);
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "bun:test";
+import type { Task, TaskHistoryEvent, WorkLogEntry } from "./schema.js";
+import { computeProjectMetrics, formatProjectMetricsCsv } from "./metrics.js";
+
+const makeTask = (overrides: Partial<Task> & Pick<Task, "id">): Task => ({
+	title: overrides.id,
+	description: "",
+	status: "active",
+	area: "work",
+	projects: ["launch"],
+	tags: [],
+	created: "2026-10-01",
+	updated: "2026-10-01",
+	urgency: "medium",
+	energy: "medium",
+	due: null,
+	context: "",
+	subtasks: [],
+	blocked_by: [],
+	estimated_minutes: null,
+	actual_minutes: null,
+	completed_at: null,
+	last_surfaced: null,
+	defer_until: null,
+	nudge_count: 0,
+	recurrence: null,
+	recurrence_trigger: "clock",
+	recurrence_strategy: "replace",
+	recurrence_last_generated: null,
+	related: [],
+	is_template: false,
+	from_template: null,
+	priority: null,
+	type: "task",
+	assignee: null,
+	parent: null,
+	close_reason: null,
+	comments: [],
+	revision: 0,
+	external_id: null,
+	...overrides,
+});
+
+const tasks = [
+	makeTask({
+		id: "a",
+		status: "done",
+		completed_at: "2026-10-03T12:00:00.000Z",
+		estimated_minutes: 60,
+	}),
+	makeTask({
+		id: "b",
+		status: "done",
+		created: "2026-10-02",
+		completed_at: "2026-10-06T00:00:00.000Z",
+	}),
+	makeTask({ id: "c", created: "2026-10-04", estimated_minutes: 30 }),
+	makeTask({ id: "d", status: "dropped" }),
+	makeTask({ id: "other", projects: ["elsewhere"] }),
+];
+
+const workLog: Array<WorkLogEntry> = [
+	{
+		id: "w1",
+		task_id: "a",
+		started_at: "2026-10-02T12:00:00.000Z",
+		ended_at: "2026-10-02T13:00:00.000Z",
+		date: "2026-10-02",
+	},
+];
+
+const history: Array<TaskHistoryEvent> = [
+	{
+		task_id: "b",
+		event: "updated",
+		at: "2026-10-04T00:00:00.000Z",
+		actor: null,
+		source_id: null,
+		changes: [{ field: "status", from: "active", to: "in_progress" }],
+	},
+];
+
+const metrics = computeProjectMetrics("launch", tasks, {
+	today: "2026-10-07",
+	workLog,
+	history,
+});
+
+describe("computeProjectMetrics", () => {
+	it("counts project tasks and measures lead and cycle time", () => {
+		expect(metrics.counts).toEqual({ total: 4, done: 2, dropped: 1, open: 1 });
+		expect(metrics.lead_time).toEqual({
+			count: 2,
+			mean_days: 3.25,
+			median_days: 3.25,
+			p85_days: 4,
+		});
+		expect(metrics.cycle_time).toEqual({
+			count: 2,
+			mean_days: 1.5,
+			median_days: 1.5,
+			p85_days: 2,
+		});
+		expect(metrics.tasks.find((task) => task.id === "a")?.started_at).toBe(
+			"2026-10-02T12:00:00.000Z",
+		);
+	});
+
+	it("builds gap-free weekly throughput and daily burndown", () => {
+		expect(metrics.start).toBe("2026-10-01");
+		expect(metrics.throughput).toEqual([
+			{ week: "2026-09-28", completed: 1 },
+			{ week: "2026-10-05", completed: 1 },
+		]);
+		expect(
+			metrics.burndown.map((point) => [
+				point.date,
+				point.scope,
+				point.remaining,
+				point.remaining_minutes,
+			]),
+		).toEqual([
+			["2026-10-01", 1, 1, 60],
+			["2026-10-02", 2, 2, 60],
+			["2026-10-03", 2, 1, 0],
+			["2026-10-04", 3, 2, 30],
+			["2026-10-05", 3, 2, 30],
+			["2026-10-06", 3, 1, 30],
+			["2026-10-07", 3, 1, 30],
+		]);
+	});
+
+	it("renders a series as CSV", () => {
+		expect(formatProjectMetricsCsv(metrics, "throughput")).toBe(
+			"week,completed\r\n2026-09-28,1\r\n2026-10-05,1\r\n",
+		);
+		expect(formatProjectMetricsCsv(metrics, "tasks").split("\r\n")[3]).toBe(
+			"c,c,active,2026-10-04,,,,",
+		);
+	});
+});
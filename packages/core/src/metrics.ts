@@ -0,0 +1,286 @@
+import { addDays } from "./dates.js";
+import { csvCell, roundTo2 } from "./format.js";
+import type { Task, TaskHistoryEvent, WorkLogEntry } from "./schema.js";
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+export type ProjectMetricsSeries = "burndown" | "throughput" | "tasks";
+
+export const projectMetricsSeries: ReadonlyArray<ProjectMetricsSeries> = [
+	"burndown",
+	"throughput",
+	"tasks",
+];
+
+export interface DurationSummary {
+	readonly count: number;
+	readonly mean_days: number | null;
+	readonly median_days: number | null;
+	/** 85% of tasks finished within this many days. */
+	readonly p85_days: number | null;
+}
+
+export interface ThroughputPoint {
+	/** Monday (UTC) of the week. */
+	readonly week: string;
+	readonly completed: number;
+}
+
+export interface BurndownPoint {
+	readonly date: string;
+	/** Tasks created so far, excluding dropped ones. */
+	readonly scope: number;
+	readonly completed: number;
+	readonly remaining: number;
+	/** Estimated minutes of the tasks still remaining. */
+	readonly remaining_minutes: number;
+}
+
+export interface TaskFlowTimes {
+	readonly id: string;
+	readonly title: string;
+	readonly status: Task["status"];
+	readonly created: string;
+	readonly started_at: string | null;
+	readonly completed_at: string | null;
+	readonly lead_time_days: number | null;
+	readonly cycle_time_days: number | null;
+}
+
+export interface ProjectMetrics {
+	readonly project: string;
+	readonly start: string;
+	readonly today: string;
+	readonly counts: {
+		readonly total: number;
+		readonly done: number;
+		readonly dropped: number;
+		readonly open: number;
+	};
+	readonly lead_time: DurationSummary;
+	readonly cycle_time: DurationSummary;
+	readonly throughput: ReadonlyArray<ThroughputPoint>;
+	readonly burndown: ReadonlyArray<BurndownPoint>;
+	readonly tasks: ReadonlyArray<TaskFlowTimes>;
+}
+
+export interface ProjectMetricsOptions {
+	/** When the project began; tasks created earlier pull it back. */
+	readonly start?: string;
+	readonly today: string;
+	readonly workLog?: ReadonlyArray<WorkLogEntry>;
+	readonly history?: ReadonlyArray<TaskHistoryEvent>;
+}
+
+const dateOf = (timestamp: string): string => timestamp.slice(0, 10);
+
+const mondayOf = (date: string): string => {
+	const weekday = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+	return addDays(date, -((weekday + 6) % 7));
+};
+
+const daysBetween = (from: string, to: string): number =>
+	roundTo2((Date.parse(to) - Date.parse(from)) / dayMs);
+
+const summarizeDurations = (days: ReadonlyArray<number>): DurationSummary => {
+	if (days.length === 0) {
+		return { count: 0, mean_days: null, median_days: null, p85_days: null };
+	}
+	const sorted = [...days].sort((a, b) => a - b);
+	const percentile = (p: number) =>
+		sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+	const middle = Math.floor(sorted.length / 2);
+	return {
+		count: sorted.length,
+		mean_days: roundTo2(sorted.reduce((sum, d) => sum + d, 0) / sorted.length),
+		median_days: roundTo2(
+			sorted.length % 2 === 1
+				? sorted[middle]
+				: (sorted[middle - 1] + sorted[middle]) / 2,
+		),
+		p85_days: percentile(0.85),
+	};
+};
+
+/**
+ * Work starts at the first move to `in_progress` recorded in history or the
+ * first work log entry, whichever came first.
+ */
+const findStartedAt = (
+	taskId: string,
+	workLog: ReadonlyArray<WorkLogEntry>,
+	history: ReadonlyArray<TaskHistoryEvent>,
+): string | null => {
+	const candidates = [
+		...workLog
+			.filter((entry) => entry.task_id === taskId)
+			.map((entry) => entry.started_at),
+		...history
+			.filter(
+				(event) =>
+					event.task_id === taskId &&
+					event.changes.some(
+						(change) =>
+							change.field === "status" && change.to === "in_progress",
+					),
+			)
+			.map((event) => event.at),
+	].filter((timestamp) => !Number.isNaN(Date.parse(timestamp)));
+
+	return candidates.length === 0
+		? null
+		: candidates.reduce((earliest, timestamp) =>
+				Date.parse(timestamp) < Date.parse(earliest) ? timestamp : earliest,
+			);
+};
+
+/**
+ * Flow metrics for the non-template tasks in a project. Lead time runs from
+ * `created` to `completed_at`; cycle time from when work started to
+ * `completed_at`, and is left out for tasks with no recorded start. Series
+ * cover every day and week from `start` to `today`, so they chart without
+ * gaps. Dropped tasks are left out of burndown scope entirely.
+ */
+export const computeProjectMetrics = (
+	projectId: string,
+	allTasks: ReadonlyArray<Task>,
+	options: ProjectMetricsOptions,
+): ProjectMetrics => {
+	const tasks = allTasks.filter(
+		(task) => !task.is_template && task.projects.includes(projectId),
+	);
+	const workLog = options.workLog ?? [];
+	const history = options.history ?? [];
+	const start = tasks.reduce(
+		(earliest, task) => (task.created < earliest ? task.created : earliest),
+		options.start ?? options.today,
+	);
+
+	const flow = tasks.map((task): TaskFlowTimes => {
+		const completedAt = task.status === "done" ? task.completed_at : null;
+		const startedAt = findStartedAt(task.id, workLog, history);
+		return {
+			id: task.id,
+			title: task.title,
+			status: task.status,
+			created: task.created,
+			started_at: startedAt,
+			completed_at: completedAt,
+			lead_time_days:
+				completedAt === null
+					? null
+					: daysBetween(`${task.created}T00:00:00.000Z`, completedAt),
+			cycle_time_days:
+				completedAt === null || startedAt === null
+					? null
+					: daysBetween(startedAt, completedAt),
+		};
+	});
+	const completed = flow.filter(
+		(task): task is TaskFlowTimes & { completed_at: string } =>
+			task.completed_at !== null,
+	);
+
+	const throughput: Array<ThroughputPoint> = [];
+	for (
+		let week = mondayOf(start);
+		week <= options.today;
+		week = addDays(week, 7)
+	) {
+		const weekEnd = addDays(week, 7);
+		throughput.push({
+			week,
+			completed: completed.filter((task) => {
+				const date = dateOf(task.completed_at);
+				return date >= week && date < weekEnd;
+			}).length,
+		});
+	}
+
+	const scopeTasks = tasks.filter((task) => task.status !== "dropped");
+	const burndown: Array<BurndownPoint> = [];
+	for (let date = start; date <= options.today; date = addDays(date, 1)) {
+		const inScope = scopeTasks.filter((task) => task.created <= date);
+		const remaining = inScope.filter(
+			(task) =>
+				task.status !== "done" ||
+				task.completed_at === null ||
+				dateOf(task.completed_at) > date,
+		);
+		burndown.push({
+			date,
+			scope: inScope.length,
+			completed: inScope.length - remaining.length,
+			remaining: remaining.length,
+			remaining_minutes: remaining.reduce(
+				(sum, task) => sum + (task.estimated_minutes ?? 0),
+				0,
+			),
+		});
+	}
+
+	const done = tasks.filter((task) => task.status === "done").length;
+	const dropped = tasks.filter((task) => task.status === "dropped").length;
+
+	return {
+		project: projectId,
+		start,
+		today: options.today,
+		counts: {
+			total: tasks.length,
+			done,
+			dropped,
+			open: tasks.length - done - dropped,
+		},
+		lead_time: summarizeDurations(
+			completed.flatMap((task) =>
+				task.lead_time_days === null ? [] : [task.lead_time_days],
+			),
+		),
+		cycle_time: summarizeDurations(
+			completed.flatMap((task) =>
+				task.cycle_time_days === null ? [] : [task.cycle_time_days],
+			),
+		),
+		throughput,
+		burndown,
+		tasks: flow,
+	};
+};
+
+/** Renders one series as CSV for spreadsheets and charting tools. */
+export const formatProjectMetricsCsv = (
+	metrics: ProjectMetrics,
+	series: ProjectMetricsSeries,
+): string => {
+	const rows: ReadonlyArray<object> =
+		series === "burndown"
+			? metrics.burndown
+			: series === "throughput"
+				? metrics.throughput
+				: metrics.tasks;
+	const columns =
+		series === "burndown"
+			? ["date", "scope", "completed", "remaining", "remaining_minutes"]
+			: series === "throughput"
+				? ["week", "completed"]
+				: [
+						"id",
+						"title",
+						"status",
+						"created",
+						"started_at",
+						"completed_at",
+						"lead_time_days",
+						"cycle_time_days",
+					];
+	const lines = [
+		columns.join(","),
+		...rows.map((row) =>
+			columns
+				.map((column) => csvCell((row as Record<string, unknown>)[column]))
+				.join(","),
+		),
+	];
+	return `${lines.join("\r\n")}\r\n`;
+};
@@ -18,6 +18,8 @@ import {
 	type Project,
 	type ProjectCreateInput,
 	type ProjectPatch,
+	type TaskHistoryEvent,
+	type JournalTaskChange,
 } from "./schema.js";
 import {
 	byUpdatedDescThenTitle,
@@ -35,6 +37,19 @@ import {
 	buildNextClockRecurrenceTask,
 	isClockRecurrenceDue,
 } from "./recurrence.js";
+import {
+	appendHistoryEvents,
+	buildHistoryEvent,
+	defaultHistoryActor,
+	readHistoryEvents,
+	readTaskHistory,
+} from "./history.js";
+import {
+	appendJournalEntry,
+	type JournalTaskStore,
+	redoJournal,
+	undoJournal,
+} from "./journal.js";
 import type { TaskRepositoryService, ListProjectsFilters } from "./repository.js";
 import {
 	TaskRepository,
@@ -47,6 +62,12 @@ import {
 	buildInstanceFromTemplate,
 	createTaskFromInput,
 	createProjectFromInput,
+	ensureTaskRevision,
+	findCompletableEpicParent,
+	markTaskSurfaced,
+	uniqueWorkLogId,
+	validateClaim,
+	validateTaskLinks,
 } from "./repository.js";
 
 const decodeTask = Schema.decodeUnknownSync(TaskSchema);
@@ -100,6 +121,7 @@ export interface ProseqlRepositoryOptions {
 	readonly workLogFormat?: string;
 	readonly hooksDir?: string;
 	readonly hookEnv?: NodeJS.ProcessEnv;
+	readonly actor?: string;
 }
 
 const makeDbConfig = (options: ProseqlRepositoryOptions) =>
@@ -147,6 +169,74 @@ const makeProseqlRepository = (
 			env: options.hookEnv,
 			dataDir,
 		};
+		const actor = options.actor ?? defaultHistoryActor();
+		// Agents sharing this layer interleave at every await, so every
+		// mutation is serialized here, and task writes are re-checked against
+		// the stored revision before saving.
+		const writeLock = yield* Effect.makeSemaphore(1);
+
+		const recordHistory = (
+			...events: Array<TaskHistoryEvent>
+		): Effect.Effect<void, string> => appendHistoryEvents(dataDir, events);
+
+		const recordJournal = (
+			operation: string,
+			...changes: Array<JournalTaskChange>
+		): Effect.Effect<void, string> =>
+			appendJournalEntry(dataDir, operation, changes);
+
+		const journalStore: JournalTaskStore = {
+			read: (id) =>
+				Effect.map(
+					collectTasks(),
+					(tasks) => tasks.find((task) => task.id === id) ?? null,
+				),
+			write: (task) => Effect.asVoid(saveTask(task)),
+			remove: (id) => Effect.asVoid(removeTask(id)),
+		};
+
+		const recordClockRecurrence = (
+			current: Task,
+			generated: {
+				readonly nextTask: Task;
+				readonly updatedCurrent: Task | null;
+			},
+		): Effect.Effect<void, string> =>
+			Effect.gen(function* () {
+				yield* recordHistory(
+					...(generated.updatedCurrent !== null
+						? [
+								buildHistoryEvent(
+									"updated",
+									current,
+									generated.updatedCurrent,
+									{ actor },
+								),
+							]
+						: []),
+					buildHistoryEvent("recurrence_generated", null, generated.nextTask, {
+						actor,
+						sourceId: current.id,
+					}),
+				);
+				yield* recordJournal(
+					"recur",
+					...(generated.updatedCurrent !== null
+						? [
+								{
+									id: current.id,
+									before: current,
+									after: generated.updatedCurrent,
+								},
+							]
+						: []),
+					{
+						id: generated.nextTask.id,
+						before: null,
+						after: generated.nextTask,
+					},
+				);
+			});
 
 		const collectTasks = (): Effect.Effect<Array<Task>, string> =>
 			Effect.tryPromise({
@@ -199,6 +289,20 @@ const makeProseqlRepository = (
 					`ProseqlRepository failed to write task ${task.id}: ${toErrorMessage(error)}`,
 			});
 
+		const saveTaskIfCurrent = (
+			existing: Task,
+			next: Task,
+		): Effect.Effect<Task, string> =>
+			Effect.gen(function* () {
+				const current = yield* findTask(existing.id);
+				yield* ensureTaskRevision(
+					existing.id,
+					existing.revision,
+					current.revision,
+				);
+				return yield* saveTask(next);
+			});
+
 		const removeTask = (id: string): Effect.Effect<Task, string> =>
 			Effect.tryPromise({
 				try: () => db.tasks.delete(id).runPromise as Promise<Task>,
@@ -355,54 +459,150 @@ const makeProseqlRepository = (
 						created,
 						hookRuntimeOptions,
 					);
+					yield* validateTaskLinks(taskFromHooks, null, collectTasks());
 					yield* saveTask(taskFromHooks);
+					yield* recordHistory(
+						buildHistoryEvent("created", null, taskFromHooks, { actor }),
+					);
+					yield* recordJournal("create", {
+						id: taskFromHooks.id,
+						before: null,
+						after: taskFromHooks,
+					});
 					return taskFromHooks;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			updateTask: (id, patch) =>
 				Effect.gen(function* () {
 					const existing = yield* findTask(id);
+					if (patch.revision !== undefined) {
+						yield* ensureTaskRevision(id, patch.revision, existing.revision);
+					}
 					const updated = applyTaskPatch(existing, patch);
 					const taskFromHooks = yield* runModifyHooks(
 						existing,
 						updated,
 						hookRuntimeOptions,
 					);
-					yield* saveTask(taskFromHooks);
+					yield* validateTaskLinks(taskFromHooks, existing, collectTasks());
+					yield* saveTaskIfCurrent(existing, taskFromHooks);
+					yield* recordHistory(
+						buildHistoryEvent("updated", existing, taskFromHooks, { actor }),
+					);
+					yield* recordJournal("update", {
+						id,
+						before: existing,
+						after: taskFromHooks,
+					});
 					return taskFromHooks;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
-			completeTask: (id) =>
+			claimTask: (id, assignee) =>
 				Effect.gen(function* () {
 					const existing = yield* findTask(id);
-					const completedAt = new Date().toISOString();
-					const completedDate = completedAt.slice(0, 10);
-
-					const completedTask = decodeTask({
-						...existing,
-						status: "done",
-						updated: completedDate,
-						completed_at: completedAt,
+					yield* validateClaim(existing, assignee);
+					const claimed = applyTaskPatch(existing, {
+						assignee,
+						status: "in_progress",
 					});
-
-					const nextRecurringTask = yield* buildCompletionRecurrenceTask(
-						completedTask,
-						completedAt,
-					);
-
-					yield* saveTask(completedTask);
-					yield* runNonMutatingHooks(
-						"complete",
-						completedTask,
+					const taskFromHooks = yield* runModifyHooks(
+						existing,
+						claimed,
 						hookRuntimeOptions,
 					);
+					yield* saveTaskIfCurrent(existing, taskFromHooks);
+					yield* recordHistory(
+						buildHistoryEvent("updated", existing, taskFromHooks, { actor }),
+					);
+					yield* recordJournal("claim", {
+						id,
+						before: existing,
+						after: taskFromHooks,
+					});
+					return taskFromHooks;
+				}).pipe(writeLock.withPermits(1)),
 
-					if (nextRecurringTask !== null) {
-						yield* saveTask(nextRecurringTask);
+			completeTask: (id, completeOptions) =>
+				Effect.gen(function* () {
+					const completedAt = new Date().toISOString();
+					const events: Array<TaskHistoryEvent> = [];
+					const changes: Array<JournalTaskChange> = [];
+
+					const completeOne = (existing: Task) =>
+						Effect.gen(function* () {
+							const completedTask = decodeTask({
+								...existing,
+								status: "done",
+								updated: completedAt.slice(0, 10),
+								completed_at: completedAt,
+								revision: existing.revision + 1,
+							});
+
+							const nextRecurringTask = yield* buildCompletionRecurrenceTask(
+								completedTask,
+								completedAt,
+							);
+
+							yield* saveTaskIfCurrent(existing, completedTask);
+							yield* runNonMutatingHooks(
+								"complete",
+								completedTask,
+								hookRuntimeOptions,
+							);
+
+							events.push(
+								buildHistoryEvent("completed", existing, completedTask, {
+									actor,
+									at: completedAt,
+								}),
+							);
+							changes.push({
+								id: completedTask.id,
+								before: existing,
+								after: completedTask,
+							});
+
+							if (nextRecurringTask !== null) {
+								yield* saveTask(nextRecurringTask);
+								events.push(
+									buildHistoryEvent(
+										"recurrence_generated",
+										null,
+										nextRecurringTask,
+										{ actor, at: completedAt, sourceId: completedTask.id },
+									),
+								);
+								changes.push({
+									id: nextRecurringTask.id,
+									before: null,
+									after: nextRecurringTask,
+								});
+							}
+
+							return completedTask;
+						});
+
+					const completedTask = yield* completeOne(yield* findTask(id));
+
+					if (completeOptions?.completeParent === true) {
+						let child = completedTask;
+						for (;;) {
+							const parent = findCompletableEpicParent(
+								child,
+								yield* collectTasks(),
+							);
+							if (parent === null) {
+								break;
+							}
+							child = yield* completeOne(parent);
+						}
 					}
 
+					yield* recordHistory(...events);
+					yield* recordJournal("complete", ...changes);
+
 					return completedTask;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			generateNextRecurrence: (id) =>
 				Effect.gen(function* () {
@@ -417,8 +617,9 @@ const makeProseqlRepository = (
 					}
 
 					yield* saveTask(result.nextTask);
+					yield* recordClockRecurrence(existing, result);
 					return result.nextTask;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			processDueRecurrences: (now) =>
 				Effect.gen(function* () {
@@ -447,6 +648,7 @@ const makeProseqlRepository = (
 						}
 
 						yield* saveTask(result.nextTask);
+						yield* recordClockRecurrence(task, result);
 						created.push(result.nextTask);
 						if (result.shouldReplaceCurrent) {
 							replaced.push(task.id);
@@ -454,26 +656,37 @@ const makeProseqlRepository = (
 					}
 
 					return { created, replaced } as const;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
-			deleteTask: (id) =>
+			deleteTask: (id, revision) =>
 				Effect.gen(function* () {
 					const existing = yield* findTask(id);
+					if (revision !== undefined) {
+						yield* ensureTaskRevision(id, revision, existing.revision);
+					}
 					yield* removeTask(id);
+					yield* recordHistory(
+						buildHistoryEvent("deleted", existing, null, { actor }),
+					);
+					yield* recordJournal("delete", {
+						id,
+						before: existing,
+						after: null,
+					});
 					yield* runNonMutatingHooks(
 						"delete",
 						existing,
 						hookRuntimeOptions,
 					);
 					return { deleted: true } as const;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			setDailyHighlight: (id) =>
 				Effect.gen(function* () {
 					const existing = yield* findTask(id);
 					yield* writeDailyHighlight(id);
 					return existing;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			getDailyHighlight: () => readDailyHighlight(),
 
@@ -487,6 +700,23 @@ const makeProseqlRepository = (
 						.sort(byUpdatedDescThenTitle);
 				}),
 
+			markSurfaced: (ids, date) =>
+				Effect.gen(function* () {
+					const surfaced = new Map<string, Task>();
+					for (const id of ids) {
+						if (surfaced.has(id)) {
+							continue;
+						}
+						const existing = yield* findTask(id);
+						const next = markTaskSurfaced(existing, date);
+						if (next !== existing) {
+							yield* saveTask(next);
+						}
+						surfaced.set(id, next);
+					}
+					return ids.map((id) => surfaced.get(id) as Task);
+				}).pipe(writeLock.withPermits(1)),
+
 			listWorkLog: (filters) =>
 				Effect.map(collectWorkLog(), (entries) =>
 					entries
@@ -507,7 +737,10 @@ const makeProseqlRepository = (
 					const date = yield* toWorkLogDate(normalizedInput.started_at);
 
 					const created = decodeWorkLogEntry({
-						id: `${normalizedInput.task_id}-${timestamp}`,
+						id: uniqueWorkLogId(
+							`${normalizedInput.task_id}-${timestamp}`,
+							yield* collectWorkLog(),
+						),
 						task_id: normalizedInput.task_id,
 						started_at: normalizedInput.started_at,
 						ended_at: normalizedInput.ended_at,
@@ -516,7 +749,7 @@ const makeProseqlRepository = (
 
 					yield* saveWorkLogEntry(created);
 					return created;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			updateWorkLogEntry: (id, patch) =>
 				Effect.gen(function* () {
@@ -524,25 +757,25 @@ const makeProseqlRepository = (
 					const updated = applyWorkLogPatch(existing, patch);
 					yield* saveWorkLogEntry(updated);
 					return updated;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			deleteWorkLogEntry: (id) =>
 				Effect.gen(function* () {
 					yield* removeWorkLogEntry(id);
 					return { deleted: true } as const;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			importTask: (task) =>
 				Effect.gen(function* () {
 					yield* saveTask(task);
 					return task;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			importWorkLogEntry: (entry) =>
 				Effect.gen(function* () {
 					yield* saveWorkLogEntry(entry);
 					return entry;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			listProjects: (filters) =>
 				Effect.map(collectProjects(), (projects) =>
@@ -556,7 +789,7 @@ const makeProseqlRepository = (
 					const created = createProjectFromInput(input);
 					yield* saveProject(created);
 					return created;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			updateProject: (id, patch) =>
 				Effect.gen(function* () {
@@ -564,19 +797,19 @@ const makeProseqlRepository = (
 					const updated = applyProjectPatch(existing, patch);
 					yield* saveProject(updated);
 					return updated;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			deleteProject: (id) =>
 				Effect.gen(function* () {
 					yield* removeProject(id);
 					return { deleted: true } as const;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			importProject: (project) =>
 				Effect.gen(function* () {
 					yield* saveProject(project);
 					return project;
-				}),
+				}).pipe(writeLock.withPermits(1)),
 
 			listContexts: () =>
 				Effect.map(collectTasks(), (tasks) =>
@@ -611,8 +844,33 @@ const makeProseqlRepository = (
 						hookRuntimeOptions,
 					);
 					yield* saveTask(taskFromHooks);
+					yield* recordHistory(
+						buildHistoryEvent("created", null, taskFromHooks, {
+							actor,
+							sourceId: template.id,
+						}),
+					);
+					yield* recordJournal("create", {
+						id: taskFromHooks.id,
+						before: null,
+						after: taskFromHooks,
+					});
 					return taskFromHooks;
-				}),
+				}).pipe(writeLock.withPermits(1)),
+
+			getTaskHistory: (id) => readTaskHistory(dataDir, id),
+
+			listHistory: () => readHistoryEvents(dataDir),
+
+			undo: (steps = 1) =>
+				undoJournal(dataDir, steps, journalStore, actor).pipe(
+					writeLock.withPermits(1),
+				),
+
+			redo: (steps = 1) =>
+				redoJournal(dataDir, steps, journalStore, actor).pipe(
+					writeLock.withPermits(1),
+				),
 		};
 
 		return service;
@@ -4,11 +4,14 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import * as Cause from "effect/Cause";
 import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
 import * as Exit from "effect/Exit";
 import * as Option from "effect/Option";
 import type { Task, Project } from "./schema.js";
 import {
 	applyPerspectiveToTasks,
+	applyTaskFilters,
+	auditDependencies,
 	byCreatedAsc,
 	byDueAsc,
 	byEnergyAsc,
@@ -16,6 +19,12 @@ import {
 	byUrgencyDesc,
 	byUpdatedDescThenTitle,
 	buildDependencyChain,
+	computeCriticalPath,
+	buildTaskTree,
+	findDependencyCycle,
+	findParentCycle,
+	formatDependencyPath,
+	formatTaskTree,
 	hasContext,
 	hasDurationMax,
 	hasDurationMin,
@@ -31,7 +40,11 @@ import {
 	listAreas,
 	listContexts,
 	loadPerspectiveConfig,
+	parseFilterExpression,
 	resolveRelativeDate,
+	resolveTaskFilterDates,
+	sortTasks,
+	summarizeChildProgress,
 	wasCompletedBetween,
 	wasCompletedOn,
 } from "./query.js";
@@ -73,6 +86,8 @@ const makeTask = (
 	close_reason: overrides.close_reason ?? null,
 	description: overrides.description ?? "",
 	comments: overrides.comments ?? [],
+	revision: overrides.revision ?? 0,
+	external_id: overrides.external_id ?? null,
 });
 
 const writePerspectiveConfig = async (
@@ -621,6 +636,57 @@ describe("perspective config loader", () => {
 			await rm(dataDir, { recursive: true, force: true });
 		}
 	});
+
+	it("decodes where expressions and points at invalid columns", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-perspectives-where-"));
+
+		try {
+			await writePerspectiveConfig(
+				dataDir,
+				[
+					"urgent:",
+					"  filters:",
+					"    where: 'tag:urgent or priority <= 1'",
+				].join("\n"),
+			);
+
+			const config = await Effect.runPromise(loadPerspectiveConfig(dataDir));
+			expect(config.urgent.filters.where).toEqual({
+				kind: "or",
+				left: { kind: "match", field: "tags", value: "urgent" },
+				right: {
+					kind: "compare",
+					field: "priority",
+					operator: "<=",
+					value: "1",
+				},
+			});
+
+			await writePerspectiveConfig(
+				dataDir,
+				["urgent:", "  filters:", "    where: 'tag:urgent or'"].join("\n"),
+			);
+
+			const result = await Effect.runPromiseExit(
+				loadPerspectiveConfig(dataDir),
+			);
+			expect(Exit.isFailure(result)).toBe(true);
+
+			if (Exit.isFailure(result)) {
+				const failure = Option.getOrNull(Cause.failureOption(result.cause));
+				expect(failure).toBe(
+					[
+						`Perspective config loader failed: Invalid where filter for perspective "urgent" in ${join(dataDir, "perspectives.yaml")}`,
+						"Invalid filter expression at column 14: Expected a field name, got end of expression",
+						"  tag:urgent or",
+						"               ^",
+					].join("\n"),
+				);
+			}
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
 });
 
 describe("perspective application", () => {
@@ -991,6 +1057,121 @@ describe("applyPerspectiveToTasks with new filters", () => {
 		expect(filtered.map((t) => t.id)).toContain("template");
 		expect(filtered.map((t) => t.id)).toContain("regular");
 	});
+
+	it("combines where expressions with the other filters", () => {
+		const tasks = [
+			makeTask({ id: "urgent", title: "Urgent", tags: ["urgent"] }),
+			makeTask({ id: "soon", title: "Soon", due: "2026-02-26" }),
+			makeTask({ id: "later", title: "Later", due: "2026-03-20" }),
+			makeTask({
+				id: "done",
+				title: "Done",
+				status: "done",
+				tags: ["urgent"],
+			}),
+		];
+		const where = parseFilterExpression("tag:urgent or due < +3d");
+		if (Either.isLeft(where)) {
+			throw new Error(where.left.message);
+		}
+
+		const filtered = applyPerspectiveToTasks(
+			tasks,
+			{ filters: { status: "active", where: where.right } },
+			"2026-02-25",
+		);
+
+		expect(filtered.map((t) => t.id).sort()).toEqual(["soon", "urgent"]);
+	});
+});
+
+describe("unified task filters", () => {
+	it("lets perspectives use list-only fields such as priority and assignee", () => {
+		const tasks = [
+			makeTask({ id: "mine", title: "Mine", priority: 1, assignee: "sam" }),
+			makeTask({ id: "theirs", title: "Theirs", priority: 1, assignee: "bo" }),
+			makeTask({ id: "low", title: "Low", priority: 3, assignee: "sam" }),
+		];
+
+		const filtered = applyPerspectiveToTasks(
+			tasks,
+			{ filters: { priority: 1, assignee: "sam" } },
+			"2026-02-25",
+		);
+
+		expect(filtered.map((t) => t.id)).toEqual(["mine"]);
+	});
+
+	it("applies energy, completed_on, date and text query in one pass", () => {
+		const tasks = [
+			makeTask({
+				id: "match",
+				title: "Write report",
+				status: "done",
+				energy: "low",
+				completed_at: "2026-02-24T09:00:00.000Z",
+			}),
+			makeTask({
+				id: "deferred",
+				title: "Write report later",
+				status: "done",
+				energy: "low",
+				completed_at: "2026-02-24T09:00:00.000Z",
+				defer_until: "2026-03-01",
+			}),
+			makeTask({
+				id: "other",
+				title: "Call plumber",
+				status: "done",
+				energy: "low",
+				completed_at: "2026-02-24T09:00:00.000Z",
+			}),
+		];
+
+		const filtered = applyTaskFilters(
+			tasks,
+			{
+				energy: "low",
+				completed_on: "2026-02-24",
+				date: "2026-02-25",
+				query: "REPORT",
+			},
+			"2026-02-25",
+		);
+
+		expect(filtered.map((t) => t.id)).toEqual(["match"]);
+	});
+
+	it("resolves relative dates in every date-valued filter", () => {
+		expect(
+			resolveTaskFilterDates(
+				{ due_before: "+7d", date: "today", status: "active" },
+				"2026-02-25",
+			),
+		).toEqual({ due_before: "2026-03-04", date: "2026-02-25", status: "active" });
+		expect(resolveTaskFilterDates({ date: "soon" }, "2026-02-25")).toBeNull();
+	});
+
+	it("sorts by priority then urgency and honours the perspective limit", () => {
+		const tasks = [
+			makeTask({ id: "p2", title: "P2", priority: 2 }),
+			makeTask({ id: "p1-low", title: "P1 low", priority: 1, urgency: "low" }),
+			makeTask({ id: "p1-high", title: "P1 high", priority: 1, urgency: "high" }),
+		];
+
+		expect(sortTasks([...tasks], "priority_asc").map((t) => t.id)).toEqual([
+			"p1-high",
+			"p1-low",
+			"p2",
+		]);
+		expect(
+			applyPerspectiveToTasks(
+				tasks,
+				{ filters: {}, sort: "priority_asc", limit: 1 },
+				"2026-02-25",
+			).map((t) => t.id),
+		).toEqual(["p1-high"]);
+	});
 });
 
 describe("byPriorityAsc", () => {
@@ -1053,3 +1234,236 @@ describe("buildDependencyChain", () => {
 		expect(chain.descendants).toEqual([]);
 	});
 });
+
+describe("dependency audit", () => {
+	it("findDependencyCycle returns the closed path or null", () => {
+		const tasks = [
+			makeTask({ id: "a", title: "A", blocked_by: ["b"] }),
+			makeTask({ id: "b", title: "B", blocked_by: ["c"] }),
+			makeTask({ id: "c", title: "C", blocked_by: ["a"] }),
+			makeTask({ id: "d", title: "D", blocked_by: ["a"] }),
+		];
+
+		expect(findDependencyCycle(tasks, ["d"])).toEqual(["a", "b", "c", "a"]);
+		expect(formatDependencyPath(["a", "b", "a"])).toBe("a → b → a");
+		expect(
+			findDependencyCycle([makeTask({ id: "x", title: "X", blocked_by: ["y"] })]),
+		).toBeNull();
+	});
+
+	it("auditDependencies reports each problem once", () => {
+		const tasks = [
+			makeTask({ id: "a", title: "A", blocked_by: ["b"] }),
+			makeTask({ id: "b", title: "B", blocked_by: ["a", "ghost"] }),
+			makeTask({ id: "self", title: "Self", blocked_by: ["self"] }),
+			makeTask({ id: "t", title: "T", is_template: true }),
+			makeTask({ id: "uses-t", title: "Uses T", blocked_by: ["t"] }),
+		];
+
+		expect(
+			auditDependencies(tasks).map((issue) => [issue.kind, issue.message]),
+		).toEqual([
+			["missing", "b is blocked by missing task ghost"],
+			["self_block", "self is blocked by itself"],
+			["template", "uses-t is blocked by template t"],
+			["cycle", "Dependency cycle: a → b → a"],
+		]);
+	});
+
+	it("auditDependencies reports dangling and cyclic parents", () => {
+		const tasks = [
+			makeTask({ id: "a", title: "A", parent: "b" }),
+			makeTask({ id: "b", title: "B", parent: "a" }),
+			makeTask({ id: "c", title: "C", parent: "gone" }),
+		];
+
+		expect(
+			auditDependencies(tasks).map((issue) => [issue.kind, issue.message]),
+		).toEqual([
+			["parent_cycle", "Parent cycle: a → b → a"],
+			["missing_parent", "c has missing parent gone"],
+		]);
+	});
+});
+
+describe("task hierarchy", () => {
+	const tasks = [
+		makeTask({ id: "epic", title: "Epic", created: "2026-01-01" }),
+		makeTask({
+			id: "s1",
+			title: "Story one",
+			parent: "epic",
+			created: "2026-01-02",
+			status: "done",
+			estimated_minutes: 60,
+			actual_minutes: 90,
+		}),
+		makeTask({
+			id: "s2",
+			title: "Story two",
+			parent: "epic",
+			created: "2026-01-03",
+			status: "in_progress",
+			estimated_minutes: 30,
+		}),
+		makeTask({
+			id: "t1",
+			title: "Subtask",
+			parent: "s2",
+			created: "2026-01-04",
+			estimated_minutes: 15,
+		}),
+		makeTask({
+			id: "gone",
+			title: "Dropped",
+			parent: "epic",
+			created: "2026-01-05",
+			status: "dropped",
+			estimated_minutes: 500,
+		}),
+		makeTask({ id: "loose", title: "Loose", created: "2026-01-06" }),
+	];
+
+	it("formats nested trees with status markers", () => {
+		expect(formatTaskTree(buildTaskTree(tasks))).toBe(
+			[
+				"[ ] Epic (epic)",
+				"├── [x] Story one (s1)",
+				"├── [~] Story two (s2)",
+				"│   └── [ ] Subtask (t1)",
+				"└── [-] Dropped (gone)",
+				"[ ] Loose (loose)",
+				"",
+			].join("\n"),
+		);
+		expect(buildTaskTree(tasks, "s2").map((node) => node.task.id)).toEqual([
+			"s2",
+		]);
+		expect(buildTaskTree(tasks, "missing")).toEqual([]);
+	});
+
+	it("keeps tasks caught in a parent cycle", () => {
+		const cyclic = [
+			makeTask({ id: "a", title: "A", parent: "b" }),
+			makeTask({ id: "b", title: "B", parent: "a" }),
+		];
+		expect(findParentCycle(cyclic, "a")).toEqual(["a", "b", "a"]);
+		expect(formatTaskTree(buildTaskTree(cyclic))).toBe(
+			"[ ] A (a)\n└── [ ] B (b)\n",
+		);
+	});
+
+	it("rolls up descendants, leaving dropped ones out", () => {
+		expect(summarizeChildProgress("epic", tasks)).toEqual({
+			total: 3,
+			done: 1,
+			estimated_minutes: 105,
+			actual_minutes: 90,
+		});
+		expect(summarizeChildProgress("loose", tasks)).toEqual({
+			total: 0,
+			done: 0,
+			estimated_minutes: 0,
+			actual_minutes: 0,
+		});
+	});
+});
+
+describe("computeCriticalPath", () => {
+	it("chains estimates through blockers and flags unreachable due dates", () => {
+		const tasks = [
+			makeTask({
+				id: "design",
+				title: "Design",
+				estimated_minutes: 480,
+				projects: ["launch"],
+			}),
+			makeTask({
+				id: "build",
+				title: "Build",
+				estimated_minutes: 960,
+				blocked_by: ["design"],
+				projects: ["launch"],
+			}),
+			makeTask({
+				id: "ship",
+				title: "Ship",
+				estimated_minutes: 60,
+				blocked_by: ["build", "copy"],
+				due: "2026-02-26",
+				projects: ["launch"],
+			}),
+			makeTask({ id: "copy", title: "Copy", estimated_minutes: 120 }),
+			makeTask({
+				id: "old",
+				title: "Old",
+				status: "done",
+				estimated_minutes: 9999,
+			}),
+		];
+
+		const report = Either.getOrThrow(
+			computeCriticalPath(tasks, {
+				today: "2026-02-25",
+				project: "launch",
+			}),
+		);
+
+		expect(report.critical_path).toEqual(["design", "build", "ship"]);
+		expect(report.total_minutes).toBe(1500);
+		expect(report.tasks.map((task) => task.id)).toEqual([
+			"design",
+			"build",
+			"ship",
+		]);
+
+		const ship = report.tasks.find((task) => task.id === "ship");
+		expect(ship).toMatchObject({
+			earliest_start_minutes: 1440,
+			earliest_finish_minutes: 1500,
+			projected_finish: "2026-02-28",
+			slack_days: -2,
+			due_infeasible: true,
+			critical_blocker: "build",
+		});
+		expect(report.infeasible).toEqual(["ship"]);
+	});
+
+	it("ignores closed blockers and tolerates cycles", () => {
+		const tasks = [
+			makeTask({ id: "a", title: "A", estimated_minutes: 30, blocked_by: ["b"] }),
+			makeTask({ id: "b", title: "B", estimated_minutes: 30, blocked_by: ["a"] }),
+			makeTask({
+				id: "c",
+				title: "C",
+				estimated_minutes: 30,
+				blocked_by: ["done"],
+				due: "2026-02-25",
+			}),
+			makeTask({ id: "done", title: "Done", status: "done", estimated_minutes: 600 }),
+		];
+
+		const report = Either.getOrThrow(
+			computeCriticalPath(tasks, {
+				today: "2026-02-25",
+				minutesPerDay: 60,
+			}),
+		);
+
+		const c = report.tasks.find((task) => task.id === "c");
+		expect(c?.earliest_start_minutes).toBe(0);
+		expect(c?.due_infeasible).toBe(false);
+		expect(report.critical_path).toEqual(["b", "a"]);
+	});
+
+	it("rejects a non-positive minutesPerDay", () => {
+		const tasks = [makeTask({ id: "a", title: "A", estimated_minutes: 30 })];
+
+		expect(computeCriticalPath(tasks, { minutesPerDay: 0 })).toEqual(
+			Either.left("minutesPerDay must be positive, got 0"),
+		);
+		expect(
+			Either.isLeft(computeCriticalPath(tasks, { minutesPerDay: -60 })),
+		).toBe(true);
+	});
+});
@@ -10,12 +10,26 @@ import {
 	type Task,
 	type Project,
 } from "./schema.js";
-
-const addDays = (date: string, days: number): string => {
-	const next = new Date(`${date}T00:00:00.000Z`);
-	next.setUTCDate(next.getUTCDate() + days);
-	return next.toISOString().slice(0, 10);
-};
+import {
+	FilterExpressionFromString,
+	formatFilterExpressionError,
+	matchesFilterExpression,
+	parseFilterExpression,
+} from "./expression.js";
+import { addDays } from "./dates.js";
+
+export {
+	evaluateFilterExpression,
+	formatFilterExpression,
+	formatFilterExpressionError,
+	FilterExpressionFromString,
+	matchesFilterExpression,
+	parseFilterExpression,
+	resolveFilterDate,
+	type FilterComparisonOperator,
+	type FilterExpression,
+	type FilterExpressionError,
+} from "./expression.js";
 
 const dateToUtcMidnight = (date: string): number => {
 	const parsed = new Date(`${date}T00:00:00.000Z`).getTime();
@@ -246,7 +260,11 @@ export const resolveRelativeDate = (
 	return addDays(today, days);
 };
 
-export const PerspectiveFilters = Schema.Struct({
+/**
+ * The one filter shape shared by `list`, `ready`, `search`, perspectives and
+ * the AI tools. Every field is optional and all given fields must match.
+ */
+export const TaskFilters = Schema.Struct({
 	status: Schema.optionalWith(TaskStatusSchema, { exact: true }),
 	area: Schema.optionalWith(Schema.String, { exact: true }),
 	project: Schema.optionalWith(Schema.String, { exact: true }),
@@ -254,6 +272,7 @@ export const PerspectiveFilters = Schema.Struct({
 	due_before: Schema.optionalWith(Schema.String, { exact: true }),
 	due_after: Schema.optionalWith(Schema.String, { exact: true }),
 	unblocked_only: Schema.optionalWith(Schema.Boolean, { exact: true }),
+	date: Schema.optionalWith(Schema.String, { exact: true }),
 	energy: Schema.optionalWith(TaskEnergySchema, { exact: true }),
 	stale_days: Schema.optionalWith(Schema.Number, { exact: true }),
 	completed_on: Schema.optionalWith(Schema.String, { exact: true }),
@@ -261,8 +280,18 @@ export const PerspectiveFilters = Schema.Struct({
 	duration_max: Schema.optionalWith(Schema.Number, { exact: true }),
 	context: Schema.optionalWith(Schema.String, { exact: true }),
 	include_templates: Schema.optionalWith(Schema.Boolean, { exact: true }),
+	priority: Schema.optionalWith(Schema.Number, { exact: true }),
+	type: Schema.optionalWith(Schema.String, { exact: true }),
+	assignee: Schema.optionalWith(Schema.String, { exact: true }),
+	unassigned: Schema.optionalWith(Schema.Boolean, { exact: true }),
+	parent: Schema.optionalWith(Schema.String, { exact: true }),
+	query: Schema.optionalWith(Schema.String, { exact: true }),
+	where: Schema.optionalWith(FilterExpressionFromString, { exact: true }),
 });
-export type PerspectiveFilters = Schema.Schema.Type<typeof PerspectiveFilters>;
+export type TaskFilters = Schema.Schema.Type<typeof TaskFilters>;
+
+export const PerspectiveFilters = TaskFilters;
+export type PerspectiveFilters = TaskFilters;
 
 export const PerspectiveSort = Schema.String;
 export type PerspectiveSort = Schema.Schema.Type<typeof PerspectiveSort>;
@@ -270,6 +299,7 @@ export type PerspectiveSort = Schema.Schema.Type<typeof PerspectiveSort>;
 export const Perspective = Schema.Struct({
 	filters: PerspectiveFilters,
 	sort: Schema.optionalWith(PerspectiveSort, { exact: true }),
+	limit: Schema.optionalWith(Schema.Number, { exact: true }),
 });
 export type Perspective = Schema.Schema.Type<typeof Perspective>;
 
@@ -289,6 +319,37 @@ export const parsePerspectiveConfig = (
 	return Either.isRight(result) ? result.right : null;
 };
 
+/**
+ * Resolves `today` and `+Nd` in the date-valued filters. Returns null when any
+ * of them is not a valid date.
+ */
+export const resolveTaskFilterDates = (
+	filters: TaskFilters,
+	today: string,
+): TaskFilters | null => {
+	const resolved: Record<string, string> = {};
+
+	for (const field of [
+		"due_before",
+		"due_after",
+		"completed_on",
+		"date",
+	] as const) {
+		const value = filters[field];
+		if (value === undefined) {
+			continue;
+		}
+
+		const date = resolveRelativeDate(value, today);
+		if (date === null) {
+			return null;
+		}
+		resolved[field] = date;
+	}
+
+	return { ...filters, ...resolved };
+};
+
 export const resolvePerspectiveConfigRelativeDates = (
 	config: PerspectiveConfig,
 	today: string,
@@ -296,179 +357,202 @@ export const resolvePerspectiveConfigRelativeDates = (
 	const resolved: Record<string, Perspective> = {};
 
 	for (const [name, perspective] of Object.entries(config)) {
-		const dueBefore =
-			perspective.filters.due_before === undefined
-				? undefined
-				: resolveRelativeDate(perspective.filters.due_before, today);
-		const dueAfter =
-			perspective.filters.due_after === undefined
-				? undefined
-				: resolveRelativeDate(perspective.filters.due_after, today);
-		const completedOn =
-			perspective.filters.completed_on === undefined
-				? undefined
-				: resolveRelativeDate(perspective.filters.completed_on, today);
-
-		if (dueBefore === null || dueAfter === null || completedOn === null) {
+		const filters = resolveTaskFilterDates(perspective.filters, today);
+		if (filters === null) {
 			return null;
 		}
 
-		resolved[name] = {
-			...perspective,
-			filters: {
-				...perspective.filters,
-				...(dueBefore !== undefined ? { due_before: dueBefore } : {}),
-				...(dueAfter !== undefined ? { due_after: dueAfter } : {}),
-				...(completedOn !== undefined ? { completed_on: completedOn } : {}),
-			},
-		};
+		resolved[name] = { ...perspective, filters };
 	}
 
 	return resolved;
 };
 
-export const applyPerspectiveToTasks = (
-	tasks: ReadonlyArray<Task>,
-	perspective: Perspective,
+/**
+ * Builds a single predicate for the given filters. `allTasks` is the universe
+ * used to decide whether a task's blockers are still open.
+ */
+export const matchesTaskFilters = (
+	filters: TaskFilters,
+	allTasks: ReadonlyArray<Task>,
 	today: string = currentIsoDate(),
-): Array<Task> => {
-	const taskList = Array.from(tasks);
-	const dueBeforePredicate =
-		perspective.filters.due_before !== undefined
-			? isDueBefore(perspective.filters.due_before)
-			: null;
-	const stalePredicate =
-		perspective.filters.stale_days !== undefined
-			? isStalerThan(perspective.filters.stale_days, today)
-			: null;
-	const completedOnPredicate =
-		perspective.filters.completed_on !== undefined
-			? wasCompletedOn(perspective.filters.completed_on)
-			: null;
-	const durationMinPredicate =
-		perspective.filters.duration_min !== undefined
-			? hasDurationMin(perspective.filters.duration_min)
-			: null;
-	const durationMaxPredicate =
-		perspective.filters.duration_max !== undefined
-			? hasDurationMax(perspective.filters.duration_max)
-			: null;
-	const contextPredicate =
-		perspective.filters.context !== undefined
-			? hasContext(perspective.filters.context)
-			: null;
-
-	const filtered = taskList.filter((task) => {
-		if (
-			perspective.filters.include_templates !== true &&
-			task.is_template === true
-		) {
-			return false;
-		}
-
-		if (
-			perspective.filters.status !== undefined &&
-			task.status !== perspective.filters.status
-		) {
-			return false;
-		}
-
-		if (
-			perspective.filters.area !== undefined &&
-			task.area !== perspective.filters.area
-		) {
-			return false;
-		}
-
-		if (
-			perspective.filters.project !== undefined &&
-			!task.projects.includes(perspective.filters.project)
-		) {
-			return false;
-		}
+): ((task: Task) => boolean) => {
+	const taskList = Array.from(allTasks);
+	const lowerQuery = filters.query?.toLowerCase();
+	const predicates: Array<(task: Task) => boolean> = [];
 
-		if (
-			perspective.filters.tags !== undefined &&
-			perspective.filters.tags.length > 0 &&
-			!perspective.filters.tags.some((tag) => task.tags.includes(tag))
-		) {
-			return false;
-		}
-
-		if (
-			perspective.filters.energy !== undefined &&
-			task.energy !== perspective.filters.energy
-		) {
-			return false;
-		}
-
-		if (dueBeforePredicate !== null && !dueBeforePredicate(task)) {
-			return false;
-		}
-
-		if (
-			perspective.filters.due_after !== undefined &&
-			(task.due === null || task.due < perspective.filters.due_after)
-		) {
-			return false;
-		}
-
-		if (
-			perspective.filters.unblocked_only === true &&
-			!isUnblocked(task, taskList)
-		) {
-			return false;
-		}
-
-		if (stalePredicate !== null && !stalePredicate(task)) {
-			return false;
-		}
-
-		if (completedOnPredicate !== null && !completedOnPredicate(task)) {
-			return false;
-		}
-
-		if (durationMinPredicate !== null && !durationMinPredicate(task)) {
-			return false;
-		}
+	if (filters.include_templates !== true) {
+		predicates.push((task) => task.is_template !== true);
+	}
+	if (filters.status !== undefined) {
+		const status = filters.status;
+		predicates.push((task) => task.status === status);
+	}
+	if (filters.area !== undefined) {
+		const area = filters.area;
+		predicates.push((task) => task.area === area);
+	}
+	if (filters.project !== undefined) {
+		predicates.push(hasProject(filters.project));
+	}
+	if (filters.tags !== undefined && filters.tags.length > 0) {
+		const tags = filters.tags;
+		predicates.push((task) => tags.some((tag) => task.tags.includes(tag)));
+	}
+	if (filters.energy !== undefined) {
+		predicates.push(hasEnergy(filters.energy));
+	}
+	if (filters.due_before !== undefined) {
+		predicates.push(isDueBefore(filters.due_before));
+	}
+	if (filters.due_after !== undefined) {
+		const dueAfter = filters.due_after;
+		predicates.push((task) => task.due !== null && task.due >= dueAfter);
+	}
+	if (filters.date !== undefined) {
+		const deferred = isDeferred(filters.date);
+		predicates.push((task) => !deferred(task));
+	}
+	if (filters.unblocked_only === true) {
+		predicates.push((task) => isUnblocked(task, taskList));
+	}
+	if (filters.stale_days !== undefined) {
+		predicates.push(isStalerThan(filters.stale_days, today));
+	}
+	if (filters.completed_on !== undefined) {
+		predicates.push(wasCompletedOn(filters.completed_on));
+	}
+	if (filters.duration_min !== undefined) {
+		predicates.push(hasDurationMin(filters.duration_min));
+	}
+	if (filters.duration_max !== undefined) {
+		predicates.push(hasDurationMax(filters.duration_max));
+	}
+	if (filters.context !== undefined) {
+		predicates.push(hasContext(filters.context));
+	}
+	if (filters.priority !== undefined) {
+		const priority = filters.priority;
+		predicates.push((task) => task.priority === priority);
+	}
+	if (filters.type !== undefined) {
+		const type = filters.type;
+		predicates.push((task) => task.type === type);
+	}
+	if (filters.assignee !== undefined) {
+		const assignee = filters.assignee;
+		predicates.push((task) => task.assignee === assignee);
+	}
+	if (filters.unassigned === true) {
+		predicates.push((task) => task.assignee === null);
+	}
+	if (filters.parent !== undefined) {
+		const parent = filters.parent;
+		predicates.push((task) => task.parent === parent);
+	}
+	if (lowerQuery !== undefined) {
+		predicates.push(
+			(task) =>
+				task.title.toLowerCase().includes(lowerQuery) ||
+				task.description.toLowerCase().includes(lowerQuery),
+		);
+	}
+	if (filters.where !== undefined) {
+		predicates.push(matchesFilterExpression(filters.where, today));
+	}
 
-		if (durationMaxPredicate !== null && !durationMaxPredicate(task)) {
-			return false;
-		}
+	return (task) => predicates.every((predicate) => predicate(task));
+};
 
-		if (contextPredicate !== null && !contextPredicate(task)) {
-			return false;
+export const applyTaskFilters = (
+	tasks: ReadonlyArray<Task>,
+	filters: TaskFilters,
+	today: string = currentIsoDate(),
+): Array<Task> => tasks.filter(matchesTaskFilters(filters, tasks, today));
+
+const withTieBreak =
+	(...comparators: Array<(a: Task, b: Task) => number>) =>
+	(a: Task, b: Task): number => {
+		for (const comparator of comparators) {
+			const result = comparator(a, b);
+			if (result !== 0) {
+				return result;
+			}
 		}
+		return 0;
+	};
 
-		return true;
-	});
+const byTitleAsc = (a: Task, b: Task): number => a.title.localeCompare(b.title);
 
-	switch (perspective.sort) {
+/** Sorts in place by a perspective sort key, defaulting to `updated_desc`. */
+export const sortTasks = (
+	tasks: Array<Task>,
+	sort: PerspectiveSort | undefined,
+): Array<Task> => {
+	switch (sort) {
 		case "due_asc":
-			return filtered.sort((a, b) => {
-				const byDue = byDueAsc(a, b);
-				return byDue !== 0 ? byDue : byUpdatedDescThenTitle(a, b);
-			});
+			return tasks.sort(withTieBreak(byDueAsc, byUpdatedDescThenTitle));
 		case "energy_asc":
-			return filtered.sort((a, b) => {
-				const byEnergy = byEnergyAsc(a, b);
-				return byEnergy !== 0 ? byEnergy : byUpdatedDescThenTitle(a, b);
-			});
+			return tasks.sort(withTieBreak(byEnergyAsc, byUpdatedDescThenTitle));
 		case "created_asc":
-			return filtered.sort((a, b) => {
-				const byCreated = byCreatedAsc(a, b);
-				return byCreated !== 0 ? byCreated : a.title.localeCompare(b.title);
-			});
+			return tasks.sort(withTieBreak(byCreatedAsc, byTitleAsc));
+		case "priority_asc":
+			return tasks.sort(
+				withTieBreak(byPriorityAsc, byUrgencyDesc, byCreatedAsc, byTitleAsc),
+			);
+		case "urgency_desc":
+			return tasks.sort(withTieBreak(byUrgencyDesc, byCreatedAsc, byTitleAsc));
 		case "updated_asc":
-			return filtered.sort(byUpdatedAscThenTitle);
+			return tasks.sort(byUpdatedAscThenTitle);
 		case "completed_at_desc":
-			return filtered.sort(byCompletedAtDescThenTitle);
-		case "updated_desc":
+			return tasks.sort(byCompletedAtDescThenTitle);
 		default:
-			return filtered.sort(byUpdatedDescThenTitle);
+			return tasks.sort(byUpdatedDescThenTitle);
 	}
 };
 
+export const applyPerspectiveToTasks = (
+	tasks: ReadonlyArray<Task>,
+	perspective: Perspective,
+	today: string = currentIsoDate(),
+): Array<Task> => {
+	const sorted = sortTasks(
+		applyTaskFilters(tasks, perspective.filters, today),
+		perspective.sort,
+	);
+	return perspective.limit !== undefined
+		? sorted.slice(0, perspective.limit)
+		: sorted;
+};
+
+// Decoding would reject a bad expression too, but only with a generic message;
+// checking first lets the loader point at the offending column.
+const findPerspectiveWhereError = (
+	record: unknown,
+): { readonly name: string; readonly message: string } | null => {
+	if (record === null || typeof record !== "object") {
+		return null;
+	}
+
+	for (const [name, perspective] of Object.entries(record)) {
+		const where = (perspective as { filters?: { where?: unknown } } | null)
+			?.filters?.where;
+		if (typeof where !== "string") {
+			continue;
+		}
+
+		const result = parseFilterExpression(where);
+		if (Either.isLeft(result)) {
+			return {
+				name,
+				message: formatFilterExpressionError(where, result.left),
+			};
+		}
+	}
+
+	return null;
+};
+
 export const loadPerspectiveConfig = (
 	dataDir: string,
 	today: string = currentIsoDate(),
@@ -493,6 +577,13 @@ export const loadPerspectiveConfig = (
 			}
 
 			const parsed = YAML.parse(source);
+			const whereError = findPerspectiveWhereError(parsed);
+			if (whereError !== null) {
+				throw new Error(
+					`Invalid where filter for perspective "${whereError.name}" in ${path}\n${whereError.message}`,
+				);
+			}
+
 			const config = parsePerspectiveConfig(parsed);
 			if (config === null) {
 				throw new Error(`Invalid perspective config in ${path}`);
@@ -592,6 +683,530 @@ export const buildDependencyChain = (
 	return { ancestors, target, descendants };
 };
 
+export const formatDependencyPath = (path: ReadonlyArray<string>): string =>
+	path.join(" → ");
+
+const collectDependencyCycles = (
+	tasks: ReadonlyArray<Task>,
+	startIds: ReadonlyArray<string>,
+	stopAtFirst: boolean,
+): Array<Array<string>> => {
+	const taskById = new Map(tasks.map((task) => [task.id, task]));
+	const state = new Map<string, "visiting" | "done">();
+	const stack: Array<string> = [];
+	const cycles: Array<Array<string>> = [];
+
+	const visit = (id: string): void => {
+		const task = taskById.get(id);
+		if (task === undefined || state.get(id) === "done") {
+			return;
+		}
+
+		state.set(id, "visiting");
+		stack.push(id);
+		for (const blockerId of task.blocked_by) {
+			if (stopAtFirst && cycles.length > 0) {
+				break;
+			}
+			if (state.get(blockerId) === "visiting") {
+				cycles.push([...stack.slice(stack.indexOf(blockerId)), blockerId]);
+				continue;
+			}
+			visit(blockerId);
+		}
+		stack.pop();
+		state.set(id, "done");
+	};
+
+	for (const id of startIds) {
+		if (stopAtFirst && cycles.length > 0) {
+			break;
+		}
+		visit(id);
+	}
+
+	return cycles;
+};
+
+/**
+ * Follows `blocked_by` edges and returns the first cycle found as a closed
+ * path (`[a, b, c, a]`), or null. Pass `startIds` to only look for cycles
+ * reachable from those tasks.
+ */
+export const findDependencyCycle = (
+	tasks: ReadonlyArray<Task>,
+	startIds: ReadonlyArray<string> = tasks.map((task) => task.id),
+): Array<string> | null =>
+	collectDependencyCycles(tasks, startIds, true)[0] ?? null;
+
+/**
+ * Returns a `blocked_by` cycle that passes through `id` as a closed path
+ * starting and ending at it, or null. Cycles elsewhere in the graph, even
+ * ones reachable from `id`, are ignored.
+ */
+export const findDependencyCycleThrough = (
+	tasks: ReadonlyArray<Task>,
+	id: string,
+): Array<string> | null => {
+	const taskById = new Map(tasks.map((task) => [task.id, task]));
+	// Tasks already explored without getting back to `id`.
+	const explored = new Set<string>();
+	const path: Array<string> = [id];
+
+	const visit = (current: string): boolean => {
+		for (const blockerId of taskById.get(current)?.blocked_by ?? []) {
+			if (blockerId === id) {
+				path.push(id);
+				return true;
+			}
+			if (explored.has(blockerId) || path.includes(blockerId)) {
+				continue;
+			}
+			path.push(blockerId);
+			if (visit(blockerId)) {
+				return true;
+			}
+			path.pop();
+			explored.add(blockerId);
+		}
+		return false;
+	};
+
+	return visit(id) ? path : null;
+};
+
+export type DependencyIssueKind =
+	| "self_block"
+	| "cycle"
+	| "missing"
+	| "template"
+	| "missing_parent"
+	| "parent_cycle";
+
+export interface DependencyIssue {
+	readonly kind: DependencyIssueKind;
+	readonly task_id: string;
+	/** The offending edge, or the closed cycle path for `cycle` issues. */
+	readonly path: ReadonlyArray<string>;
+	readonly message: string;
+}
+
+/**
+ * Reports every self-block, cycle, and missing or template blocker, plus
+ * dangling and cyclic `parent` links.
+ */
+export const auditDependencies = (
+	tasks: ReadonlyArray<Task>,
+): Array<DependencyIssue> => {
+	const taskById = new Map(tasks.map((task) => [task.id, task]));
+	const issues: Array<DependencyIssue> = [];
+
+	for (const task of tasks) {
+		for (const blockerId of task.blocked_by) {
+			const blocker = taskById.get(blockerId);
+			if (blockerId === task.id) {
+				issues.push({
+					kind: "self_block",
+					task_id: task.id,
+					path: [task.id, task.id],
+					message: `${task.id} is blocked by itself`,
+				});
+			} else if (blocker === undefined) {
+				issues.push({
+					kind: "missing",
+					task_id: task.id,
+					path: [task.id, blockerId],
+					message: `${task.id} is blocked by missing task ${blockerId}`,
+				});
+			} else if (blocker.is_template) {
+				issues.push({
+					kind: "template",
+					task_id: task.id,
+					path: [task.id, blockerId],
+					message: `${task.id} is blocked by template ${blockerId}`,
+				});
+			}
+		}
+	}
+
+	const seen = new Set<string>();
+	for (const cycle of collectDependencyCycles(
+		tasks,
+		tasks.map((task) => task.id),
+		false,
+	)) {
+		// Self-blocks are already reported above, and the same loop can be
+		// entered from any of its members.
+		if (cycle.length <= 2) {
+			continue;
+		}
+		const key = [...cycle.slice(1)].sort().join("\n");
+		if (seen.has(key)) {
+			continue;
+		}
+		seen.add(key);
+		issues.push({
+			kind: "cycle",
+			task_id: cycle[0],
+			path: cycle,
+			message: `Dependency cycle: ${formatDependencyPath(cycle)}`,
+		});
+	}
+
+	for (const task of tasks) {
+		if (task.parent !== null && !taskById.has(task.parent)) {
+			issues.push({
+				kind: "missing_parent",
+				task_id: task.id,
+				path: [task.id, task.parent],
+				message: `${task.id} has missing parent ${task.parent}`,
+			});
+			continue;
+		}
+
+		const cycle = findParentCycle(tasks, task.id);
+		if (cycle === null) {
+			continue;
+		}
+		const key = `parent\n${[...cycle.slice(1)].sort().join("\n")}`;
+		if (!seen.has(key)) {
+			seen.add(key);
+			issues.push({
+				kind: "parent_cycle",
+				task_id: task.id,
+				path: cycle,
+				message: `Parent cycle: ${formatDependencyPath(cycle)}`,
+			});
+		}
+	}
+
+	return issues;
+};
+
+/**
+ * Follows `parent` links upwards from `startId` and returns the closed path
+ * when they loop back to it, or null.
+ */
+export const findParentCycle = (
+	tasks: ReadonlyArray<Task>,
+	startId: string,
+): Array<string> | null => {
+	const parentById = new Map(tasks.map((task) => [task.id, task.parent]));
+	const path = [startId];
+	const seen = new Set(path);
+
+	for (
+		let parent = parentById.get(startId) ?? null;
+		parent !== null;
+		parent = parentById.get(parent) ?? null
+	) {
+		path.push(parent);
+		if (parent === startId) {
+			return path;
+		}
+		if (seen.has(parent)) {
+			// A loop further up that does not include the start task.
+			return null;
+		}
+		seen.add(parent);
+	}
+
+	return null;
+};
+
+export interface TaskTreeNode {
+	readonly task: Task;
+	readonly children: ReadonlyArray<TaskTreeNode>;
+}
+
+/**
+ * Nests tasks under their `parent`. With `rootId` only that subtree is
+ * returned; otherwise every task without a (known) parent becomes a root.
+ * Tasks caught in a parent cycle are surfaced as roots rather than dropped.
+ */
+export const buildTaskTree = (
+	tasks: ReadonlyArray<Task>,
+	rootId?: string,
+): Array<TaskTreeNode> => {
+	const taskIds = new Set(tasks.map((task) => task.id));
+	const childrenByParent = new Map<string, Array<Task>>();
+	for (const task of tasks) {
+		if (task.parent !== null && taskIds.has(task.parent)) {
+			childrenByParent.set(task.parent, [
+				...(childrenByParent.get(task.parent) ?? []),
+				task,
+			]);
+		}
+	}
+
+	const visited = new Set<string>();
+	const build = (task: Task): TaskTreeNode => {
+		visited.add(task.id);
+		return {
+			task,
+			children: (childrenByParent.get(task.id) ?? [])
+				.filter((child) => !visited.has(child.id))
+				.sort(byCreatedAsc)
+				.map(build),
+		};
+	};
+
+	if (rootId !== undefined) {
+		const root = tasks.find((task) => task.id === rootId);
+		return root === undefined ? [] : [build(root)];
+	}
+
+	const roots = tasks
+		.filter((task) => task.parent === null || !taskIds.has(task.parent))
+		.sort(byCreatedAsc)
+		.map(build);
+	for (const task of tasks) {
+		if (!visited.has(task.id)) {
+			roots.push(build(task));
+		}
+	}
+	return roots;
+};
+
+const treeStatusMarker = (status: string): string => {
+	switch (status) {
+		case "done":
+			return "[x]";
+		case "dropped":
+			return "[-]";
+		case "in_progress":
+			return "[~]";
+		default:
+			return "[ ]";
+	}
+};
+
+/** Renders a tree as indented text, one `[x] Title (id)` line per task. */
+export const formatTaskTree = (nodes: ReadonlyArray<TaskTreeNode>): string => {
+	const lines: Array<string> = [];
+	const walk = (
+		node: TaskTreeNode,
+		prefix: string,
+		connector: string,
+		childPrefix: string,
+	): void => {
+		lines.push(
+			`${prefix}${connector}${treeStatusMarker(node.task.status)} ${node.task.title} (${node.task.id})`,
+		);
+		node.children.forEach((child, index) => {
+			const last = index === node.children.length - 1;
+			walk(
+				child,
+				`${prefix}${childPrefix}`,
+				last ? "└── " : "├── ",
+				last ? "    " : "│   ",
+			);
+		});
+	};
+
+	for (const node of nodes) {
+		walk(node, "", "", "");
+	}
+	return lines.length === 0 ? "" : `${lines.join("\n")}\n`;
+};
+
+export interface ChildProgress {
+	readonly total: number;
+	readonly done: number;
+	readonly estimated_minutes: number;
+	readonly actual_minutes: number;
+}
+
+/**
+ * Rolls up every descendant of a task. Dropped descendants are left out of
+ * both the counts and the minute totals.
+ */
+export const summarizeChildProgress = (
+	parentId: string,
+	tasks: ReadonlyArray<Task>,
+): ChildProgress => {
+	const descendants: Array<Task> = [];
+	const visited = new Set([parentId]);
+	const pending = [parentId];
+	while (pending.length > 0) {
+		const id = pending.pop() as string;
+		for (const task of tasks) {
+			if (task.parent === id && !visited.has(task.id)) {
+				visited.add(task.id);
+				descendants.push(task);
+				pending.push(task.id);
+			}
+		}
+	}
+
+	const counted = descendants.filter((task) => task.status !== "dropped");
+	return {
+		total: counted.length,
+		done: counted.filter((task) => task.status === "done").length,
+		estimated_minutes: counted.reduce(
+			(sum, task) => sum + (task.estimated_minutes ?? 0),
+			0,
+		),
+		actual_minutes: counted.reduce(
+			(sum, task) => sum + (task.actual_minutes ?? 0),
+			0,
+		),
+	};
+};
+
+export interface ScheduledTask {
+	readonly id: string;
+	readonly title: string;
+	readonly estimated_minutes: number | null;
+	/** Work that has to finish before this task can start, in minutes. */
+	readonly earliest_start_minutes: number;
+	readonly earliest_finish_minutes: number;
+	readonly projected_finish: string;
+	readonly due: string | null;
+	/** Days between the projected finish and `due`; negative when late. */
+	readonly slack_days: number | null;
+	readonly due_infeasible: boolean;
+	/** The open blocker that finishes last, i.e. the one setting the start. */
+	readonly critical_blocker: string | null;
+}
+
+export interface CriticalPathReport {
+	readonly minutes_per_day: number;
+	readonly total_minutes: number;
+	readonly critical_path: ReadonlyArray<string>;
+	readonly tasks: ReadonlyArray<ScheduledTask>;
+	readonly infeasible: ReadonlyArray<string>;
+}
+
+export interface CriticalPathOptions {
+	readonly today?: string;
+	readonly minutesPerDay?: number;
+	readonly project?: string;
+}
+
+export const defaultMinutesPerDay = 480;
+
+const isClosed = (task: Task): boolean =>
+	task.status === "done" || task.status === "dropped";
+
+const daysBetween = (from: string, to: string): number =>
+	Math.round((dateToUtcMidnight(to) - dateToUtcMidnight(from)) / 86_400_000);
+
+/**
+ * Walks the `blocked_by` graph of open tasks and schedules each one as early
+ * as its blockers allow, assuming `minutesPerDay` of work per day starting
+ * today. Closed tasks take no time; missing estimates count as zero. Fails
+ * when `minutesPerDay` is not positive.
+ */
+export const computeCriticalPath = (
+	allTasks: ReadonlyArray<Task>,
+	options: CriticalPathOptions = {},
+): Either.Either<CriticalPathReport, string> => {
+	const today = options.today ?? currentIsoDate();
+	const minutesPerDay = options.minutesPerDay ?? defaultMinutesPerDay;
+	if (!(minutesPerDay > 0)) {
+		return Either.left(`minutesPerDay must be positive, got ${minutesPerDay}`);
+	}
+	const taskById = new Map(
+		allTasks
+			.filter((task) => !task.is_template && !isClosed(task))
+			.map((task) => [task.id, task]),
+	);
+	const finishById = new Map<string, number>();
+	const criticalBlockerById = new Map<string, string | null>();
+	const visiting = new Set<string>();
+	const order: Array<string> = [];
+
+	const finish = (id: string): number => {
+		const known = finishById.get(id);
+		if (known !== undefined) {
+			return known;
+		}
+		const task = taskById.get(id) as Task;
+
+		visiting.add(id);
+		let start = 0;
+		let criticalBlocker: string | null = null;
+		for (const blockerId of task.blocked_by) {
+			// Closed, missing and cyclic blockers hold nothing up.
+			if (!taskById.has(blockerId) || visiting.has(blockerId)) {
+				continue;
+			}
+			const blockerFinish = finish(blockerId);
+			if (criticalBlocker === null || blockerFinish > start) {
+				start = blockerFinish;
+				criticalBlocker = blockerId;
+			}
+		}
+		visiting.delete(id);
+
+		const total = start + (task.estimated_minutes ?? 0);
+		finishById.set(id, total);
+		criticalBlockerById.set(id, criticalBlocker);
+		order.push(id);
+		return total;
+	};
+
+	for (const id of taskById.keys()) {
+		finish(id);
+	}
+
+	const projectFinish = (minutes: number): string =>
+		addDays(today, Math.max(Math.ceil(minutes / minutesPerDay) - 1, 0));
+
+	const scheduled: Array<ScheduledTask> = order
+		.map((id) => taskById.get(id) as Task)
+		.filter(
+			(task) =>
+				options.project === undefined ||
+				task.projects.includes(options.project),
+		)
+		.map((task) => {
+			const finishMinutes = finishById.get(task.id) ?? 0;
+			const projected = projectFinish(finishMinutes);
+			const slack = task.due === null ? null : daysBetween(projected, task.due);
+			return {
+				id: task.id,
+				title: task.title,
+				estimated_minutes: task.estimated_minutes,
+				earliest_start_minutes: finishMinutes - (task.estimated_minutes ?? 0),
+				earliest_finish_minutes: finishMinutes,
+				projected_finish: projected,
+				due: task.due,
+				slack_days: slack,
+				due_infeasible: slack !== null && slack < 0,
+				critical_blocker: criticalBlockerById.get(task.id) ?? null,
+			};
+		});
+
+	const last = scheduled.reduce<ScheduledTask | null>(
+		(latest, task) =>
+			latest === null ||
+			task.earliest_finish_minutes > latest.earliest_finish_minutes
+				? task
+				: latest,
+		null,
+	);
+	const criticalPath: Array<string> = [];
+	for (
+		let id: string | null = last?.id ?? null;
+		id !== null;
+		id = criticalBlockerById.get(id) ?? null
+	) {
+		criticalPath.unshift(id);
+	}
+
+	return Either.right({
+		minutes_per_day: minutesPerDay,
+		total_minutes: last?.earliest_finish_minutes ?? 0,
+		critical_path: criticalPath,
+		tasks: scheduled,
+		infeasible: scheduled
+			.filter((task) => task.due_infeasible)
+			.map((task) => task.id),
+	});
+};
+
 export const listContexts = (
 	tasks: ReadonlyArray<Task>,
 ): Array<string> => {
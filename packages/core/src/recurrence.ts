@@ -210,6 +210,8 @@ export const buildCompletionRecurrenceTask = (
 			defer_until: deferUntil,
 			nudge_count: 0,
 			recurrence_last_generated: completedAt,
+			revision: 0,
+			external_id: null,
 		});
 	});
 };
@@ -291,6 +293,8 @@ export const buildNextClockRecurrenceTask = (
 			defer_until: null,
 			nudge_count: 0,
 			recurrence_last_generated: generatedAtIso,
+			revision: 0,
+			external_id: null,
 		});
 
 		let updatedCurrent: Task | null = null;
@@ -306,6 +310,7 @@ export const buildNextClockRecurrenceTask = (
 				status: "dropped",
 				updated: generatedDate,
 				recurrence_last_generated: generatedAtIso,
+				revision: existingTask.revision + 1,
 			});
 			shouldReplaceCurrent = true;
 		}
@@ -315,6 +320,7 @@ export const buildNextClockRecurrenceTask = (
 				...existingTask,
 				updated: generatedDate,
 				recurrence_last_generated: generatedAtIso,
+				revision: existingTask.revision + 1,
 			});
 		}
 
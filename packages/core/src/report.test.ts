@@ -0,0 +1,165 @@
+import { describe, expect, it } from "bun:test";
+import type { Project } from "./schema.js";
+import {
+	buildReport,
+	renderReportHtml,
+	renderReportMarkdown,
+} from "./report.js";
+import { makeTask } from "./test-fixtures.js";
+
+const tasks = [
+	makeTask({
+		id: "ship",
+		title: "Ship <release>",
+		status: "in_progress",
+		projects: ["launch"],
+		due: "2026-10-20",
+		priority: 1,
+		tags: ["q4"],
+		description: "Cut the tag\nthen announce",
+		subtasks: [
+			{ text: "Changelog", done: true },
+			{ text: "Binaries", done: false },
+		],
+		blocked_by: ["review", "gone"],
+		comments: [{ text: "After QA", author: "ana", created: "2026-10-02" }],
+	}),
+	makeTask({ id: "chores", area: "home" }),
+	makeTask({ id: "retro", status: "done", projects: ["launch", "team"] }),
+];
+const review = makeTask({ id: "review", title: "Review copy" });
+const projects: Array<Project> = [
+	{
+		id: "launch",
+		title: "Product launch",
+		status: "active",
+		area: "work",
+		description: "",
+		tags: [],
+		created: "2026-10-01",
+		updated: "2026-10-01",
+	},
+];
+const now = new Date("2026-10-19T08:30:00.000Z");
+
+describe("buildReport", () => {
+	it("groups by project with titles, listing shared tasks under each", () => {
+		const report = buildReport(tasks, {
+			title: "Weekly",
+			allTasks: [...tasks, review],
+			projects,
+			now,
+		});
+
+		expect(
+			report.sections.map((section) => [
+				section.label,
+				section.tasks.map((entry) => entry.task.id),
+			]),
+		).toEqual([
+			["Product launch", ["ship", "retro"]],
+			["team", ["retro"]],
+			["No project", ["chores"]],
+		]);
+		expect(report.sections[0].tasks[0].blockers).toEqual([
+			{ id: "review", title: "Review copy", status: "active" },
+			{ id: "gone", title: null, status: null },
+		]);
+		expect(report.task_count).toBe(3);
+	});
+
+	it("orders status sections by workflow and areas alphabetically", () => {
+		const byStatus = buildReport(tasks, { title: "x", groupBy: "status" });
+		const byArea = buildReport(tasks, { title: "x", groupBy: "area" });
+
+		expect(byStatus.sections.map((section) => section.key)).toEqual([
+			"in_progress",
+			"active",
+			"done",
+		]);
+		expect(byArea.sections.map((section) => section.key)).toEqual([
+			"home",
+			"work",
+		]);
+	});
+});
+
+describe("report rendering", () => {
+	const report = buildReport(tasks.slice(0, 1), {
+		title: "Weekly",
+		allTasks: [...tasks, review],
+		projects,
+		now,
+	});
+
+	it("renders Markdown with checkboxes, blockers and comments", () => {
+		expect(renderReportMarkdown(report)).toBe(
+			[
+				"# Weekly",
+				"",
+				"Generated 2026-10-19 08:30 UTC · 1 task",
+				"",
+				"## Product launch (1)",
+				"",
+				"### Ship \\<release\\>",
+				"",
+				"`ship` · in\\_progress · due 2026-10-20 · p1 · tags q4",
+				"",
+				"Cut the tag",
+				"then announce",
+				"",
+				"- [x] Changelog",
+				"- [ ] Binaries",
+				"",
+				"Blocked by:",
+				"",
+				"- Review copy (review, active)",
+				"- gone (missing)",
+				"",
+				"Comments:",
+				"",
+				"- **ana** (2026-10-02): After QA",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("escapes descriptions and comments in Markdown", () => {
+		const markdown = renderReportMarkdown(
+			buildReport(
+				[
+					makeTask({
+						id: "imported",
+						description: "<img src=x onerror=alert(1)>\n# Not a heading",
+						comments: [
+							{ text: "*loud*\n<b>hi</b>", author: "", created: "2026-10-02" },
+						],
+					}),
+				],
+				{ title: "Imported", now },
+			),
+		);
+
+		expect(markdown).toContain(
+			"\\<img src=x onerror=alert(1)\\>\n\\# Not a heading",
+		);
+		expect(markdown).toContain(
+			"- (2026-10-02): \\*loud\\*\n  \\<b\\>hi\\</b\\>",
+		);
+	});
+
+	it("renders a self-contained, escaped HTML page", () => {
+		const html = renderReportHtml(report);
+
+		expect(html.startsWith("<!DOCTYPE html>\n")).toBe(true);
+		expect(html).toContain("<style>");
+		expect(html).not.toMatch(/<link|<script|src=/);
+		expect(html).toContain("<h3>Ship &lt;release&gt;</h3>");
+		expect(html).toContain('<li class="done">☑ Changelog</li>');
+		expect(html).toContain("<li>☐ Binaries</li>");
+		expect(html).toContain("<li>gone (missing)</li>");
+		expect(html).toContain(
+			'<li><strong>ana</strong> (2026-10-02): <span class="description">After QA</span></li>',
+		);
+	});
+});
@@ -0,0 +1,308 @@
+import type { Project, Task } from "./schema.js";
+
+export type ReportGroupBy = "project" | "area" | "status";
+
+export const reportGroupings: ReadonlyArray<ReportGroupBy> = [
+	"project",
+	"area",
+	"status",
+];
+
+export type ReportFormat = "md" | "html";
+
+export const reportFormats: ReadonlyArray<ReportFormat> = ["md", "html"];
+
+/** Key of the section holding tasks without a project. */
+export const reportNoneKey = "(none)";
+
+export interface ReportOptions {
+	readonly title: string;
+	readonly groupBy?: ReportGroupBy;
+	/** Tasks blockers are looked up in; defaults to the reported tasks. */
+	readonly allTasks?: ReadonlyArray<Task>;
+	/** Used to show project titles instead of ids. */
+	readonly projects?: ReadonlyArray<Project>;
+	readonly now?: Date;
+}
+
+export interface ReportBlocker {
+	readonly id: string;
+	/** Null when the blocking task no longer exists. */
+	readonly title: string | null;
+	readonly status: string | null;
+}
+
+export interface ReportTask {
+	readonly task: Task;
+	readonly blockers: ReadonlyArray<ReportBlocker>;
+}
+
+export interface ReportSection {
+	readonly key: string;
+	readonly label: string;
+	readonly tasks: ReadonlyArray<ReportTask>;
+}
+
+export interface Report {
+	readonly title: string;
+	readonly generated_at: string;
+	readonly group_by: ReportGroupBy;
+	readonly task_count: number;
+	readonly sections: ReadonlyArray<ReportSection>;
+}
+
+const statusOrder = ["in_progress", "active", "backlog", "done", "dropped"];
+
+const sectionKeys = (task: Task, groupBy: ReportGroupBy): ReadonlyArray<string> => {
+	switch (groupBy) {
+		case "project":
+			return task.projects.length > 0 ? task.projects : [reportNoneKey];
+		case "area":
+			return [task.area];
+		case "status":
+			return [task.status];
+	}
+};
+
+const compareSections = (
+	groupBy: ReportGroupBy,
+	a: ReportSection,
+	b: ReportSection,
+): number => {
+	if (groupBy === "status") {
+		const rank = (key: string) => {
+			const index = statusOrder.indexOf(key);
+			return index === -1 ? statusOrder.length : index;
+		};
+		const byRank = rank(a.key) - rank(b.key);
+		if (byRank !== 0) {
+			return byRank;
+		}
+	}
+	if ((a.key === reportNoneKey) !== (b.key === reportNoneKey)) {
+		return a.key === reportNoneKey ? 1 : -1;
+	}
+	return a.label.localeCompare(b.label);
+};
+
+/**
+ * Groups tasks into report sections, keeping the order they were given in
+ * within each section. A task in several projects appears under each of
+ * them; tasks without one are gathered under "No project".
+ */
+export const buildReport = (
+	tasks: ReadonlyArray<Task>,
+	options: ReportOptions,
+): Report => {
+	const groupBy = options.groupBy ?? "project";
+	const byId = new Map(
+		(options.allTasks ?? tasks).map((task) => [task.id, task]),
+	);
+	const projectTitles = new Map(
+		(options.projects ?? []).map((project) => [project.id, project.title]),
+	);
+	const sections = new Map<string, Array<ReportTask>>();
+
+	for (const task of tasks) {
+		const entry: ReportTask = {
+			task,
+			blockers: task.blocked_by.map((id) => {
+				const blocker = byId.get(id);
+				return {
+					id,
+					title: blocker?.title ?? null,
+					status: blocker?.status ?? null,
+				};
+			}),
+		};
+		for (const key of sectionKeys(task, groupBy)) {
+			sections.set(key, [...(sections.get(key) ?? []), entry]);
+		}
+	}
+
+	return {
+		title: options.title,
+		generated_at: (options.now ?? new Date()).toISOString(),
+		group_by: groupBy,
+		task_count: tasks.length,
+		sections: [...sections.entries()]
+			.map(([key, sectionTasks]) => ({
+				key,
+				label:
+					key === reportNoneKey
+						? "No project"
+						: groupBy === "project"
+							? (projectTitles.get(key) ?? key)
+							: key,
+				tasks: sectionTasks,
+			}))
+			.sort((a, b) => compareSections(groupBy, a, b)),
+	};
+};
+
+/** The status, due date, priority, assignee and tags shown under a title. */
+const taskFacts = (task: Task): Array<string> => [
+	task.status,
+	...(task.due !== null ? [`due ${task.due}`] : []),
+	...(task.defer_until !== null ? [`deferred until ${task.defer_until}`] : []),
+	...(task.priority !== null ? [`p${task.priority}`] : []),
+	...(task.assignee !== null ? [`assignee ${task.assignee}`] : []),
+	...(task.tags.length > 0 ? [`tags ${task.tags.join(", ")}`] : []),
+];
+
+const blockerLabel = (blocker: ReportBlocker): string =>
+	blocker.title === null
+		? `${blocker.id} (missing)`
+		: `${blocker.title} (${blocker.id}, ${blocker.status})`;
+
+const generatedLine = (report: Report): string =>
+	`Generated ${report.generated_at.slice(0, 16).replace("T", " ")} UTC · ${report.task_count} ${report.task_count === 1 ? "task" : "tasks"}`;
+
+const escapeMarkdown = (value: string): string =>
+	value.replace(/([\\`*_[\]<>#|])/g, "\\$1");
+
+const renderTaskMarkdown = ({ task, blockers }: ReportTask): Array<string> => [
+	`### ${escapeMarkdown(task.title)}`,
+	"",
+	`\`${task.id}\` · ${escapeMarkdown(taskFacts(task).join(" · "))}`,
+	...(task.description.trim().length > 0
+		? ["", escapeMarkdown(task.description.trim())]
+		: []),
+	...(task.subtasks.length > 0
+		? [
+				"",
+				...task.subtasks.map(
+					(subtask) =>
+						`- [${subtask.done ? "x" : " "}] ${escapeMarkdown(subtask.text)}`,
+				),
+			]
+		: []),
+	...(blockers.length > 0
+		? [
+				"",
+				"Blocked by:",
+				"",
+				...blockers.map((blocker) => `- ${escapeMarkdown(blockerLabel(blocker))}`),
+			]
+		: []),
+	...(task.comments.length > 0
+		? [
+				"",
+				"Comments:",
+				"",
+				...task.comments.map((comment) => {
+					const by =
+						comment.author.length > 0
+							? `**${escapeMarkdown(comment.author)}** `
+							: "";
+					// Continuation lines are indented to stay inside the list item.
+					const text = escapeMarkdown(comment.text.trim()).replace(
+						/\r?\n/g,
+						"\n  ",
+					);
+					return `- ${by}(${comment.created}): ${text}`;
+				}),
+			]
+		: []),
+	"",
+];
+
+/** Renders a report as Markdown, with subtasks as task-list checkboxes. */
+export const renderReportMarkdown = (report: Report): string =>
+	[
+		`# ${escapeMarkdown(report.title)}`,
+		"",
+		generatedLine(report),
+		"",
+		...report.sections.flatMap((section) => [
+			`## ${escapeMarkdown(section.label)} (${section.tasks.length})`,
+			"",
+			...section.tasks.flatMap(renderTaskMarkdown),
+		]),
+	].join("\n");
+
+const escapeHtml = (value: string): string =>
+	value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+
+// The stylesheet is embedded so the page needs nothing besides itself.
+const htmlStyle = [
+	"body{font-family:system-ui,-apple-system,sans-serif;max-width:48rem;margin:2rem auto;padding:0 1rem;color:#1f2328;line-height:1.5}",
+	"h2{border-bottom:1px solid #d0d7de;padding-bottom:.25rem;margin-top:2rem}",
+	"h3{margin-bottom:.25rem}",
+	".meta{color:#59636e;font-size:.9rem;margin-top:0}",
+	".description{white-space:pre-wrap}",
+	"ul.subtasks{list-style:none;padding-left:0}",
+	".done{color:#59636e;text-decoration:line-through}",
+	"code{font-size:.85rem;background:#f6f8fa;padding:0 .25rem;border-radius:3px}",
+].join("");
+
+const renderTaskHtml = ({ task, blockers }: ReportTask): Array<string> => [
+	"<article>",
+	`<h3>${escapeHtml(task.title)}</h3>`,
+	`<p class="meta"><code>${escapeHtml(task.id)}</code> · ${escapeHtml(taskFacts(task).join(" · "))}</p>`,
+	...(task.description.trim().length > 0
+		? [`<p class="description">${escapeHtml(task.description.trim())}</p>`]
+		: []),
+	...(task.subtasks.length > 0
+		? [
+				'<ul class="subtasks">',
+				...task.subtasks.map((subtask) =>
+					subtask.done
+						? `<li class="done">☑ ${escapeHtml(subtask.text)}</li>`
+						: `<li>☐ ${escapeHtml(subtask.text)}</li>`,
+				),
+				"</ul>",
+			]
+		: []),
+	...(blockers.length > 0
+		? [
+				"<p><strong>Blocked by:</strong></p>",
+				"<ul>",
+				...blockers.map((blocker) => `<li>${escapeHtml(blockerLabel(blocker))}</li>`),
+				"</ul>",
+			]
+		: []),
+	...(task.comments.length > 0
+		? [
+				"<p><strong>Comments:</strong></p>",
+				"<ul>",
+				...task.comments.map((comment) => {
+					const by =
+						comment.author.length > 0
+							? `<strong>${escapeHtml(comment.author)}</strong> `
+							: "";
+					const text = escapeHtml(comment.text.trim());
+					return `<li>${by}(${escapeHtml(comment.created)}): <span class="description">${text}</span></li>`;
+				}),
+				"</ul>",
+			]
+		: []),
+	"</article>",
+];
+
+/** Renders a report as a self-contained HTML page. */
+export const renderReportHtml = (report: Report): string =>
+	`${[
+		"<!DOCTYPE html>",
+		'<html lang="en">',
+		"<head>",
+		'<meta charset="utf-8">',
+		`<title>${escapeHtml(report.title)}</title>`,
+		`<style>${htmlStyle}</style>`,
+		"</head>",
+		"<body>",
+		`<h1>${escapeHtml(report.title)}</h1>`,
+		`<p class="meta">${escapeHtml(generatedLine(report))}</p>`,
+		...report.sections.flatMap((section) => [
+			"<section>",
+			`<h2>${escapeHtml(section.label)} (${section.tasks.length})</h2>`,
+			...section.tasks.flatMap(renderTaskHtml),
+			"</section>",
+		]),
+		"</body>",
+		"</html>",
+	].join("\n")}\n`;
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "bun:test";
 import {
+	appendFile,
 	chmod,
 	mkdtemp,
 	mkdir,
@@ -11,6 +12,7 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import * as Cause from "effect/Cause";
 import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
 import * as Exit from "effect/Exit";
 import * as Option from "effect/Option";
 import YAML from "yaml";
@@ -37,6 +39,12 @@ import {
 	type TaskRepositoryService,
 	todayIso,
 } from "./repository.js";
+import {
+	appendJournalEntry,
+	readJournal,
+	undoJournal,
+	type JournalTaskStore,
+} from "./journal.js";
 
 const isoDatePattern = /^\d{4}-\d{2}-\d{2}$/;
 
@@ -78,6 +86,8 @@ const baseTask = (): Task => ({
 	close_reason: null,
 	description: "",
 	comments: [],
+	revision: 0,
+	external_id: null,
 });
 
 const baseWorkLogEntry = (): WorkLogEntry => ({
@@ -98,6 +108,7 @@ const makeRepositoryService = (
 	getTask: () => unexpectedCall(),
 	createTask: () => unexpectedCall(),
 	updateTask: () => unexpectedCall(),
+	claimTask: () => unexpectedCall(),
 	completeTask: () => unexpectedCall(),
 	generateNextRecurrence: () => unexpectedCall(),
 	processDueRecurrences: () => unexpectedCall(),
@@ -105,6 +116,7 @@ const makeRepositoryService = (
 	setDailyHighlight: () => unexpectedCall(),
 	getDailyHighlight: () => Effect.succeed(null),
 	listStale: () => unexpectedCall(),
+	markSurfaced: () => unexpectedCall(),
 	listWorkLog: () => unexpectedCall(),
 	createWorkLogEntry: () => unexpectedCall(),
 	updateWorkLogEntry: () => unexpectedCall(),
@@ -120,6 +132,10 @@ const makeRepositoryService = (
 	listContexts: () => Effect.succeed([]),
 	getRelated: () => unexpectedCall(),
 	instantiateTemplate: () => unexpectedCall(),
+	getTaskHistory: () => Effect.succeed([]),
+	listHistory: () => Effect.succeed([]),
+	undo: () => unexpectedCall(),
+	redo: () => unexpectedCall(),
 	...overrides,
 });
 
@@ -140,6 +156,53 @@ const runDiscoverHooks = (
 ): Promise<Array<string>> =>
 	Effect.runPromise(discoverHooksForEvent(event, options));
 
+describe("markSurfaced", () => {
+	it("records a task once a day without journal, history or revision", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-surfaced-"));
+		try {
+			await writeTaskFiles(dataDir, [{ ...baseTask(), id: "a", title: "A" }]);
+			await runRepository(dataDir, (repository) =>
+				repository.updateTask("a", { title: "Renamed" }),
+			);
+			const renamed = await runRepository(dataDir, (repository) =>
+				repository.getTask("a"),
+			);
+
+			const first = await runRepository(dataDir, (repository) =>
+				repository.markSurfaced(["a", "a"], "2026-02-21"),
+			);
+			const second = await runRepository(dataDir, (repository) =>
+				repository.markSurfaced(["a"], "2026-02-21"),
+			);
+			expect(first).toHaveLength(2);
+			expect(second[0]).toEqual({
+				...renamed,
+				last_surfaced: "2026-02-21",
+				nudge_count: renamed.nudge_count + 1,
+			});
+
+			const history = await runRepository(dataDir, (repository) =>
+				repository.getTaskHistory("a"),
+			);
+			expect(history.map((event) => event.event)).toEqual(["updated"]);
+
+			const undone = await runRepository(dataDir, (repository) =>
+				repository.undo(),
+			);
+			expect(undone.map((entry) => entry.operation)).toEqual(["update"]);
+			expect(
+				await runRepository(dataDir, (repository) => repository.getTask("a")),
+			).toMatchObject({
+				title: "A",
+				last_surfaced: "2026-02-21",
+				nudge_count: renamed.nudge_count + 1,
+			});
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+});
+
 const addDaysToIsoDate = (date: string, days: number): string => {
 	const next = new Date(`${date}T00:00:00.000Z`);
 	next.setUTCDate(next.getUTCDate() + days);
@@ -308,6 +371,19 @@ describe("repository pure helpers", () => {
 		expect(patched.created).toBe(task.created);
 	});
 
+	it("applyTaskPatch keeps updated when only surfacing fields change", () => {
+		const task = { ...baseTask(), updated: "2026-01-01" };
+		const patched = applyTaskPatch(task, {
+			last_surfaced: "2026-02-20",
+			nudge_count: 3,
+		});
+
+		expect(patched.updated).toBe("2026-01-01");
+		expect(patched.last_surfaced).toBe("2026-02-20");
+		expect(patched.nudge_count).toBe(3);
+		expect(patched.revision).toBe(task.revision + 1);
+	});
+
 	it("applyTaskPatch strips from_template from patch to enforce read-only", () => {
 		const task = { ...baseTask(), from_template: "original-template" };
 		const patched = applyTaskPatch(task, {
@@ -873,6 +949,7 @@ describe("TaskRepository service", () => {
 		);
 
 		expect(methodNames).toEqual([
+			"claimTask",
 			"completeTask",
 			"createProject",
 			"createTask",
@@ -885,17 +962,22 @@ describe("TaskRepository service", () => {
 			"getProject",
 			"getRelated",
 			"getTask",
+			"getTaskHistory",
 			"importProject",
 			"importTask",
 			"importWorkLogEntry",
 			"instantiateTemplate",
 			"listContexts",
+			"listHistory",
 			"listProjects",
 			"listStale",
 			"listTasks",
 			"listWorkLog",
+			"markSurfaced",
 			"processDueRecurrences",
+			"redo",
 			"setDailyHighlight",
+			"undo",
 			"updateProject",
 			"updateTask",
 			"updateWorkLogEntry",
@@ -2509,6 +2591,25 @@ describe("applyListTaskFilters with new filters", () => {
 		const result = applyListTaskFilters(makeTasks(), { include_templates: true });
 		expect(result.map((t) => t.id)).toContain("template");
 	});
+
+	it("filters by a where expression", () => {
+		const result = applyListTaskFilters(makeTasks(), {
+			where: {
+				kind: "and",
+				left: {
+					kind: "compare",
+					field: "estimated_minutes",
+					operator: ">=",
+					value: "30",
+				},
+				right: {
+					kind: "not",
+					operand: { kind: "match", field: "context", value: "@work" },
+				},
+			},
+		});
+		expect(result.map((t) => t.id)).toEqual(["long"]);
+	});
 });
 
 describe("buildInstanceFromTemplate", () => {
@@ -2660,3 +2761,832 @@ describe("listContexts via repository", () => {
 		}
 	});
 });
+
+describe("task history", () => {
+	it("records create, field-level update, and delete events in order", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-history-"));
+		try {
+			const options = { dataDir, actor: "simon" };
+			const created = await runRepositoryWithOptions(options, (repository) =>
+				repository.createTask({ title: "Audit me", priority: 3 }),
+			);
+			await runRepositoryWithOptions(options, (repository) =>
+				repository.updateTask(created.id, { priority: 1, title: "Audit me" }),
+			);
+			await runRepositoryWithOptions(options, (repository) =>
+				repository.deleteTask(created.id),
+			);
+
+			const history = await runRepository(dataDir, (repository) =>
+				repository.getTaskHistory(created.id),
+			);
+
+			expect(history.map((event) => event.event)).toEqual([
+				"created",
+				"updated",
+				"deleted",
+			]);
+			expect(history.every((event) => event.actor === "simon")).toBe(true);
+			expect(history[0]?.changes).toContainEqual({
+				field: "priority",
+				from: null,
+				to: 3,
+			});
+			expect(history[1]?.changes).toEqual([
+				{ field: "priority", from: 3, to: 1 },
+			]);
+			expect(history[2]?.changes).toEqual([]);
+
+			await runRepository(dataDir, (repository) =>
+				repository.createTask({ title: "Audit me too" }),
+			);
+			const all = await runRepository(dataDir, (repository) =>
+				repository.listHistory(),
+			);
+			expect(all.map((event) => event.event)).toEqual([
+				"created",
+				"updated",
+				"deleted",
+				"created",
+			]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("skips updates that change nothing", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-history-noop-"));
+		try {
+			await writeTaskFiles(dataDir, [baseTask()]);
+			await runRepository(dataDir, (repository) =>
+				repository.updateTask("revive-unzen", { title: "Revive unzen server" }),
+			);
+
+			const history = await runRepository(dataDir, (repository) =>
+				repository.getTaskHistory("revive-unzen"),
+			);
+			expect(history).toEqual([]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("records completion and the generated recurrence with its source task", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-history-recur-"));
+		try {
+			await writeTaskFiles(dataDir, [
+				{
+					...baseTask(),
+					recurrence: "FREQ=WEEKLY",
+					recurrence_trigger: "completion",
+				},
+			]);
+
+			const completed = await runRepository(dataDir, (repository) =>
+				repository.completeTask("revive-unzen"),
+			);
+			const tasks = await runRepository(dataDir, (repository) =>
+				repository.listTasks(),
+			);
+			const next = tasks.find((task) => task.id !== "revive-unzen");
+			if (next === undefined) {
+				throw new Error("Expected a generated recurrence task");
+			}
+
+			const completedHistory = await runRepository(dataDir, (repository) =>
+				repository.getTaskHistory("revive-unzen"),
+			);
+			expect(completedHistory).toHaveLength(1);
+			expect(completedHistory[0]?.event).toBe("completed");
+			expect(completedHistory[0]?.at).toBe(completed.completed_at ?? "");
+			expect(completedHistory[0]?.changes).toContainEqual({
+				field: "status",
+				from: "active",
+				to: "done",
+			});
+
+			const nextHistory = await runRepository(dataDir, (repository) =>
+				repository.getTaskHistory(next.id),
+			);
+			expect(nextHistory).toHaveLength(1);
+			expect(nextHistory[0]?.event).toBe("recurrence_generated");
+			expect(nextHistory[0]?.source_id).toBe("revive-unzen");
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("stores the log as JSON lines next to the task data", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-history-file-"));
+		try {
+			await runRepository(dataDir, (repository) =>
+				repository.createTask({ title: "Logged" }),
+			);
+
+			const source = await readFile(join(dataDir, "history.jsonl"), "utf8");
+			const lines = source.trim().split("\n");
+			expect(lines).toHaveLength(1);
+			expect(JSON.parse(lines[0] ?? "{}").event).toBe("created");
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("skips history lines cut short by an interrupted append", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-history-torn-"));
+		try {
+			const created = await runRepository(dataDir, (repository) =>
+				repository.createTask({ title: "Logged" }),
+			);
+			await appendFile(
+				join(dataDir, "history.jsonl"),
+				'{"task_id":"a","event":"upd',
+				"utf8",
+			);
+
+			const history = await runRepository(dataDir, (repository) =>
+				repository.listHistory(),
+			);
+			expect(history.map((event) => [event.task_id, event.event])).toEqual([
+				[created.id, "created"],
+			]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("rejects history records with an unknown event kind", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-history-kind-"));
+		try {
+			await writeFile(
+				join(dataDir, "history.jsonl"),
+				`${JSON.stringify({
+					task_id: "a",
+					event: "renamed",
+					at: "2026-02-20T10:00:00.000Z",
+					actor: null,
+					source_id: null,
+					changes: [],
+				})}\n`,
+				"utf8",
+			);
+
+			const result = await runRepositoryExit(dataDir, (repository) =>
+				repository.getTaskHistory("a"),
+			);
+			expect(Exit.isFailure(result)).toBe(true);
+			if (Exit.isFailure(result)) {
+				const failure = Option.getOrNull(Cause.failureOption(result.cause));
+				expect(failure).toContain("Invalid history record");
+			}
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("undo and redo", () => {
+	it("puts back what it wrote when a later write fails", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-undo-rollback-"));
+		try {
+			const first = { ...baseTask(), id: "first" };
+			const second = { ...baseTask(), id: "second" };
+			const done = (task: Task): Task => ({
+				...task,
+				status: "done",
+				revision: task.revision + 1,
+			});
+			const tasks = new Map([
+				["first", done(first)],
+				["second", done(second)],
+			]);
+			const store: JournalTaskStore = {
+				read: (id) => Effect.succeed(tasks.get(id) ?? null),
+				write: (task) =>
+					task.id === "first" && task.status === "active"
+						? Effect.fail("disk full")
+						: Effect.sync(() => {
+								tasks.set(task.id, task);
+							}),
+				remove: (id) =>
+					Effect.sync(() => {
+						tasks.delete(id);
+					}),
+			};
+			await Effect.runPromise(
+				appendJournalEntry(dataDir, "complete", [
+					{ id: "first", before: first, after: done(first) },
+					{ id: "second", before: second, after: done(second) },
+				]),
+			);
+
+			const result = await Effect.runPromise(
+				Effect.either(undoJournal(dataDir, 1, store, null)),
+			);
+
+			expect(result).toEqual(Either.left("disk full"));
+			expect(tasks.get("second")).toEqual(done(second));
+			expect(
+				(await Effect.runPromise(readJournal(dataDir))).map(
+					(entry) => entry.undone,
+				),
+			).toEqual([false]);
+			expect(
+				await runRepository(dataDir, (repository) => repository.listHistory()),
+			).toEqual([]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("undo restores the prior record at a new revision and redo re-applies it", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-undo-update-"));
+		try {
+			await writeTaskFiles(dataDir, [baseTask()]);
+			const original = await runRepository(dataDir, (repository) =>
+				repository.getTask("revive-unzen"),
+			);
+			const updated = await runRepository(dataDir, (repository) =>
+				repository.updateTask("revive-unzen", { status: "dropped" }),
+			);
+
+			const undone = await runRepository(dataDir, (repository) =>
+				repository.undo(),
+			);
+			expect(undone.map((entry) => entry.operation)).toEqual(["update"]);
+			expect(
+				await runRepository(dataDir, (repository) =>
+					repository.getTask("revive-unzen"),
+				),
+			).toEqual({ ...original, revision: updated.revision + 1 });
+
+			const stale = await runRepositoryExit(dataDir, (repository) =>
+				repository.updateTask("revive-unzen", {
+					title: "Stale client",
+					revision: original.revision,
+				}),
+			);
+			expect(Exit.isFailure(stale)).toBe(true);
+
+			await runRepository(dataDir, (repository) => repository.redo());
+			expect(
+				await runRepository(dataDir, (repository) =>
+					repository.getTask("revive-unzen"),
+				),
+			).toEqual({ ...updated, revision: updated.revision + 2 });
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("undo brings back a deleted task", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-undo-delete-"));
+		try {
+			await writeTaskFiles(dataDir, [baseTask()]);
+			await runRepository(dataDir, (repository) =>
+				repository.deleteTask("revive-unzen"),
+			);
+			await runRepository(dataDir, (repository) => repository.undo());
+
+			const restored = await runRepository(dataDir, (repository) =>
+				repository.getTask("revive-unzen"),
+			);
+			expect(restored).toEqual({
+				...baseTask(),
+				revision: baseTask().revision + 1,
+			});
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("undoing a completion also removes the generated recurrence task", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-undo-complete-"));
+		try {
+			const recurring = {
+				...baseTask(),
+				recurrence: "FREQ=DAILY",
+				recurrence_trigger: "completion",
+			};
+			await writeTaskFiles(dataDir, [recurring]);
+			await runRepository(dataDir, (repository) =>
+				repository.completeTask("revive-unzen"),
+			);
+			expect(await runListTasks(dataDir)).toHaveLength(2);
+
+			await runRepository(dataDir, (repository) => repository.undo());
+
+			const tasks = await runListTasks(dataDir);
+			expect(tasks).toEqual([
+				{ ...recurring, revision: recurring.revision + 2 },
+			]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("undoes several steps at once in reverse order", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-undo-steps-"));
+		try {
+			const created = await runRepository(dataDir, (repository) =>
+				repository.createTask({ title: "Two step" }),
+			);
+			await runRepository(dataDir, (repository) =>
+				repository.updateTask(created.id, { title: "Renamed" }),
+			);
+
+			const undone = await runRepository(dataDir, (repository) =>
+				repository.undo(2),
+			);
+			expect(undone.map((entry) => entry.operation)).toEqual([
+				"update",
+				"create",
+			]);
+			expect(await runListTasks(dataDir)).toEqual([]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("refuses to undo when the task changed outside the journal", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-undo-conflict-"));
+		try {
+			await writeTaskFiles(dataDir, [baseTask()]);
+			await runRepository(dataDir, (repository) =>
+				repository.updateTask("revive-unzen", { title: "Journaled" }),
+			);
+			await writeTaskFiles(dataDir, [{ ...baseTask(), title: "Hand edited" }]);
+
+			const exit = await runRepositoryExit(dataDir, (repository) =>
+				repository.undo(),
+			);
+			expect(Exit.isFailure(exit)).toBe(true);
+			if (Exit.isFailure(exit)) {
+				expect(Option.getOrNull(Cause.failureOption(exit.cause))).toContain(
+					"has changed since",
+				);
+			}
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("a new mutation clears the redo stack", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-redo-cleared-"));
+		try {
+			await writeTaskFiles(dataDir, [baseTask()]);
+			await runRepository(dataDir, (repository) =>
+				repository.updateTask("revive-unzen", { title: "First" }),
+			);
+			await runRepository(dataDir, (repository) => repository.undo());
+			await runRepository(dataDir, (repository) =>
+				repository.updateTask("revive-unzen", { title: "Second" }),
+			);
+
+			const exit = await runRepositoryExit(dataDir, (repository) =>
+				repository.redo(),
+			);
+			expect(Exit.isFailure(exit)).toBe(true);
+			if (Exit.isFailure(exit)) {
+				expect(Option.getOrNull(Cause.failureOption(exit.cause))).toBe(
+					"Nothing to redo",
+				);
+			}
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("undoes a template instance and a generated recurrence", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-undo-generated-"));
+		try {
+			await writeTaskFiles(dataDir, [
+				{
+					...baseTask(),
+					recurrence: "FREQ=WEEKLY;BYDAY=MO",
+					recurrence_trigger: "clock",
+					recurrence_strategy: "replace",
+					recurrence_last_generated: null,
+				},
+				{
+					...baseTask(),
+					id: "weekly-prep",
+					title: "Weekly Prep",
+					is_template: true,
+					recurrence: null,
+				},
+			]);
+
+			const next = await runRepository(dataDir, (repository) =>
+				repository.generateNextRecurrence("revive-unzen"),
+			);
+			const instance = await runRepository(dataDir, (repository) =>
+				repository.instantiateTemplate("weekly-prep"),
+			);
+
+			const undone = await runRepository(dataDir, (repository) =>
+				repository.undo(2),
+			);
+			expect(undone.map((entry) => entry.operation)).toEqual([
+				"create",
+				"recur",
+			]);
+
+			const tasks = await runRepository(dataDir, (repository) =>
+				repository.listTasks({ include_templates: true }),
+			);
+			const ids = tasks.map((task) => task.id);
+			expect(ids).not.toContain(next.id);
+			expect(ids).not.toContain(instance.id);
+			expect(tasks.find((task) => task.id === "revive-unzen")?.status).toBe(
+				"active",
+			);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("dependency validation", () => {
+	const failureOf = async (
+		dataDir: string,
+		run: (repository: TaskRepositoryService) => Effect.Effect<unknown, string>,
+	): Promise<string | null> => {
+		const result = await runRepositoryExit(dataDir, run);
+		return Exit.isFailure(result)
+			? Option.getOrNull(Cause.failureOption(result.cause))
+			: null;
+	};
+
+	it("rejects an update that would close a cycle and reports the path", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-dep-cycle-"));
+		try {
+			await writeTaskFiles(dataDir, [
+				{ ...baseTask(), id: "a", title: "A", blocked_by: ["b"] },
+				{ ...baseTask(), id: "b", title: "B", blocked_by: ["c"] },
+				{ ...baseTask(), id: "c", title: "C" },
+			]);
+
+			expect(
+				await failureOf(dataDir, (repository) =>
+					repository.updateTask("c", { blocked_by: ["a"] }),
+				),
+			).toBe("Dependency cycle detected: c → a → b → c");
+			expect(
+				(
+					await runRepository(dataDir, (repository) =>
+						repository.getTask("c"),
+					)
+				).blocked_by,
+			).toEqual([]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("allows edits to a task upstream of a cycle it is not part of", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-dep-upstream-"));
+		try {
+			await writeTaskFiles(dataDir, [
+				{ ...baseTask(), id: "a", title: "A", blocked_by: ["b", "x"] },
+				{ ...baseTask(), id: "b", title: "B", blocked_by: ["c"] },
+				{ ...baseTask(), id: "c", title: "C", blocked_by: ["b"] },
+				{ ...baseTask(), id: "x", title: "X" },
+			]);
+
+			const updated = await runRepository(dataDir, (repository) =>
+				repository.updateTask("a", { blocked_by: ["b"] }),
+			);
+			expect(updated.blocked_by).toEqual(["b"]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("rejects a cycle introduced by an on-modify hook", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-dep-hook-"));
+		const hooksDir = join(dataDir, "hooks");
+		try {
+			await writeTaskFiles(dataDir, [
+				{ ...baseTask(), id: "a", title: "A", blocked_by: ["b"] },
+				{ ...baseTask(), id: "b", title: "B" },
+			]);
+			await writeExecutableHook(
+				hooksDir,
+				"on-modify",
+				`#!/usr/bin/env node
+const fs = require("node:fs");
+const { new: task } = JSON.parse(fs.readFileSync(0, "utf8"));
+if (task.id === "b") task.blocked_by = ["a"];
+process.stdout.write(JSON.stringify(task));
+`,
+			);
+
+			const result = await runRepositoryWithOptionsExit(
+				{ dataDir, hooksDir },
+				(repository) => repository.updateTask("b", { title: "Bee" }),
+			);
+			expect(Exit.isFailure(result)).toBe(true);
+			if (Exit.isFailure(result)) {
+				expect(Option.getOrNull(Cause.failureOption(result.cause))).toBe(
+					"Dependency cycle detected: b → a → b",
+				);
+			}
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("rejects self-blocks and new missing or template blockers", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-dep-refs-"));
+		try {
+			await writeTaskFiles(dataDir, [
+				{ ...baseTask(), id: "a", title: "A" },
+				{ ...baseTask(), id: "tmpl", title: "Template", is_template: true },
+			]);
+
+			expect(
+				await failureOf(dataDir, (repository) =>
+					repository.updateTask("a", { blocked_by: ["a"] }),
+				),
+			).toBe("Task a cannot be blocked by itself");
+			expect(
+				await failureOf(dataDir, (repository) =>
+					repository.createTask({ title: "New", blocked_by: ["ghost"] }),
+				),
+			).toContain("on missing task(s): ghost");
+			expect(
+				await failureOf(dataDir, (repository) =>
+					repository.updateTask("a", { blocked_by: ["tmpl"] }),
+				),
+			).toBe("Cannot block a on template(s): tmpl");
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("keeps existing dangling blockers editable", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-dep-dangling-"));
+		try {
+			await writeTaskFiles(dataDir, [
+				{ ...baseTask(), id: "a", title: "A", blocked_by: ["deleted"] },
+				{ ...baseTask(), id: "b", title: "B" },
+			]);
+
+			const updated = await runRepository(dataDir, (repository) =>
+				repository.updateTask("a", { blocked_by: ["deleted", "b"] }),
+			);
+			expect(updated.blocked_by).toEqual(["deleted", "b"]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("task hierarchy", () => {
+	const failureOf = async (
+		dataDir: string,
+		run: (repository: TaskRepositoryService) => Effect.Effect<unknown, string>,
+	): Promise<string | null> => {
+		const result = await runRepositoryExit(dataDir, run);
+		return Exit.isFailure(result)
+			? Option.getOrNull(Cause.failureOption(result.cause))
+			: null;
+	};
+
+	it("rejects self, missing and cyclic parents", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-parent-"));
+		try {
+			await writeTaskFiles(dataDir, [
+				{ ...baseTask(), id: "epic", title: "Epic" },
+				{ ...baseTask(), id: "story", title: "Story", parent: "epic" },
+			]);
+
+			expect(
+				await failureOf(dataDir, (repository) =>
+					repository.updateTask("epic", { parent: "epic" }),
+				),
+			).toBe("Task epic cannot be its own parent");
+			expect(
+				await failureOf(dataDir, (repository) =>
+					repository.createTask({ title: "Orphan", parent: "ghost" }),
+				),
+			).toContain("to missing task ghost");
+			expect(
+				await failureOf(dataDir, (repository) =>
+					repository.updateTask("epic", { parent: "story" }),
+				),
+			).toBe("Parent cycle detected: epic → story → epic");
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("completes epic parents up the chain and undoes them together", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-epic-complete-"));
+		try {
+			await writeTaskFiles(dataDir, [
+				{ ...baseTask(), id: "root", title: "Root", type: "epic" },
+				{ ...baseTask(), id: "epic", title: "Epic", type: "epic", parent: "root" },
+				{ ...baseTask(), id: "a", title: "A", parent: "epic", status: "done" },
+				{ ...baseTask(), id: "b", title: "B", parent: "epic", status: "dropped" },
+				{ ...baseTask(), id: "c", title: "C", parent: "epic" },
+			]);
+
+			await runRepository(dataDir, (repository) =>
+				repository.completeTask("c", { completeParent: true }),
+			);
+			const statuses = await runRepository(dataDir, (repository) =>
+				Effect.map(repository.listTasks(), (tasks) =>
+					Object.fromEntries(tasks.map((task) => [task.id, task.status])),
+				),
+			);
+			expect(statuses.epic).toBe("done");
+			expect(statuses.root).toBe("done");
+
+			await runRepository(dataDir, (repository) => repository.undo());
+			const restored = await runRepository(dataDir, (repository) =>
+				Effect.map(repository.listTasks(), (tasks) =>
+					Object.fromEntries(tasks.map((task) => [task.id, task.status])),
+				),
+			);
+			expect([restored.root, restored.epic, restored.c]).toEqual([
+				"active",
+				"active",
+				"active",
+			]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("leaves the parent open without the option or while children remain", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-epic-open-"));
+		try {
+			await writeTaskFiles(dataDir, [
+				{ ...baseTask(), id: "epic", title: "Epic", type: "epic" },
+				{ ...baseTask(), id: "a", title: "A", parent: "epic" },
+				{ ...baseTask(), id: "b", title: "B", parent: "epic" },
+			]);
+
+			await runRepository(dataDir, (repository) =>
+				repository.completeTask("a", { completeParent: true }),
+			);
+			await runRepository(dataDir, (repository) => repository.completeTask("b"));
+			const epic = await runRepository(dataDir, (repository) =>
+				repository.getTask("epic"),
+			);
+			expect(epic.status).toBe("active");
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("optimistic locking", () => {
+	const failureOf = async (
+		dataDir: string,
+		run: (repository: TaskRepositoryService) => Effect.Effect<unknown, string>,
+	): Promise<string | null> => {
+		const result = await runRepositoryExit(dataDir, run);
+		return Exit.isFailure(result)
+			? Option.getOrNull(Cause.failureOption(result.cause))
+			: null;
+	};
+
+	it("bumps the revision on every write and rejects stale patches", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-revision-"));
+		try {
+			await writeTaskFiles(dataDir, [{ ...baseTask(), id: "a", title: "A" }]);
+
+			const first = await runRepository(dataDir, (repository) =>
+				repository.updateTask("a", { title: "First", revision: 0 }),
+			);
+			expect(first.revision).toBe(1);
+
+			expect(
+				await failureOf(dataDir, (repository) =>
+					repository.updateTask("a", { title: "Stale", revision: 0 }),
+				),
+			).toBe("Task a was modified concurrently (expected revision 0, found 1)");
+
+			const completed = await runRepository(dataDir, (repository) =>
+				repository.completeTask("a"),
+			);
+			expect([completed.title, completed.revision]).toEqual(["First", 2]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("rejects deleting a task at a stale revision", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-delete-revision-"));
+		try {
+			await writeTaskFiles(dataDir, [{ ...baseTask(), id: "a", title: "A" }]);
+			await runRepository(dataDir, (repository) =>
+				repository.updateTask("a", { title: "Edited" }),
+			);
+
+			expect(
+				await failureOf(dataDir, (repository) =>
+					repository.deleteTask("a", 0),
+				),
+			).toBe("Task a was modified concurrently (expected revision 0, found 1)");
+			expect(
+				await runRepository(dataDir, (repository) =>
+					repository.deleteTask("a", 1),
+				),
+			).toEqual({ deleted: true });
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("serializes creates alongside other writes", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-create-lock-"));
+		try {
+			const created = await runRepository(dataDir, (repository) =>
+				Effect.all(
+					["One", "Two", "Three"].map((title) =>
+						repository.createTask({ title }),
+					),
+					{ concurrency: "unbounded" },
+				),
+			);
+			const undone = await runRepository(dataDir, (repository) =>
+				repository.undo(3),
+			);
+
+			expect(created).toHaveLength(3);
+			expect(undone.map((entry) => entry.operation)).toEqual([
+				"create",
+				"create",
+				"create",
+			]);
+			expect(await runListTasks(dataDir)).toEqual([]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("claims a task once and rejects other assignees", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-claim-"));
+		try {
+			await writeTaskFiles(dataDir, [
+				{ ...baseTask(), id: "a", title: "A", status: "active" },
+				{ ...baseTask(), id: "closed", title: "Closed", status: "done" },
+			]);
+
+			const claimed = await runRepository(dataDir, (repository) =>
+				repository.claimTask("a", "agent-1"),
+			);
+			expect([claimed.assignee, claimed.status]).toEqual([
+				"agent-1",
+				"in_progress",
+			]);
+
+			expect(
+				await failureOf(dataDir, (repository) =>
+					repository.claimTask("a", "agent-2"),
+				),
+			).toBe("Task a is already claimed by agent-1");
+			expect(
+				await failureOf(dataDir, (repository) =>
+					repository.claimTask("closed", "agent-1"),
+				),
+			).toBe("Cannot claim closed: task is done");
+
+			const again = await runRepository(dataDir, (repository) =>
+				repository.claimTask("a", "agent-1"),
+			);
+			expect(again.assignee).toBe("agent-1");
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+
+	it("lets exactly one of several concurrent claims win", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-claim-race-"));
+		try {
+			await writeTaskFiles(dataDir, [{ ...baseTask(), id: "a", title: "A" }]);
+
+			const results = await runRepository(dataDir, (repository) =>
+				Effect.all(
+					["agent-1", "agent-2", "agent-3"].map((agent) =>
+						Effect.either(repository.claimTask("a", agent)),
+					),
+					{ concurrency: "unbounded" },
+				),
+			);
+			const winners = results.filter(Either.isRight);
+			expect(winners).toHaveLength(1);
+
+			const stored = await runRepository(dataDir, (repository) =>
+				repository.getTask("a"),
+			);
+			expect(stored.assignee).toBe(winners[0]?.right.assignee ?? null);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+});
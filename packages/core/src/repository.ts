@@ -31,13 +31,19 @@ import {
 	type Project,
 	type ProjectCreateInput,
 	type ProjectPatch,
+	type TaskHistoryEvent,
+	type JournalEntry,
+	type JournalTaskChange,
 } from "./schema.js";
 import {
+	applyTaskFilters,
 	byUpdatedDescThenTitle,
-	isDueBefore,
+	findDependencyCycleThrough,
+	findParentCycle,
+	formatDependencyPath,
 	isStalerThan,
-	isUnblocked,
 	listContexts as listContextsFromTasks,
+	type TaskFilters,
 } from "./query.js";
 import { generateTaskId } from "./id.js";
 import {
@@ -51,11 +57,25 @@ import {
 	buildNextClockRecurrenceTask,
 	isClockRecurrenceDue,
 } from "./recurrence.js";
+import {
+	appendHistoryEvents,
+	buildHistoryEvent,
+	defaultHistoryActor,
+	readHistoryEvents,
+	readTaskHistory,
+} from "./history.js";
+import {
+	appendJournalEntry,
+	type JournalTaskStore,
+	redoJournal,
+	undoJournal,
+} from "./journal.js";
 
 // Re-export for backwards compatibility
 export { discoverHooksForEvent } from "./hooks.js";
 export type { HookEvent, HookDiscoveryOptions } from "./hooks.js";
 export { generateTaskId } from "./id.js";
+export { diffTaskFields, historyFilePath } from "./history.js";
 
 const decodeTask = Schema.decodeUnknownSync(TaskSchema);
 const decodeTaskEither = Schema.decodeUnknownEither(TaskSchema);
@@ -135,10 +155,10 @@ const writeDailyHighlightToDisk = (
 			`TaskRepository failed to write daily highlight ${id}: ${toErrorMessage(error)}`,
 	});
 
-const readTaskByIdFromDisk = (
+const findTaskByIdOnDisk = (
 	dataDir: string,
 	id: string,
-): Effect.Effect<{ readonly path: string; readonly task: Task }, string> =>
+): Effect.Effect<{ readonly path: string; readonly task: Task } | null, string> =>
 	Effect.tryPromise({
 		try: async () => {
 			const candidatePaths = [
@@ -172,12 +192,24 @@ const readTaskByIdFromDisk = (
 				return { path, task };
 			}
 
-			throw new Error(`Task not found: ${id}`);
+			return null;
 		},
 		catch: (error) =>
 			`TaskRepository failed to read task ${id}: ${toErrorMessage(error)}`,
 	});
 
+const readTaskByIdFromDisk = (
+	dataDir: string,
+	id: string,
+): Effect.Effect<{ readonly path: string; readonly task: Task }, string> =>
+	Effect.flatMap(findTaskByIdOnDisk(dataDir, id), (result) =>
+		result === null
+			? Effect.fail(
+					`TaskRepository failed to read task ${id}: Task not found: ${id}`,
+				)
+			: Effect.succeed(result),
+	);
+
 const writeTaskToDisk = (
 	path: string,
 	task: Task,
@@ -395,7 +427,11 @@ const generateNextClockRecurrence = (
 	existing: { readonly path: string; readonly task: Task },
 	generatedAt: Date,
 ): Effect.Effect<
-	{ readonly nextTask: Task; readonly replacedId: string | null },
+	{
+		readonly nextTask: Task;
+		readonly updatedCurrent: Task | null;
+		readonly replacedId: string | null;
+	},
 	string
 > =>
 	Effect.gen(function* () {
@@ -418,7 +454,11 @@ const generateNextClockRecurrence = (
 			? existing.task.id
 			: null;
 
-		return { nextTask: result.nextTask, replacedId } as const;
+		return {
+			nextTask: result.nextTask,
+			updatedCurrent: result.updatedCurrent,
+			replacedId,
+		} as const;
 	});
 
 const readProjectByIdFromDisk = (
@@ -533,6 +573,22 @@ const deleteProjectFromDisk = (
 			`TaskRepository failed to delete project ${id}: ${toErrorMessage(error)}`,
 	});
 
+/**
+ * The id for a work log entry: the task id and start minute, with a counter
+ * when that minute already has an entry, e.g. after a pause and resume.
+ */
+export const uniqueWorkLogId = (
+	base: string,
+	entries: ReadonlyArray<WorkLogEntry>,
+): string => {
+	const taken = new Set(entries.map((entry) => entry.id));
+	let id = base;
+	for (let counter = 2; taken.has(id); counter += 1) {
+		id = `${base}-${counter}`;
+	}
+	return id;
+};
+
 const byStartedAtDescThenId = (a: WorkLogEntry, b: WorkLogEntry): number => {
 	const byStartedAtDesc = b.started_at.localeCompare(a.started_at);
 	if (byStartedAtDesc !== 0) {
@@ -545,151 +601,10 @@ const byStartedAtDescThenId = (a: WorkLogEntry, b: WorkLogEntry): number => {
 export const applyListTaskFilters = (
 	tasks: Array<Task>,
 	filters: ListTasksFilters = {},
-): Array<Task> => {
-	const dueBeforePredicate =
-		filters.due_before !== undefined ? isDueBefore(filters.due_before) : null;
-	const stalePredicate =
-		filters.stale_days !== undefined
-			? isStalerThan(filters.stale_days, todayIso())
-			: null;
-
-	return tasks
-		.filter((task) => {
-			if (filters.status !== undefined && task.status !== filters.status) {
-				return false;
-			}
-
-			if (filters.area !== undefined && task.area !== filters.area) {
-				return false;
-			}
-
-			if (filters.project !== undefined && !task.projects.includes(filters.project)) {
-				return false;
-			}
-
-			if (
-				filters.tags !== undefined &&
-				filters.tags.length > 0 &&
-				!filters.tags.some((tag) => task.tags.includes(tag))
-			) {
-				return false;
-			}
-
-			if (dueBeforePredicate !== null && !dueBeforePredicate(task)) {
-				return false;
-			}
-
-			if (
-				filters.due_after !== undefined &&
-				(task.due === null || task.due < filters.due_after)
-			) {
-				return false;
-			}
-
-			if (
-				filters.date !== undefined &&
-				task.defer_until !== null &&
-				task.defer_until > filters.date
-			) {
-				return false;
-			}
-
-			if (filters.unblocked_only === true && !isUnblocked(task, tasks)) {
-				return false;
-			}
-
-			if (
-				filters.duration_min !== undefined &&
-				(task.estimated_minutes === null || task.estimated_minutes < filters.duration_min)
-			) {
-				return false;
-			}
-
-			if (
-				filters.duration_max !== undefined &&
-				(task.estimated_minutes === null || task.estimated_minutes > filters.duration_max)
-			) {
-				return false;
-			}
-
-			if (
-				filters.context !== undefined &&
-				task.context !== filters.context
-			) {
-				return false;
-			}
-
-			if (
-				filters.include_templates !== true &&
-				task.is_template === true
-			) {
-				return false;
-			}
-
-			if (stalePredicate !== null && !stalePredicate(task)) {
-				return false;
-			}
-
-			if (
-				filters.priority !== undefined &&
-				task.priority !== filters.priority
-			) {
-				return false;
-			}
-
-			if (
-				filters.type !== undefined &&
-				task.type !== filters.type
-			) {
-				return false;
-			}
-
-			if (
-				filters.assignee !== undefined &&
-				task.assignee !== filters.assignee
-			) {
-				return false;
-			}
-
-			if (
-				filters.unassigned === true &&
-				task.assignee !== null
-			) {
-				return false;
-			}
-
-			if (
-				filters.parent !== undefined &&
-				task.parent !== filters.parent
-			) {
-				return false;
-			}
-
-			return true;
-		})
-		.sort(byUpdatedDescThenTitle);
-};
+): Array<Task> =>
+	applyTaskFilters(tasks, filters, todayIso()).sort(byUpdatedDescThenTitle);
 
-export interface ListTasksFilters {
-	readonly status?: Task["status"];
-	readonly area?: Task["area"];
-	readonly project?: string;
-	readonly tags?: ReadonlyArray<string>;
-	readonly due_before?: string;
-	readonly due_after?: string;
-	readonly unblocked_only?: boolean;
-	readonly date?: string;
-	readonly duration_min?: number;
-	readonly duration_max?: number;
-	readonly context?: string;
-	readonly include_templates?: boolean;
-	readonly stale_days?: number;
-	readonly priority?: number;
-	readonly type?: string;
-	readonly assignee?: string;
-	readonly unassigned?: boolean;
-	readonly parent?: string;
-}
+export type ListTasksFilters = TaskFilters;
 
 export interface ListProjectsFilters {
 	readonly status?: string;
@@ -737,7 +652,14 @@ export interface TaskRepositoryService {
 		id: string,
 		patch: TaskPatch,
 	) => Effect.Effect<Task, string>;
-	readonly completeTask: (id: string) => Effect.Effect<Task, string>;
+	readonly claimTask: (
+		id: string,
+		assignee: string,
+	) => Effect.Effect<Task, string>;
+	readonly completeTask: (
+		id: string,
+		options?: CompleteTaskOptions,
+	) => Effect.Effect<Task, string>;
 	readonly generateNextRecurrence: (id: string) => Effect.Effect<Task, string>;
 	readonly processDueRecurrences: (
 		now: Date,
@@ -745,9 +667,22 @@ export interface TaskRepositoryService {
 		{ readonly created: Array<Task>; readonly replaced: Array<string> },
 		string
 	>;
-	readonly deleteTask: (id: string) => Effect.Effect<DeleteResult, string>;
+	readonly deleteTask: (
+		id: string,
+		revision?: number,
+	) => Effect.Effect<DeleteResult, string>;
 	readonly setDailyHighlight: (id: string) => Effect.Effect<Task, string>;
 	readonly listStale: (days: number) => Effect.Effect<Array<Task>, string>;
+	/**
+	 * Records that tasks were shown on `date`: sets `last_surfaced` and bumps
+	 * `nudge_count`, at most once per task and day. This is bookkeeping, so it
+	 * skips hooks, history, the undo journal and the revision bump. Returns the
+	 * tasks in the order given.
+	 */
+	readonly markSurfaced: (
+		ids: ReadonlyArray<string>,
+		date: string,
+	) => Effect.Effect<Array<Task>, string>;
 	readonly listWorkLog: (
 		filters?: ListWorkLogFilters,
 	) => Effect.Effect<Array<WorkLogEntry>, string>;
@@ -791,6 +726,13 @@ export interface TaskRepositoryService {
 			readonly projects?: ReadonlyArray<string>;
 		},
 	) => Effect.Effect<Task, string>;
+	readonly getTaskHistory: (
+		id: string,
+	) => Effect.Effect<Array<TaskHistoryEvent>, string>;
+	/** Every history event, oldest first, read in one pass. */
+	readonly listHistory: () => Effect.Effect<Array<TaskHistoryEvent>, string>;
+	readonly undo: (steps?: number) => Effect.Effect<Array<JournalEntry>, string>;
+	readonly redo: (steps?: number) => Effect.Effect<Array<JournalEntry>, string>;
 }
 
 export class TaskRepository extends Context.Tag("TaskRepository")<
@@ -802,6 +744,7 @@ export interface TaskRepositoryLiveOptions {
 	readonly dataDir?: string;
 	readonly hooksDir?: string;
 	readonly hookEnv?: NodeJS.ProcessEnv;
+	readonly actor?: string;
 }
 
 const defaultDataDir = (): string => {
@@ -878,6 +821,200 @@ const validateNoTemplateRefs = (
 	return Effect.void;
 };
 
+/**
+ * Rejects a task whose `blocked_by` would block it on itself, close a
+ * dependency cycle through it, or newly point at a missing task or a
+ * template. Blockers that were already present, and cycles the task is not
+ * part of, are left alone so a deleted blocker or an older cycle does not
+ * make the task impossible to edit.
+ */
+export const validateTaskDependencies = (
+	candidate: Task,
+	previous: Task | null,
+	allTasks: ReadonlyArray<Task>,
+): Effect.Effect<void, string> => {
+	if (candidate.blocked_by.includes(candidate.id)) {
+		return Effect.fail(`Task ${candidate.id} cannot be blocked by itself`);
+	}
+
+	const taskById = new Map(allTasks.map((task) => [task.id, task]));
+	const added = candidate.blocked_by.filter(
+		(id) => previous === null || !previous.blocked_by.includes(id),
+	);
+	const missing = added.filter((id) => !taskById.has(id));
+	if (missing.length > 0) {
+		return Effect.fail(
+			`Cannot block ${candidate.id} on missing task(s): ${missing.join(", ")}`,
+		);
+	}
+
+	const templates = added.filter((id) => taskById.get(id)?.is_template === true);
+	if (templates.length > 0) {
+		return Effect.fail(
+			`Cannot block ${candidate.id} on template(s): ${templates.join(", ")}`,
+		);
+	}
+
+	const cycle = findDependencyCycleThrough(
+		[...allTasks.filter((task) => task.id !== candidate.id), candidate],
+		candidate.id,
+	);
+	if (cycle !== null) {
+		return Effect.fail(
+			`Dependency cycle detected: ${formatDependencyPath(cycle)}`,
+		);
+	}
+
+	return Effect.void;
+};
+
+const sameIds = (a: ReadonlyArray<string>, b: ReadonlyArray<string>): boolean =>
+	a.length === b.length && a.every((id, index) => id === b[index]);
+
+/**
+ * Runs the related, blocker and parent checks for whichever of those links
+ * differ between `previous` (null for a new task) and `candidate`, reading the
+ * other tasks only when one does. Callers pass the task the hooks returned, so
+ * a hook cannot introduce a cycle either.
+ */
+export const validateTaskLinks = (
+	candidate: Task,
+	previous: Task | null,
+	readTasks: Effect.Effect<ReadonlyArray<Task>, string>,
+): Effect.Effect<void, string> =>
+	Effect.gen(function* () {
+		const relatedChanged =
+			candidate.related.length > 0 &&
+			(previous === null || !sameIds(candidate.related, previous.related));
+		const blockersChanged = !sameIds(
+			candidate.blocked_by,
+			previous?.blocked_by ?? [],
+		);
+		const parentChanged = candidate.parent !== (previous?.parent ?? null);
+		if (!relatedChanged && !blockersChanged && !parentChanged) {
+			return;
+		}
+
+		const allTasks = yield* readTasks;
+		if (relatedChanged) {
+			yield* validateNoTemplateRefs(candidate.related, [...allTasks]);
+		}
+		if (blockersChanged) {
+			yield* validateTaskDependencies(candidate, previous, allTasks);
+		}
+		if (parentChanged) {
+			yield* validateTaskParent(candidate, previous, allTasks);
+		}
+	});
+
+/**
+ * Rejects a `parent` that points at the task itself, closes a parent cycle,
+ * or is newly set to a missing task. As with blockers, an existing dangling
+ * parent is left alone.
+ */
+export const validateTaskParent = (
+	candidate: Task,
+	previous: Task | null,
+	allTasks: ReadonlyArray<Task>,
+): Effect.Effect<void, string> => {
+	if (candidate.parent === null) {
+		return Effect.void;
+	}
+	if (candidate.parent === candidate.id) {
+		return Effect.fail(`Task ${candidate.id} cannot be its own parent`);
+	}
+	if (
+		(previous === null || previous.parent !== candidate.parent) &&
+		!allTasks.some((task) => task.id === candidate.parent)
+	) {
+		return Effect.fail(
+			`Cannot set parent of ${candidate.id} to missing task ${candidate.parent}`,
+		);
+	}
+
+	const cycle = findParentCycle(
+		[...allTasks.filter((task) => task.id !== candidate.id), candidate],
+		candidate.id,
+	);
+	if (cycle !== null) {
+		return Effect.fail(`Parent cycle detected: ${formatDependencyPath(cycle)}`);
+	}
+
+	return Effect.void;
+};
+
+/**
+ * Fails when the stored task has moved past the revision a writer based its
+ * change on, so the later of two racing writes is rejected instead of
+ * silently overwriting the first.
+ */
+export const ensureTaskRevision = (
+	id: string,
+	expected: number,
+	actual: number,
+): Effect.Effect<void, string> =>
+	expected === actual
+		? Effect.void
+		: Effect.fail(
+				`Task ${id} was modified concurrently (expected revision ${expected}, found ${actual})`,
+			);
+
+/** Rejects claims on closed tasks, templates, and tasks held by someone else. */
+export const validateClaim = (
+	task: Task,
+	assignee: string,
+): Effect.Effect<void, string> => {
+	if (task.is_template) {
+		return Effect.fail(`Cannot claim template ${task.id}`);
+	}
+	if (task.status === "done" || task.status === "dropped") {
+		return Effect.fail(`Cannot claim ${task.id}: task is ${task.status}`);
+	}
+	if (task.assignee !== null && task.assignee !== assignee) {
+		return Effect.fail(`Task ${task.id} is already claimed by ${task.assignee}`);
+	}
+	return Effect.void;
+};
+
+export interface CompleteTaskOptions {
+	/**
+	 * Also complete an `epic` parent once its last open child is done, and so
+	 * on up the hierarchy.
+	 */
+	readonly completeParent?: boolean;
+}
+
+/**
+ * Returns the parent of `task` when it is an open epic whose children are
+ * all done or dropped, otherwise null.
+ */
+export const findCompletableEpicParent = (
+	task: Task,
+	allTasks: ReadonlyArray<Task>,
+): Task | null => {
+	const parent =
+		task.parent === null
+			? undefined
+			: allTasks.find((candidate) => candidate.id === task.parent);
+	if (
+		parent === undefined ||
+		parent.type !== "epic" ||
+		parent.status === "done" ||
+		parent.status === "dropped"
+	) {
+		return null;
+	}
+
+	const children = allTasks.map((candidate) =>
+		candidate.id === task.id ? task : candidate,
+	).filter((candidate) => candidate.parent === parent.id);
+	return children.every(
+		(child) => child.status === "done" || child.status === "dropped",
+	)
+		? parent
+		: null;
+};
+
 const makeTaskRepositoryLive = (
 	options: TaskRepositoryLiveOptions = {},
 ): TaskRepositoryService => {
@@ -887,6 +1024,93 @@ const makeTaskRepositoryLive = (
 		env: options.hookEnv,
 		dataDir,
 	};
+	const actor = options.actor ?? defaultHistoryActor();
+	// Mutations run one at a time within this process; the revision check in
+	// writeTaskIfCurrent catches writers in other processes.
+	const writeLock = Effect.unsafeMakeSemaphore(1);
+
+	const recordHistory = (
+		...events: Array<TaskHistoryEvent>
+	): Effect.Effect<void, string> => appendHistoryEvents(dataDir, events);
+
+	const recordJournal = (
+		operation: string,
+		...changes: Array<JournalTaskChange>
+	): Effect.Effect<void, string> =>
+		appendJournalEntry(dataDir, operation, changes);
+
+	const writeTaskIfCurrent = (
+		existing: { readonly path: string; readonly task: Task },
+		next: Task,
+	): Effect.Effect<void, string> =>
+		Effect.gen(function* () {
+			const current = yield* readTaskByIdFromDisk(dataDir, existing.task.id);
+			yield* ensureTaskRevision(
+				existing.task.id,
+				existing.task.revision,
+				current.task.revision,
+			);
+			yield* writeTaskToDisk(existing.path, next);
+		});
+
+	const journalStore: JournalTaskStore = {
+		read: (id) =>
+			Effect.map(findTaskByIdOnDisk(dataDir, id), (result) =>
+				result === null ? null : result.task,
+			),
+		write: (task) =>
+			Effect.gen(function* () {
+				const existing = yield* findTaskByIdOnDisk(dataDir, task.id);
+				yield* ensureTasksDir(dataDir);
+				yield* writeTaskToDisk(
+					existing === null ? taskFilePath(dataDir, task.id) : existing.path,
+					task,
+				);
+			}),
+		remove: (id) =>
+			Effect.gen(function* () {
+				const existing = yield* findTaskByIdOnDisk(dataDir, id);
+				if (existing !== null) {
+					yield* deleteTaskFromDisk(existing.path, id);
+				}
+			}),
+	};
+
+	const recordClockRecurrence = (
+		current: Task,
+		generated: {
+			readonly nextTask: Task;
+			readonly updatedCurrent: Task | null;
+		},
+	): Effect.Effect<void, string> =>
+		Effect.gen(function* () {
+			yield* recordHistory(
+				...(generated.updatedCurrent !== null
+					? [
+							buildHistoryEvent("updated", current, generated.updatedCurrent, {
+								actor,
+							}),
+						]
+					: []),
+				buildHistoryEvent("recurrence_generated", null, generated.nextTask, {
+					actor,
+					sourceId: current.id,
+				}),
+			);
+			yield* recordJournal(
+				"recur",
+				...(generated.updatedCurrent !== null
+					? [
+							{
+								id: current.id,
+								before: current,
+								after: generated.updatedCurrent,
+							},
+						]
+					: []),
+				{ id: generated.nextTask.id, before: null, after: generated.nextTask },
+			);
+		});
 
 	return {
 		listTasks: (filters) =>
@@ -899,74 +1123,172 @@ const makeTaskRepositoryLive = (
 			Effect.gen(function* () {
 				yield* ensureTasksDir(dataDir);
 				const created = createTaskFromInput(input);
-				if (created.related.length > 0) {
-					const allTasks = yield* readTasksFromDisk(dataDir);
-					yield* validateNoTemplateRefs(created.related, allTasks);
-				}
 				const taskFromHooks = yield* runCreateHooks(
 					created,
 					hookRuntimeOptions,
 				);
+				yield* validateTaskLinks(
+					taskFromHooks,
+					null,
+					readTasksFromDisk(dataDir),
+				);
 				yield* writeTaskToDisk(
 					taskFilePath(dataDir, taskFromHooks.id),
 					taskFromHooks,
 				);
+				yield* recordHistory(
+					buildHistoryEvent("created", null, taskFromHooks, { actor }),
+				);
+				yield* recordJournal("create", {
+					id: taskFromHooks.id,
+					before: null,
+					after: taskFromHooks,
+				});
 				return taskFromHooks;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		updateTask: (id, patch) =>
 			Effect.gen(function* () {
 				const existing = yield* readTaskByIdFromDisk(dataDir, id);
-				const updated = applyTaskPatch(existing.task, patch);
-				if (
-					patch.related !== undefined &&
-					updated.related.length > 0
-				) {
-					const allTasks = yield* readTasksFromDisk(dataDir);
-					yield* validateNoTemplateRefs(updated.related, allTasks);
+				if (patch.revision !== undefined) {
+					yield* ensureTaskRevision(id, patch.revision, existing.task.revision);
 				}
+				const updated = applyTaskPatch(existing.task, patch);
 				const taskFromHooks = yield* runModifyHooks(
 					existing.task,
 					updated,
 					hookRuntimeOptions,
 				);
-				yield* writeTaskToDisk(existing.path, taskFromHooks);
+				yield* validateTaskLinks(
+					taskFromHooks,
+					existing.task,
+					readTasksFromDisk(dataDir),
+				);
+				yield* writeTaskIfCurrent(existing, taskFromHooks);
+				yield* recordHistory(
+					buildHistoryEvent("updated", existing.task, taskFromHooks, { actor }),
+				);
+				yield* recordJournal("update", {
+					id,
+					before: existing.task,
+					after: taskFromHooks,
+				});
 				return taskFromHooks;
-			}),
-		completeTask: (id) =>
+			}).pipe(writeLock.withPermits(1)),
+		claimTask: (id, assignee) =>
 			Effect.gen(function* () {
 				const existing = yield* readTaskByIdFromDisk(dataDir, id);
-				const completedAt = new Date().toISOString();
-				const completedDate = completedAt.slice(0, 10);
-
-				const completedTask = decodeTask({
-					...existing.task,
-					status: "done",
-					updated: completedDate,
-					completed_at: completedAt,
+				yield* validateClaim(existing.task, assignee);
+				const claimed = applyTaskPatch(existing.task, {
+					assignee,
+					status: "in_progress",
 				});
-
-				const nextRecurringTask = yield* buildCompletionRecurrenceTask(
-					completedTask,
-					completedAt,
-				);
-
-				yield* writeTaskToDisk(existing.path, completedTask);
-				yield* runNonMutatingHooks(
-					"complete",
-					completedTask,
+				const taskFromHooks = yield* runModifyHooks(
+					existing.task,
+					claimed,
 					hookRuntimeOptions,
 				);
+				yield* writeTaskIfCurrent(existing, taskFromHooks);
+				yield* recordHistory(
+					buildHistoryEvent("updated", existing.task, taskFromHooks, { actor }),
+				);
+				yield* recordJournal("claim", {
+					id,
+					before: existing.task,
+					after: taskFromHooks,
+				});
+				return taskFromHooks;
+			}).pipe(writeLock.withPermits(1)),
+		completeTask: (id, completeOptions) =>
+			Effect.gen(function* () {
+				const completedAt = new Date().toISOString();
+				const events: Array<TaskHistoryEvent> = [];
+				const changes: Array<JournalTaskChange> = [];
+
+				const completeOne = (existing: { path: string; task: Task }) =>
+					Effect.gen(function* () {
+						const completedTask = decodeTask({
+							...existing.task,
+							status: "done",
+							updated: completedAt.slice(0, 10),
+							completed_at: completedAt,
+							revision: existing.task.revision + 1,
+						});
+
+						const nextRecurringTask = yield* buildCompletionRecurrenceTask(
+							completedTask,
+							completedAt,
+						);
+
+						yield* writeTaskIfCurrent(existing, completedTask);
+						yield* runNonMutatingHooks(
+							"complete",
+							completedTask,
+							hookRuntimeOptions,
+						);
+
+						events.push(
+							buildHistoryEvent("completed", existing.task, completedTask, {
+								actor,
+								at: completedAt,
+							}),
+						);
+						changes.push({
+							id: completedTask.id,
+							before: existing.task,
+							after: completedTask,
+						});
+
+						if (nextRecurringTask !== null) {
+							yield* ensureTasksDir(dataDir);
+							yield* writeTaskToDisk(
+								taskFilePath(dataDir, nextRecurringTask.id),
+								nextRecurringTask,
+							);
+							events.push(
+								buildHistoryEvent(
+									"recurrence_generated",
+									null,
+									nextRecurringTask,
+									{ actor, at: completedAt, sourceId: completedTask.id },
+								),
+							);
+							changes.push({
+								id: nextRecurringTask.id,
+								before: null,
+								after: nextRecurringTask,
+							});
+						}
+
+						return completedTask;
+					});
+
+				const completedTask = yield* completeOne(
+					yield* readTaskByIdFromDisk(dataDir, id),
+				);
 
-				if (nextRecurringTask !== null) {
-					yield* ensureTasksDir(dataDir);
-					yield* writeTaskToDisk(
-						taskFilePath(dataDir, nextRecurringTask.id),
-						nextRecurringTask,
-					);
+				if (completeOptions?.completeParent === true) {
+					let child = completedTask;
+					for (;;) {
+						const parent = findCompletableEpicParent(
+							child,
+							yield* readTasksFromDisk(dataDir),
+						);
+						if (parent === null) {
+							break;
+						}
+						child = yield* completeOne(
+							yield* readTaskByIdFromDisk(dataDir, parent.id),
+						);
+					}
 				}
 
+				// Cascaded completions are undone together with the task that
+				// triggered them.
+				yield* recordHistory(...events);
+				yield* recordJournal("complete", ...changes);
+
 				return completedTask;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		generateNextRecurrence: (id) =>
 			Effect.gen(function* () {
 				const existing = yield* readTaskByIdFromDisk(dataDir, id);
@@ -975,8 +1297,9 @@ const makeTaskRepositoryLive = (
 					existing,
 					new Date(),
 				);
+				yield* recordClockRecurrence(existing.task, generated);
 				return generated.nextTask;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		processDueRecurrences: (now) =>
 			Effect.gen(function* () {
 				const tasks = yield* readTasksFromDisk(dataDir);
@@ -1004,6 +1327,7 @@ const makeTaskRepositoryLive = (
 						existing,
 						now,
 					);
+					yield* recordClockRecurrence(existing.task, generated);
 					created.push(generated.nextTask);
 					if (generated.replacedId !== null) {
 						replaced.push(generated.replacedId);
@@ -1011,20 +1335,31 @@ const makeTaskRepositoryLive = (
 				}
 
 				return { created, replaced } as const;
-			}),
-		deleteTask: (id) =>
+			}).pipe(writeLock.withPermits(1)),
+		deleteTask: (id, revision) =>
 			Effect.gen(function* () {
 				const existing = yield* readTaskByIdFromDisk(dataDir, id);
+				if (revision !== undefined) {
+					yield* ensureTaskRevision(id, revision, existing.task.revision);
+				}
 				yield* deleteTaskFromDisk(existing.path, id);
+				yield* recordHistory(
+					buildHistoryEvent("deleted", existing.task, null, { actor }),
+				);
+				yield* recordJournal("delete", {
+					id,
+					before: existing.task,
+					after: null,
+				});
 				yield* runNonMutatingHooks("delete", existing.task, hookRuntimeOptions);
 				return { deleted: true } as const;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		setDailyHighlight: (id) =>
 			Effect.gen(function* () {
 				const existing = yield* readTaskByIdFromDisk(dataDir, id);
 				yield* writeDailyHighlightToDisk(dataDir, id);
 				return existing.task;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		getDailyHighlight: () =>
 			Effect.gen(function* () {
 				const source = yield* Effect.tryPromise({
@@ -1075,6 +1410,22 @@ const makeTaskRepositoryLive = (
 					.filter((task) => task.status === "active" && stalePredicate(task))
 					.sort(byUpdatedDescThenTitle);
 			}),
+		markSurfaced: (ids, date) =>
+			Effect.gen(function* () {
+				const surfaced = new Map<string, Task>();
+				for (const id of ids) {
+					if (surfaced.has(id)) {
+						continue;
+					}
+					const existing = yield* readTaskByIdFromDisk(dataDir, id);
+					const next = markTaskSurfaced(existing.task, date);
+					if (next !== existing.task) {
+						yield* writeTaskToDisk(existing.path, next);
+					}
+					surfaced.set(id, next);
+				}
+				return ids.map((id) => surfaced.get(id) as Task);
+			}).pipe(writeLock.withPermits(1)),
 		listWorkLog: (filters) =>
 			Effect.map(readWorkLogEntriesFromDisk(dataDir), (entries) =>
 				entries
@@ -1091,7 +1442,10 @@ const makeTaskRepositoryLive = (
 				const date = yield* toWorkLogDate(normalizedInput.started_at);
 
 				const created = decodeWorkLogEntry({
-					id: `${normalizedInput.task_id}-${timestamp}`,
+					id: uniqueWorkLogId(
+						`${normalizedInput.task_id}-${timestamp}`,
+						yield* readWorkLogEntriesFromDisk(dataDir),
+					),
 					task_id: normalizedInput.task_id,
 					started_at: normalizedInput.started_at,
 					ended_at: normalizedInput.ended_at,
@@ -1103,26 +1457,26 @@ const makeTaskRepositoryLive = (
 					created,
 				);
 				return created;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		updateWorkLogEntry: (id, patch) =>
 			Effect.gen(function* () {
 				const existing = yield* readWorkLogEntryByIdFromDisk(dataDir, id);
 				const updated = applyWorkLogPatch(existing.entry, patch);
 				yield* writeWorkLogEntryToDisk(existing.path, updated);
 				return updated;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		deleteWorkLogEntry: (id) =>
 			Effect.gen(function* () {
 				const existing = yield* readWorkLogEntryByIdFromDisk(dataDir, id);
 				yield* deleteWorkLogEntryFromDisk(existing.path, id);
 				return { deleted: true } as const;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		importTask: (task) =>
 			Effect.gen(function* () {
 				yield* ensureTasksDir(dataDir);
 				yield* writeTaskToDisk(taskFilePath(dataDir, task.id), task);
 				return task;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		importWorkLogEntry: (entry) =>
 			Effect.gen(function* () {
 				yield* ensureWorkLogDir(dataDir);
@@ -1131,7 +1485,7 @@ const makeTaskRepositoryLive = (
 					entry,
 				);
 				return entry;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		listProjects: (filters) =>
 			Effect.map(readProjectsFromDisk(dataDir), (projects) =>
 				applyListProjectFilters(projects, filters),
@@ -1147,26 +1501,26 @@ const makeTaskRepositoryLive = (
 					created,
 				);
 				return created;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		updateProject: (id, patch) =>
 			Effect.gen(function* () {
 				const existing = yield* readProjectByIdFromDisk(dataDir, id);
 				const updated = applyProjectPatch(existing.project, patch);
 				yield* writeProjectToDisk(existing.path, updated);
 				return updated;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		deleteProject: (id) =>
 			Effect.gen(function* () {
 				const existing = yield* readProjectByIdFromDisk(dataDir, id);
 				yield* deleteProjectFromDisk(existing.path, id);
 				return { deleted: true } as const;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		importProject: (project) =>
 			Effect.gen(function* () {
 				yield* ensureProjectsDir(dataDir);
 				yield* writeProjectToDisk(projectFilePath(dataDir, project.id), project);
 				return project;
-			}),
+			}).pipe(writeLock.withPermits(1)),
 		listContexts: () =>
 			Effect.map(readTasksFromDisk(dataDir), (tasks) =>
 				listContextsFromTasks(tasks),
@@ -1204,8 +1558,29 @@ const makeTaskRepositoryLive = (
 					taskFilePath(dataDir, taskFromHooks.id),
 					taskFromHooks,
 				);
+				yield* recordHistory(
+					buildHistoryEvent("created", null, taskFromHooks, {
+						actor,
+						sourceId: template.id,
+					}),
+				);
+				yield* recordJournal("create", {
+					id: taskFromHooks.id,
+					before: null,
+					after: taskFromHooks,
+				});
 				return taskFromHooks;
-			}),
+			}).pipe(writeLock.withPermits(1)),
+		getTaskHistory: (id) => readTaskHistory(dataDir, id),
+		listHistory: () => readHistoryEvents(dataDir),
+		undo: (steps = 1) =>
+			undoJournal(dataDir, steps, journalStore, actor).pipe(
+				writeLock.withPermits(1),
+			),
+		redo: (steps = 1) =>
+			redoJournal(dataDir, steps, journalStore, actor).pipe(
+				writeLock.withPermits(1),
+			),
 	};
 };
 
@@ -1262,15 +1637,49 @@ export const createTaskFromInput = (input: TaskCreateInput): Task => {
 	});
 };
 
+/**
+ * The task as `markSurfaced` stores it, or the same task when it was already
+ * surfaced on `date`.
+ */
+export const markTaskSurfaced = (task: Task, date: string): Task =>
+	task.last_surfaced?.slice(0, 10) === date
+		? task
+		: { ...task, last_surfaced: date, nudge_count: task.nudge_count + 1 };
+
+const surfacingPatchFields: ReadonlySet<string> = new Set([
+	"last_surfaced",
+	"nudge_count",
+]);
+
+/**
+ * Recording that a task was shown is bookkeeping rather than an edit, so a
+ * patch touching only `last_surfaced` and `nudge_count` keeps `updated` as it
+ * was and a stale task stays stale.
+ */
+const isSurfacingOnlyPatch = (patch: TaskPatch): boolean => {
+	const fields = Object.keys(patch);
+	return (
+		fields.length > 0 &&
+		fields.every((field) => surfacingPatchFields.has(field))
+	);
+};
+
 export const applyTaskPatch = (task: Task, patch: TaskPatch): Task => {
 	const normalizedTask = decodeTask(task);
 	const normalizedPatch = decodeTaskPatch(patch);
-	const { from_template: _stripped, ...safePatch } = normalizedPatch;
+	const {
+		from_template: _stripped,
+		revision: _expected,
+		...safePatch
+	} = normalizedPatch;
 
 	return decodeTask({
 		...normalizedTask,
 		...safePatch,
-		updated: todayIso(),
+		updated: isSurfacingOnlyPatch(safePatch)
+			? normalizedTask.updated
+			: todayIso(),
+		revision: normalizedTask.revision + 1,
 	});
 };
 
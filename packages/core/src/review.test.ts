@@ -0,0 +1,365 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
+import {
+	TaskRepository,
+	TaskRepositoryLive,
+	type TaskRepositoryService,
+} from "./repository.js";
+import {
+	applyReviewDecisions,
+	buildReview,
+	loadReviewProgress,
+	parseReviewDecisions,
+	recordReviewProgress,
+	reviewTaskPatch,
+} from "./review.js";
+import type { Project, Task } from "./schema.js";
+
+const makeTask = (overrides: Partial<Task> & Pick<Task, "id">): Task => ({
+	title: overrides.id,
+	description: "",
+	status: "active",
+	area: "work",
+	projects: [],
+	tags: [],
+	created: "2026-10-01",
+	updated: "2026-10-18",
+	urgency: "medium",
+	energy: "medium",
+	due: null,
+	context: "",
+	subtasks: [],
+	blocked_by: [],
+	estimated_minutes: null,
+	actual_minutes: null,
+	completed_at: null,
+	last_surfaced: null,
+	defer_until: null,
+	nudge_count: 0,
+	recurrence: null,
+	recurrence_trigger: "clock",
+	recurrence_strategy: "replace",
+	recurrence_last_generated: null,
+	related: [],
+	is_template: false,
+	from_template: null,
+	priority: null,
+	type: "task",
+	assignee: null,
+	parent: null,
+	close_reason: null,
+	comments: [],
+	revision: 0,
+	external_id: null,
+	...overrides,
+});
+
+const makeProject = (
+	overrides: Partial<Project> & Pick<Project, "id">,
+): Project => ({
+	title: overrides.id,
+	status: "active",
+	area: "work",
+	description: "",
+	tags: [],
+	created: "2026-09-01",
+	updated: "2026-09-01",
+	...overrides,
+});
+
+const today = "2026-10-19";
+
+describe("buildReview", () => {
+	it("lists overdue, stale and soon-due deferred tasks in that order", () => {
+		const items = buildReview(
+			[
+				makeTask({ id: "fresh" }),
+				makeTask({ id: "old", updated: "2026-09-01", nudge_count: 2 }),
+				makeTask({ id: "late", due: "2026-10-16", updated: "2026-09-01" }),
+				makeTask({ id: "waking", defer_until: "2026-10-24" }),
+				makeTask({ id: "sleeping", defer_until: "2026-12-01" }),
+				makeTask({ id: "finished", status: "done", due: "2026-10-01" }),
+			],
+			[],
+			{ today },
+		);
+
+		expect(items.map((item) => [item.kind, item.reason])).toEqual([
+			["overdue", "Due 2026-10-16, 3 days ago"],
+			["stale", "Untouched for 48 days, shown 2 times"],
+			["deferred", "Deferred until 2026-10-24"],
+		]);
+		expect(
+			items.map((item) => ("task" in item ? item.task.id : item.project.id)),
+		).toEqual(["late", "old", "waking"]);
+	});
+
+	it("honours the stale and defer windows", () => {
+		const items = buildReview(
+			[
+				makeTask({ id: "week-old", updated: "2026-10-10" }),
+				makeTask({ id: "waking", defer_until: "2026-10-24" }),
+			],
+			[],
+			{ today, staleDays: 7, deferWindowDays: 3 },
+		);
+
+		expect(items.map((item) => item.kind)).toEqual(["stale"]);
+	});
+
+	it("skips items already reviewed today but not tasks merely surfaced", () => {
+		const items = buildReview(
+			[
+				makeTask({ id: "late", due: "2026-10-01" }),
+				makeTask({ id: "shown", due: "2026-10-01", last_surfaced: today }),
+			],
+			[makeProject({ id: "empty" })],
+			{ today, reviewed: ["late", "empty"] },
+		);
+
+		expect(
+			items.map((item) => ("task" in item ? item.task.id : item.project.id)),
+		).toEqual(["shown"]);
+	});
+
+	it("flags active projects without an unblocked, undeferred next action", () => {
+		const items = buildReview(
+			[
+				makeTask({ id: "moving", projects: ["launch"] }),
+				makeTask({ id: "blocker", projects: ["infra"], status: "backlog" }),
+				makeTask({
+					id: "waiting",
+					projects: ["infra"],
+					blocked_by: ["blocker"],
+				}),
+				makeTask({
+					id: "parked",
+					projects: ["garden"],
+					defer_until: "2026-11-01",
+				}),
+			],
+			[
+				makeProject({ id: "launch" }),
+				makeProject({ id: "infra" }),
+				makeProject({ id: "garden" }),
+				makeProject({ id: "empty" }),
+				makeProject({ id: "closed", status: "done" }),
+			],
+			{ today },
+		);
+
+		expect(
+			items
+				.filter((item) => item.kind === "project")
+				.map((item) => ("project" in item ? item.project.id : null)),
+		).toEqual(["infra", "garden", "empty"]);
+	});
+});
+
+describe("reviewTaskPatch", () => {
+	const task = makeTask({ id: "late", nudge_count: 1 });
+
+	it("changes nothing to keep a task and sets the status to drop it", () => {
+		expect(
+			reviewTaskPatch(task, { id: "late", action: "keep" }, today),
+		).toEqual(Either.right({}));
+		expect(
+			reviewTaskPatch(task, { id: "late", action: "drop" }, today),
+		).toEqual(Either.right({ status: "dropped" }));
+	});
+
+	it("resolves defer dates and re-estimates", () => {
+		expect(
+			reviewTaskPatch(
+				task,
+				{ id: "late", action: "defer", until: "+7d" },
+				today,
+			),
+		).toEqual(Either.right({ defer_until: "2026-10-26" }));
+		expect(
+			reviewTaskPatch(
+				task,
+				{ id: "late", action: "estimate", minutes: 45 },
+				today,
+			),
+		).toEqual(Either.right({ estimated_minutes: 45 }));
+	});
+
+	it("rejects decisions missing their value", () => {
+		expect(
+			Either.isLeft(
+				reviewTaskPatch(task, { id: "late", action: "defer" }, today),
+			),
+		).toBe(true);
+		expect(
+			Either.isLeft(
+				reviewTaskPatch(
+					task,
+					{ id: "late", action: "defer", until: "someday" },
+					today,
+				),
+			),
+		).toBe(true);
+		expect(
+			Either.isLeft(
+				reviewTaskPatch(task, { id: "late", action: "estimate" }, today),
+			),
+		).toBe(true);
+	});
+});
+
+describe("parseReviewDecisions", () => {
+	it("reads a JSON array of decisions", async () => {
+		const decisions = await Effect.runPromise(
+			parseReviewDecisions(
+				'[{"id":"a","action":"keep"},{"id":"b","action":"defer","until":"+3d"}]',
+			),
+		);
+
+		expect(decisions).toEqual([
+			{ id: "a", action: "keep" },
+			{ id: "b", action: "defer", until: "+3d" },
+		]);
+	});
+
+	it("rejects unknown actions and malformed JSON", async () => {
+		const unknown = await Effect.runPromise(
+			Effect.either(parseReviewDecisions('[{"id":"a","action":"snooze"}]')),
+		);
+		const malformed = await Effect.runPromise(
+			Effect.either(parseReviewDecisions("[{")),
+		);
+
+		expect(Either.isLeft(unknown)).toBe(true);
+		expect(Either.isLeft(malformed)).toBe(true);
+	});
+});
+
+const withRepository = async <A>(
+	run: (repository: TaskRepositoryService) => Effect.Effect<A, string>,
+): Promise<A> => {
+	const dataDir = await mkdtemp(join(tmpdir(), "tasks-review-"));
+	try {
+		return await Effect.runPromise(
+			Effect.gen(function* () {
+				const repository = yield* TaskRepository;
+				return yield* run(repository);
+			}).pipe(Effect.provide(TaskRepositoryLive({ dataDir }))),
+		);
+	} finally {
+		await rm(dataDir, { recursive: true, force: true });
+	}
+};
+
+describe("applyReviewDecisions", () => {
+	it("updates tasks and drops projects", async () => {
+		const result = await withRepository((repository) =>
+			Effect.gen(function* () {
+				const task = yield* repository.createTask({ title: "Call plumber" });
+				const project = yield* repository.createProject({ title: "Garden" });
+				const results = yield* applyReviewDecisions(
+					repository,
+					[
+						{ id: task.id, action: "defer", until: "2026-10-30" },
+						{ id: project.id, action: "drop" },
+					],
+					today,
+				);
+				return {
+					results,
+					task: yield* repository.getTask(task.id),
+					project: yield* repository.getProject(project.id),
+				};
+			}),
+		);
+
+		expect(result.results.map((entry) => entry.action)).toEqual([
+			"defer",
+			"drop",
+		]);
+		expect(result.task).toMatchObject({
+			defer_until: "2026-10-30",
+			last_surfaced: today,
+			nudge_count: 1,
+		});
+		expect(result.project.status).toBe("dropped");
+	});
+
+	it("records a kept task as surfaced without editing it", async () => {
+		const result = await withRepository((repository) =>
+			Effect.gen(function* () {
+				const task = yield* repository.createTask({ title: "Call plumber" });
+				yield* applyReviewDecisions(
+					repository,
+					[{ id: task.id, action: "keep" }],
+					today,
+				);
+				return {
+					task,
+					kept: yield* repository.getTask(task.id),
+					history: yield* repository.getTaskHistory(task.id),
+				};
+			}),
+		);
+
+		expect(result.kept).toEqual({
+			...result.task,
+			last_surfaced: today,
+			nudge_count: 1,
+		});
+		expect(result.history.map((entry) => entry.event)).toEqual(["created"]);
+	});
+
+	it("fails for unknown ids and unsupported project decisions", async () => {
+		const result = await withRepository((repository) =>
+			Effect.gen(function* () {
+				const project = yield* repository.createProject({ title: "Garden" });
+				return {
+					missing: yield* Effect.either(
+						applyReviewDecisions(
+							repository,
+							[{ id: "nope", action: "keep" }],
+							today,
+						),
+					),
+					deferred: yield* Effect.either(
+						applyReviewDecisions(
+							repository,
+							[{ id: project.id, action: "defer", until: "+1d" }],
+							today,
+						),
+					),
+				};
+			}),
+		);
+
+		expect(result.missing).toEqual(
+			Either.left("Task or project not found: nope"),
+		);
+		expect(Either.isLeft(result.deferred)).toBe(true);
+	});
+});
+
+describe("review progress", () => {
+	it("remembers today's decisions and forgets earlier days", async () => {
+		const dataDir = await mkdtemp(join(tmpdir(), "tasks-review-progress-"));
+		try {
+			const read = (date: string) =>
+				Effect.runPromise(loadReviewProgress(dataDir, date));
+
+			expect(await read(today)).toEqual([]);
+			await Effect.runPromise(recordReviewProgress(dataDir, today, ["a"]));
+			await Effect.runPromise(
+				recordReviewProgress(dataDir, today, ["b", "a"]),
+			);
+			expect(await read(today)).toEqual(["a", "b"]);
+			expect(await read("2026-10-20")).toEqual([]);
+		} finally {
+			await rm(dataDir, { recursive: true, force: true });
+		}
+	});
+});
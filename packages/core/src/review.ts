@@ -0,0 +1,354 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
+import * as Schema from "effect/Schema";
+import YAML from "yaml";
+import { addDays } from "./dates.js";
+import { isBlocked, isStalerThan, resolveRelativeDate } from "./query.js";
+import type { TaskRepositoryService } from "./repository.js";
+import type { Project, Task, TaskPatch } from "./schema.js";
+
+export type ReviewKind = "overdue" | "stale" | "deferred" | "project";
+
+export type ReviewItem =
+	| {
+			readonly kind: "overdue" | "stale" | "deferred";
+			readonly reason: string;
+			readonly task: Task;
+	  }
+	| {
+			readonly kind: "project";
+			readonly reason: string;
+			readonly project: Project;
+	  };
+
+export interface ReviewOptions {
+	readonly today: string;
+	/** Active tasks untouched for longer than this are stale. */
+	readonly staleDays?: number;
+	/** How far ahead deferred tasks count as coming due. */
+	readonly deferWindowDays?: number;
+	/** Task and project ids already decided on in today's review. */
+	readonly reviewed?: ReadonlyArray<string>;
+}
+
+export type ReviewAction = "keep" | "defer" | "drop" | "estimate";
+
+export const reviewActions: ReadonlyArray<ReviewAction> = [
+	"keep",
+	"defer",
+	"drop",
+	"estimate",
+];
+
+/**
+ * One decision, naming a task (or, for `keep` and `drop`, a project) by id.
+ * `defer` needs `until` (a date, `today` or `+Nd`) and `estimate` needs
+ * `minutes`.
+ */
+export const ReviewDecision = Schema.Struct({
+	id: Schema.String,
+	action: Schema.Literal(...reviewActions),
+	until: Schema.optionalWith(Schema.String, { exact: true }),
+	minutes: Schema.optionalWith(Schema.Number, { exact: true }),
+});
+export type ReviewDecision = Schema.Schema.Type<typeof ReviewDecision>;
+
+export type ReviewResult =
+	| {
+			readonly id: string;
+			readonly action: ReviewAction;
+			readonly task: Task;
+	  }
+	| {
+			readonly id: string;
+			readonly action: ReviewAction;
+			readonly project: Project;
+	  };
+
+const decodeReviewDecisionsEither = Schema.decodeUnknownEither(
+	Schema.Array(ReviewDecision),
+);
+
+const dayMs = 86_400_000;
+
+const daysBetween = (from: string, to: string): number =>
+	Math.round(
+		(Date.parse(`${to.slice(0, 10)}T00:00:00.000Z`) -
+			Date.parse(`${from.slice(0, 10)}T00:00:00.000Z`)) /
+			dayMs,
+	);
+
+const plural = (count: number, word: string): string =>
+	`${count} ${word}${count === 1 ? "" : "s"}`;
+
+const isOpen = (task: Task): boolean =>
+	task.status !== "done" && task.status !== "dropped" && !task.is_template;
+
+/**
+ * Collects what a weekly review walks through, in order: overdue tasks,
+ * stale active tasks, deferred tasks coming due within the window and active
+ * projects without a next action (an open task that is neither blocked nor
+ * deferred). Each task is listed once, under the first kind it matches, and
+ * anything in `reviewed` is left out so an interrupted review picks up where
+ * it stopped.
+ */
+export const buildReview = (
+	tasks: ReadonlyArray<Task>,
+	projects: ReadonlyArray<Project>,
+	options: ReviewOptions,
+): Array<ReviewItem> => {
+	const { today } = options;
+	const staleDays = options.staleDays ?? 14;
+	const windowEnd = addDays(today, options.deferWindowDays ?? 7);
+	const isStale = isStalerThan(staleDays, today);
+	const reviewed = new Set(options.reviewed ?? []);
+	const candidates = tasks.filter(
+		(task) => isOpen(task) && !reviewed.has(task.id),
+	);
+	const listed = new Set<string>();
+	const take = (
+		kind: "overdue" | "stale" | "deferred",
+		matches: (task: Task) => boolean,
+		reason: (task: Task) => string,
+	): Array<ReviewItem> =>
+		candidates
+			.filter((task) => !listed.has(task.id) && matches(task))
+			.map((task) => {
+				listed.add(task.id);
+				return { kind, reason: reason(task), task };
+			});
+
+	const overdue = take(
+		"overdue",
+		(task) => task.due !== null && task.due < today,
+		(task) =>
+			`Due ${task.due}, ${plural(daysBetween(task.due ?? today, today), "day")} ago`,
+	);
+	const stale = take(
+		"stale",
+		(task) => task.status === "active" && isStale(task),
+		(task) =>
+			`Untouched for ${plural(daysBetween(task.updated, today), "day")}${task.nudge_count > 0 ? `, shown ${plural(task.nudge_count, "time")}` : ""}`,
+	);
+	const deferred = take(
+		"deferred",
+		(task) =>
+			task.defer_until !== null &&
+			task.defer_until >= today &&
+			task.defer_until <= windowEnd,
+		(task) => `Deferred until ${task.defer_until}`,
+	);
+
+	const hasNextAction = (project: Project): boolean =>
+		tasks.some(
+			(task) =>
+				task.projects.includes(project.id) &&
+				(task.status === "active" || task.status === "in_progress") &&
+				!task.is_template &&
+				!isBlocked(task, tasks as Array<Task>) &&
+				(task.defer_until === null || task.defer_until <= today),
+		);
+	const stalled = projects
+		.filter(
+			(project) =>
+				project.status === "active" &&
+				!reviewed.has(project.id) &&
+				!hasNextAction(project),
+		)
+		.map(
+			(project): ReviewItem => ({
+				kind: "project",
+				reason: "No active next action",
+				project,
+			}),
+		);
+
+	return [...overdue, ...stale, ...deferred, ...stalled];
+};
+
+const toErrorMessage = (error: unknown): string =>
+	error instanceof Error ? error.message : String(error);
+
+const ReviewProgress = Schema.Struct({
+	date: Schema.String,
+	reviewed: Schema.Array(Schema.String),
+});
+
+const decodeReviewProgressEither = Schema.decodeUnknownEither(ReviewProgress);
+
+const reviewProgressFilePath = (dataDir: string): string =>
+	join(dataDir, "review.yaml");
+
+/**
+ * The ids decided on in a review today, read from `review.yaml` in the data
+ * directory. Progress from an earlier day counts for nothing.
+ */
+export const loadReviewProgress = (
+	dataDir: string,
+	today: string,
+): Effect.Effect<Array<string>, string> =>
+	Effect.tryPromise({
+		try: async () => {
+			const path = reviewProgressFilePath(dataDir);
+			const source = await readFile(path, "utf8").catch((error: unknown) => {
+				if (
+					error !== null &&
+					typeof error === "object" &&
+					"code" in error &&
+					error.code === "ENOENT"
+				) {
+					return null;
+				}
+				throw error;
+			});
+
+			if (source === null || source.trim().length === 0) {
+				return [];
+			}
+
+			const result = decodeReviewProgressEither(YAML.parse(source));
+			if (Either.isLeft(result)) {
+				throw new Error(`Invalid review progress in ${path}`);
+			}
+
+			return result.right.date === today ? [...result.right.reviewed] : [];
+		},
+		catch: (error) =>
+			`Review progress loader failed: ${toErrorMessage(error)}`,
+	});
+
+/** Adds ids to today's review progress. */
+export const recordReviewProgress = (
+	dataDir: string,
+	today: string,
+	ids: ReadonlyArray<string>,
+): Effect.Effect<void, string> =>
+	Effect.gen(function* () {
+		const reviewed = yield* loadReviewProgress(dataDir, today);
+		const next = [...new Set([...reviewed, ...ids])];
+		yield* Effect.tryPromise({
+			try: async () => {
+				await mkdir(dataDir, { recursive: true });
+				await writeFile(
+					reviewProgressFilePath(dataDir),
+					YAML.stringify({ date: today, reviewed: next }),
+					"utf8",
+				);
+			},
+			catch: (error) =>
+				`Failed to write review progress: ${toErrorMessage(error)}`,
+		});
+	});
+
+/** Reads a JSON array of review decisions. */
+export const parseReviewDecisions = (
+	source: string,
+): Effect.Effect<ReadonlyArray<ReviewDecision>, string> =>
+	Effect.gen(function* () {
+		const records = yield* Effect.try({
+			try: (): unknown => JSON.parse(source),
+			catch: (error) => `Invalid review decisions: ${toErrorMessage(error)}`,
+		});
+		const result = decodeReviewDecisionsEither(records);
+		if (Either.isLeft(result)) {
+			return yield* Effect.fail(
+				`Invalid review decisions: expected an array of {"id", "action": ${reviewActions.map((action) => `"${action}"`).join("|")}}`,
+			);
+		}
+		return result.right;
+	});
+
+/**
+ * The edit a decision makes to a task: `defer` sets `defer_until`, `drop` the
+ * status and `estimate` the estimate, while `keep` changes nothing.
+ */
+export const reviewTaskPatch = (
+	task: Task,
+	decision: ReviewDecision,
+	today: string,
+): Either.Either<TaskPatch, string> => {
+	switch (decision.action) {
+		case "keep":
+			return Either.right({});
+		case "drop":
+			return Either.right({ status: "dropped" });
+		case "defer": {
+			if (decision.until === undefined) {
+				return Either.left(`Deferring ${task.id} needs a date`);
+			}
+			const until = resolveRelativeDate(decision.until, today);
+			return until === null
+				? Either.left(`Invalid defer date for ${task.id}: ${decision.until}`)
+				: Either.right({ defer_until: until });
+		}
+		case "estimate":
+			return decision.minutes === undefined ||
+				!Number.isFinite(decision.minutes) ||
+				decision.minutes < 0
+				? Either.left(`Re-estimating ${task.id} needs a number of minutes`)
+				: Either.right({ estimated_minutes: Math.round(decision.minutes) });
+	}
+};
+
+/**
+ * Applies one decision. An id naming a task edits it as `reviewTaskPatch`
+ * says and records it as surfaced today; one naming a project can only be
+ * kept (left as is) or dropped.
+ */
+export const applyReviewDecision = (
+	repository: TaskRepositoryService,
+	decision: ReviewDecision,
+	today: string,
+): Effect.Effect<ReviewResult, string> =>
+	Effect.gen(function* () {
+		const task = yield* repository
+			.getTask(decision.id)
+			.pipe(Effect.orElseSucceed(() => null));
+		if (task === null) {
+			const project = yield* repository
+				.getProject(decision.id)
+				.pipe(
+					Effect.mapError(() => `Task or project not found: ${decision.id}`),
+				);
+			if (decision.action === "keep") {
+				return { id: decision.id, action: decision.action, project };
+			}
+			if (decision.action === "drop") {
+				return {
+					id: decision.id,
+					action: decision.action,
+					project: yield* repository.updateProject(project.id, {
+						status: "dropped",
+					}),
+				};
+			}
+			return yield* Effect.fail(
+				`Projects can only be kept or dropped in a review: ${decision.id}`,
+			);
+		}
+
+		const patch = reviewTaskPatch(task, decision, today);
+		if (Either.isLeft(patch)) {
+			return yield* Effect.fail(patch.left);
+		}
+		if (Object.keys(patch.right).length > 0) {
+			yield* repository.updateTask(task.id, {
+				...patch.right,
+				revision: task.revision,
+			});
+		}
+		const [surfaced] = yield* repository.markSurfaced([task.id], today);
+		return { id: decision.id, action: decision.action, task: surfaced };
+	});
+
+/** Applies decisions in order, stopping at the first that fails. */
+export const applyReviewDecisions = (
+	repository: TaskRepositoryService,
+	decisions: ReadonlyArray<ReviewDecision>,
+	today: string,
+): Effect.Effect<Array<ReviewResult>, string> =>
+	Effect.forEach(decisions, (decision) =>
+		applyReviewDecision(repository, decision, today),
+	);
@@ -53,6 +53,8 @@ describe("schema", () => {
 			comments: [
 				{ text: "Started work", author: "simon", created: "2026-02-16" },
 			],
+			revision: 3,
+			external_id: "ics:abc@example.com",
 		};
 
 		const decode = Schema.decodeUnknownSync(Task);
@@ -62,6 +64,56 @@ describe("schema", () => {
 		expect(encode(decodedTask)).toEqual(encodedTask);
 	});
 
+	it("defaults revision and external_id for records written before them", () => {
+		const {
+			revision: _revision,
+			external_id: _externalId,
+			...legacy
+		} = Schema.encodeSync(Task)(
+			Schema.decodeUnknownSync(Task)({
+				id: "legacy",
+				title: "Legacy",
+				description: "",
+				status: "active",
+				area: "personal",
+				projects: [],
+				tags: [],
+				created: "2026-02-16",
+				updated: "2026-02-16",
+				urgency: "medium",
+				energy: "medium",
+				due: null,
+				context: "",
+				subtasks: [],
+				blocked_by: [],
+				estimated_minutes: null,
+				actual_minutes: null,
+				completed_at: null,
+				last_surfaced: null,
+				defer_until: null,
+				nudge_count: 0,
+				recurrence: null,
+				recurrence_trigger: "clock",
+				recurrence_strategy: "replace",
+				recurrence_last_generated: null,
+				related: [],
+				is_template: false,
+				from_template: null,
+				priority: null,
+				type: "task",
+				assignee: null,
+				parent: null,
+				close_reason: null,
+				comments: [],
+				revision: 7,
+				external_id: "ics:legacy",
+			}),
+		);
+
+		expect(Schema.decodeUnknownSync(Task)(legacy).revision).toBe(0);
+		expect(Schema.decodeUnknownSync(Task)(legacy).external_id).toBeNull();
+	});
+
 	it("round-trips TaskCreateInput and applies defaults", () => {
 		const decode = Schema.decodeUnknownSync(TaskCreateInput) as (
 			input: unknown,
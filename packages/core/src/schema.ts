@@ -74,6 +74,18 @@ export const Task = Schema.Struct({
 	parent: Schema.NullOr(Schema.String),
 	close_reason: Schema.NullOr(Schema.String),
 	comments: Schema.Array(Comment),
+	/**
+	 * Bumped on every write so concurrent writers can detect that the task
+	 * changed under them. Records written before it existed start at 0.
+	 */
+	revision: Schema.optionalWith(Schema.Number, { default: () => 0 }),
+	/**
+	 * Identifies the record this task was imported from, prefixed with its
+	 * source (e.g. `ics:<UID>`), so re-importing updates instead of duplicating.
+	 */
+	external_id: Schema.optionalWith(Schema.NullOr(Schema.String), {
+		default: () => null,
+	}),
 });
 export type Task = Schema.Schema.Type<typeof Task>;
 
@@ -167,6 +179,9 @@ export const TaskCreateInput = Schema.Struct({
 	comments: Schema.optionalWith(Schema.Array(Comment), {
 		default: () => [],
 	}),
+	external_id: Schema.optionalWith(Schema.NullOr(Schema.String), {
+		default: () => null,
+	}),
 });
 export type TaskCreateInput = Schema.Schema.Encoded<typeof TaskCreateInput>;
 
@@ -233,6 +248,11 @@ export const TaskPatch = Schema.Struct({
 	}),
 	description: Schema.optionalWith(Schema.String, { exact: true }),
 	comments: Schema.optionalWith(Schema.Array(Comment), { exact: true }),
+	external_id: Schema.optionalWith(Schema.NullOr(Schema.String), {
+		exact: true,
+	}),
+	/** The revision the caller last read; the write fails if it is stale. */
+	revision: Schema.optionalWith(Schema.Number, { exact: true }),
 });
 export type TaskPatch = Schema.Schema.Encoded<typeof TaskPatch>;
 
@@ -301,3 +321,56 @@ export const WorkLogPatch = Schema.Struct({
 	date: Schema.optionalWith(Schema.String, { exact: true }),
 });
 export type WorkLogPatch = Schema.Schema.Encoded<typeof WorkLogPatch>;
+
+export const TaskHistoryEventKind = Schema.Literal(
+	"created",
+	"updated",
+	"completed",
+	"deleted",
+	"recurrence_generated",
+	"undone",
+	"redone",
+);
+export type TaskHistoryEventKind = Schema.Schema.Type<
+	typeof TaskHistoryEventKind
+>;
+
+export const TaskFieldChange = Schema.Struct({
+	field: Schema.String,
+	from: Schema.Unknown,
+	to: Schema.Unknown,
+});
+export type TaskFieldChange = Schema.Schema.Type<typeof TaskFieldChange>;
+
+export const TaskHistoryEvent = Schema.Struct({
+	task_id: Schema.String,
+	event: TaskHistoryEventKind,
+	at: Schema.String,
+	actor: Schema.NullOr(Schema.String),
+	source_id: Schema.NullOr(Schema.String),
+	changes: Schema.Array(TaskFieldChange),
+});
+export type TaskHistoryEvent = Schema.Schema.Type<typeof TaskHistoryEvent>;
+
+export const JournalTaskChange = Schema.Struct({
+	id: Schema.String,
+	before: Schema.NullOr(Task),
+	after: Schema.NullOr(Task),
+});
+export type JournalTaskChange = Schema.Schema.Type<typeof JournalTaskChange>;
+
+export const JournalEntry = Schema.Struct({
+	operation: Schema.String,
+	at: Schema.String,
+	changes: Schema.Array(JournalTaskChange),
+	undone: Schema.Boolean,
+});
+export type JournalEntry = Schema.Schema.Type<typeof JournalEntry>;
+
+export const TimerState = Schema.Struct({
+	task_id: Schema.String,
+	/** Work log entries opened since `start`, oldest first. */
+	entry_ids: Schema.Array(Schema.String),
+	paused_at: Schema.NullOr(Schema.String),
+});
+export type TimerState = Schema.Schema.Type<typeof TimerState>;
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
+import {
+	loadSurfacingConfig,
+	maxNudgesFor,
+	needsDecision,
+	rotateSurfaced,
+} from "./surfacing.js";
+import { makeTask } from "./test-fixtures.js";
+
+const today = "2026-10-19";
+
+const withDataDir = async <A>(run: (dataDir: string) => Promise<A>) => {
+	const dataDir = await mkdtemp(join(tmpdir(), "tasks-surfacing-"));
+	try {
+		return await run(dataDir);
+	} finally {
+		await rm(dataDir, { recursive: true, force: true });
+	}
+};
+
+describe("rotateSurfaced", () => {
+	it("orders tasks by when they were last surfaced, oldest first", () => {
+		const rotated = rotateSurfaced([
+			makeTask({ id: "shown", last_surfaced: today }),
+			makeTask({ id: "yesterday", last_surfaced: "2026-10-18" }),
+			makeTask({ id: "never" }),
+			makeTask({ id: "shown-too", last_surfaced: today }),
+			makeTask({ id: "last-week", last_surfaced: "2026-10-12" }),
+		]);
+
+		expect(rotated.map((task) => task.id)).toEqual([
+			"never",
+			"last-week",
+			"yesterday",
+			"shown",
+			"shown-too",
+		]);
+	});
+});
+
+describe("needsDecision", () => {
+	it("uses the area limit, then the global one, then the default", () => {
+		const config = { max_nudges: 3, areas: { home: 8 } };
+
+		expect(maxNudgesFor(config, "home")).toBe(8);
+		expect(maxNudgesFor(config, "work")).toBe(3);
+		expect(maxNudgesFor({}, "work")).toBe(5);
+		expect(needsDecision(config)(makeTask({ id: "a", nudge_count: 3 }))).toBe(
+			true,
+		);
+		expect(
+			needsDecision(config)(
+				makeTask({ id: "b", area: "home", nudge_count: 3 }),
+			),
+		).toBe(false);
+	});
+});
+
+describe("loadSurfacingConfig", () => {
+	it("reads surfacing.yaml and defaults to an empty config", async () => {
+		const result = await withDataDir(async (dataDir) => {
+			const missing = await Effect.runPromise(loadSurfacingConfig(dataDir));
+			await writeFile(
+				join(dataDir, "surfacing.yaml"),
+				"max_nudges: 4\nareas:\n  home: 10\n",
+				"utf8",
+			);
+			const loaded = await Effect.runPromise(loadSurfacingConfig(dataDir));
+			await writeFile(
+				join(dataDir, "surfacing.yaml"),
+				"max_nudges: lots\n",
+				"utf8",
+			);
+			const invalid = await Effect.runPromise(
+				Effect.either(loadSurfacingConfig(dataDir)),
+			);
+			return { missing, loaded, invalid };
+		});
+
+		expect(result.missing).toEqual({});
+		expect(result.loaded).toEqual({ max_nudges: 4, areas: { home: 10 } });
+		expect(Either.isLeft(result.invalid)).toBe(true);
+	});
+});
@@ -0,0 +1,92 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
+import * as Schema from "effect/Schema";
+import YAML from "yaml";
+import type { Task } from "./schema.js";
+
+/** How many times a task is suggested before it asks for a decision. */
+export const defaultMaxNudges = 5;
+
+/**
+ * `surfacing.yaml` in the data directory. `max_nudges` applies to every area
+ * without its own entry under `areas`.
+ */
+export const SurfacingConfig = Schema.Struct({
+	max_nudges: Schema.optionalWith(Schema.Number, { exact: true }),
+	areas: Schema.optionalWith(
+		Schema.Record({ key: Schema.String, value: Schema.Number }),
+		{ exact: true },
+	),
+});
+export type SurfacingConfig = Schema.Schema.Type<typeof SurfacingConfig>;
+
+const decodeSurfacingConfigEither = Schema.decodeUnknownEither(SurfacingConfig);
+
+const surfacingConfigFilePath = (dataDir: string): string =>
+	join(dataDir, "surfacing.yaml");
+
+const toErrorMessage = (error: unknown): string =>
+	error instanceof Error ? error.message : String(error);
+
+export const parseSurfacingConfig = (
+	record: unknown,
+): SurfacingConfig | null => {
+	const result = decodeSurfacingConfigEither(record);
+	return Either.isRight(result) ? result.right : null;
+};
+
+export const loadSurfacingConfig = (
+	dataDir: string,
+): Effect.Effect<SurfacingConfig, string> =>
+	Effect.tryPromise({
+		try: async () => {
+			const path = surfacingConfigFilePath(dataDir);
+			const source = await readFile(path, "utf8").catch((error: unknown) => {
+				if (
+					error !== null &&
+					typeof error === "object" &&
+					"code" in error &&
+					error.code === "ENOENT"
+				) {
+					return null;
+				}
+				throw error;
+			});
+
+			if (source === null || source.trim().length === 0) {
+				return {};
+			}
+
+			const config = parseSurfacingConfig(YAML.parse(source));
+			if (config === null) {
+				throw new Error(`Invalid surfacing config in ${path}`);
+			}
+
+			return config;
+		},
+		catch: (error) =>
+			`Surfacing config loader failed: ${toErrorMessage(error)}`,
+	});
+
+export const maxNudgesFor = (config: SurfacingConfig, area: string): number =>
+	config.areas?.[area] ?? config.max_nudges ?? defaultMaxNudges;
+
+const surfacedOn = (task: Task): string =>
+	task.last_surfaced?.slice(0, 10) ?? "";
+
+/**
+ * Orders tasks by when they were last surfaced, never-surfaced first and the
+ * most recently surfaced last, keeping the given order among tasks surfaced
+ * on the same day. Suggestions thereby cycle through every candidate instead
+ * of offering the same one again the next day.
+ */
+export const rotateSurfaced = (tasks: ReadonlyArray<Task>): Array<Task> =>
+	[...tasks].sort((a, b) => surfacedOn(a).localeCompare(surfacedOn(b)));
+
+/** True once a task has been suggested as often as its area allows. */
+export const needsDecision =
+	(config: SurfacingConfig) =>
+	(task: Task): boolean =>
+		task.nudge_count >= maxNudgesFor(config, task.area);
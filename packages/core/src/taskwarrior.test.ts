@@ -0,0 +1,185 @@
+import { describe, expect, it } from "bun:test";
+import * as Effect from "effect/Effect";
+import {
+	formatTaskwarriorExport,
+	parseTaskwarriorExport,
+	rruleToTaskwarriorRecur,
+	taskwarriorRecurToRrule,
+	taskwarriorToImportedTasks,
+	taskwarriorUuid,
+	toTaskwarriorTasks,
+} from "./taskwarrior.js";
+import { makeTask } from "./test-fixtures.js";
+
+const exported = `[
+{"id":1,"description":"Renew passport","entry":"20261001T090000Z","modified":"20261002T090000Z","status":"waiting","due":"20261110T170000Z","wait":"20261101T000000Z","project":"Home.Admin","tags":["admin","travel"],"priority":"H","urgency":9.3,"annotations":[{"entry":"20261002T090000Z","description":"Needs new photos"}],"uuid":"9a1c0c3e-0000-4000-8000-000000000001","depends":["9a1c0c3e-0000-4000-8000-000000000002"]},
+{"id":2,"description":"Book photo booth","entry":"20261001T090000Z","status":"completed","end":"20261003T120000Z","uuid":"9a1c0c3e-0000-4000-8000-000000000002","urgency":0.8},
+{"id":0,"description":"Water plants","entry":"20261001T090000Z","status":"recurring","due":"20261005T000000Z","recur":"weekly","uuid":"9a1c0c3e-0000-4000-8000-000000000003"},
+{"id":3,"description":"Water plants","entry":"20261005T000000Z","status":"pending","due":"20261005T000000Z","recur":"weekly","parent":"9a1c0c3e-0000-4000-8000-000000000003","imask":0,"uuid":"9a1c0c3e-0000-4000-8000-000000000004"}
+]`;
+
+describe("Taskwarrior import", () => {
+	it("parses arrays and one-object-per-line exports", async () => {
+		const records = await Effect.runPromise(parseTaskwarriorExport(exported));
+		const lines = await Effect.runPromise(
+			parseTaskwarriorExport(
+				exported.split("\n").slice(1, -1).join("\n"),
+			),
+		);
+
+		expect(records.map((record) => record.uuid.slice(-1))).toEqual([
+			"1",
+			"2",
+			"3",
+			"4",
+		]);
+		expect(lines).toEqual(records);
+		expect(
+			await Effect.runPromise(
+				Effect.flip(parseTaskwarriorExport('[{"description":"x"}]')),
+			),
+		).toContain("Invalid Taskwarrior export");
+	});
+
+	it("maps records onto task input and skips spawned recurrences", async () => {
+		const items = taskwarriorToImportedTasks(
+			await Effect.runPromise(parseTaskwarriorExport(exported)),
+			"sam",
+		);
+
+		expect(items).toHaveLength(3);
+		expect(items[0]).toEqual({
+			input: {
+				title: "Renew passport",
+				status: "active",
+				created: "2026-10-01",
+				projects: ["Home.Admin"],
+				tags: ["admin", "travel"],
+				due: "2026-11-10",
+				defer_until: "2026-11-01",
+				urgency: "high",
+				comments: [
+					{ text: "Needs new photos", author: "sam", created: "2026-10-02" },
+				],
+				external_id: "taskwarrior:9a1c0c3e-0000-4000-8000-000000000001",
+			},
+			blocked_by: ["taskwarrior:9a1c0c3e-0000-4000-8000-000000000002"],
+		});
+		expect(items[1].input).toMatchObject({
+			status: "done",
+			completed_at: "2026-10-03T12:00:00.000Z",
+		});
+		expect(items[1].input.urgency).toBeUndefined();
+		expect(items[2].input).toMatchObject({
+			status: "active",
+			recurrence: "FREQ=WEEKLY",
+			recurrence_trigger: "clock",
+		});
+	});
+});
+
+describe("Taskwarrior recurrence", () => {
+	it("converts recur periods to RRULEs and back", () => {
+		expect(taskwarriorRecurToRrule("weekdays")).toBe(
+			"FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+		);
+		expect(taskwarriorRecurToRrule("2w")).toBe("FREQ=WEEKLY;INTERVAL=2");
+		expect(taskwarriorRecurToRrule("quarterly")).toBe(
+			"FREQ=MONTHLY;INTERVAL=3",
+		);
+		expect(taskwarriorRecurToRrule("P3D")).toBe("FREQ=DAILY;INTERVAL=3");
+		expect(taskwarriorRecurToRrule("6h")).toBeNull();
+
+		expect(rruleToTaskwarriorRecur("FREQ=MONTHLY")).toBe("monthly");
+		expect(rruleToTaskwarriorRecur("FREQ=WEEKLY;INTERVAL=2")).toBe("2w");
+		expect(rruleToTaskwarriorRecur("FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR")).toBe(
+			"weekdays",
+		);
+		expect(rruleToTaskwarriorRecur("FREQ=MONTHLY;BYMONTHDAY=15")).toBeNull();
+	});
+});
+
+describe("Taskwarrior export", () => {
+	const tasks = [
+		makeTask({
+			id: "ship",
+			title: "Ship release",
+			due: "2026-10-20",
+			defer_until: "2026-10-18",
+			projects: ["launch", "q4"],
+			tags: ["release"],
+			urgency: "high",
+			blocked_by: ["review"],
+			comments: [{ text: "After QA", author: "ana", created: "2026-10-02" }],
+		}),
+		makeTask({
+			id: "review",
+			status: "done",
+			completed_at: "2026-10-05T10:00:00.000Z",
+			external_id: "taskwarrior:9a1c0c3e-0000-4000-8000-000000000009",
+		}),
+		makeTask({
+			id: "standup",
+			due: "2026-10-20",
+			recurrence: "FREQ=DAILY",
+			urgency: "someday",
+		}),
+		makeTask({ id: "tpl", is_template: true }),
+	];
+
+	it("renders task export records with stable UUIDs", () => {
+		const [ship, review, standup, ...rest] = toTaskwarriorTasks(tasks);
+
+		expect(rest).toEqual([]);
+		expect(ship).toEqual({
+			uuid: taskwarriorUuid(tasks[0]),
+			description: "Ship release",
+			status: "pending",
+			entry: "20261001T000000Z",
+			modified: "20261001T000000Z",
+			due: "20261020T000000Z",
+			wait: "20261018T000000Z",
+			project: "launch",
+			tags: ["release"],
+			depends: ["9a1c0c3e-0000-4000-8000-000000000009"],
+			annotations: [{ entry: "20261002T000000Z", description: "After QA" }],
+			priority: "H",
+			tashks_id: "ship",
+			tashks_urgency: "high",
+		});
+		expect(ship.uuid).toMatch(
+			/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+		);
+		expect(toTaskwarriorTasks(tasks)[0].uuid).toBe(ship.uuid);
+		expect(review).toMatchObject({
+			uuid: "9a1c0c3e-0000-4000-8000-000000000009",
+			status: "completed",
+			end: "20261005T100000Z",
+		});
+		expect(standup).toMatchObject({ status: "recurring", recur: "daily" });
+		expect(standup.priority).toBeUndefined();
+	});
+
+	it("round-trips exported tasks back to their ids", async () => {
+		const source = formatTaskwarriorExport(toTaskwarriorTasks(tasks));
+		const items = taskwarriorToImportedTasks(
+			await Effect.runPromise(parseTaskwarriorExport(source)),
+			"sam",
+		);
+
+		expect(source.split("\n")).toHaveLength(6);
+		expect(items.map((item) => item.id)).toEqual(["ship", "review", "standup"]);
+		expect(items[0].blocked_by).toEqual(["review"]);
+		expect(items[0].input).toMatchObject({
+			projects: ["launch"],
+			due: "2026-10-20",
+			urgency: "high",
+			comments: [{ text: "After QA", author: "sam", created: "2026-10-02" }],
+		});
+		expect(items.map((item) => item.input.urgency)).toEqual([
+			"high",
+			"medium",
+			"someday",
+		]);
+	});
+});
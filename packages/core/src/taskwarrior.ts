@@ -0,0 +1,427 @@
+import { createHash } from "node:crypto";
+import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
+import * as Schema from "effect/Schema";
+import { defaultHistoryActor } from "./history.js";
+import { extractRrule } from "./ics.js";
+import type { ImportedTask } from "./importer.js";
+import type { Comment, Task, TaskCreateInput } from "./schema.js";
+
+export const TaskwarriorAnnotation = Schema.Struct({
+	entry: Schema.optionalWith(Schema.String, { exact: true }),
+	description: Schema.String,
+});
+export type TaskwarriorAnnotation = Schema.Schema.Type<
+	typeof TaskwarriorAnnotation
+>;
+
+/**
+ * One task as `task export` writes it. Only the attributes tashks maps are
+ * listed; the rest, such as `id`, `imask` or UDAs, are ignored on decode.
+ */
+export const TaskwarriorTask = Schema.Struct({
+	uuid: Schema.String,
+	description: Schema.String,
+	status: Schema.String,
+	entry: Schema.optionalWith(Schema.String, { exact: true }),
+	modified: Schema.optionalWith(Schema.String, { exact: true }),
+	end: Schema.optionalWith(Schema.String, { exact: true }),
+	due: Schema.optionalWith(Schema.String, { exact: true }),
+	wait: Schema.optionalWith(Schema.String, { exact: true }),
+	project: Schema.optionalWith(Schema.String, { exact: true }),
+	tags: Schema.optionalWith(Schema.Array(Schema.String), { exact: true }),
+	// Taskwarrior before 2.6 wrote dependencies as one comma-separated string.
+	depends: Schema.optionalWith(
+		Schema.Union(Schema.Array(Schema.String), Schema.String),
+		{ exact: true },
+	),
+	recur: Schema.optionalWith(Schema.String, { exact: true }),
+	parent: Schema.optionalWith(Schema.String, { exact: true }),
+	annotations: Schema.optionalWith(Schema.Array(TaskwarriorAnnotation), {
+		exact: true,
+	}),
+	priority: Schema.optionalWith(Schema.String, { exact: true }),
+	urgency: Schema.optionalWith(Schema.Number, { exact: true }),
+	/** A UDA tashks adds on export so the task finds its way back. */
+	tashks_id: Schema.optionalWith(Schema.String, { exact: true }),
+	/** A UDA carrying the urgency, which `priority` only approximates. */
+	tashks_urgency: Schema.optionalWith(Schema.String, { exact: true }),
+});
+export type TaskwarriorTask = Schema.Schema.Type<typeof TaskwarriorTask>;
+
+const decodeTaskwarriorTasksEither = Schema.decodeUnknownEither(
+	Schema.Array(TaskwarriorTask),
+);
+
+export const taskwarriorExternalIdPrefix = "taskwarrior:";
+
+const toErrorMessage = (error: unknown): string =>
+	error instanceof Error ? error.message : String(error);
+
+/**
+ * Reads `task export` output: a JSON array, or one object per line as
+ * older versions print with `json.array=off`.
+ */
+export const parseTaskwarriorExport = (
+	source: string,
+): Effect.Effect<ReadonlyArray<TaskwarriorTask>, string> =>
+	Effect.gen(function* () {
+		const trimmed = source.trim();
+		const records = yield* Effect.try({
+			try: (): unknown =>
+				trimmed.startsWith("[")
+					? JSON.parse(trimmed)
+					: trimmed
+							.split("\n")
+							.filter((line) => line.trim().length > 0)
+							.map((line) => JSON.parse(line.replace(/,\s*$/, ""))),
+			catch: (error) => `Invalid Taskwarrior export: ${toErrorMessage(error)}`,
+		});
+		const result = decodeTaskwarriorTasksEither(records);
+		if (Either.isLeft(result)) {
+			return yield* Effect.fail(
+				"Invalid Taskwarrior export: expected task objects with uuid, description and status",
+			);
+		}
+		return result.right;
+	});
+
+/** Taskwarrior writes dates as UTC `YYYYMMDDTHHMMSSZ`. */
+const fromTaskwarriorDate = (value: string | undefined): string | null => {
+	const match = value?.match(
+		/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/,
+	);
+	if (match === null || match === undefined) {
+		return null;
+	}
+	const [, year, month, day, hour, minute, second] = match;
+	return `${year}-${month}-${day}T${hour}:${minute}:${second}.000Z`;
+};
+
+const toTaskwarriorDate = (value: string): string =>
+	new Date(value.length === 10 ? `${value}T00:00:00.000Z` : value)
+		.toISOString()
+		.replace(/[-:]/g, "")
+		.replace(/\.\d{3}/, "");
+
+const namedRecurrences: Readonly<Record<string, string>> = {
+	daily: "FREQ=DAILY",
+	day: "FREQ=DAILY",
+	weekdays: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+	weekly: "FREQ=WEEKLY",
+	sennight: "FREQ=WEEKLY",
+	biweekly: "FREQ=WEEKLY;INTERVAL=2",
+	fortnight: "FREQ=WEEKLY;INTERVAL=2",
+	monthly: "FREQ=MONTHLY",
+	bimonthly: "FREQ=MONTHLY;INTERVAL=2",
+	quarterly: "FREQ=MONTHLY;INTERVAL=3",
+	semiannual: "FREQ=MONTHLY;INTERVAL=6",
+	annual: "FREQ=YEARLY",
+	yearly: "FREQ=YEARLY",
+	biannual: "FREQ=YEARLY;INTERVAL=2",
+	biyearly: "FREQ=YEARLY;INTERVAL=2",
+};
+
+const durationUnits: ReadonlyArray<readonly [RegExp, string, number]> = [
+	[/^(?:d|days?)$/, "DAILY", 1],
+	[/^(?:w|wks?|weeks?)$/, "WEEKLY", 1],
+	[/^(?:mo|mos|mths?|months?)$/, "MONTHLY", 1],
+	[/^(?:q|qtrs?|quarters?)$/, "MONTHLY", 3],
+	[/^(?:y|yrs?|years?)$/, "YEARLY", 1],
+];
+
+/**
+ * Converts a Taskwarrior `recur` value (`weekly`, `2w`, `P3D`, ...) to an
+ * RRULE. Returns null for periods an RRULE cannot express, such as hours.
+ */
+export const taskwarriorRecurToRrule = (recur: string): string | null => {
+	const value = recur.trim().toLowerCase();
+	const named = namedRecurrences[value];
+	if (named !== undefined) {
+		return named;
+	}
+
+	const match =
+		value.match(/^(\d*)\s*([a-z]+)$/) ?? value.match(/^p(\d+)([dwmy])$/);
+	if (match === null) {
+		return null;
+	}
+	const count = match[1] === "" ? 1 : Number.parseInt(match[1], 10);
+	const unit = match[2] === "m" ? "mo" : match[2];
+	const found = durationUnits.find(([pattern]) => pattern.test(unit));
+	if (found === undefined || count < 1) {
+		return null;
+	}
+	const [, freq, multiplier] = found;
+	const interval = count * multiplier;
+	return interval === 1 ? `FREQ=${freq}` : `FREQ=${freq};INTERVAL=${interval}`;
+};
+
+const rruleUnits: Readonly<Record<string, string>> = {
+	DAILY: "d",
+	WEEKLY: "w",
+	MONTHLY: "mo",
+	YEARLY: "y",
+};
+
+/**
+ * The inverse of {@link taskwarriorRecurToRrule}. Returns null for rules
+ * with parts Taskwarrior has no way to express, such as `BYMONTHDAY`.
+ */
+export const rruleToTaskwarriorRecur = (rrule: string): string | null => {
+	const parts = new Map(
+		rrule
+			.toUpperCase()
+			.split(";")
+			.map((part) => part.split("=") as [string, string]),
+	);
+	const freq = parts.get("FREQ");
+	const interval = Number.parseInt(parts.get("INTERVAL") ?? "1", 10);
+	const byDay = parts.get("BYDAY");
+	parts.delete("FREQ");
+	parts.delete("INTERVAL");
+	parts.delete("BYDAY");
+	if (
+		freq === undefined ||
+		rruleUnits[freq] === undefined ||
+		!(interval >= 1) ||
+		parts.size > 0
+	) {
+		return null;
+	}
+	if (byDay !== undefined) {
+		return freq === "WEEKLY" && interval === 1 && byDay === "MO,TU,WE,TH,FR"
+			? "weekdays"
+			: null;
+	}
+	if (interval === 1) {
+		return freq.toLowerCase();
+	}
+	return `${interval}${rruleUnits[freq]}`;
+};
+
+const taskStatusFromTaskwarrior = (status: string): string | undefined => {
+	switch (status) {
+		case "pending":
+		case "waiting":
+		case "recurring":
+			return "active";
+		case "completed":
+			return "done";
+		case "deleted":
+			return "dropped";
+		default:
+			return undefined;
+	}
+};
+
+const urgencyByPriority: Readonly<Record<string, string>> = {
+	H: "high",
+	M: "medium",
+	L: "low",
+};
+const priorityByUrgency: Readonly<Record<string, string>> = {
+	high: "H",
+	medium: "M",
+	low: "L",
+};
+// Taskwarrior's urgency coefficient for priority H: a task scoring at least
+// that without an explicit priority still counts as high urgency.
+const highUrgencyScore = 6;
+
+const urgencyFromTaskwarrior = (record: TaskwarriorTask): string | undefined =>
+	record.tashks_urgency !== undefined
+		? record.tashks_urgency
+		: record.priority !== undefined
+			? urgencyByPriority[record.priority.toUpperCase()]
+			: record.urgency !== undefined && record.urgency >= highUrgencyScore
+				? "high"
+				: undefined;
+
+const dependencyUuids = (record: TaskwarriorTask): ReadonlyArray<string> =>
+	typeof record.depends === "string"
+		? record.depends.split(",").filter((uuid) => uuid.length > 0)
+		: (record.depends ?? []);
+
+/**
+ * Maps `task export` records onto task input. Each record's UUID becomes a
+ * `taskwarrior:` external id, `wait` becomes `defer_until`, annotations
+ * become comments by `author` and the `tashks_urgency` UDA, `priority` or a
+ * high `urgency` score sets urgency. Instances of a recurring task are
+ * skipped when their parent is in the export, since the parent carries the
+ * recurrence.
+ */
+export const taskwarriorToImportedTasks = (
+	records: ReadonlyArray<TaskwarriorTask>,
+	author: string = defaultHistoryActor() ?? "",
+): Array<ImportedTask> => {
+	const uuids = new Set(records.map((record) => record.uuid));
+	// A dependency on a task tashks exported points back at the tashks id;
+	// anything else is found through its external id.
+	const references = new Map(
+		records.map((record) => [
+			record.uuid,
+			record.tashks_id ?? `${taskwarriorExternalIdPrefix}${record.uuid}`,
+		]),
+	);
+
+	return records
+		.filter((record) => record.parent === undefined || !uuids.has(record.parent))
+		.map((record) => {
+			const status = taskStatusFromTaskwarrior(record.status);
+			const created = fromTaskwarriorDate(record.entry);
+			const due = fromTaskwarriorDate(record.due);
+			const wait = fromTaskwarriorDate(record.wait);
+			const end = fromTaskwarriorDate(record.end);
+			const rrule =
+				record.recur !== undefined ? taskwarriorRecurToRrule(record.recur) : null;
+			const urgency = urgencyFromTaskwarrior(record);
+			const comments = (record.annotations ?? []).map(
+				(annotation): Comment => ({
+					text: annotation.description,
+					author,
+					created: (
+						fromTaskwarriorDate(annotation.entry) ??
+						created ??
+						new Date().toISOString()
+					).slice(0, 10),
+				}),
+			);
+			const depends = dependencyUuids(record);
+
+			const input: TaskCreateInput = {
+				title: record.description,
+				...(status !== undefined ? { status } : {}),
+				...(created !== null ? { created: created.slice(0, 10) } : {}),
+				...(record.project !== undefined ? { projects: [record.project] } : {}),
+				...(record.tags !== undefined ? { tags: record.tags } : {}),
+				...(due !== null ? { due: due.slice(0, 10) } : {}),
+				...(wait !== null ? { defer_until: wait.slice(0, 10) } : {}),
+				...(rrule !== null
+					? { recurrence: rrule, recurrence_trigger: "clock" as const }
+					: {}),
+				...(urgency !== undefined ? { urgency } : {}),
+				...(comments.length > 0 ? { comments } : {}),
+				...(status === "done" && end !== null ? { completed_at: end } : {}),
+				external_id: `${taskwarriorExternalIdPrefix}${record.uuid}`,
+			};
+
+			return {
+				input,
+				...(record.tashks_id !== undefined ? { id: record.tashks_id } : {}),
+				...(depends.length > 0
+					? {
+							blocked_by: depends.map(
+								(uuid) =>
+									references.get(uuid) ??
+									`${taskwarriorExternalIdPrefix}${uuid}`,
+							),
+						}
+					: {}),
+			};
+		});
+};
+
+const derivedUuid = (id: string): string => {
+	const hex = createHash("sha1").update(`tashks:${id}`).digest("hex");
+	const variant = ((Number.parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+	return [
+		hex.slice(0, 8),
+		hex.slice(8, 12),
+		`5${hex.slice(13, 16)}`,
+		`${variant}${hex.slice(17, 20)}`,
+		hex.slice(20, 32),
+	].join("-");
+};
+
+/**
+ * Taskwarrior needs a UUID per task. Imported tasks keep theirs; other tasks
+ * get a name-based (version 5 layout) UUID derived from the task id, so
+ * exporting twice yields the same UUIDs and `task import` updates in place.
+ */
+export const taskwarriorUuid = (task: Task): string =>
+	task.external_id?.startsWith(taskwarriorExternalIdPrefix) === true
+		? task.external_id.slice(taskwarriorExternalIdPrefix.length)
+		: derivedUuid(task.id);
+
+const taskwarriorStatus = (task: Task, recur: string | null): string => {
+	switch (task.status) {
+		case "done":
+			return "completed";
+		case "dropped":
+			return "deleted";
+		default:
+			// Taskwarrior spawns the instances of a recurring task from a
+			// `recurring` parent, which needs a due date to anchor on.
+			return recur !== null && task.due !== null ? "recurring" : "pending";
+	}
+};
+
+/**
+ * Converts tasks to `task export` records for `task import`. Only the first
+ * project is kept, since Taskwarrior allows one, and recurrences without a
+ * Taskwarrior equivalent are left out. Templates are skipped. Blockers are
+ * looked up in `known`, which defaults to the exported tasks. Urgency is
+ * written as `priority` where it has a letter and always as `tashks_urgency`.
+ */
+export const toTaskwarriorTasks = (
+	tasks: ReadonlyArray<Task>,
+	known: ReadonlyArray<Task> = tasks,
+): Array<TaskwarriorTask> => {
+	const uuidsById = new Map(
+		known.map((task) => [task.id, taskwarriorUuid(task)]),
+	);
+
+	return tasks
+		.filter((task) => !task.is_template)
+		.map((task): TaskwarriorTask => {
+			const rrule =
+				task.recurrence !== null && task.recurrence_trigger === "clock"
+					? extractRrule(task.recurrence)
+					: null;
+			const recur = rrule !== null ? rruleToTaskwarriorRecur(rrule) : null;
+			const priority = priorityByUrgency[task.urgency];
+			const depends = task.blocked_by.map(
+				(id) => uuidsById.get(id) ?? derivedUuid(id),
+			);
+
+			return {
+				uuid: taskwarriorUuid(task),
+				description: task.title,
+				status: taskwarriorStatus(task, recur),
+				entry: toTaskwarriorDate(task.created),
+				modified: toTaskwarriorDate(task.updated),
+				...((task.status === "done" || task.status === "dropped") &&
+				task.completed_at !== null
+					? { end: toTaskwarriorDate(task.completed_at) }
+					: {}),
+				...(task.due !== null ? { due: toTaskwarriorDate(task.due) } : {}),
+				...(task.defer_until !== null
+					? { wait: toTaskwarriorDate(task.defer_until) }
+					: {}),
+				...(task.projects.length > 0 ? { project: task.projects[0] } : {}),
+				...(task.tags.length > 0 ? { tags: task.tags } : {}),
+				...(depends.length > 0 ? { depends } : {}),
+				...(recur !== null ? { recur } : {}),
+				...(task.comments.length > 0
+					? {
+							annotations: task.comments.map((comment) => ({
+								entry: toTaskwarriorDate(comment.created),
+								description: comment.text,
+							})),
+						}
+					: {}),
+				...(priority !== undefined ? { priority } : {}),
+				tashks_id: task.id,
+				tashks_urgency: task.urgency,
+			};
+		});
+};
+
+/** Renders records the way `task export` prints them, one per line. */
+export const formatTaskwarriorExport = (
+	records: ReadonlyArray<TaskwarriorTask>,
+): string =>
+	records.length === 0
+		? "[]\n"
+		: `[\n${records.map((record) => JSON.stringify(record)).join(",\n")}\n]\n`;
@@ -0,0 +1,41 @@
+import type { Task } from "./schema.js";
+
+/** A minimal active task for tests; `title` defaults to the id. */
+export const makeTask = (overrides: Partial<Task> & Pick<Task, "id">): Task => ({
+	title: overrides.id,
+	description: "",
+	status: "active",
+	area: "work",
+	projects: [],
+	tags: [],
+	created: "2026-10-01",
+	updated: "2026-10-01",
+	urgency: "medium",
+	energy: "medium",
+	due: null,
+	context: "",
+	subtasks: [],
+	blocked_by: [],
+	estimated_minutes: null,
+	actual_minutes: null,
+	completed_at: null,
+	last_surfaced: null,
+	defer_until: null,
+	nudge_count: 0,
+	recurrence: null,
+	recurrence_trigger: "clock",
+	recurrence_strategy: "replace",
+	recurrence_last_generated: null,
+	related: [],
+	is_template: false,
+	from_template: null,
+	priority: null,
+	type: "task",
+	assignee: null,
+	parent: null,
+	close_reason: null,
+	comments: [],
+	revision: 0,
+	external_id: null,
+	...overrides,
+});
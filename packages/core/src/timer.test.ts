@@ -0,0 +1,139 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
+import {
+	TaskRepository,
+	TaskRepositoryLive,
+	type TaskRepositoryService,
+} from "./repository.js";
+import {
+	currentTimer,
+	pauseTimer,
+	readTimerState,
+	resumeTimer,
+	startTimer,
+	stopTimer,
+} from "./timer.js";
+
+const at = (time: string): Date => new Date(`2026-03-02T${time}:00.000Z`);
+
+const withRepository = async <A>(
+	run: (
+		repository: TaskRepositoryService,
+		dataDir: string,
+	) => Effect.Effect<A, string>,
+): Promise<A> => {
+	const dataDir = await mkdtemp(join(tmpdir(), "tasks-timer-"));
+	try {
+		return await Effect.runPromise(
+			Effect.gen(function* () {
+				const repository = yield* TaskRepository;
+				return yield* run(repository, dataDir);
+			}).pipe(Effect.provide(TaskRepositoryLive({ dataDir }))),
+		);
+	} finally {
+		await rm(dataDir, { recursive: true, force: true });
+	}
+};
+
+describe("timer", () => {
+	it("rolls every segment since start into actual_minutes on stop", async () => {
+		const result = await withRepository((repository, dataDir) =>
+			Effect.gen(function* () {
+				const task = yield* repository.createTask({
+					title: "Write report",
+					actual_minutes: 10,
+				});
+				yield* startTimer(repository, dataDir, task.id, { now: at("09:00") });
+				const paused = yield* pauseTimer(repository, dataDir, at("09:25"));
+				yield* resumeTimer(repository, dataDir, at("10:00"));
+				const running = yield* currentTimer(repository, dataDir, at("10:10"));
+				const stopped = yield* stopTimer(repository, dataDir, at("10:20"));
+				const after = yield* currentTimer(repository, dataDir, at("10:30"));
+				return { paused, running, stopped, after };
+			}),
+		);
+
+		expect([result.paused.state, result.paused.elapsed_minutes]).toEqual([
+			"paused",
+			25,
+		]);
+		expect([result.running.state, result.running.elapsed_minutes]).toEqual([
+			"running",
+			35,
+		]);
+		expect(result.stopped.logged_minutes).toBe(45);
+		expect(result.stopped.entries).toHaveLength(2);
+		expect(result.stopped.task.actual_minutes).toBe(55);
+		expect(result.after.state).toBe("idle");
+	});
+
+	it("refuses a second timer unless asked to auto-stop", async () => {
+		const result = await withRepository((repository, dataDir) =>
+			Effect.gen(function* () {
+				const first = yield* repository.createTask({ title: "First" });
+				const second = yield* repository.createTask({ title: "Second" });
+				yield* startTimer(repository, dataDir, first.id, { now: at("09:00") });
+				const refused = yield* Effect.either(
+					startTimer(repository, dataDir, second.id, { now: at("09:30") }),
+				);
+				const switched = yield* startTimer(repository, dataDir, second.id, {
+					now: at("09:30"),
+					autoStop: true,
+				});
+				const state = yield* readTimerState(dataDir);
+				return { first, refused, switched, state };
+			}),
+		);
+
+		expect(
+			Either.isLeft(result.refused) ? result.refused.left : null,
+		).toContain("A timer is already running for");
+		expect(result.switched.stopped?.task.id).toBe(result.first.id);
+		expect(result.switched.stopped?.logged_minutes).toBe(30);
+		expect(result.state?.task_id).toBe(result.switched.entry.task_id);
+	});
+
+	it("keeps both segments when a pause and resume fall in the same minute", async () => {
+		const result = await withRepository((repository, dataDir) =>
+			Effect.gen(function* () {
+				const task = yield* repository.createTask({ title: "Quick" });
+				yield* startTimer(repository, dataDir, task.id, { now: at("09:00") });
+				const start = at("09:00").getTime();
+				yield* pauseTimer(repository, dataDir, new Date(start + 20_000));
+				yield* resumeTimer(repository, dataDir, new Date(start + 40_000));
+				const stopped = yield* stopTimer(repository, dataDir, at("09:30"));
+				const entries = yield* repository.listWorkLog();
+				return { stopped, entries };
+			}),
+		);
+
+		expect(result.entries.map((entry) => entry.id).sort()).toEqual([
+			`${result.stopped.task.id}-20260302T0900`,
+			`${result.stopped.task.id}-20260302T0900-2`,
+		]);
+		expect(result.stopped.logged_minutes).toBe(30);
+	});
+
+	it("stops an entry opened by hand and fails when nothing runs", async () => {
+		const result = await withRepository((repository, dataDir) =>
+			Effect.gen(function* () {
+				const task = yield* repository.createTask({ title: "Manual" });
+				yield* repository.createWorkLogEntry({
+					task_id: task.id,
+					started_at: at("08:00").toISOString(),
+				});
+				const stopped = yield* stopTimer(repository, dataDir, at("08:15"));
+				const again = yield* Effect.either(stopTimer(repository, dataDir));
+				return { stopped, again };
+			}),
+		);
+
+		expect(result.stopped.logged_minutes).toBe(15);
+		expect(result.stopped.task.actual_minutes).toBe(15);
+		expect(Either.isLeft(result.again)).toBe(true);
+	});
+});
@@ -0,0 +1,290 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
+import * as Schema from "effect/Schema";
+import YAML from "yaml";
+import type { TaskRepositoryService } from "./repository.js";
+import {
+	TimerState as TimerStateSchema,
+	type Task,
+	type TimerState,
+	type WorkLogEntry,
+} from "./schema.js";
+
+const decodeTimerStateEither = Schema.decodeUnknownEither(TimerStateSchema);
+
+const toErrorMessage = (error: unknown): string =>
+	error instanceof Error ? error.message : String(error);
+
+export const timerFilePath = (dataDir: string): string =>
+	join(dataDir, "timer.yaml");
+
+export const readTimerState = (
+	dataDir: string,
+): Effect.Effect<TimerState | null, string> =>
+	Effect.tryPromise({
+		try: async () => {
+			const path = timerFilePath(dataDir);
+			const source = await readFile(path, "utf8").catch((error: unknown) => {
+				if (
+					error !== null &&
+					typeof error === "object" &&
+					"code" in error &&
+					error.code === "ENOENT"
+				) {
+					return null;
+				}
+				throw error;
+			});
+
+			if (source === null || source.trim().length === 0) {
+				return null;
+			}
+
+			const result = decodeTimerStateEither(YAML.parse(source));
+			if (Either.isLeft(result)) {
+				throw new Error(`Invalid timer state in ${path}`);
+			}
+			return result.right;
+		},
+		catch: (error) => `Failed to read timer state: ${toErrorMessage(error)}`,
+	});
+
+const writeTimerState = (
+	dataDir: string,
+	state: TimerState | null,
+): Effect.Effect<void, string> =>
+	Effect.tryPromise({
+		try: async () => {
+			if (state === null) {
+				await rm(timerFilePath(dataDir), { force: true });
+				return;
+			}
+			await mkdir(dataDir, { recursive: true });
+			await writeFile(timerFilePath(dataDir), YAML.stringify(state), "utf8");
+		},
+		catch: (error) => `Failed to write timer state: ${toErrorMessage(error)}`,
+	});
+
+export type TimerStateKind = "idle" | "running" | "paused";
+
+export interface TimerStatus {
+	readonly state: TimerStateKind;
+	readonly task_id: string | null;
+	/** The open work log entry while running. */
+	readonly entry: WorkLogEntry | null;
+	/** Minutes logged since `start`, counting the open entry up to now. */
+	readonly elapsed_minutes: number;
+	readonly paused_at: string | null;
+}
+
+export interface TimerStopResult {
+	readonly task: Task;
+	readonly entries: ReadonlyArray<WorkLogEntry>;
+	/** Minutes added to the task's `actual_minutes`. */
+	readonly logged_minutes: number;
+}
+
+export interface StartTimerOptions {
+	/** Stop whatever timer is running or paused instead of refusing. */
+	readonly autoStop?: boolean;
+	readonly now?: Date;
+}
+
+const entryMilliseconds = (entry: WorkLogEntry, now: Date): number => {
+	const start = Date.parse(entry.started_at);
+	const end = entry.ended_at === null ? now.getTime() : Date.parse(entry.ended_at);
+	return Number.isNaN(start) || Number.isNaN(end) ? 0 : Math.max(0, end - start);
+};
+
+const sessionMinutes = (
+	entries: ReadonlyArray<WorkLogEntry>,
+	now: Date,
+): number =>
+	Math.round(
+		entries.reduce((sum, entry) => sum + entryMilliseconds(entry, now), 0) /
+			60_000,
+	);
+
+const findOpenEntry = (
+	entries: ReadonlyArray<WorkLogEntry>,
+): WorkLogEntry | null =>
+	entries.find((entry) => entry.ended_at === null) ?? null;
+
+// The open entry is usually listed already, by the start or resume that
+// opened it; keep each id once.
+const appendEntryId = (
+	ids: ReadonlyArray<string>,
+	id: string,
+): Array<string> => [...ids.filter((existing) => existing !== id), id];
+
+export const currentTimer = (
+	repository: TaskRepositoryService,
+	dataDir: string,
+	now: Date = new Date(),
+): Effect.Effect<TimerStatus, string> =>
+	Effect.gen(function* () {
+		const state = yield* readTimerState(dataDir);
+		const entries = yield* repository.listWorkLog();
+		const open = findOpenEntry(entries);
+
+		if (state === null && open === null) {
+			return {
+				state: "idle",
+				task_id: null,
+				entry: null,
+				elapsed_minutes: 0,
+				paused_at: null,
+			} as const;
+		}
+
+		const ids = new Set([
+			...(state?.entry_ids ?? []),
+			...(open === null ? [] : [open.id]),
+		]);
+		return {
+			state: state?.paused_at != null ? "paused" : "running",
+			task_id: state?.task_id ?? open?.task_id ?? null,
+			entry: open,
+			elapsed_minutes: sessionMinutes(
+				entries.filter((entry) => ids.has(entry.id)),
+				now,
+			),
+			paused_at: state?.paused_at ?? null,
+		} as const;
+	});
+
+/**
+ * Closes the open entry and adds every entry logged since `start` to the
+ * task's `actual_minutes`. An entry opened by hand with `worklog create` is
+ * stopped the same way.
+ */
+export const stopTimer = (
+	repository: TaskRepositoryService,
+	dataDir: string,
+	now: Date = new Date(),
+): Effect.Effect<TimerStopResult, string> =>
+	Effect.gen(function* () {
+		const state = yield* readTimerState(dataDir);
+		const open = findOpenEntry(yield* repository.listWorkLog());
+		const taskId = state?.task_id ?? open?.task_id;
+		if (taskId === undefined) {
+			return yield* Effect.fail("No timer is running");
+		}
+
+		if (open !== null) {
+			yield* repository.updateWorkLogEntry(open.id, {
+				ended_at: now.toISOString(),
+			});
+		}
+
+		const ids = new Set([
+			...(state?.entry_ids ?? []),
+			...(open === null ? [] : [open.id]),
+		]);
+		const entries = (yield* repository.listWorkLog())
+			.filter((entry) => ids.has(entry.id))
+			.reverse();
+		const loggedMinutes = sessionMinutes(entries, now);
+
+		const existing = yield* repository.getTask(taskId);
+		const task = yield* repository.updateTask(taskId, {
+			actual_minutes: (existing.actual_minutes ?? 0) + loggedMinutes,
+		});
+		yield* writeTimerState(dataDir, null);
+
+		return { task, entries, logged_minutes: loggedMinutes };
+	});
+
+export const startTimer = (
+	repository: TaskRepositoryService,
+	dataDir: string,
+	taskId: string,
+	options: StartTimerOptions = {},
+): Effect.Effect<
+	{ readonly entry: WorkLogEntry; readonly stopped: TimerStopResult | null },
+	string
+> =>
+	Effect.gen(function* () {
+		const now = options.now ?? new Date();
+		const task = yield* repository.getTask(taskId);
+		if (task.is_template) {
+			return yield* Effect.fail(`Cannot track time on template ${taskId}`);
+		}
+
+		const status = yield* currentTimer(repository, dataDir, now);
+		let stopped: TimerStopResult | null = null;
+		if (status.state !== "idle") {
+			if (options.autoStop !== true) {
+				return yield* Effect.fail(
+					`A timer is already ${status.state} for ${status.task_id}; stop it first or pass --auto-stop`,
+				);
+			}
+			stopped = yield* stopTimer(repository, dataDir, now);
+		}
+
+		const entry = yield* repository.createWorkLogEntry({
+			task_id: taskId,
+			started_at: now.toISOString(),
+		});
+		yield* writeTimerState(dataDir, {
+			task_id: taskId,
+			entry_ids: [entry.id],
+			paused_at: null,
+		});
+
+		return { entry, stopped };
+	});
+
+/** Closes the open entry without touching `actual_minutes` until `stop`. */
+export const pauseTimer = (
+	repository: TaskRepositoryService,
+	dataDir: string,
+	now: Date = new Date(),
+): Effect.Effect<TimerStatus, string> =>
+	Effect.gen(function* () {
+		const state = yield* readTimerState(dataDir);
+		if (state?.paused_at != null) {
+			return yield* Effect.fail(`Timer for ${state.task_id} is already paused`);
+		}
+		const open = findOpenEntry(yield* repository.listWorkLog());
+		if (open === null) {
+			return yield* Effect.fail("No timer is running");
+		}
+
+		yield* repository.updateWorkLogEntry(open.id, {
+			ended_at: now.toISOString(),
+		});
+		yield* writeTimerState(dataDir, {
+			task_id: state?.task_id ?? open.task_id,
+			entry_ids: appendEntryId(state?.entry_ids ?? [], open.id),
+			paused_at: now.toISOString(),
+		});
+
+		return yield* currentTimer(repository, dataDir, now);
+	});
+
+export const resumeTimer = (
+	repository: TaskRepositoryService,
+	dataDir: string,
+	now: Date = new Date(),
+): Effect.Effect<TimerStatus, string> =>
+	Effect.gen(function* () {
+		const state = yield* readTimerState(dataDir);
+		if (state === null || state.paused_at === null) {
+			return yield* Effect.fail("No paused timer to resume");
+		}
+
+		const entry = yield* repository.createWorkLogEntry({
+			task_id: state.task_id,
+			started_at: now.toISOString(),
+		});
+		yield* writeTimerState(dataDir, {
+			task_id: state.task_id,
+			entry_ids: appendEntryId(state.entry_ids, entry.id),
+			paused_at: null,
+		});
+
+		return yield* currentTimer(repository, dataDir, now);
+	});
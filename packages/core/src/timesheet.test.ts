@@ -0,0 +1,226 @@
+import { describe, expect, it } from "bun:test";
+import type { Task, WorkLogEntry } from "./schema.js";
+import {
+	buildTimesheet,
+	formatTimesheetCsv,
+	formatTimesheetTable,
+	splitWorkLogEntry,
+} from "./timesheet.js";
+
+const makeTask = (overrides: Partial<Task> & Pick<Task, "id" | "title">): Task => ({
+	description: "",
+	status: "active",
+	area: "work",
+	projects: [],
+	tags: [],
+	created: "2026-10-01",
+	updated: "2026-10-01",
+	urgency: "medium",
+	energy: "medium",
+	due: null,
+	context: "",
+	subtasks: [],
+	blocked_by: [],
+	estimated_minutes: null,
+	actual_minutes: null,
+	completed_at: null,
+	last_surfaced: null,
+	defer_until: null,
+	nudge_count: 0,
+	recurrence: null,
+	recurrence_trigger: "clock",
+	recurrence_strategy: "replace",
+	recurrence_last_generated: null,
+	related: [],
+	is_template: false,
+	from_template: null,
+	priority: null,
+	type: "task",
+	assignee: null,
+	parent: null,
+	close_reason: null,
+	comments: [],
+	revision: 0,
+	external_id: null,
+	...overrides,
+});
+
+const entry = (
+	id: string,
+	taskId: string,
+	startedAt: string,
+	endedAt: string | null,
+): WorkLogEntry => ({
+	id,
+	task_id: taskId,
+	started_at: startedAt,
+	ended_at: endedAt,
+	date: startedAt.slice(0, 10),
+});
+
+const now = new Date("2026-10-20T12:00:00.000Z");
+
+const tasks = [
+	makeTask({ id: "api", title: "Build API", projects: ["acme"], tags: ["dev"] }),
+	makeTask({
+		id: "docs",
+		title: "Write, review docs",
+		area: "personal",
+		projects: ["acme", "globex"],
+		tags: [],
+	}),
+];
+
+const entries = [
+	entry("e1", "api", "2026-10-05T09:00:00.000Z", "2026-10-05T10:30:00.000Z"),
+	// Spans midnight: 90 minutes on the 5th, 60 on the 6th.
+	entry("e2", "docs", "2026-10-05T22:30:00.000Z", "2026-10-06T01:00:00.000Z"),
+	entry("e3", "gone", "2026-10-06T08:00:00.000Z", "2026-10-06T08:20:00.000Z"),
+	entry("e4", "api", "2026-10-20T11:15:00.000Z", null),
+	entry("e5", "api", "2026-09-30T23:00:00.000Z", "2026-10-01T00:30:00.000Z"),
+];
+
+describe("splitWorkLogEntry", () => {
+	it("splits entries at UTC midnight", () => {
+		expect(
+			splitWorkLogEntry(
+				entry("e", "t", "2026-10-05T22:30:00.000Z", "2026-10-07T00:15:00.000Z"),
+				now,
+			).map((segment) => [segment.date, segment.minutes]),
+		).toEqual([
+			["2026-10-05", 90],
+			["2026-10-06", 1440],
+			["2026-10-07", 15],
+		]);
+	});
+
+	it("counts open entries up to now and skips reversed ones", () => {
+		expect(
+			splitWorkLogEntry(entry("e", "t", "2026-10-20T11:15:00.000Z", null), now),
+		).toEqual([
+			{
+				entry_id: "e",
+				task_id: "t",
+				date: "2026-10-20",
+				minutes: 45,
+				open: true,
+			},
+		]);
+		expect(
+			splitWorkLogEntry(
+				entry("e", "t", "2026-10-20T11:15:00.000Z", "2026-10-20T11:00:00.000Z"),
+				now,
+			),
+		).toEqual([]);
+	});
+});
+
+describe("buildTimesheet", () => {
+	it("groups by day, clipping entries to the range", () => {
+		const timesheet = buildTimesheet(entries, tasks, {
+			groupBy: "day",
+			from: "2026-10-01",
+			to: "2026-10-31",
+			now,
+		});
+
+		expect(timesheet.rows.map((row) => [row.key, row.minutes])).toEqual([
+			["2026-10-01", 30],
+			["2026-10-05", 180],
+			["2026-10-06", 80],
+			["2026-10-20", 45],
+		]);
+		expect(timesheet.total).toEqual({
+			minutes: 335,
+			hours: 5.58,
+			entries: 5,
+			open_entries: 1,
+		});
+	});
+
+	it("credits multi-project tasks to each project but the total once", () => {
+		const timesheet = buildTimesheet(entries, tasks, {
+			groupBy: "project",
+			from: "2026-10-05",
+			to: "2026-10-06",
+			now,
+		});
+
+		expect(
+			timesheet.rows.map((row) => [row.key, row.minutes, row.entries]),
+		).toEqual([
+			["acme", 240, 2],
+			["globex", 150, 1],
+			["(none)", 20, 1],
+		]);
+		expect(timesheet.total.minutes).toBe(260);
+	});
+
+	it("labels task rows with titles and handles deleted tasks", () => {
+		const timesheet = buildTimesheet(entries, tasks, {
+			groupBy: "task",
+			from: "2026-10-05",
+			to: "2026-10-06",
+			now,
+		});
+
+		expect(timesheet.rows.map((row) => [row.key, row.label])).toEqual([
+			["docs", "Write, review docs"],
+			["api", "Build API"],
+			["gone", "(deleted task)"],
+		]);
+	});
+
+	it("groups by area and tag", () => {
+		const byArea = buildTimesheet(entries, tasks, { groupBy: "area", now });
+		expect(byArea.rows.map((row) => [row.key, row.minutes])).toEqual([
+			["work", 225],
+			["personal", 150],
+			["(none)", 20],
+		]);
+
+		const byTag = buildTimesheet(entries, tasks, { groupBy: "tag", now });
+		expect(byTag.rows.map((row) => [row.key, row.open_entries])).toEqual([
+			["dev", 1],
+			["(none)", 0],
+		]);
+	});
+});
+
+describe("timesheet formatting", () => {
+	const timesheet = buildTimesheet(entries, tasks, {
+		groupBy: "task",
+		from: "2026-10-05",
+		to: "2026-10-20",
+		now,
+	});
+
+	it("renders CSV with quoted cells", () => {
+		expect(formatTimesheetCsv(timesheet)).toBe(
+			[
+				"task,label,minutes,hours,entries,open_entries",
+				'docs,"Write, review docs",150,2.5,1,0',
+				"api,Build API,135,2.25,2,1",
+				"gone,(deleted task),20,0.33,1,0",
+				"",
+			].join("\r\n"),
+		);
+	});
+
+	it("renders an aligned table marking open entries", () => {
+		expect(formatTimesheetTable(timesheet)).toBe(
+			[
+				"TASK   TITLE                TIME  HOURS  ENTRIES",
+				"-----  ------------------  -----  -----  -------",
+				"docs   Write, review docs  2:30    2.50        1",
+				"api    Build API           2:15*   2.25        2",
+				"gone   (deleted task)      0:20    0.33        1",
+				"-----  ------------------  -----  -----  -------",
+				"TOTAL                      5:05*   5.08        4",
+				"",
+				"* includes open entries counted up to 2026-10-20T12:00:00.000Z",
+				"",
+			].join("\n"),
+		);
+	});
+});
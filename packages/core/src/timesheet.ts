@@ -0,0 +1,298 @@
+import { csvCell, roundTo2 } from "./format.js";
+import type { Task, WorkLogEntry } from "./schema.js";
+
+export type TimesheetGroupBy = "project" | "area" | "tag" | "task" | "day";
+
+export const timesheetGroupings: ReadonlyArray<TimesheetGroupBy> = [
+	"project",
+	"area",
+	"tag",
+	"task",
+	"day",
+];
+
+export type TimesheetFormat = "json" | "csv" | "table";
+
+export const timesheetFormats: ReadonlyArray<TimesheetFormat> = [
+	"json",
+	"csv",
+	"table",
+];
+
+/** Key used for tasks without a project or tag, and for deleted tasks. */
+export const timesheetNoneKey = "(none)";
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+/** The part of a work log entry that falls on a single UTC day. */
+export interface TimesheetSegment {
+	readonly entry_id: string;
+	readonly task_id: string;
+	readonly date: string;
+	readonly minutes: number;
+	/** The entry has no `ended_at` and was counted up to `now`. */
+	readonly open: boolean;
+}
+
+/**
+ * Splits an entry at UTC midnight so each day is credited with the time
+ * actually worked on it. Open entries run until `now`; entries with
+ * unparseable or reversed timestamps contribute nothing.
+ */
+export const splitWorkLogEntry = (
+	entry: WorkLogEntry,
+	now: Date = new Date(),
+): Array<TimesheetSegment> => {
+	const start = Date.parse(entry.started_at);
+	const end =
+		entry.ended_at === null ? now.getTime() : Date.parse(entry.ended_at);
+	if (Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+		return [];
+	}
+
+	const segments: Array<TimesheetSegment> = [];
+	let cursor = start;
+	while (cursor < end) {
+		const nextMidnight = (Math.floor(cursor / dayMs) + 1) * dayMs;
+		const segmentEnd = Math.min(end, nextMidnight);
+		segments.push({
+			entry_id: entry.id,
+			task_id: entry.task_id,
+			date: new Date(cursor).toISOString().slice(0, 10),
+			minutes: (segmentEnd - cursor) / 60_000,
+			open: entry.ended_at === null,
+		});
+		cursor = segmentEnd;
+	}
+	return segments;
+};
+
+export interface TimesheetOptions {
+	readonly groupBy: TimesheetGroupBy;
+	/** First day to include (`YYYY-MM-DD`, UTC). */
+	readonly from?: string;
+	/** Last day to include (`YYYY-MM-DD`, UTC). */
+	readonly to?: string;
+	readonly now?: Date;
+}
+
+export interface TimesheetRow {
+	readonly key: string;
+	/** The task title when grouping by task, otherwise the key. */
+	readonly label: string;
+	readonly minutes: number;
+	readonly hours: number;
+	/** Distinct work log entries contributing to this row. */
+	readonly entries: number;
+	readonly open_entries: number;
+}
+
+export interface TimesheetTotal {
+	readonly minutes: number;
+	readonly hours: number;
+	readonly entries: number;
+	readonly open_entries: number;
+}
+
+export interface Timesheet {
+	readonly from: string | null;
+	readonly to: string | null;
+	readonly group_by: TimesheetGroupBy;
+	/** The instant open entries were counted up to. */
+	readonly generated_at: string;
+	readonly rows: ReadonlyArray<TimesheetRow>;
+	readonly total: TimesheetTotal;
+}
+
+const groupKeys = (
+	groupBy: TimesheetGroupBy,
+	segment: TimesheetSegment,
+	task: Task | undefined,
+): ReadonlyArray<string> => {
+	switch (groupBy) {
+		case "day":
+			return [segment.date];
+		case "task":
+			return [segment.task_id];
+		case "area":
+			return [task?.area ?? timesheetNoneKey];
+		case "project":
+			return task === undefined || task.projects.length === 0
+				? [timesheetNoneKey]
+				: task.projects;
+		case "tag":
+			return task === undefined || task.tags.length === 0
+				? [timesheetNoneKey]
+				: task.tags;
+	}
+};
+
+interface Accumulator {
+	minutes: number;
+	readonly entries: Set<string>;
+	readonly openEntries: Set<string>;
+}
+
+const emptyAccumulator = (): Accumulator => ({
+	minutes: 0,
+	entries: new Set(),
+	openEntries: new Set(),
+});
+
+const addSegment = (accumulator: Accumulator, segment: TimesheetSegment) => {
+	accumulator.minutes += segment.minutes;
+	accumulator.entries.add(segment.entry_id);
+	if (segment.open) {
+		accumulator.openEntries.add(segment.entry_id);
+	}
+};
+
+/**
+ * Totals work log time per group between `from` and `to` inclusive. Minutes
+ * are summed exactly and rounded to two decimals per row, so the total is
+ * rounded once rather than being a sum of rounded rows.
+ *
+ * A task in several projects or tags counts in full towards each of them,
+ * so project and tag rows can add up to more than the total; the total
+ * always counts each minute once.
+ */
+export const buildTimesheet = (
+	entries: ReadonlyArray<WorkLogEntry>,
+	tasks: ReadonlyArray<Task>,
+	options: TimesheetOptions,
+): Timesheet => {
+	const now = options.now ?? new Date();
+	const tasksById = new Map(tasks.map((task) => [task.id, task]));
+	const groups = new Map<string, Accumulator>();
+	const total = emptyAccumulator();
+
+	for (const entry of entries) {
+		for (const segment of splitWorkLogEntry(entry, now)) {
+			if (
+				(options.from !== undefined && segment.date < options.from) ||
+				(options.to !== undefined && segment.date > options.to)
+			) {
+				continue;
+			}
+
+			addSegment(total, segment);
+			const task = tasksById.get(segment.task_id);
+			for (const key of groupKeys(options.groupBy, segment, task)) {
+				const accumulator = groups.get(key) ?? emptyAccumulator();
+				addSegment(accumulator, segment);
+				groups.set(key, accumulator);
+			}
+		}
+	}
+
+	const rows = Array.from(groups, ([key, accumulator]): TimesheetRow => {
+		const label =
+			options.groupBy === "task"
+				? (tasksById.get(key)?.title ?? "(deleted task)")
+				: key;
+		return {
+			key,
+			label,
+			minutes: roundTo2(accumulator.minutes),
+			hours: roundTo2(accumulator.minutes / 60),
+			entries: accumulator.entries.size,
+			open_entries: accumulator.openEntries.size,
+		};
+	});
+
+	rows.sort((a, b) =>
+		options.groupBy === "day"
+			? a.key.localeCompare(b.key)
+			: b.minutes - a.minutes || a.key.localeCompare(b.key),
+	);
+
+	return {
+		from: options.from ?? null,
+		to: options.to ?? null,
+		group_by: options.groupBy,
+		generated_at: now.toISOString(),
+		rows,
+		total: {
+			minutes: roundTo2(total.minutes),
+			hours: roundTo2(total.minutes / 60),
+			entries: total.entries.size,
+			open_entries: total.openEntries.size,
+		},
+	};
+};
+
+/** One row per group with a header line; totals are left to the consumer. */
+export const formatTimesheetCsv = (timesheet: Timesheet): string => {
+	const lines = [
+		[timesheet.group_by, "label", "minutes", "hours", "entries", "open_entries"],
+		...timesheet.rows.map((row) => [
+			row.key,
+			row.label,
+			row.minutes,
+			row.hours,
+			row.entries,
+			row.open_entries,
+		]),
+	].map((cells) => cells.map(csvCell).join(","));
+	return `${lines.join("\r\n")}\r\n`;
+};
+
+const formatDuration = (minutes: number): string => {
+	const whole = Math.round(minutes);
+	return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Aligned columns for the terminal. Rows that include open entries are
+ * marked with `*`, since their time keeps growing until the entry is closed.
+ */
+export const formatTimesheetTable = (timesheet: Timesheet): string => {
+	const showLabel = timesheet.group_by === "task";
+	// Pad unmarked durations so the digits stay aligned with marked ones.
+	const openMarker = (openEntries: number) =>
+		openEntries > 0 ? "*" : timesheet.total.open_entries > 0 ? " " : "";
+	const header = [
+		timesheet.group_by.toUpperCase(),
+		...(showLabel ? ["TITLE"] : []),
+		"TIME",
+		"HOURS",
+		"ENTRIES",
+	];
+	const body = timesheet.rows.map((row) => [
+		row.key,
+		...(showLabel ? [row.label] : []),
+		`${formatDuration(row.minutes)}${openMarker(row.open_entries)}`,
+		row.hours.toFixed(2),
+		String(row.entries),
+	]);
+	const footer = [
+		"TOTAL",
+		...(showLabel ? [""] : []),
+		`${formatDuration(timesheet.total.minutes)}${openMarker(timesheet.total.open_entries)}`,
+		timesheet.total.hours.toFixed(2),
+		String(timesheet.total.entries),
+	];
+
+	const all = [header, ...body, footer];
+	const widths = header.map((_, column) =>
+		Math.max(...all.map((cells) => cells[column].length)),
+	);
+	// Text columns are left aligned, numbers right aligned.
+	const textColumns = showLabel ? 2 : 1;
+	const render = (cells: ReadonlyArray<string>) =>
+		cells
+			.map((cell, column) =>
+				column < textColumns
+					? cell.padEnd(widths[column])
+					: cell.padStart(widths[column]),
+			)
+			.join("  ")
+			.trimEnd();
+	const rule = widths.map((width) => "-".repeat(width)).join("  ");
+
+	const lines = [render(header), rule, ...body.map(render), rule, render(footer)];
+	if (timesheet.total.open_entries > 0) {
+		lines.push("", `* includes open entries counted up to ${timesheet.generated_at}`);
+	}
+	return `${lines.join("\n")}\n`;
+};
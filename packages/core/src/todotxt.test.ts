@@ -0,0 +1,150 @@
+import { describe, expect, it } from "bun:test";
+import { makeTask } from "./test-fixtures.js";
+import {
+	formatTodoTxt,
+	formatTodoTxtLine,
+	parseTodoTxt,
+	parseTodoTxtLine,
+} from "./todotxt.js";
+
+describe("parseTodoTxtLine", () => {
+	it("reads priority, dates, projects, context and extensions", () => {
+		expect(
+			parseTodoTxtLine(
+				"(B) 2026-10-01 Call landlord +home +money @phone @errands due:2026-10-10 t:2026-10-05 url:https://example.com",
+			),
+		).toEqual({
+			input: {
+				title: "Call landlord @errands url:https://example.com",
+				status: "active",
+				created: "2026-10-01",
+				projects: ["home", "money"],
+				context: "phone",
+				due: "2026-10-10",
+				defer_until: "2026-10-05",
+				priority: 1,
+				external_id: "todotxt:Call landlord @errands url:https://example.com",
+			},
+		});
+	});
+
+	it("reads completion lines and tashks keys", () => {
+		expect(
+			parseTodoTxtLine(
+				"x 2026-10-03 2026-10-01 File taxes pri:A status:dropped id:taxes-1a2b",
+			),
+		).toEqual({
+			id: "taxes-1a2b",
+			input: {
+				title: "File taxes",
+				status: "dropped",
+				created: "2026-10-01",
+				priority: 0,
+				completed_at: "2026-10-03T00:00:00.000Z",
+				external_id: "todotxt:taxes-1a2b",
+			},
+		});
+		expect(parseTodoTxtLine("x Done without dates")?.input.status).toBe("done");
+		expect(parseTodoTxtLine("Reopened status:done")?.input.status).toBe(
+			"active",
+		);
+	});
+
+	it("skips blank and title-less lines", () => {
+		expect(parseTodoTxt("\n(A) +proj @ctx\nWrite tests\r\n   \n")).toEqual([
+			{
+				input: {
+					title: "Write tests",
+					status: "active",
+					external_id: "todotxt:Write tests",
+				},
+			},
+		]);
+	});
+
+	it("keeps repeated titles apart and keys on id: when present", () => {
+		expect(
+			parseTodoTxt(
+				"Call mom\nCall mom +family\nCall mom id:call-mom-1a2b\nCall mom\n",
+			).map((item) => item.input.external_id),
+		).toEqual([
+			"todotxt:Call mom",
+			"todotxt:Call mom#2",
+			"todotxt:call-mom-1a2b",
+			"todotxt:Call mom#3",
+		]);
+	});
+});
+
+describe("formatTodoTxt", () => {
+	const tasks = [
+		makeTask({
+			id: "call",
+			title: "Call landlord",
+			priority: 1,
+			projects: ["home", "side project"],
+			context: "phone",
+			due: "2026-10-10",
+			defer_until: "2026-10-05",
+			status: "in_progress",
+		}),
+		makeTask({
+			id: "taxes",
+			title: "File taxes",
+			priority: 0,
+			status: "done",
+			completed_at: "2026-10-03T00:00:00.000Z",
+		}),
+		makeTask({ id: "tpl", is_template: true }),
+	];
+
+	it("renders todo.txt lines and leaves out templates", () => {
+		expect(formatTodoTxt(tasks)).toBe(
+			[
+				"(B) 2026-10-01 Call landlord +home +side_project @phone due:2026-10-10 t:2026-10-05 status:in_progress id:call",
+				"x 2026-10-03 2026-10-01 File taxes pri:A id:taxes",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("round-trips the fields todo.txt supports", () => {
+		for (const task of tasks.slice(0, 2)) {
+			const item = parseTodoTxtLine(formatTodoTxtLine(task));
+
+			expect(item?.id).toBe(task.id);
+			expect(item?.input).toMatchObject({
+				title: task.title,
+				status: task.status,
+				created: task.created,
+				priority: task.priority,
+			});
+			expect(item?.input.due ?? null).toBe(task.due);
+			expect(item?.input.defer_until ?? null).toBe(task.defer_until);
+			expect(item?.input.completed_at ?? null).toBe(task.completed_at);
+		}
+	});
+
+	it("escapes title words that would read back as tokens", () => {
+		const titles = [
+			"Email +alice @ 5 about due:friday",
+			"x marks the spot",
+			"(A) grade for id:42 and C:\\temp \\@home",
+		];
+		const lines = titles.map((title) =>
+			formatTodoTxtLine(makeTask({ id: "t", title })),
+		);
+
+		expect(lines[0]).toBe(
+			"2026-10-01 Email \\+alice @ 5 about \\due:friday id:t",
+		);
+		expect(lines.map((line) => parseTodoTxtLine(line)?.input)).toEqual(
+			titles.map((title) => ({
+				title,
+				status: "active",
+				created: "2026-10-01",
+				external_id: "todotxt:t",
+			})),
+		);
+	});
+});
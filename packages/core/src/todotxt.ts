@@ -0,0 +1,204 @@
+import type { ImportedTask } from "./importer.js";
+import type { Task, TaskCreateInput } from "./schema.js";
+
+export const todoTxtExternalIdPrefix = "todotxt:";
+
+const isDate = (token: string | undefined): token is string =>
+	token !== undefined && /^\d{4}-\d{2}-\d{2}$/.test(token);
+
+// todo.txt priorities run from (A) to (Z); tashks counts from 0 as highest.
+const toPriorityLetter = (priority: number): string =>
+	String.fromCharCode(65 + Math.min(25, Math.max(0, Math.trunc(priority))));
+
+const fromPriorityLetter = (letter: string): number =>
+	letter.toUpperCase().charCodeAt(0) - 65;
+
+// Tokens are separated by spaces, so spaces inside a project or context
+// become underscores.
+const toToken = (value: string): string => value.trim().replace(/\s+/g, "_");
+
+const finishedStatuses: ReadonlySet<string> = new Set(["done", "dropped"]);
+
+// Title words that would read back as a `+project`, `@context` or `key:value`
+// get a leading backslash, which parsing strips again; words that already
+// start with one get another.
+const tokenLikeWord = /^(?:[+@\\].|(?:due|t|pri|status|id):\S)/;
+
+const escapeTitleWord = (word: string): string =>
+	tokenLikeWord.test(word) ? `\\${word}` : word;
+
+/**
+ * Parses one todo.txt line. Besides the core syntax (`x`, `(A)`, dates,
+ * `+project`, `@context`) it reads the `due:`, `t:` (threshold) and `pri:`
+ * extensions, plus the `status:` and `id:` keys tashks writes so its own
+ * exports round-trip. The first `@context` becomes `context`; any others stay
+ * in the title along with unknown `key:value` pairs, and a word escaped with
+ * a leading backslash is title text whatever it looks like. The
+ * `external_id` comes from `id:` when the line has one and from the title
+ * otherwise. Returns null for blank lines and lines with no title text.
+ */
+export const parseTodoTxtLine = (line: string): ImportedTask | null => {
+	const tokens = line.trim().split(/\s+/).filter((token) => token.length > 0);
+	let index = 0;
+	const done = tokens[0] === "x";
+	let completed: string | undefined;
+	let created: string | undefined;
+	let priority: number | undefined;
+
+	if (done) {
+		index++;
+		if (isDate(tokens[index])) {
+			completed = tokens[index++];
+			if (isDate(tokens[index])) {
+				created = tokens[index++];
+			}
+		}
+	} else {
+		const match = /^\(([A-Z])\)$/.exec(tokens[index] ?? "");
+		if (match !== null) {
+			priority = fromPriorityLetter(match[1]);
+			index++;
+		}
+		if (isDate(tokens[index])) {
+			created = tokens[index++];
+		}
+	}
+
+	const words: Array<string> = [];
+	const projects: Array<string> = [];
+	let context: string | undefined;
+	let due: string | undefined;
+	let threshold: string | undefined;
+	let status: string | undefined;
+	let id: string | undefined;
+
+	for (const token of tokens.slice(index)) {
+		const pair = token.match(/^(due|t|pri|status|id):(\S+)$/);
+		if (token.length > 1 && token.startsWith("\\")) {
+			words.push(token.slice(1));
+		} else if (token.length > 1 && token.startsWith("+")) {
+			projects.push(token.slice(1));
+		} else if (
+			token.length > 1 &&
+			token.startsWith("@") &&
+			context === undefined
+		) {
+			context = token.slice(1);
+		} else if (pair !== null && pair[1] === "due" && isDate(pair[2])) {
+			due = pair[2];
+		} else if (pair !== null && pair[1] === "t" && isDate(pair[2])) {
+			threshold = pair[2];
+		} else if (
+			pair !== null &&
+			pair[1] === "pri" &&
+			/^[A-Za-z]$/.test(pair[2])
+		) {
+			priority = fromPriorityLetter(pair[2]);
+		} else if (pair !== null && pair[1] === "status") {
+			status = pair[2];
+		} else if (pair !== null && pair[1] === "id") {
+			id = pair[2];
+		} else {
+			words.push(token);
+		}
+	}
+
+	const title = words.join(" ");
+	if (title.length === 0) {
+		return null;
+	}
+
+	// `x` decides whether the task is finished; `status:` only says how.
+	const resolvedStatus = done
+		? status === "dropped"
+			? "dropped"
+			: "done"
+		: status !== undefined && !finishedStatuses.has(status)
+			? status
+			: "active";
+
+	const input: TaskCreateInput = {
+		title,
+		status: resolvedStatus,
+		...(created !== undefined ? { created } : {}),
+		...(projects.length > 0 ? { projects: [...new Set(projects)] } : {}),
+		...(context !== undefined ? { context } : {}),
+		...(due !== undefined ? { due } : {}),
+		...(threshold !== undefined ? { defer_until: threshold } : {}),
+		...(priority !== undefined ? { priority } : {}),
+		...(completed !== undefined
+			? { completed_at: `${completed}T00:00:00.000Z` }
+			: {}),
+		external_id: `${todoTxtExternalIdPrefix}${id ?? title}`,
+	};
+	return id === undefined ? { input } : { input, id };
+};
+
+/**
+ * Parses a todo.txt file, skipping blank and title-less lines. Lines without an
+ * `id:` that repeat an earlier title get `#2`, `#3` and so on appended to their
+ * `external_id`, so each one stays a task of its own.
+ */
+export const parseTodoTxt = (source: string): Array<ImportedTask> => {
+	const seen = new Map<string, number>();
+	return source.split(/\r?\n/).flatMap((line) => {
+		const item = parseTodoTxtLine(line);
+		if (item === null) {
+			return [];
+		}
+		if (item.id !== undefined) {
+			return [item];
+		}
+		const externalId = item.input.external_id ?? "";
+		const occurrence = (seen.get(externalId) ?? 0) + 1;
+		seen.set(externalId, occurrence);
+		return [
+			occurrence === 1
+				? item
+				: {
+						...item,
+						input: {
+							...item.input,
+							external_id: `${externalId}#${occurrence}`,
+						},
+					},
+		];
+	});
+};
+
+/**
+ * Renders a task as a todo.txt line. Finished tasks are marked `x` with their
+ * completion date and keep their priority as `pri:`; statuses other than
+ * `active` and `done` are written as `status:`, and `id:` names the task so
+ * importing the file again updates it. Title words that look like tokens are
+ * escaped so the title reads back unchanged.
+ */
+export const formatTodoTxtLine = (task: Task): string => {
+	const finished = finishedStatuses.has(task.status);
+	const priority =
+		task.priority !== null ? toPriorityLetter(task.priority) : null;
+	const completed = (task.completed_at ?? task.updated).slice(0, 10);
+
+	return [
+		...(finished ? ["x", completed] : []),
+		...(!finished && priority !== null ? [`(${priority})`] : []),
+		task.created.slice(0, 10),
+		...task.title.trim().split(/\s+/).map(escapeTitleWord),
+		...task.projects.map((project) => `+${toToken(project)}`),
+		...(task.context.trim().length > 0 ? [`@${toToken(task.context)}`] : []),
+		...(task.due !== null ? [`due:${task.due}`] : []),
+		...(task.defer_until !== null ? [`t:${task.defer_until}`] : []),
+		...(finished && priority !== null ? [`pri:${priority}`] : []),
+		...(task.status !== "active" && task.status !== "done"
+			? [`status:${toToken(task.status)}`]
+			: []),
+		`id:${task.id}`,
+	].join(" ");
+};
+
+/** Renders tasks as a todo.txt file, leaving out templates. */
+export const formatTodoTxt = (tasks: ReadonlyArray<Task>): string =>
+	tasks
+		.filter((task) => !task.is_template)
+		.map((task) => `${formatTodoTxtLine(task)}\n`)
+		.join("");
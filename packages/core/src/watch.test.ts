@@ -0,0 +1,151 @@
+import { describe, expect, it } from "bun:test";
+import * as FileSystem from "@effect/platform/FileSystem";
+import * as Chunk from "effect/Chunk";
+import * as Effect from "effect/Effect";
+import * as Stream from "effect/Stream";
+import type { Task, WorkLogEntry } from "./schema.js";
+import { diffWatchSnapshots, watchSnapshots } from "./watch.js";
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+	id: "task-1",
+	title: "Task",
+	description: "",
+	status: "active",
+	area: "personal",
+	projects: [],
+	tags: [],
+	created: "2026-02-20",
+	updated: "2026-02-20",
+	urgency: "medium",
+	energy: "medium",
+	due: null,
+	context: "",
+	subtasks: [],
+	blocked_by: [],
+	estimated_minutes: null,
+	actual_minutes: null,
+	completed_at: null,
+	last_surfaced: null,
+	defer_until: null,
+	nudge_count: 0,
+	recurrence: null,
+	recurrence_trigger: "clock",
+	recurrence_strategy: "replace",
+	recurrence_last_generated: null,
+	related: [],
+	is_template: false,
+	from_template: null,
+	priority: null,
+	type: "task",
+	assignee: null,
+	parent: null,
+	close_reason: null,
+	comments: [],
+	revision: 0,
+	external_id: null,
+	...overrides,
+});
+
+const makeEntry = (overrides: Partial<WorkLogEntry> = {}): WorkLogEntry => ({
+	id: "entry-1",
+	task_id: "task-1",
+	started_at: "2026-02-20T09:00:00.000Z",
+	ended_at: null,
+	date: "2026-02-20",
+	...overrides,
+});
+
+describe("diffWatchSnapshots", () => {
+	it("reports created, updated and deleted tasks and entries", () => {
+		const kept = makeTask({ id: "kept", title: "Kept" });
+		const previous = {
+			tasks: [kept, makeTask({ id: "edited" }), makeTask({ id: "gone" })],
+			workLog: [makeEntry({ task_id: "kept" })],
+		};
+		const next = {
+			tasks: [
+				kept,
+				makeTask({ id: "edited", status: "done", revision: 1 }),
+				makeTask({ id: "new" }),
+			],
+			workLog: [
+				makeEntry({ task_id: "kept", ended_at: "2026-02-20T10:00:00.000Z" }),
+			],
+		};
+
+		const events = diffWatchSnapshots(previous, next, { at: "now" });
+		expect(
+			events.map((event) => [event.entity, event.event, event.id]),
+		).toEqual([
+			["task", "updated", "edited"],
+			["task", "created", "new"],
+			["task", "deleted", "gone"],
+			["worklog", "updated", "entry-1"],
+		]);
+		expect(events[0]?.changes).toEqual([
+			{ field: "status", from: "active", to: "done" },
+		]);
+		expect(events.every((event) => event.at === "now")).toBe(true);
+	});
+
+	it("keeps events where either side matches the filter", () => {
+		const previous = {
+			tasks: [
+				makeTask({ id: "leaving", tags: ["urgent"] }),
+				makeTask({ id: "other" }),
+			],
+			workLog: [],
+		};
+		const next = {
+			tasks: [
+				makeTask({ id: "leaving" }),
+				makeTask({ id: "other", title: "Renamed" }),
+			],
+			workLog: [
+				makeEntry({ id: "e1", task_id: "leaving" }),
+				makeEntry({ id: "e2", task_id: "other" }),
+			],
+		};
+
+		const events = diffWatchSnapshots(previous, next, {
+			filter: (task) => task.tags.includes("urgent"),
+		});
+		expect(events.map((event) => [event.entity, event.id])).toEqual([
+			["task", "leaving"],
+			["worklog", "e1"],
+		]);
+	});
+});
+
+describe("watchSnapshots", () => {
+	it("re-reads the snapshot after changes to the watched files", async () => {
+		const snapshots = [
+			{ tasks: [makeTask({ id: "a" })], workLog: [] },
+			{ tasks: [makeTask({ id: "a" }), makeTask({ id: "b" })], workLog: [] },
+		];
+		let reads = 0;
+		const fileSystem = FileSystem.layerNoop({
+			makeDirectory: () => Effect.void,
+			watch: () =>
+				Stream.fromIterable([
+					FileSystem.WatchEventUpdate({ path: "projects.yaml" }),
+					FileSystem.WatchEventUpdate({ path: "tasks.yaml" }),
+				]),
+		});
+
+		const events = await Effect.runPromise(
+			watchSnapshots({
+				files: ["/data/tasks.yaml", "/data/worklog.yaml"],
+				snapshot: Effect.sync(
+					() => snapshots[Math.min(reads++, snapshots.length - 1)],
+				),
+				debounce: "5 millis",
+			}).pipe(Stream.runCollect, Effect.provide(fileSystem)),
+		);
+
+		expect(
+			Chunk.toArray(events).map((event) => [event.event, event.id]),
+		).toEqual([["created", "b"]]);
+		expect(reads).toBe(2);
+	});
+});
@@ -0,0 +1,184 @@
+import { basename, dirname } from "node:path";
+import * as FileSystem from "@effect/platform/FileSystem";
+import type { PlatformError } from "@effect/platform/Error";
+import * as Duration from "effect/Duration";
+import * as Effect from "effect/Effect";
+import * as Stream from "effect/Stream";
+import { diffTaskFields } from "./history.js";
+import type { Task, TaskFieldChange, WorkLogEntry } from "./schema.js";
+
+export interface WatchSnapshot {
+	readonly tasks: ReadonlyArray<Task>;
+	readonly workLog: ReadonlyArray<WorkLogEntry>;
+}
+
+export type WatchEventKind = "created" | "updated" | "deleted";
+
+export interface TaskWatchEvent {
+	readonly entity: "task";
+	readonly event: WatchEventKind;
+	readonly id: string;
+	readonly at: string;
+	readonly changes: ReadonlyArray<TaskFieldChange>;
+	/** The task after the change, or before it for deletions. */
+	readonly task: Task;
+}
+
+export interface WorkLogWatchEvent {
+	readonly entity: "worklog";
+	readonly event: WatchEventKind;
+	readonly id: string;
+	readonly at: string;
+	readonly changes: ReadonlyArray<TaskFieldChange>;
+	/** The entry after the change, or before it for deletions. */
+	readonly entry: WorkLogEntry;
+}
+
+export type WatchEvent = TaskWatchEvent | WorkLogWatchEvent;
+
+export interface WatchDiffOptions {
+	readonly at?: string;
+	/**
+	 * Keeps task events where either side of the change matches, so a task
+	 * that stops matching is still reported once. Work log events follow the
+	 * task they belong to.
+	 */
+	readonly filter?: (task: Task) => boolean;
+}
+
+const diffRecords = <A extends Task | WorkLogEntry>(
+	previous: ReadonlyArray<A>,
+	next: ReadonlyArray<A>,
+): Array<{
+	readonly event: WatchEventKind;
+	readonly before: A | null;
+	readonly after: A | null;
+}> => {
+	const previousById = new Map(previous.map((record) => [record.id, record]));
+	const nextIds = new Set(next.map((record) => record.id));
+	const diffs: Array<{
+		readonly event: WatchEventKind;
+		readonly before: A | null;
+		readonly after: A | null;
+	}> = [];
+
+	for (const record of next) {
+		const before = previousById.get(record.id);
+		if (before === undefined) {
+			diffs.push({ event: "created", before: null, after: record });
+		} else if (JSON.stringify(before) !== JSON.stringify(record)) {
+			diffs.push({ event: "updated", before, after: record });
+		}
+	}
+	for (const record of previous) {
+		if (!nextIds.has(record.id)) {
+			diffs.push({ event: "deleted", before: record, after: null });
+		}
+	}
+
+	return diffs;
+};
+
+/**
+ * Lists the task and work log changes between two snapshots: creations and
+ * updates in the order of `next`, followed by deletions.
+ */
+export const diffWatchSnapshots = (
+	previous: WatchSnapshot,
+	next: WatchSnapshot,
+	options: WatchDiffOptions = {},
+): Array<WatchEvent> => {
+	const at = options.at ?? new Date().toISOString();
+	const filter = options.filter;
+	const matches = (task: Task | null | undefined): boolean =>
+		task !== null && task !== undefined && (filter?.(task) ?? true);
+
+	const previousTasks = new Map(previous.tasks.map((task) => [task.id, task]));
+	const nextTasks = new Map(next.tasks.map((task) => [task.id, task]));
+
+	const taskEvents = diffRecords(previous.tasks, next.tasks)
+		.filter(
+			({ before, after }) =>
+				filter === undefined || matches(before) || matches(after),
+		)
+		.map(
+			({ event, before, after }): TaskWatchEvent => ({
+				entity: "task",
+				event,
+				id: (after ?? before)?.id ?? "",
+				at,
+				changes: event === "deleted" ? [] : diffTaskFields(before, after),
+				task: (after ?? before) as Task,
+			}),
+		);
+
+	const workLogEvents = diffRecords(previous.workLog, next.workLog)
+		.filter(({ before, after }) => {
+			if (filter === undefined) {
+				return true;
+			}
+			const taskId = (after ?? before)?.task_id ?? "";
+			return matches(nextTasks.get(taskId)) || matches(previousTasks.get(taskId));
+		})
+		.map(
+			({ event, before, after }): WorkLogWatchEvent => ({
+				entity: "worklog",
+				event,
+				id: (after ?? before)?.id ?? "",
+				at,
+				changes: event === "deleted" ? [] : diffTaskFields(before, after),
+				entry: (after ?? before) as WorkLogEntry,
+			}),
+		);
+
+	return [...taskEvents, ...workLogEvents];
+};
+
+export interface WatchOptions {
+	/** Files whose changes trigger a new snapshot. */
+	readonly files: ReadonlyArray<string>;
+	/** Reads the current state, typically through `listTasks`/`listWorkLog`. */
+	readonly snapshot: Effect.Effect<WatchSnapshot, string>;
+	readonly filter?: (task: Task) => boolean;
+	/** Quiet period to wait for after a burst of file events. */
+	readonly debounce?: Duration.DurationInput;
+}
+
+/**
+ * Streams the changes made to `files` as watch events. Each file's directory
+ * is watched rather than the file itself so editors and stores that replace
+ * the file on save keep being followed. A snapshot that fails to load, such
+ * as one read mid-write, is skipped and the next file event diffs against
+ * the last good one.
+ */
+export const watchSnapshots = (
+	options: WatchOptions,
+): Stream.Stream<WatchEvent, string | PlatformError, FileSystem.FileSystem> =>
+	Stream.unwrap(
+		Effect.gen(function* () {
+			const fs = yield* FileSystem.FileSystem;
+			const directories = [
+				...new Set(options.files.map((file) => dirname(file))),
+			];
+			const names = new Set(options.files.map((file) => basename(file)));
+			for (const directory of directories) {
+				yield* fs.makeDirectory(directory, { recursive: true });
+			}
+
+			const initial = yield* options.snapshot;
+			return Stream.mergeAll(
+				directories.map((directory) => fs.watch(directory)),
+				{ concurrency: "unbounded" },
+			).pipe(
+				Stream.filter((event) => names.has(basename(event.path))),
+				Stream.debounce(options.debounce ?? Duration.millis(100)),
+				Stream.mapEffect(() => Effect.option(options.snapshot)),
+				Stream.filterMap((snapshot) => snapshot),
+				Stream.mapAccum(initial, (previous, next) => [
+					next,
+					diffWatchSnapshots(previous, next, { filter: options.filter }),
+				]),
+				Stream.flattenIterables,
+			);
+		}),
+	);